@@ -0,0 +1,91 @@
+/**
+ * auditctl adverse-action command - Generate a Reg B adverse action notice for a loan
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { AuditLogger } from '../lib/logger';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_KEYS_DIR, loadSigner } from '../lib/keys';
+import {
+  buildAdverseActionNotice,
+  createReasonCodes,
+  logAdverseActionNotice,
+  renderAdverseActionNotice,
+} from '../lib/adverse-action';
+
+export function createAdverseActionCommand(): Command {
+  const adverseAction = new Command('adverse-action')
+    .description('Generate an adverse action notice from the latest declined or countered decision')
+    .requiredOption('--loan-id <id>', 'Loan/application identifier')
+    .option('--reason-codes <path>', 'Reason code mapping (default: ./adverse-action-reasons.json if present)')
+    .option('--template <path>', 'Notice template with {{placeholders}}')
+    .option('--notice-date <date>', 'Date the notice will be delivered (ISO-8601, default now)')
+    .option('--creditor <text>', 'Creditor name and address')
+    .option('--applicant <name>', 'Applicant name')
+    .option('--agency <text>', 'Federal agency that administers ECOA compliance for the creditor')
+    .option('--dry-run', 'Render the notice without logging it')
+    .option('--sign-key <keyId>', 'Sign the notice entry with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--operator <name>', 'Operator identifier')
+    .option('--format <type>', 'Output format (text|json)', 'text')
+    .option('-o, --output <path>', 'Write the notice to a file (stdout if not specified)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const noticeDate = options.noticeDate ? new Date(options.noticeDate) : new Date();
+        if (isNaN(noticeDate.getTime())) {
+          throw new Error(`Invalid --notice-date: ${options.noticeDate}`);
+        }
+        const table = createReasonCodes(options.reasonCodes);
+        const template = options.template ? fs.readFileSync(options.template, 'utf-8') : undefined;
+        const signer = options.signKey
+          ? loadSigner(options.signKey, options.keysDir)
+          : undefined;
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+          signer,
+        });
+
+        const notice = buildAdverseActionNotice(options.loanId, await storage.query({ loanId: options.loanId }), {
+          table,
+          noticeDate,
+        });
+        const rendered = renderAdverseActionNotice(notice, template, {
+          creditorName: options.creditor,
+          applicantName: options.applicant,
+          agency: options.agency,
+        });
+        // Report on stderr so the notice output stays clean
+        notice.warnings.forEach((w) => console.error(`Warning: ${w}`));
+
+        const entry = options.dryRun
+          ? undefined
+          : await logAdverseActionNotice(new AuditLogger(storage, { signer }), notice, rendered, {
+              operator: options.operator,
+            });
+
+        const output =
+          options.format === 'json'
+            ? JSON.stringify({ notice, text: rendered, auditId: entry?.auditId }, null, 2)
+            : rendered;
+        if (options.output) {
+          fs.writeFileSync(options.output, output);
+          console.log(`Wrote adverse action notice for ${notice.loanId} to ${options.output}`);
+        } else {
+          console.log(output);
+        }
+        if (entry) {
+          console.error(`Logged notice as ${entry.auditId} (linked to ${notice.decisionAuditId})`);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return adverseAction;
+}
@@ -0,0 +1,81 @@
+/**
+ * auditctl anchor command - Publish the chain head to external witnesses
+ */
+
+import { Command } from 'commander';
+import { openStorage } from '../lib/storage/open';
+import { createAnchor } from '../lib/anchor';
+import { parseWindow } from '../lib/alerting';
+import { AnchorWitness, DEFAULT_WITNESSES_FILE, createWitnesses } from '../lib/witness';
+import { AuditStorage } from '../types';
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Publish the current head to every witness; returns the head hash and whether all succeeded
+ */
+async function publishHead(storage: AuditStorage, witnesses: AnchorWitness[]): Promise<{ headHash: string; ok: boolean }> {
+  const anchor = createAnchor(await storage.query({}));
+  let ok = true;
+  for (const witness of witnesses) {
+    try {
+      const reference = await witness.publish(anchor);
+      console.log(`Anchored entry ${anchor.entryCount} (${anchor.headHash.substring(0, 12)}) to ${witness.name}: ${reference}`);
+    } catch (error: any) {
+      ok = false;
+      console.error(`Error: ${witness.name}: ${error.message}`);
+    }
+  }
+  return { headHash: anchor.headHash, ok };
+}
+
+export function createAnchorCommand(): Command {
+  const anchor = new Command('anchor')
+    .description('Publish the current chain head and entry count to external witnesses')
+    .option(
+      '--witness <uri>',
+      `Witness, e.g. file:/mnt/witness/anchors.jsonl, git:/srv/anchors or rfc3161:./tokens?tsa=<url>&ca=<pem> (repeatable; default: ${DEFAULT_WITNESSES_FILE})`,
+      collect,
+      []
+    )
+    .option('--every <interval>', 'Keep running and publish whenever the head has moved, e.g. 15m or 1h')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const witnesses = createWitnesses(options.witness);
+        if (witnesses.length === 0) {
+          throw new Error(`No witnesses: pass --witness or list them in ${DEFAULT_WITNESSES_FILE}`);
+        }
+        const interval = options.every ? parseWindow(options.every) : undefined;
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+
+        let published = await publishHead(storage, witnesses);
+        if (interval === undefined) {
+          if (!published.ok) {
+            process.exit(1);
+          }
+          return;
+        }
+
+        for (;;) {
+          await new Promise((resolve) => setTimeout(resolve, interval));
+          const head = await storage.getLastEntry();
+          if (head?.entryHash && head.entryHash !== published.headHash) {
+            published = await publishHead(storage, witnesses);
+          }
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return anchor;
+}
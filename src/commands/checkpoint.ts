@@ -0,0 +1,64 @@
+/**
+ * auditctl checkpoint command - Record a Merkle checkpoint over recent entries
+ */
+
+import { Command } from 'commander';
+import { AuditLogger } from '../lib/logger';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_KEYS_DIR, loadSigner } from '../lib/keys';
+import { CheckpointOutputs, createCheckpoint } from '../lib/checkpoint';
+
+export function createCheckpointCommand(): Command {
+  const checkpoint = new Command('checkpoint')
+    .description('Record a signed Merkle checkpoint over entries since the last checkpoint')
+    .option('--min-entries <n>', 'Skip unless at least this many new entries exist', '1')
+    .option('--sign-key <keyId>', 'Sign the checkpoint with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--operator <name>', 'Operator identifier')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .action(async (options) => {
+      try {
+        const signer = options.signKey
+          ? loadSigner(options.signKey, options.keysDir)
+          : undefined;
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+          signer,
+        });
+        const logger = new AuditLogger(storage, { signer });
+
+        const entry = await createCheckpoint(logger, {
+          minEntries: parseInt(options.minEntries),
+          operator: options.operator,
+        });
+
+        if (!entry) {
+          console.log('No checkpoint needed - not enough new entries');
+          return;
+        }
+
+        const outputs = entry.outputs as unknown as CheckpointOutputs;
+        if (options.format === 'json') {
+          console.log(JSON.stringify(entry, null, 2));
+        } else {
+          console.log(`✓ Checkpoint logged: ${entry.auditId}`);
+          console.log(`  Entries: ${outputs.startIndex}-${outputs.endIndex - 1} (${outputs.treeSize})`);
+          console.log(`  Merkle root: ${outputs.merkleRoot}`);
+          if (entry.keyId) {
+            console.log(`  Signed by: ${entry.keyId}`);
+          } else {
+            console.log('  ⚠ Unsigned - use --sign-key so examiners can verify the root');
+          }
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return checkpoint;
+}
@@ -0,0 +1,52 @@
+/**
+ * auditctl encryption command - Manage the master key for field-level encryption
+ */
+
+import { Command } from 'commander';
+import {
+  DEFAULT_DATA_KEYS_FILE,
+  DEFAULT_ENCRYPTION_KEY_FILE,
+  DataKeyRing,
+  generateMasterKey,
+  loadMasterKey,
+} from '../lib/encryption';
+
+export function createEncryptionCommand(): Command {
+  const encryption = new Command('encryption')
+    .description('Manage master keys for field-level encryption');
+
+  encryption
+    .command('keygen')
+    .description('Generate a master key file')
+    .option('--encryption-key <path>', 'Master key file to create', DEFAULT_ENCRYPTION_KEY_FILE)
+    .action((options) => {
+      try {
+        const key = generateMasterKey(options.encryptionKey);
+        console.log(`✓ Generated master key ${key.keyId}`);
+        console.log(`  Key file: ${options.encryptionKey}`);
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  encryption
+    .command('rotate')
+    .description('Re-wrap all data keys under a new master key (entry hashes are unchanged)')
+    .requiredOption('--previous-key <path>', 'Current master key file')
+    .option('--encryption-key <path>', 'New master key file', DEFAULT_ENCRYPTION_KEY_FILE)
+    .option('--data-keys <path>', 'Keyring of wrapped data keys', DEFAULT_DATA_KEYS_FILE)
+    .action(async (options) => {
+      try {
+        const previous = loadMasterKey(options.previousKey);
+        const next = loadMasterKey(options.encryptionKey);
+        const count = await new DataKeyRing(options.dataKeys).rewrap([previous], next);
+        console.log(`✓ Re-wrapped ${count} data key(s) from ${previous.keyId} to ${next.keyId}`);
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return encryption;
+}
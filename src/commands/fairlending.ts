@@ -0,0 +1,88 @@
+/**
+ * auditctl fairlending command - Disparity analysis of logged lending decisions
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { openStorage } from '../lib/storage/open';
+import { analyzeFairLending, formatFairLendingCsv, loadLoanAttributes } from '../lib/fairlending';
+
+export function createFairLendingCommand(): Command {
+  const fairlending = new Command('fairlending')
+    .description('Fair lending analysis of logged decisions');
+
+  fairlending
+    .command('analyze')
+    .description('Approval/denial rates, adverse impact ratios and chi-square tests per segment')
+    .option('--attributes <path>', 'Protected-class or proxy attributes by loanId (CSV, JSON or JSONL)')
+    .option('--by <names>', 'Comma-separated attributes to segment by (default: all in --attributes)')
+    .option('--reference <pairs>', 'Reference segments, e.g. race=White,sex=Male (default: highest approval rate)')
+    .option('--alpha <p>', 'Significance level for chi-square tests', '0.05')
+    .option('--start-date <date>', 'Start of date range (ISO-8601)')
+    .option('--end-date <date>', 'End of date range (ISO-8601)')
+    .option('--tool <name>', 'Filter by tool name')
+    .option('--format <type>', 'Output format (json|csv)', 'json')
+    .option('-o, --output <path>', 'Output file path (stdout if not specified)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const alpha = Number(options.alpha);
+        if (!(alpha > 0 && alpha < 1)) {
+          throw new Error(`Invalid --alpha: ${options.alpha}`);
+        }
+        const reference: Record<string, string> = {};
+        (options.reference ? options.reference.split(',') : []).forEach((pair: string) => {
+          const [attribute, ...value] = pair.split('=');
+          if (!attribute || value.length === 0) {
+            throw new Error(`Invalid --reference: ${pair} (expected attribute=value)`);
+          }
+          reference[attribute.trim()] = value.join('=').trim();
+        });
+
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+        const entries = await storage.query({
+          startDate: options.startDate,
+          endDate: options.endDate,
+          tool: options.tool,
+        });
+
+        const analysis = analyzeFairLending(entries, {
+          attributes: options.attributes ? loadLoanAttributes(options.attributes) : undefined,
+          by: options.by ? options.by.split(',').map((b: string) => b.trim()) : undefined,
+          reference,
+          alpha,
+        });
+        // Report on stderr so the analysis output stays clean
+        analysis.warnings.forEach((w) => console.error(`Warning: ${w}`));
+
+        let output: string;
+        switch (options.format) {
+          case 'json':
+            output = JSON.stringify(analysis, null, 2);
+            break;
+          case 'csv':
+            output = formatFairLendingCsv(analysis);
+            break;
+          default:
+            throw new Error(`Unknown format: ${options.format} (expected json or csv)`);
+        }
+
+        if (options.output) {
+          fs.writeFileSync(options.output, output);
+          console.log(`Analyzed ${analysis.decisions} decisions; wrote ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return fairlending;
+}
@@ -0,0 +1,54 @@
+/**
+ * auditctl index command - Manage the sidecar index of the audit log
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { FileStorage } from '../lib/storage/file';
+import { SegmentedFileStorage } from '../lib/storage/segmented';
+
+export function createIndexCommand(): Command {
+  const index = new Command('index')
+    .description('Manage the audit log index');
+
+  index
+    .command('rebuild')
+    .description('Rebuild the sidecar index from the audit log (or every segment in a directory)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .action(async (options) => {
+      try {
+        if (!fs.existsSync(options.auditFile)) {
+          console.error(`Error: Audit log not found: ${options.auditFile}`);
+          process.exit(1);
+        }
+
+        const storage = fs.statSync(options.auditFile).isDirectory()
+          ? new SegmentedFileStorage({ directory: options.auditFile, createIfMissing: false })
+          : new FileStorage({ filePath: options.auditFile, createIfMissing: false });
+
+        const started = Date.now();
+        const entries = await storage.rebuildIndex();
+        const durationMs = Date.now() - started;
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify({
+            auditFile: options.auditFile,
+            indexFile: storage instanceof FileStorage ? `${options.auditFile}.idx` : undefined,
+            entriesIndexed: entries,
+            durationMs,
+          }, null, 2));
+        } else {
+          console.log(`✓ Indexed ${entries} entries in ${durationMs}ms`);
+          if (storage instanceof FileStorage) {
+            console.log(`  Index: ${options.auditFile}.idx`);
+          }
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return index;
+}
@@ -0,0 +1,150 @@
+/**
+ * auditctl keys command - Manage Ed25519 signing keys and the trusted-key registry
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import {
+  DEFAULT_KEYS_DIR,
+  DEFAULT_TRUSTED_KEYS_FILE,
+  generateKeyPair,
+  listLocalKeys,
+  loadRegistry,
+  revokeKey,
+  saveRegistry,
+  trustKey,
+} from '../lib/keys';
+
+export function createKeysCommand(): Command {
+  const keys = new Command('keys')
+    .description('Manage signing keys and the trusted-key registry');
+
+  keys
+    .command('generate')
+    .description('Generate an Ed25519 signing key pair')
+    .requiredOption('--owner <name>', 'Operator or tool the key belongs to')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--trusted-keys <path>', 'Trusted-key registry file', DEFAULT_TRUSTED_KEYS_FILE)
+    .option('--no-trust', 'Do not add the public key to the trusted-key registry')
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .action((options) => {
+      try {
+        const key = generateKeyPair(options.owner, options.keysDir);
+
+        if (options.trust) {
+          const registry = loadRegistry(options.trustedKeys);
+          trustKey(registry, key.publicKey, options.owner);
+          saveRegistry(registry, options.trustedKeys);
+        }
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify({ ...key, trusted: options.trust }, null, 2));
+        } else {
+          console.log(`✓ Generated key ${key.keyId} for ${key.owner}`);
+          console.log(`  Private key: ${key.privateKeyPath}`);
+          console.log(`  Public key: ${key.publicKeyPath}`);
+          if (options.trust) {
+            console.log(`  Trusted in: ${options.trustedKeys}`);
+          }
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  keys
+    .command('list')
+    .description('List trusted keys and local signing keys')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--trusted-keys <path>', 'Trusted-key registry file', DEFAULT_TRUSTED_KEYS_FILE)
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .action((options) => {
+      try {
+        const registry = loadRegistry(options.trustedKeys);
+        const local = listLocalKeys(options.keysDir);
+        const localIds = new Set(local.map((k) => k.keyId));
+
+        const rows = registry.keys.map((k) => ({
+          keyId: k.keyId,
+          owner: k.owner,
+          createdAt: k.createdAt,
+          status: k.revokedAt ? 'revoked' : 'trusted',
+          revokedAt: k.revokedAt,
+          revocationReason: k.revocationReason,
+          hasPrivateKey: localIds.has(k.keyId),
+        }));
+        local
+          .filter((k) => !registry.keys.some((r) => r.keyId === k.keyId))
+          .forEach((k) => {
+            rows.push({
+              keyId: k.keyId,
+              owner: k.owner || '',
+              createdAt: k.createdAt || '',
+              status: 'untrusted',
+              revokedAt: undefined,
+              revocationReason: undefined,
+              hasPrivateKey: true,
+            });
+          });
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(rows, null, 2));
+          return;
+        }
+
+        if (rows.length === 0) {
+          console.log('No keys found');
+          return;
+        }
+        rows.forEach((r) => {
+          const local = r.hasPrivateKey ? ' (local)' : '';
+          console.log(`${r.keyId} | ${r.status.padEnd(9)} | ${r.owner}${local}`);
+          if (r.revokedAt) {
+            console.log(`  Revoked ${r.revokedAt}${r.revocationReason ? `: ${r.revocationReason}` : ''}`);
+          }
+        });
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  keys
+    .command('trust')
+    .description('Add a public key to the trusted-key registry')
+    .requiredOption('--public-key <path>', 'PEM public key file')
+    .requiredOption('--owner <name>', 'Operator or tool the key belongs to')
+    .option('--trusted-keys <path>', 'Trusted-key registry file', DEFAULT_TRUSTED_KEYS_FILE)
+    .action((options) => {
+      try {
+        const registry = loadRegistry(options.trustedKeys);
+        const key = trustKey(registry, fs.readFileSync(options.publicKey, 'utf-8'), options.owner);
+        saveRegistry(registry, options.trustedKeys);
+        console.log(`✓ Trusted key ${key.keyId} for ${key.owner}`);
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  keys
+    .command('revoke')
+    .description('Revoke a key in the trusted-key registry')
+    .argument('<keyId>', 'Key ID to revoke')
+    .option('--reason <text>', 'Reason for revocation')
+    .option('--trusted-keys <path>', 'Trusted-key registry file', DEFAULT_TRUSTED_KEYS_FILE)
+    .action((keyId, options) => {
+      try {
+        const registry = loadRegistry(options.trustedKeys);
+        const key = revokeKey(registry, keyId, options.reason);
+        saveRegistry(registry, options.trustedKeys);
+        console.log(`✓ Revoked key ${key.keyId} at ${key.revokedAt}`);
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return keys;
+}
@@ -0,0 +1,111 @@
+/**
+ * auditctl lineage command - Walk the parent/child graph around an entry
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { openStorage } from '../lib/storage/open';
+import { LineageGraph, buildLineage, lineageToDot, lineageToMermaid } from '../lib/lineage';
+import { AuditEntry } from '../types';
+
+function renderTable(graph: LineageGraph): string[] {
+  const row = (text: string) => `║ ${text}`.substring(0, 64).padEnd(65) + '║';
+  const divider = '╠════════════════════════════════════════════════════════════════╣';
+  const describe = (e: AuditEntry) =>
+    `${e.auditId.substring(0, 8)}... ${e.tool} ${e.command} ${e.timestamp.substring(0, 19).replace('T', ' ')}`;
+
+  const lines = [
+    '╔════════════════════════════════════════════════════════════════╗',
+    row(`LINEAGE: ${graph.auditId}`),
+    divider,
+    row(`Ancestors: ${graph.ancestors.length}  Descendants: ${graph.descendants.length}`),
+    divider,
+  ];
+
+  // Ancestors from the root down, then the entry, then its descendants as a tree
+  const chain = [...graph.ancestors].reverse();
+  chain.forEach((e, depth) => lines.push(row(`${'  '.repeat(depth)}${describe(e)}`)));
+  const base = chain.length;
+  lines.push(row(`${'  '.repeat(base)}▶ ${describe(graph.entry)}`));
+
+  const byId = new Map(graph.descendants.map((e) => [e.auditId, e]));
+  const printed = new Set([graph.auditId]);
+  const printChildren = (parentId: string, depth: number) => {
+    graph.edges
+      .filter((edge) => edge.parent === parentId && byId.has(edge.child) && !printed.has(edge.child))
+      .forEach((edge) => {
+        printed.add(edge.child);
+        lines.push(row(`${'  '.repeat(depth)}└─ ${describe(byId.get(edge.child)!)}`));
+        printChildren(edge.child, depth + 1);
+      });
+  };
+  printChildren(graph.auditId, base + 1);
+
+  if (graph.issues.length > 0) {
+    lines.push(divider);
+    lines.push(row('BROKEN LINKS:'));
+    graph.issues.forEach((issue) => {
+      lines.push(row(`✗ ${issue.auditId.substring(0, 8)}... ${issue.kind}`));
+      lines.push(row(`    ${issue.message}`));
+    });
+  }
+
+  lines.push('╚════════════════════════════════════════════════════════════════╝');
+  return lines;
+}
+
+export function createLineageCommand(): Command {
+  const lineage = new Command('lineage')
+    .description('Show the ancestors and descendants of an audit entry')
+    .requiredOption('--id <auditId>', 'Audit entry ID')
+    .option('--depth <n>', 'Maximum number of generations to walk in each direction')
+    .option('--format <type>', 'Output format (table|json|dot|mermaid)', 'table')
+    .option('-o, --output <path>', 'Output file path (stdout if not specified)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const depth = options.depth !== undefined ? Number(options.depth) : undefined;
+        if (depth !== undefined && !(Number.isInteger(depth) && depth > 0)) {
+          throw new Error(`Invalid --depth: ${options.depth}`);
+        }
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+
+        const graph = buildLineage(options.id, await storage.query({}), { depth });
+
+        let output: string;
+        switch (options.format) {
+          case 'json':
+            output = JSON.stringify(graph, null, 2);
+            break;
+          case 'dot':
+            output = lineageToDot(graph);
+            break;
+          case 'mermaid':
+            output = lineageToMermaid(graph);
+            break;
+          case 'table':
+            output = renderTable(graph).join('\n');
+            break;
+          default:
+            throw new Error(`Unknown format: ${options.format} (expected table, json, dot or mermaid)`);
+        }
+
+        if (options.output) {
+          fs.writeFileSync(options.output, output);
+          console.log(`Wrote lineage of ${graph.auditId} to ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return lineage;
+}
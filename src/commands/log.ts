@@ -4,15 +4,28 @@
 
 import { Command } from 'commander';
 import * as fs from 'fs';
-import { AuditLogger } from '../lib/logger';
-import { FileStorage } from '../lib/storage/file';
+import { AuditEntry } from '../types';
+import { AuditLogger, HASH_ALGORITHMS } from '../lib/logger';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_KEYS_DIR, loadSigner } from '../lib/keys';
+import { createRedactor } from '../lib/redaction';
+import { createSchemaRegistry } from '../lib/validation';
+import { createAlertEngine } from '../lib/alerting';
+import { ingestBatch } from '../lib/batch';
+import {
+  DEFAULT_DATA_KEYS_FILE,
+  DEFAULT_ENCRYPTION_KEY_FILE,
+  DataKeyRing,
+  FieldEncryptor,
+  loadMasterKey,
+} from '../lib/encryption';
 
 export function createLogCommand(): Command {
   const log = new Command('log')
     .description('Log an audit entry')
-    .requiredOption('-t, --tool <name>', 'Tool name (e.g., finctl, mortctl)')
-    .requiredOption('-c, --command <cmd>', 'Command executed')
-    .requiredOption('--tool-version <ver>', 'Tool version')
+    .option('-t, --tool <name>', 'Tool name (e.g., finctl, mortctl)')
+    .option('-c, --command <cmd>', 'Command executed')
+    .option('--tool-version <ver>', 'Tool version')
     .option('-i, --inputs <json>', 'Input parameters as JSON')
     .option('-o, --outputs <json>', 'Output results as JSON')
     .option('-r, --rationale <text>', 'Human-readable rationale', '')
@@ -26,15 +39,104 @@ export function createLogCommand(): Command {
     .option('--parent-id <id>', 'Parent audit ID for chained operations')
     .option('--duration <ms>', 'Operation duration in milliseconds')
     .option('-f, --file <path>', 'Read entry from JSON file')
+    .option('--batch [path]', 'Log JSONL entries from a file, or stdin if no path or "-" is given')
+    .option('--skip-invalid', 'With --batch, log valid lines and report invalid ones instead of writing nothing', false)
     .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .option('--lock-timeout <ms>', 'Maximum time to wait for the audit log lock', '10000')
+    .option('--sign-key <keyId>', 'Sign the entry with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--redaction-policy <path>', 'Redaction policy file (default: ./redaction.json if present)')
+    .option('--schemas <path>', 'Command schema registry (default: ./audit-schemas.json if present)')
+    .option('--alert-rules <path>', 'Alert rules (default: ./audit-alerts.json if present)')
+    .option('--hash-algorithm <name>', `Entry hash algorithm (${HASH_ALGORITHMS.join('|')})`, 'sha256')
+    .option('--encrypt-fields <paths>', 'Comma-separated fields to encrypt, e.g. inputs.income,outputs.creditScore')
+    .option('--encryption-key <path>', 'Master key file for --encrypt-fields', DEFAULT_ENCRYPTION_KEY_FILE)
+    .option('--data-keys <path>', 'Keyring of wrapped data keys', DEFAULT_DATA_KEYS_FILE)
     .option('--format <type>', 'Output format (json|table)', 'json')
     .action(async (options) => {
       try {
-        const storage = new FileStorage({
-          filePath: options.auditFile,
+        const lockTimeoutMs = Number(options.lockTimeout);
+        if (!Number.isFinite(lockTimeoutMs) || lockTimeoutMs < 0) {
+          throw new Error(`Invalid --lock-timeout: ${options.lockTimeout} (expected milliseconds, 0 or more)`);
+        }
+        const signer = options.signKey
+          ? loadSigner(options.signKey, options.keysDir)
+          : undefined;
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
           createIfMissing: true,
+          lockTimeoutMs,
+          signer,
+        });
+        const encryptor = options.encryptFields
+          ? new FieldEncryptor({
+              masterKey: loadMasterKey(options.encryptionKey),
+              dataKeys: new DataKeyRing(options.dataKeys),
+              fields: options.encryptFields.split(','),
+            })
+          : undefined;
+        // Keep JSON output parseable; seed thresholds with the entries earlier log calls wrote
+        const alerts = createAlertEngine(options.alertRules, options.format === 'json' ? process.stderr : undefined);
+        await alerts?.seed(storage);
+        const logger = new AuditLogger(storage, {
+          defaultOperator: options.operator,
+          sessionId: options.sessionId,
+          signer,
+          redactor: createRedactor(options.redactionPolicy),
+          schemas: createSchemaRegistry(options.schemas),
+          alerts,
+          encryptor,
+          hashAlgorithm: options.hashAlgorithm,
         });
-        const logger = new AuditLogger(storage);
+
+        if (options.batch) {
+          const input =
+            options.batch === true || options.batch === '-'
+              ? process.stdin
+              : fs.createReadStream(options.batch);
+          // Keep only the ends of the batch so large backfills are not held in memory
+          let first: AuditEntry | undefined;
+          let last: AuditEntry | undefined;
+          const { logged, errors } = await ingestBatch(
+            logger,
+            input,
+            options.skipInvalid ? 'skip-invalid' : 'all-or-nothing',
+            {
+              onEntries: (entries) => {
+                first = first || entries[0];
+                last = entries[entries.length - 1];
+              },
+            }
+          );
+          errors.forEach((e) => console.error(`Line ${e.line}: ${e.message}`));
+
+          if (options.format === 'json') {
+            console.log(
+              JSON.stringify(
+                {
+                  logged,
+                  invalid: errors.length,
+                  firstAuditId: first?.auditId,
+                  lastAuditId: last?.auditId,
+                  lastHash: last?.entryHash,
+                },
+                null,
+                2
+              )
+            );
+          } else {
+            console.log(`✓ Logged ${logged} entries`);
+            if (errors.length > 0) {
+              console.log(`  Invalid lines: ${errors.length}`);
+            }
+          }
+          if (errors.length > 0 && !options.skipInvalid) {
+            throw new Error(`${errors.length} invalid line(s); nothing was logged (use --skip-invalid to log the rest)`);
+          }
+          return;
+        }
 
         let entryOptions: any;
 
@@ -43,6 +145,9 @@ export function createLogCommand(): Command {
           const content = fs.readFileSync(options.file, 'utf-8');
           entryOptions = JSON.parse(content);
         } else {
+          if (!options.tool || !options.command || !options.toolVersion) {
+            throw new Error('--tool, --command and --tool-version are required unless --file or --batch is used');
+          }
           // Build from CLI options
           entryOptions = {
             tool: options.tool,
@@ -76,6 +181,10 @@ export function createLogCommand(): Command {
           console.log(`  Timestamp: ${entry.timestamp}`);
           console.log(`  Tool: ${entry.tool} ${entry.command}`);
           console.log(`  Hash: ${entry.entryHash?.substring(0, 16)}...`);
+          if (entry.keyId) {
+            console.log(`  Signed by: ${entry.keyId}`);
+          }
+          console.log(`  Redaction policy: ${entry.redactionPolicy}`);
         }
       } catch (error: any) {
         console.error(`Error: ${error.message}`);
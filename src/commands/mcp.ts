@@ -0,0 +1,56 @@
+/**
+ * auditctl mcp command - Serve the audit log to AI agents over the Model Context Protocol
+ */
+
+import { Command } from 'commander';
+import { AuditLogger } from '../lib/logger';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_KEYS_DIR, loadSigner } from '../lib/keys';
+import { createRedactor } from '../lib/redaction';
+import { createSchemaRegistry } from '../lib/validation';
+import { createAlertEngine } from '../lib/alerting';
+import { McpServer } from '../lib/mcp';
+
+export function createMcpCommand(): Command {
+  const mcp = new Command('mcp')
+    .description('Run an MCP server over stdio exposing audit logging and querying tools')
+    .option('--operator <name>', 'Operator recorded on entries that do not set one', 'mcp')
+    .option('--sign-key <keyId>', 'Sign entries with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--redaction-policy <path>', 'Redaction policy file (default: ./redaction.json if present)')
+    .option('--schemas <path>', 'Command schema registry (default: ./audit-schemas.json if present)')
+    .option('--alert-rules <path>', 'Alert rules (default: ./audit-alerts.json if present)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const signer = options.signKey
+          ? loadSigner(options.signKey, options.keysDir)
+          : undefined;
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: true,
+          signer,
+        });
+        const alerts = createAlertEngine(options.alertRules, process.stderr);
+        await alerts?.seed(storage);
+        const logger = new AuditLogger(storage, {
+          defaultOperator: options.operator,
+          signer,
+          redactor: createRedactor(options.redactionPolicy),
+          schemas: createSchemaRegistry(options.schemas),
+          alerts,
+        });
+
+        // stdout carries the protocol; diagnostics go to stderr
+        console.error(`auditctl MCP server ready (${options.store || options.auditFile})`);
+        await new McpServer(storage, logger).serveStdio();
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return mcp;
+}
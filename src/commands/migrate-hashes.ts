@@ -0,0 +1,51 @@
+/**
+ * auditctl migrate-hashes command - Re-seal a legacy log with a signed hash bridge
+ */
+
+import { Command } from 'commander';
+import { AuditLogger, HASH_ALGORITHMS } from '../lib/logger';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_KEYS_DIR, loadSigner } from '../lib/keys';
+import { HashBridgeOutputs, logHashBridge } from '../lib/hash-bridge';
+
+export function createMigrateHashesCommand(): Command {
+  const migrate = new Command('migrate-hashes')
+    .description('Re-seal every entry under canonical JSON hashing with a signed bridge entry')
+    .requiredOption('--sign-key <keyId>', 'Sign the bridge with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--algorithm <name>', `Hash algorithm (${HASH_ALGORITHMS.join('|')})`, 'sha256')
+    .option('--operator <name>', 'Operator identifier')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .action(async (options) => {
+      try {
+        const signer = loadSigner(options.signKey, options.keysDir);
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+          signer,
+        });
+        const logger = new AuditLogger(storage, { signer, hashAlgorithm: options.algorithm });
+
+        const entry = await logHashBridge(logger, { operator: options.operator });
+
+        const outputs = entry.outputs as unknown as HashBridgeOutputs;
+        if (options.format === 'json') {
+          console.log(JSON.stringify(entry, null, 2));
+        } else {
+          console.log(`✓ Hash bridge logged: ${entry.auditId}`);
+          console.log(`  Sealed entries: ${outputs.sealedEntries} (${outputs.legacyEntries} legacy)`);
+          console.log(`  Algorithm: ${outputs.hashAlgorithm} (hash version ${outputs.hashVersion})`);
+          console.log(`  Seal digest: ${outputs.sealDigest}`);
+          console.log(`  Signed by: ${entry.keyId}`);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return migrate;
+}
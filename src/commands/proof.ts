@@ -0,0 +1,83 @@
+/**
+ * auditctl proof command - Produce and verify Merkle inclusion proofs
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { openStorage } from '../lib/storage/open';
+import { loadRegistry } from '../lib/keys';
+import { InclusionProof, buildInclusionProof, verifyInclusionProof } from '../lib/checkpoint';
+
+export function createProofCommand(): Command {
+  const proof = new Command('proof')
+    .description('Output an inclusion proof for an entry under its checkpoint root')
+    .option('--id <auditId>', 'Audit entry ID to prove')
+    .option('-o, --output <path>', 'Output file path (stdout if not specified)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        if (!options.id) {
+          console.error('Error: --id is required');
+          process.exit(1);
+        }
+
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+
+        const entries = await storage.query({});
+        const result = buildInclusionProof(entries, options.id);
+        const output = JSON.stringify(result, null, 2);
+
+        if (options.output) {
+          fs.writeFileSync(options.output, output);
+          console.log(`Wrote inclusion proof for ${options.id} to ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  proof
+    .command('verify')
+    .description('Verify an inclusion proof against its checkpoint root (no log access needed)')
+    .requiredOption('--proof <path>', 'Inclusion proof file')
+    .option('--trusted-keys <path>', 'Trusted-key registry to check the checkpoint signature')
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .action((options) => {
+      try {
+        const data: InclusionProof = JSON.parse(fs.readFileSync(options.proof, 'utf-8'));
+        const registry = options.trustedKeys ? loadRegistry(options.trustedKeys) : undefined;
+        const result = verifyInclusionProof(data, registry);
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(result, null, 2));
+        } else {
+          console.log(`Entry: ${data.entry.auditId}`);
+          console.log(`Checkpoint: ${data.checkpoint.auditId}`);
+          result.checks.forEach((c) => {
+            console.log(`  ${c.passed ? '✓' : '✗'} ${c.name}${c.detail ? ` - ${c.detail}` : ''}`);
+          });
+          if (!registry) {
+            console.log('  ⚠ Checkpoint signature not checked (use --trusted-keys)');
+          }
+          console.log(result.valid ? '✓ Proof VALID' : '✗ Proof INVALID');
+        }
+
+        if (!result.valid) {
+          process.exit(1);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return proof;
+}
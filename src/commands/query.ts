@@ -3,8 +3,10 @@
  */
 
 import { Command } from 'commander';
-import { FileStorage } from '../lib/storage/file';
-import { AuditQueryOptions } from '../types';
+import { openStorage } from '../lib/storage/open';
+import { REVIEW_COMMAND, filterByReviewStatus } from '../lib/review';
+import { parseSort, sortEntries } from '../lib/filter';
+import { AuditEntry, AuditQueryOptions } from '../types';
 
 export function createQueryCommand(): Command {
   const query = new Command('query')
@@ -18,14 +20,19 @@ export function createQueryCommand(): Command {
     .option('--end-date <date>', 'End of date range (ISO-8601)')
     .option('--has-risk-flags', 'Only entries with risk flags')
     .option('--human-review', 'Only entries requiring human review')
+    .option('--review-status <status>', 'Only entries requiring human review that are pending or completed')
+    .option('--where <expr>', 'Filter expression, e.g. "outputs.decision = declined AND inputs.dti > 0.43"')
+    .option('--sort <fields>', 'Sort by comma-separated fields, "-" for descending, e.g. -inputs.dti,timestamp')
     .option('--limit <n>', 'Maximum entries to return', '100')
     .option('--offset <n>', 'Offset for pagination', '0')
     .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
     .option('--format <type>', 'Output format (json|jsonl|table|summary)', 'json')
     .action(async (options) => {
       try {
-        const storage = new FileStorage({
-          filePath: options.auditFile,
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
           createIfMissing: false,
         });
 
@@ -39,12 +46,37 @@ export function createQueryCommand(): Command {
           endDate: options.endDate,
           hasRiskFlags: options.hasRiskFlags || undefined,
           humanReviewRequired: options.humanReview || undefined,
+          where: options.where,
           limit: parseInt(options.limit),
           offset: parseInt(options.offset),
         };
 
-        const entries = await storage.query(queryOptions);
-        const totalCount = await storage.count(queryOptions);
+        const sortKeys = options.sort ? parseSort(options.sort) : undefined;
+        if (options.reviewStatus && options.reviewStatus !== 'pending' && options.reviewStatus !== 'completed') {
+          throw new Error(`Invalid --review-status: ${options.reviewStatus} (expected pending or completed)`);
+        }
+
+        let entries: AuditEntry[];
+        let totalCount: number;
+        if (options.reviewStatus || sortKeys) {
+          // Review status depends on other entries, and sorting on every match, so both come before paginating
+          const { limit, offset, ...filters } = queryOptions;
+          let matched = options.reviewStatus
+            ? filterByReviewStatus(
+                await storage.query({ ...filters, humanReviewRequired: true }),
+                await storage.query({ tool: 'auditctl', command: REVIEW_COMMAND }),
+                options.reviewStatus
+              )
+            : await storage.query(filters);
+          if (sortKeys) {
+            matched = sortEntries(matched, sortKeys);
+          }
+          entries = matched.slice(offset, offset! + limit!);
+          totalCount = matched.length;
+        } else {
+          entries = await storage.query(queryOptions);
+          totalCount = await storage.count(queryOptions);
+        }
 
         switch (options.format) {
           case 'json':
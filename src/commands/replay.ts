@@ -3,19 +3,32 @@
  */
 
 import { Command } from 'commander';
-import { FileStorage } from '../lib/storage/file';
+import { openStorage } from '../lib/storage/open';
 import { computeEntryHash } from '../lib/logger';
+import { CheckpointOutputs, findStoredCheckpoint } from '../lib/checkpoint';
+import {
+  DEFAULT_DATA_KEYS_FILE,
+  DEFAULT_ENCRYPTION_KEY_FILE,
+  DataKeyRing,
+  decryptEntry,
+  loadMasterKey,
+} from '../lib/encryption';
 
 export function createReplayCommand(): Command {
   const replay = new Command('replay')
     .description('Replay and verify a specific audit entry')
     .requiredOption('--id <auditId>', 'Audit entry ID to replay')
     .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .option('--decrypt', 'Show encrypted fields in plaintext')
+    .option('--encryption-key <path>', 'Master key file for --decrypt', DEFAULT_ENCRYPTION_KEY_FILE)
+    .option('--data-keys <path>', 'Keyring of wrapped data keys', DEFAULT_DATA_KEYS_FILE)
     .option('--format <type>', 'Output format (json|table)', 'table')
     .action(async (options) => {
       try {
-        const storage = new FileStorage({
-          filePath: options.auditFile,
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
           createIfMissing: false,
         });
 
@@ -31,13 +44,28 @@ export function createReplayCommand(): Command {
         const computedHash = computeEntryHash(entryWithoutHash as any);
         const hashValid = computedHash === entryHash;
 
+        // Find the Merkle checkpoint covering this entry, if any
+        const checkpoint = await findStoredCheckpoint(storage, entry);
+        const checkpointRoot = checkpoint
+          ? (checkpoint.outputs as unknown as CheckpointOutputs).merkleRoot
+          : undefined;
+
+        // Decrypt only for display - the hash above is always over the stored ciphertext
+        const shown = options.decrypt
+          ? decryptEntry(entry, [loadMasterKey(options.encryptionKey)], new DataKeyRing(options.dataKeys))
+          : entry;
+
         if (options.format === 'json') {
           console.log(JSON.stringify({
-            entry,
+            entry: shown,
+            decrypted: !!options.decrypt,
             verification: {
               hashValid,
               computedHash,
               storedHash: entryHash,
+              checkpoint: checkpoint
+                ? { auditId: checkpoint.auditId, merkleRoot: checkpointRoot }
+                : null,
             },
           }, null, 2));
         } else {
@@ -54,15 +82,21 @@ export function createReplayCommand(): Command {
           if (entry.sessionId) {
             console.log(`║ Session: ${entry.sessionId.substring(0, 8)}...`.padEnd(65) + '║');
           }
+          if (entry.keyId) {
+            console.log(`║ Signed by: ${entry.keyId}`.padEnd(65) + '║');
+          }
+          if (entry.redactionPolicy) {
+            console.log(`║ Redaction policy: ${entry.redactionPolicy}`.padEnd(65) + '║');
+          }
           console.log('╠════════════════════════════════════════════════════════════════╣');
           console.log('║ INPUTS:'.padEnd(65) + '║');
-          const inputStr = JSON.stringify(entry.inputs, null, 2);
+          const inputStr = JSON.stringify(shown.inputs, null, 2);
           inputStr.split('\n').forEach((line) => {
             console.log(`║   ${line}`.padEnd(65) + '║');
           });
           console.log('╠════════════════════════════════════════════════════════════════╣');
           console.log('║ OUTPUTS:'.padEnd(65) + '║');
-          const outputStr = JSON.stringify(entry.outputs, null, 2);
+          const outputStr = JSON.stringify(shown.outputs, null, 2);
           outputStr.split('\n').forEach((line) => {
             console.log(`║   ${line}`.padEnd(65) + '║');
           });
@@ -90,6 +124,11 @@ export function createReplayCommand(): Command {
             console.log(`║   Stored:   ${entryHash?.substring(0, 32)}...`.padEnd(65) + '║');
             console.log(`║   Computed: ${computedHash.substring(0, 32)}...`.padEnd(65) + '║');
           }
+          if (checkpoint) {
+            console.log(`║   Checkpoint: ${checkpoint.auditId.substring(0, 8)}... (root ${checkpointRoot?.substring(0, 16)}...)`.padEnd(65) + '║');
+          } else {
+            console.log('║   Not yet covered by a Merkle checkpoint'.padEnd(65) + '║');
+          }
           console.log('╚════════════════════════════════════════════════════════════════╝');
         }
 
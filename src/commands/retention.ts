@@ -0,0 +1,102 @@
+/**
+ * auditctl retention command - Apply retention policies to a segmented audit log
+ */
+
+import { Command } from 'commander';
+import { AuditLogger } from '../lib/logger';
+import { openStorage } from '../lib/storage/open';
+import { SegmentedFileStorage } from '../lib/storage/segmented';
+import { DEFAULT_KEYS_DIR, loadSigner } from '../lib/keys';
+import {
+  DEFAULT_RETENTION_FILE,
+  applyRetention,
+  loadRetentionPolicy,
+} from '../lib/retention';
+
+export function createRetentionCommand(): Command {
+  const retention = new Command('retention')
+    .description('Archive and purge audit log segments past their retention period');
+
+  retention
+    .command('apply')
+    .description('Archive expired sealed segments and log a purge record')
+    .option('--policy <path>', 'Retention policy file', DEFAULT_RETENTION_FILE)
+    .option('--archive-dir <path>', 'Directory for compressed segments (default: <log dir>/archive)')
+    .option('--as-of <date>', 'Evaluate expiry as of this date (ISO-8601)')
+    .option('--dry-run', 'Show what would be purged without changing anything')
+    .option('--sign-key <keyId>', 'Sign the purge record with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--operator <name>', 'Operator identifier')
+    .option('--audit-file <path>', 'Audit log directory', './audit')
+    .option('--store <uri>', 'Storage URI, e.g. segments:./audit (overrides --audit-file)')
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .action(async (options) => {
+      try {
+        const policy = loadRetentionPolicy(options.policy);
+        const signer = options.signKey
+          ? loadSigner(options.signKey, options.keysDir)
+          : undefined;
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+          signer,
+        });
+        if (!(storage instanceof SegmentedFileStorage)) {
+          throw new Error('Retention requires a segmented log (a directory or segments: store)');
+        }
+
+        const asOf = options.asOf ? new Date(options.asOf) : new Date();
+        if (isNaN(asOf.getTime())) {
+          throw new Error(`Invalid --as-of date: ${options.asOf}`);
+        }
+
+        const result = await applyRetention(new AuditLogger(storage, { signer }), storage, policy, {
+          archiveDir: options.archiveDir,
+          asOf,
+          operator: options.operator,
+          dryRun: options.dryRun,
+        });
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify({
+            dryRun: !!options.dryRun,
+            segments: result.segments.map((s) => ({
+              segment: s.segment.fileName,
+              entryCount: s.entryCount,
+              expiresAt: s.expiresAt,
+              heldLoanIds: s.heldLoanIds,
+              purge: s.purge,
+              reason: s.reason,
+            })),
+            purgeEntry: result.purgeEntry,
+          }, null, 2));
+          return;
+        }
+
+        console.log('╔════════════════════════════════════════════════════════════════╗');
+        console.log(`║ RETENTION${options.dryRun ? ' (DRY RUN)' : ''}`.padEnd(65) + '║');
+        console.log('╠════════════════════════════════════════════════════════════════╣');
+        result.segments.forEach((s) => {
+          const status = s.purge ? '✗ purge' : `✓ keep - ${s.reason}`;
+          console.log(`║ ${s.segment.fileName} (${s.entryCount})`.padEnd(65) + '║');
+          console.log(`║   ${status}`.substring(0, 64).padEnd(65) + '║');
+        });
+        console.log('╚════════════════════════════════════════════════════════════════╝');
+
+        const purgeCount = result.segments.filter((s) => s.purge).length;
+        if (result.purgeEntry) {
+          console.log(`\n✓ Purged ${purgeCount} segment(s); purge record ${result.purgeEntry.auditId}`);
+        } else if (purgeCount > 0) {
+          console.log(`\n${purgeCount} segment(s) would be purged`);
+        } else {
+          console.log('\nNothing to purge');
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return retention;
+}
@@ -0,0 +1,200 @@
+/**
+ * auditctl review command - Work the human review queue and track review SLAs
+ */
+
+import { Command } from 'commander';
+import { AuditLogger } from '../lib/logger';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_KEYS_DIR, loadSigner } from '../lib/keys';
+import {
+  DEFAULT_REVIEW_SLA_HOURS,
+  REVIEW_COMMAND,
+  ReviewOutcome,
+  buildReviewQueue,
+  buildReviewSlaReport,
+  logReview,
+} from '../lib/review';
+
+const divider = '╠════════════════════════════════════════════════════════════════╣';
+const row = (text: string) => `║ ${text}`.substring(0, 64).padEnd(65) + '║';
+
+function parseSlaHours(value: string): number {
+  const hours = Number(value);
+  if (!(hours > 0)) {
+    throw new Error(`Invalid --sla-hours: ${value}`);
+  }
+  return hours;
+}
+
+function formatAge(hours: number): string {
+  return hours >= 48 ? `${Math.floor(hours / 24)}d ${Math.round(hours % 24)}h` : `${hours.toFixed(1)}h`;
+}
+
+function createDecisionCommand(outcome: ReviewOutcome): Command {
+  return new Command(outcome === 'approved' ? 'approve' : 'reject')
+    .description(`Record that a reviewer ${outcome} an entry requiring human review`)
+    .requiredOption('--id <auditId>', 'Audit ID of the entry being reviewed')
+    .requiredOption('--reviewer <name>', 'Reviewer identifier')
+    .option('--notes <text>', 'Review notes')
+    .option('--sign-key <keyId>', 'Sign the review entry with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const signer = options.signKey
+          ? loadSigner(options.signKey, options.keysDir)
+          : undefined;
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+          signer,
+        });
+
+        const entry = await storage.getById(options.id);
+        if (!entry) {
+          throw new Error(`Audit entry not found: ${options.id}`);
+        }
+        const review = await logReview(
+          new AuditLogger(storage, { signer }),
+          entry,
+          { outcome, reviewer: options.reviewer, notes: options.notes }
+        );
+        console.log(`Logged review ${review.auditId}: ${entry.auditId} ${outcome} by ${options.reviewer}`);
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+}
+
+export function createReviewCommand(): Command {
+  const review = new Command('review')
+    .description('Work the human review queue and report on review SLAs');
+
+  review
+    .command('queue')
+    .description('List entries awaiting human review, oldest first')
+    .option('--loan-id <id>', 'Only entries for this loan')
+    .option('--overdue', 'Only reviews past the SLA')
+    .option('--sla-hours <hours>', 'Review SLA in hours', String(DEFAULT_REVIEW_SLA_HOURS))
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const slaHours = parseSlaHours(options.slaHours);
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+
+        const queue = buildReviewQueue(await storage.query({ loanId: options.loanId }), { slaHours }).filter(
+          (p) => !options.overdue || p.overdue
+        );
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(queue.map((p) => ({
+            auditId: p.entry.auditId,
+            timestamp: p.entry.timestamp,
+            tool: p.entry.tool,
+            command: p.entry.command,
+            loanId: p.entry.loanId,
+            ageHours: p.ageHours,
+            overdue: p.overdue,
+          })), null, 2));
+          return;
+        }
+
+        console.log('╔════════════════════════════════════════════════════════════════╗');
+        console.log(row(`REVIEW QUEUE (SLA ${slaHours}h)`));
+        console.log(divider);
+        console.log(row(`Pending: ${queue.length}  Overdue: ${queue.filter((p) => p.overdue).length}`));
+        if (queue.length > 0) {
+          console.log(divider);
+        }
+        queue.forEach((p) => {
+          console.log(row(`${p.overdue ? '✗' : '•'} ${p.entry.auditId.substring(0, 8)}... ${p.entry.tool} ${p.entry.command}${p.entry.loanId ? ` (${p.entry.loanId})` : ''}`));
+          console.log(row(`    ${p.entry.timestamp}  age ${formatAge(p.ageHours)}${p.overdue ? '  OVERDUE' : ''}`));
+        });
+        console.log('╚════════════════════════════════════════════════════════════════╝');
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  review.addCommand(createDecisionCommand('approved'));
+  review.addCommand(createDecisionCommand('rejected'));
+
+  review
+    .command('sla')
+    .description('Report review turnaround and overdue reviews against the SLA')
+    .option('--sla-hours <hours>', 'Review SLA in hours', String(DEFAULT_REVIEW_SLA_HOURS))
+    .option('--start-date <date>', 'Only entries from this date (ISO-8601)')
+    .option('--end-date <date>', 'Only entries up to this date (ISO-8601)')
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const slaHours = parseSlaHours(options.slaHours);
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+
+        // Reviews may fall after --end-date, so look them up across the whole log
+        const entries = await storage.query({ startDate: options.startDate, endDate: options.endDate });
+        const reviews = await storage.query({ tool: 'auditctl', command: REVIEW_COMMAND });
+        const ids = new Set(entries.map((e) => e.auditId));
+        const report = buildReviewSlaReport([...entries, ...reviews.filter((r) => !ids.has(r.auditId))], {
+          slaHours,
+        });
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify({
+            ...report,
+            overdueReviews: report.overdueReviews.map((p) => ({
+              auditId: p.entry.auditId,
+              timestamp: p.entry.timestamp,
+              loanId: p.entry.loanId,
+              ageHours: p.ageHours,
+            })),
+          }, null, 2));
+          return;
+        }
+
+        console.log('╔════════════════════════════════════════════════════════════════╗');
+        console.log(row(`REVIEW SLA REPORT (SLA ${slaHours}h)`));
+        console.log(divider);
+        console.log(row(`Reviews required: ${report.required}`));
+        console.log(row(`Completed: ${report.completed} (${report.completedLate} late)`));
+        console.log(row(`Pending: ${report.pending} (${report.overdue} overdue)`));
+        console.log(row(`Median time to review: ${report.medianHoursToReview !== null ? formatAge(report.medianHoursToReview) : '-'}`));
+        if (report.overdueReviews.length > 0) {
+          console.log(divider);
+          console.log(row('OVERDUE:'));
+          report.overdueReviews.forEach((p) => {
+            console.log(row(`✗ ${p.entry.auditId.substring(0, 8)}... ${p.entry.loanId || '-'} age ${formatAge(p.ageHours)}`));
+          });
+        }
+        if (report.lateReviews.length > 0) {
+          console.log(divider);
+          console.log(row('COMPLETED LATE:'));
+          report.lateReviews.forEach((c) => {
+            console.log(row(`⚠ ${c.auditId.substring(0, 8)}... ${c.outcome} by ${c.reviewer} after ${formatAge(c.hoursToReview)}`));
+          });
+        }
+        console.log('╚════════════════════════════════════════════════════════════════╝');
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return review;
+}
@@ -0,0 +1,77 @@
+/**
+ * auditctl schema command - Check audit entries against entry and command schemas
+ */
+
+import { Command } from 'commander';
+import { openStorage } from '../lib/storage/open';
+import { checkLoggedEntries, createSchemaRegistry } from '../lib/validation';
+
+export function createSchemaCommand(): Command {
+  const schema = new Command('schema')
+    .description('Validate audit entries against the entry schema and per-command schemas');
+
+  schema
+    .command('check')
+    .description('Check existing log entries against the schemas')
+    .option('--schemas <path>', 'Command schema registry (default: ./audit-schemas.json if present)')
+    .option('--start-date <date>', 'Start of date range (ISO-8601)')
+    .option('--end-date <date>', 'End of date range (ISO-8601)')
+    .option('--tool <name>', 'Filter by tool name')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .option('--format <type>', 'Output format (json|table)', 'table')
+    .action(async (options) => {
+      try {
+        const registry = createSchemaRegistry(options.schemas);
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+        const entries = await storage.query({
+          startDate: options.startDate,
+          endDate: options.endDate,
+          tool: options.tool,
+        });
+
+        const result = checkLoggedEntries(entries, registry);
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(result, null, 2));
+        } else {
+          console.log('╔════════════════════════════════════════════════════════════════╗');
+          console.log('║ AUDIT LOG SCHEMA CHECK                                         ║');
+          console.log('╠════════════════════════════════════════════════════════════════╣');
+          if (result.valid) {
+            console.log('║ Status: ✓ VALID - All entries match their schemas'.padEnd(65) + '║');
+          } else {
+            console.log('║ Status: ✗ INVALID - Schema violations found'.padEnd(65) + '║');
+          }
+          console.log(`║ Entries checked: ${result.entriesChecked}`.padEnd(65) + '║');
+          console.log(`║ With command schema: ${result.entriesWithCommandSchema}`.padEnd(65) + '║');
+          console.log(`║ Invalid entries: ${result.failures.length}`.padEnd(65) + '║');
+
+          if (result.failures.length > 0) {
+            console.log('╠════════════════════════════════════════════════════════════════╣');
+            console.log('║ FAILURES:'.padEnd(65) + '║');
+            result.failures.forEach((f, i) => {
+              console.log(`║ ${i + 1}. ${f.auditId.substring(0, 8)}... ${f.tool} ${f.command}`.substring(0, 64).padEnd(65) + '║');
+              f.problems.forEach((p) => {
+                console.log(`║    ${p}`.substring(0, 64).padEnd(65) + '║');
+              });
+            });
+          }
+          console.log('╚════════════════════════════════════════════════════════════════╝');
+        }
+
+        if (!result.valid) {
+          process.exit(1);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return schema;
+}
@@ -0,0 +1,100 @@
+/**
+ * auditctl serve command - HTTP API for writing and querying the audit log
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { AuditLogger } from '../lib/logger';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_KEYS_DIR, loadSigner } from '../lib/keys';
+import { createRedactor } from '../lib/redaction';
+import { createSchemaRegistry } from '../lib/validation';
+import { createAlertEngine } from '../lib/alerting';
+import { createAuditServer } from '../lib/http-server';
+
+/**
+ * Environment variable holding comma-separated API tokens
+ */
+const TOKENS_ENV = 'AUDITCTL_API_TOKENS';
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+export function createServeCommand(): Command {
+  const serve = new Command('serve')
+    .description('Serve an HTTP API for ingesting and querying audit entries')
+    .option('--port <n>', 'Port to listen on', '8787')
+    .option('--host <address>', 'Address to bind', '127.0.0.1')
+    .option('--token <token>', `Accepted bearer token (repeatable; also read from ${TOKENS_ENV})`, collect, [])
+    .option('--tokens-file <path>', 'File with one accepted bearer token per line')
+    .option('--operator <name>', 'Operator recorded on entries that do not set one', 'api')
+    .option('--sign-key <keyId>', 'Sign entries with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
+    .option('--redaction-policy <path>', 'Redaction policy file (default: ./redaction.json if present)')
+    .option('--schemas <path>', 'Command schema registry (default: ./audit-schemas.json if present)')
+    .option('--alert-rules <path>', 'Alert rules (default: ./audit-alerts.json if present)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const port = Number(options.port);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid --port: ${options.port} (expected 0-65535)`);
+        }
+        const tokens: string[] = [
+          ...options.token,
+          ...(process.env[TOKENS_ENV] || '').split(','),
+          ...(options.tokensFile ? fs.readFileSync(options.tokensFile, 'utf-8').split('\n') : []),
+        ]
+          .map((t) => t.trim())
+          .filter((t) => t);
+        if (tokens.length === 0) {
+          throw new Error(`No API tokens configured - use --token, --tokens-file or ${TOKENS_ENV}`);
+        }
+
+        const signer = options.signKey
+          ? loadSigner(options.signKey, options.keysDir)
+          : undefined;
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: true,
+          signer,
+        });
+        const alerts = createAlertEngine(options.alertRules);
+        await alerts?.seed(storage);
+        const logger = new AuditLogger(storage, {
+          defaultOperator: options.operator,
+          signer,
+          redactor: createRedactor(options.redactionPolicy),
+          schemas: createSchemaRegistry(options.schemas),
+          alerts,
+        });
+
+        const server = createAuditServer({ storage, logger, tokens });
+        server.on('error', (error: NodeJS.ErrnoException) => {
+          const reason =
+            error.code === 'EADDRINUSE'
+              ? `Port ${port} on ${options.host} is already in use`
+              : error.code === 'EACCES'
+                ? `No permission to listen on port ${port}`
+                : error.message;
+          console.error(`Error: ${reason}`);
+          process.exit(1);
+        });
+        server.listen(port, options.host, () => {
+          console.log(`auditctl API listening on http://${options.host}:${port}`);
+        });
+
+        const shutdown = () => server.close(() => process.exit(0));
+        process.on('SIGINT', shutdown);
+        process.on('SIGTERM', shutdown);
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return serve;
+}
@@ -0,0 +1,113 @@
+/**
+ * auditctl stats command - Counts, durations, decline and warning rates over the audit log
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { openStorage } from '../lib/storage/open';
+import { AuditStats, StatsGroup, computeStats, formatStatsCsv } from '../lib/stats';
+
+function percent(rate: number | null): string {
+  return rate === null ? '-' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatStatsTable(stats: AuditStats): string {
+  const lines: string[] = [];
+  const row = (text: string) => `║ ${text}`.substring(0, 64).padEnd(65) + '║';
+  const divider = '╠════════════════════════════════════════════════════════════════╣';
+  const describe = (group: StatsGroup) => {
+    lines.push(row(`Entries: ${group.count}   Warnings: ${group.withWarnings} (${percent(group.warningRate)})`));
+    if (group.decisions > 0) {
+      lines.push(row(`Decisions: ${group.decisions}   Declined: ${group.declined} (${percent(group.declineRate)})`));
+    }
+    if (group.duration) {
+      const percentiles = Object.entries(group.duration.percentiles).map(([p, v]) => `${p} ${v}`);
+      lines.push(row(`Duration ms: ${[...percentiles, `max ${group.duration.max}`].join('  ')}`));
+    }
+  };
+
+  lines.push('╔════════════════════════════════════════════════════════════════╗');
+  lines.push(row('AUDIT LOG STATISTICS'));
+  lines.push(divider);
+  lines.push(row(stats.groupBy.length > 0 ? `All entries (grouped by ${stats.groupBy.join(', ')})` : 'All entries'));
+  describe(stats.total);
+  stats.groups.forEach((group) => {
+    lines.push(divider);
+    lines.push(row(stats.groupBy.map((field) => `${field}: ${group.key[field]}`).join('  ')));
+    describe(group);
+  });
+  lines.push('╚════════════════════════════════════════════════════════════════╝');
+  return lines.join('\n');
+}
+
+export function createStatsCommand(): Command {
+  const stats = new Command('stats')
+    .description('Counts, durationMs percentiles, decline and warning rates, optionally grouped')
+    .option(
+      '--by <fields>',
+      'Comma-separated fields to group by: tool, command, operator, loanId, day, week, month, decision, riskFlag, regulation or any field path'
+    )
+    .option('--percentiles <list>', 'Comma-separated durationMs percentiles', '50,90,95,99')
+    .option('--where <expr>', 'Filter expression, e.g. "tool = decctl AND regulations contains TRID"')
+    .option('--tool <name>', 'Filter by tool name')
+    .option('--loan-id <id>', 'Filter by loan ID')
+    .option('--start-date <date>', 'Start of date range (ISO-8601)')
+    .option('--end-date <date>', 'End of date range (ISO-8601)')
+    .option('--format <type>', 'Output format (table|json|csv)', 'table')
+    .option('-o, --output <path>', 'Output file path (stdout if not specified)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const percentiles = options.percentiles.split(',').map((p: string) => {
+          const value = Number(p.trim());
+          if (p.trim() === '' || !(value >= 0 && value <= 100)) {
+            throw new Error(`Invalid --percentiles: ${options.percentiles} (expected numbers from 0 to 100)`);
+          }
+          return value;
+        });
+        const groupBy = options.by ? options.by.split(',').map((b: string) => b.trim()).filter(Boolean) : [];
+
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+        const entries = await storage.query({
+          tool: options.tool,
+          loanId: options.loanId,
+          startDate: options.startDate,
+          endDate: options.endDate,
+          where: options.where,
+        });
+        const result = computeStats(entries, { groupBy, percentiles });
+
+        let output: string;
+        switch (options.format) {
+          case 'json':
+            output = JSON.stringify(result, null, 2);
+            break;
+          case 'csv':
+            output = formatStatsCsv(result);
+            break;
+          case 'table':
+            output = formatStatsTable(result);
+            break;
+          default:
+            throw new Error(`Unknown format: ${options.format} (expected table, json or csv)`);
+        }
+
+        if (options.output) {
+          fs.writeFileSync(options.output, output);
+          console.log(`Summarized ${entries.length} entries in ${result.groups.length} groups; wrote ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return stats;
+}
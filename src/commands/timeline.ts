@@ -0,0 +1,105 @@
+/**
+ * auditctl timeline command - Reconstruct what happened on a loan
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_GAP_HOURS, LoanTimeline, buildLoanTimeline, renderTimelineHtml } from '../lib/timeline';
+
+function renderTable(timeline: LoanTimeline): string[] {
+  const row = (text: string) => `║ ${text}`.substring(0, 64).padEnd(65) + '║';
+  const divider = '╠════════════════════════════════════════════════════════════════╣';
+  const gapsBefore = new Map(timeline.gaps.map((g) => [g.beforeAuditId, g]));
+  const lines = [
+    '╔════════════════════════════════════════════════════════════════╗',
+    row(`LOAN TIMELINE: ${timeline.loanId}`),
+    divider,
+    row(`Entries: ${timeline.entryCount}`),
+    row(`First activity: ${timeline.firstActivity || '-'}`),
+    row(`Last activity: ${timeline.lastActivity || '-'}`),
+    row(`Decisions: ${timeline.decisions.map((d) => d.to).join(' → ') || 'none recorded'}`),
+    row(`Sessions: ${timeline.sessions.length}`),
+    row(`Warnings: ${timeline.warningCount}  Human review: ${timeline.humanReviewCount}`),
+    row(`Risk flags: ${timeline.riskFlags.join(', ') || 'none'}`),
+    divider,
+  ];
+
+  timeline.events.forEach((e) => {
+    const gap = gapsBefore.get(e.auditId);
+    if (gap) {
+      lines.push(row(`  ··· no activity for ${gap.hours} hours ···`));
+    }
+    const indent = e.depth > 0 ? `${'  '.repeat(e.depth - 1)}└─ ` : '';
+    lines.push(row(`${e.timestamp.substring(0, 19).replace('T', ' ')}  ${indent}${e.tool} ${e.command}`));
+    lines.push(row(`    ${e.auditId.substring(0, 8)}... by ${e.operator}${e.sessionId ? ` (session ${e.sessionId.substring(0, 8)})` : ''}`));
+    if (e.decision) {
+      lines.push(row(`    Decision: ${e.decision}`));
+    }
+    e.warnings.forEach((w) => lines.push(row(`    ⚠ ${w}`)));
+    e.riskFlags.forEach((f) => lines.push(row(`    ⚑ ${f}`)));
+    if (e.humanReviewRequired) {
+      lines.push(row('    Human review required'));
+    }
+  });
+
+  lines.push('╚════════════════════════════════════════════════════════════════╝');
+  return lines;
+}
+
+export function createTimelineCommand(): Command {
+  const timeline = new Command('timeline')
+    .description('Reconstruct the audit history of a loan')
+    .requiredOption('--loan-id <id>', 'Loan/application identifier')
+    .option('--gap-hours <hours>', 'Report quiet periods longer than this', String(DEFAULT_GAP_HOURS))
+    .option('--format <type>', 'Output format (table|json|html)', 'table')
+    .option('-o, --output <path>', 'Output file path (stdout if not specified)')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const gapHours = Number(options.gapHours);
+        if (!(gapHours > 0)) {
+          throw new Error(`Invalid --gap-hours: ${options.gapHours}`);
+        }
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+
+        const entries = await storage.query({ loanId: options.loanId });
+        if (entries.length === 0) {
+          throw new Error(`No audit entries found for loan: ${options.loanId}`);
+        }
+        const result = buildLoanTimeline(options.loanId, entries, { gapHours });
+
+        let output: string;
+        switch (options.format) {
+          case 'json':
+            output = JSON.stringify(result, null, 2);
+            break;
+          case 'html':
+            output = renderTimelineHtml(result);
+            break;
+          case 'table':
+            output = renderTable(result).join('\n');
+            break;
+          default:
+            throw new Error(`Unknown format: ${options.format} (expected table, json or html)`);
+        }
+
+        if (options.output) {
+          fs.writeFileSync(options.output, output);
+          console.log(`Wrote timeline of ${result.entryCount} entries to ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return timeline;
+}
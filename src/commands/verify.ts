@@ -3,22 +3,125 @@
  */
 
 import { Command } from 'commander';
-import { FileStorage } from '../lib/storage/file';
+import * as fs from 'fs';
+import { openStorage } from '../lib/storage/open';
+import { mergeIntegrityFailures } from '../lib/integrity';
+import {
+  DEFAULT_KEYS_DIR,
+  DEFAULT_TRUSTED_KEYS_FILE,
+  loadRegistry,
+  loadSigner,
+  verifySignatures,
+} from '../lib/keys';
+import { lineageWarnings } from '../lib/lineage';
+import { createAnchor, loadAnchor, saveAnchor, verifyAnchor } from '../lib/anchor';
+import { buildVerificationReceipt } from '../lib/receipt';
+import { DEFAULT_WITNESSES_FILE, createWitnesses, verifyWitnessedAnchors } from '../lib/witness';
+import { isHashBridgeEntry, verifyHashBridges } from '../lib/hash-bridge';
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
 
 export function createVerifyCommand(): Command {
   const verify = new Command('verify')
     .description('Verify integrity of the audit log')
     .option('--from <date>', 'Start verification from date (ISO-8601)')
     .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .option('--require-signatures', 'Fail on unsigned, unknown-key or revoked-key entries')
+    .option('--trusted-keys <path>', 'Trusted-key registry file', DEFAULT_TRUSTED_KEYS_FILE)
+    .option('--lineage', 'Warn about missing parents, parents later than their child, and parent cycles')
+    .option('--anchor <path>', 'Check against a saved anchor, verification receipt or checkpoint entry')
+    .option('--anchors', 'Check against every anchor recorded by the witnesses')
+    .option('--witness <uri>', `Witness to check with --anchors (repeatable; default: ${DEFAULT_WITNESSES_FILE})`, collect, [])
+    .option('--save-anchor <path>', 'Save the current head as an anchor for the next run (only if valid)')
+    .option('--receipt <path>', 'Write a verification receipt')
+    .option('--sign-key <keyId>', 'Sign the receipt with a local Ed25519 key')
+    .option('--keys-dir <path>', 'Local key store directory', DEFAULT_KEYS_DIR)
     .option('--format <type>', 'Output format (json|table)', 'table')
     .action(async (options) => {
       try {
-        const storage = new FileStorage({
-          filePath: options.auditFile,
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
           createIfMissing: false,
         });
 
-        const result = await storage.verifyIntegrity(options.from);
+        const signer = options.signKey
+          ? loadSigner(options.signKey, options.keysDir)
+          : undefined;
+        const anchor = options.anchor ? loadAnchor(options.anchor) : undefined;
+        const checks = ['hash-chain'];
+
+        let result = await storage.verifyIntegrity(options.from);
+        const entries = await storage.query({});
+
+        if (entries.some(isHashBridgeEntry)) {
+          // A bridge seals everything before it, so it is checked against the whole log
+          result = mergeIntegrityFailures(result, verifyHashBridges(entries));
+          checks.push('hash-bridges');
+        }
+
+        if (options.requireSignatures) {
+          const registry = loadRegistry(options.trustedKeys);
+          const fromTime = options.from ? new Date(options.from).getTime() : -Infinity;
+          result = mergeIntegrityFailures(
+            result,
+            verifySignatures(entries.filter((e) => new Date(e.timestamp).getTime() >= fromTime), registry)
+          );
+          checks.push('signatures');
+        }
+
+        if (options.lineage) {
+          // Parents may predate --from, so links are checked across the whole log
+          const fromTime = options.from ? new Date(options.from).getTime() : -Infinity;
+          result.warnings = [
+            ...(result.warnings || []),
+            ...lineageWarnings(entries).filter((w) => new Date(w.timestamp).getTime() >= fromTime),
+          ];
+          checks.push('lineage');
+        }
+
+        if (anchor) {
+          // The anchor covers the whole log up to its head, whatever --from says; its failures
+          // are about the log as a whole, so they do not count against individual entries
+          const anchorFailures = verifyAnchor(entries, anchor);
+          if (anchorFailures.length > 0) {
+            result = { ...result, valid: false, failures: [...result.failures, ...anchorFailures] };
+          }
+          checks.push('anchor');
+        }
+
+        if (options.anchors) {
+          const witnesses = createWitnesses(options.witness);
+          if (witnesses.length === 0) {
+            throw new Error(`No witnesses: pass --witness or list them in ${DEFAULT_WITNESSES_FILE}`);
+          }
+          const witnessed = await verifyWitnessedAnchors(entries, witnesses);
+          if (witnessed.failures.length > 0) {
+            result = { ...result, valid: false, failures: [...result.failures, ...witnessed.failures] };
+          }
+          console.error(`Checked ${witnessed.anchorsChecked} anchors from ${witnesses.length} witnesses`);
+          checks.push('witnessed-anchors');
+        }
+
+        if (options.receipt) {
+          const receipt = buildVerificationReceipt(entries, result, {
+            log: options.store || options.auditFile,
+            checks,
+            from: options.from,
+            anchor,
+            signer,
+          });
+          fs.writeFileSync(options.receipt, JSON.stringify(receipt, null, 2) + '\n');
+          console.error(`Wrote ${signer ? 'signed ' : ''}verification receipt to ${options.receipt}`);
+        }
+
+        if (options.saveAnchor && result.valid && entries.length > 0) {
+          saveAnchor(createAnchor(entries), options.saveAnchor);
+          console.error(`Saved anchor at entry ${entries.length} to ${options.saveAnchor}`);
+        }
 
         if (options.format === 'json') {
           console.log(JSON.stringify(result, null, 2));
@@ -41,10 +144,21 @@ export function createVerifyCommand(): Command {
             console.log('╠════════════════════════════════════════════════════════════════╣');
             console.log('║ FAILURES:'.padEnd(65) + '║');
             result.failures.forEach((f, i) => {
-              console.log(`║ ${i + 1}. ${f.auditId.substring(0, 8)}... at ${f.timestamp}`.padEnd(65) + '║');
+              const where =
+                f.line !== undefined ? `line ${f.line}` : f.auditId ? `${f.auditId.substring(0, 8)}... at ${f.timestamp}` : 'log';
+              console.log(`║ ${i + 1}. ${where}`.padEnd(65) + '║');
               console.log(`║    Reason: ${f.reason}`.padEnd(65) + '║');
             });
           }
+
+          if (result.warnings && result.warnings.length > 0) {
+            console.log('╠════════════════════════════════════════════════════════════════╣');
+            console.log('║ WARNINGS:'.padEnd(65) + '║');
+            result.warnings.forEach((w, i) => {
+              console.log(`║ ${i + 1}. ${w.auditId.substring(0, 8)}... at ${w.timestamp}`.padEnd(65) + '║');
+              console.log(`║    ${w.reason}`.padEnd(65) + '║');
+            });
+          }
           
           console.log('╚════════════════════════════════════════════════════════════════╝');
         }
@@ -0,0 +1,70 @@
+/**
+ * auditctl watch command - Tail the audit log and evaluate alert rules on new entries
+ */
+
+import { Command } from 'commander';
+import { openStorage } from '../lib/storage/open';
+import { DEFAULT_ALERT_RULES_FILE, createAlertEngine } from '../lib/alerting';
+
+export function createWatchCommand(): Command {
+  const watch = new Command('watch')
+    .description('Tail the audit log and raise alerts on new entries')
+    .option('--alert-rules <path>', 'Alert rules (default: ./audit-alerts.json if present)')
+    .option('--interval <ms>', 'Polling interval in milliseconds', '1000')
+    .option('--from-start', 'Evaluate existing entries before tailing')
+    .option('--once', 'Evaluate the entries present now and exit')
+    .option('--audit-file <path>', 'Audit log file path', './audit.jsonl')
+    .option('--store <uri>', 'Storage URI, e.g. sqlite:./audit.db (overrides --audit-file)')
+    .action(async (options) => {
+      try {
+        const interval = Number(options.interval);
+        if (!(interval > 0)) {
+          throw new Error(`Invalid --interval: ${options.interval}`);
+        }
+        const engine = createAlertEngine(options.alertRules);
+        if (!engine) {
+          throw new Error(`No alert rules: pass --alert-rules or create ${DEFAULT_ALERT_RULES_FILE}`);
+        }
+        const storage = openStorage({
+          store: options.store,
+          auditFile: options.auditFile,
+          createIfMissing: false,
+        });
+
+        // Alerts go to stdout; status goes to stderr
+        // Tail after the last entry seen, reading only entries from its timestamp on; unlike a
+        // position this survives purges. Entries timestamped before it (clock skew) are not seen
+        let last = options.fromStart || options.once ? null : await storage.getLastEntry();
+        let evaluated = 0;
+        const poll = async () => {
+          const entries = await storage.query(last ? { startDate: last.timestamp } : {});
+          const seenAt = last ? entries.findIndex((e) => e.auditId === last!.auditId) : -1;
+          for (const entry of entries.slice(seenAt + 1)) {
+            await engine.process(entry);
+            last = entry;
+            evaluated++;
+          }
+        };
+        if (last) {
+          await engine.seed(storage);
+        }
+
+        if (options.once) {
+          await poll();
+          console.error(`Evaluated ${evaluated} entries`);
+          return;
+        }
+
+        console.error(`Watching ${options.store || options.auditFile} (${last ? `after ${last.auditId}` : 'from the start'}); Ctrl+C to stop`);
+        for (;;) {
+          await poll();
+          await new Promise((resolve) => setTimeout(resolve, interval));
+        }
+      } catch (error: any) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    });
+
+  return watch;
+}
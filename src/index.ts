@@ -6,18 +6,37 @@
  */
 
 import { Command } from 'commander';
+import { VERSION } from './version';
 import { createLogCommand } from './commands/log';
 import { createQueryCommand } from './commands/query';
 import { createVerifyCommand } from './commands/verify';
 import { createReplayCommand } from './commands/replay';
 import { createExportCommand } from './commands/export';
+import { createIndexCommand } from './commands/index-rebuild';
+import { createKeysCommand } from './commands/keys';
+import { createCheckpointCommand } from './commands/checkpoint';
+import { createProofCommand } from './commands/proof';
+import { createRetentionCommand } from './commands/retention';
+import { createEncryptionCommand } from './commands/encryption';
+import { createMcpCommand } from './commands/mcp';
+import { createServeCommand } from './commands/serve';
+import { createSchemaCommand } from './commands/schema';
+import { createTimelineCommand } from './commands/timeline';
+import { createLineageCommand } from './commands/lineage';
+import { createAdverseActionCommand } from './commands/adverse-action';
+import { createFairLendingCommand } from './commands/fairlending';
+import { createReviewCommand } from './commands/review';
+import { createWatchCommand } from './commands/watch';
+import { createAnchorCommand } from './commands/anchor';
+import { createMigrateHashesCommand } from './commands/migrate-hashes';
+import { createStatsCommand } from './commands/stats';
 
 const program = new Command();
 
 program
   .name('auditctl')
   .description('Immutable audit logging for lending operations - part of the LendCtl Suite')
-  .version('0.1.0');
+  .version(VERSION);
 
 // Add commands
 program.addCommand(createLogCommand());
@@ -25,10 +44,262 @@ program.addCommand(createQueryCommand());
 program.addCommand(createVerifyCommand());
 program.addCommand(createReplayCommand());
 program.addCommand(createExportCommand());
+program.addCommand(createIndexCommand());
+program.addCommand(createKeysCommand());
+program.addCommand(createCheckpointCommand());
+program.addCommand(createProofCommand());
+program.addCommand(createRetentionCommand());
+program.addCommand(createEncryptionCommand());
+program.addCommand(createMcpCommand());
+program.addCommand(createServeCommand());
+program.addCommand(createSchemaCommand());
+program.addCommand(createTimelineCommand());
+program.addCommand(createLineageCommand());
+program.addCommand(createAdverseActionCommand());
+program.addCommand(createFairLendingCommand());
+program.addCommand(createReviewCommand());
+program.addCommand(createWatchCommand());
+program.addCommand(createAnchorCommand());
+program.addCommand(createMigrateHashesCommand());
+program.addCommand(createStatsCommand());
 
 program.parse();
 
 // Export library components for programmatic use
-export { AuditLogger, computeEntryHash, sanitizeInputs } from './lib/logger';
+export {
+  AuditLogger,
+  computeEntryHash,
+  sanitizeInputs,
+  CURRENT_HASH_VERSION,
+  HASH_ALGORITHMS,
+} from './lib/logger';
+export { canonicalize } from './lib/canonical';
+export {
+  Redactor,
+  RedactionPolicy,
+  RedactionMode,
+  DEFAULT_REDACTION_POLICY,
+  loadRedactionPolicy,
+  createRedactor,
+} from './lib/redaction';
+export {
+  FieldEncryptor,
+  DataKeyRing,
+  MasterKey,
+  EncryptedValue,
+  generateMasterKey,
+  loadMasterKey,
+  decryptEntry,
+  isEncryptedValue,
+} from './lib/encryption';
 export { FileStorage } from './lib/storage/file';
+export { FileLock } from './lib/storage/lock';
+export { FileIndex } from './lib/storage/file-index';
+export { SqliteStorage } from './lib/storage/sqlite';
+export {
+  SegmentedFileStorage,
+  PurgedSegment,
+  PurgeOutputs,
+  isSealEntry,
+  isPurgeEntry,
+} from './lib/storage/segmented';
+export { openStorage, parseStoreUri } from './lib/storage/open';
+export { verifyChain, mergeIntegrityFailures, addCorruptLines } from './lib/integrity';
+export {
+  parseFilter,
+  compileFilter,
+  evaluateFilter,
+  parseSort,
+  sortEntries,
+  parseFieldPath,
+  valueAtPath,
+  FilterExpression,
+  FilterOperator,
+  FilterValue,
+  SortKey,
+} from './lib/filter';
+export {
+  EntrySigner,
+  TrustedKey,
+  TrustedKeyRegistry,
+  computeKeyId,
+  createSigner,
+  generateKeyPair,
+  loadSigner,
+  loadRegistry,
+  saveRegistry,
+  trustKey,
+  revokeKey,
+  checkEntrySignature,
+  checkHashSignature,
+  verifySignatures,
+} from './lib/keys';
+export { merkleRoot, inclusionPath, verifyInclusion } from './lib/merkle';
+export {
+  CheckpointOutputs,
+  InclusionProof,
+  ProofVerification,
+  createCheckpoint,
+  buildInclusionProof,
+  verifyInclusionProof,
+  isCheckpointEntry,
+  findStoredCheckpoint,
+} from './lib/checkpoint';
+export {
+  RetentionPolicy,
+  RetentionRule,
+  LegalHold,
+  SegmentRetention,
+  loadRetentionPolicy,
+  entryExpiry,
+  planRetention,
+  applyRetention,
+} from './lib/retention';
+export { McpServer, MCP_TOOLS } from './lib/mcp';
+export { createAuditServer, AuditServerOptions } from './lib/http-server';
+export { ingestBatch, readBatch, BatchMode, BatchOptions, BatchResult, BatchLineError } from './lib/batch';
+export {
+  SchemaRegistry,
+  CommandSchema,
+  SchemaRegistryFile,
+  DEFAULT_SCHEMA_REGISTRY_FILE,
+  loadSchemaRegistry,
+  createSchemaRegistry,
+  validateEntryOptions,
+  validateLoggedEntry,
+  checkLoggedEntries,
+  SchemaCheckResult,
+  SchemaCheckFailure,
+} from './lib/validation';
+export { JsonSchema, auditEntryOptionsSchema, auditQueryOptionsSchema, validateSchema } from './lib/schema';
+export { exportEntries, EXPORT_FORMATS } from './lib/export';
+export {
+  buildLoanTimeline,
+  renderTimelineHtml,
+  DEFAULT_GAP_HOURS,
+  LoanTimeline,
+  TimelineEvent,
+  TimelineNode,
+  TimelineSession,
+  DecisionTransition,
+  TimelineGap,
+} from './lib/timeline';
+export {
+  buildLineage,
+  findLineageIssues,
+  lineageWarnings,
+  lineageToDot,
+  lineageToMermaid,
+  LineageGraph,
+  LineageEdge,
+  LineageIssue,
+  LineageIssueKind,
+} from './lib/lineage';
+export {
+  buildAdverseActionNotice,
+  renderAdverseActionNotice,
+  logAdverseActionNotice,
+  mapReasonCodes,
+  loadReasonCodes,
+  createReasonCodes,
+  DEFAULT_REASON_CODES,
+  DEFAULT_NOTICE_TEMPLATE,
+  NOTICE_WINDOW_DAYS,
+  AdverseActionNotice,
+  AdverseDecision,
+  MappedReason,
+  ReasonCode,
+  ReasonCodeTable,
+  NoticeTemplateFields,
+} from './lib/adverse-action';
+export {
+  analyzeFairLending,
+  formatFairLendingCsv,
+  loadLoanAttributes,
+  chiSquare2x2,
+  FOUR_FIFTHS_THRESHOLD,
+  FairLendingAnalysis,
+  FairLendingOptions,
+  AttributeAnalysis,
+  SegmentAnalysis,
+  LoanAttributes,
+} from './lib/fairlending';
+export {
+  buildReviewQueue,
+  buildReviewSlaReport,
+  filterByReviewStatus,
+  findReviews,
+  isReviewEntry,
+  logReview,
+  reviewStatus,
+  DEFAULT_REVIEW_SLA_HOURS,
+  REVIEW_COMMAND,
+  CompletedReview,
+  PendingReview,
+  ReviewOutcome,
+  ReviewSlaReport,
+  ReviewStatus,
+} from './lib/review';
+export {
+  AlertEngine,
+  StdoutAlertSink,
+  WebhookAlertSink,
+  LogAlertSink,
+  createAlertEngine,
+  createAlertSinks,
+  loadAlertRules,
+  matchesRule,
+  parseWindow,
+  DEFAULT_ALERT_RULES_FILE,
+  ALERT_COMMAND,
+  Alert,
+  AlertRule,
+  AlertRulesFile,
+  AlertSeverity,
+  AlertSink,
+  AlertSinkConfig,
+  AlertThreshold,
+  FieldCondition,
+} from './lib/alerting';
+export { AnchorLogIndex, LogAnchor, createAnchor, indexAnchorLog, loadAnchor, saveAnchor, verifyAnchor } from './lib/anchor';
+export {
+  VerificationReceipt,
+  buildVerificationReceipt,
+  checkVerificationReceipt,
+  computeReceiptHash,
+  loadVerificationReceipt,
+} from './lib/receipt';
+export {
+  AnchorWitness,
+  FileWitness,
+  GitWitness,
+  Rfc3161Witness,
+  WitnessedAnchor,
+  WitnessRecords,
+  createWitnesses,
+  loadWitnesses,
+  openWitness,
+  verifyWitnessedAnchors,
+  DEFAULT_WITNESSES_FILE,
+} from './lib/witness';
+export {
+  HashBridgeOutputs,
+  computeSealDigest,
+  isHashBridgeEntry,
+  logHashBridge,
+  verifyHashBridges,
+  HASH_BRIDGE_COMMAND,
+} from './lib/hash-bridge';
+export {
+  computeStats,
+  formatStatsCsv,
+  percentile,
+  DEFAULT_PERCENTILES,
+  STATS_TIME_BUCKETS,
+  AuditStats,
+  DurationStats,
+  StatsGroup,
+  StatsOptions,
+} from './lib/stats';
+export { buildHMDALAR, formatHMDALAR, mapDenialReason } from './lib/hmda';
 export * from './types';
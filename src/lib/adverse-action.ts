@@ -0,0 +1,323 @@
+/**
+ * Adverse action notices (ECOA / Reg B 12 CFR 1002.9) from logged decline and counteroffer decisions
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { AuditEntry } from '../types';
+import { VERSION } from '../version';
+import { AuditLogger } from './logger';
+
+export const ADVERSE_ACTION_COMMAND = 'adverse-action';
+
+/**
+ * Default reason code mapping file, loaded when present
+ */
+export const DEFAULT_REASON_CODES_FILE = './adverse-action-reasons.json';
+
+/**
+ * Days after the action within which the notice must be delivered (Reg B 1002.9(a)(1));
+ * a counteroffer the applicant does not accept has 90 days
+ */
+export const NOTICE_WINDOW_DAYS: Record<AdverseDecision, number> = {
+  declined: 30,
+  countered: 90,
+};
+
+/**
+ * Reg B allows up to four principal reasons on a notice
+ */
+const MAX_PRINCIPAL_REASONS = 4;
+
+export type AdverseDecision = 'declined' | 'countered';
+
+/**
+ * A standard reason code and the free-text reasons that map to it
+ */
+export interface ReasonCode {
+  code: string;
+  description: string;
+  /** Case-insensitive regular expressions matched against logged reasons */
+  patterns: string[];
+}
+
+/**
+ * Reason code mapping file contents
+ */
+export interface ReasonCodeTable {
+  version?: string;
+  /** Code used when no pattern matches; the logged reason is kept as the description */
+  otherCode?: string;
+  reasons: ReasonCode[];
+}
+
+/**
+ * Principal reasons of the Reg B model form (Appendix C, Form C-1)
+ */
+export const DEFAULT_REASON_CODES: ReasonCodeTable = {
+  version: 'regb-c1',
+  otherCode: '23',
+  reasons: [
+    { code: '01', description: 'Credit application incomplete', patterns: ['incomplete'] },
+    { code: '02', description: 'Insufficient number of credit references provided', patterns: ['credit references?'] },
+    { code: '04', description: 'Temporary or irregular employment', patterns: ['temporary employment', 'irregular employment'] },
+    { code: '05', description: 'Unable to verify employment', patterns: ['verif\\w* employment', 'employment.*(unverif|could not)'] },
+    { code: '06', description: 'Length of employment', patterns: ['length of employment', 'employment history'] },
+    { code: '07', description: 'Income insufficient for amount of credit requested', patterns: ['insufficient income', 'income insufficient'] },
+    { code: '08', description: 'Excessive obligations in relation to income', patterns: ['\\bdti\\b', 'debt[- ]to[- ]income', 'excessive obligations'] },
+    { code: '09', description: 'Unable to verify income', patterns: ['verif\\w* income', 'income.*(unverif|could not)'] },
+    { code: '10', description: 'Length of residence', patterns: ['length of residence'] },
+    { code: '13', description: 'No credit file', patterns: ['no credit file', 'thin file'] },
+    { code: '14', description: 'Limited credit experience', patterns: ['limited credit', 'insufficient credit history'] },
+    { code: '16', description: 'Delinquent past or present credit obligations with others', patterns: ['delinquen', 'late payments?'] },
+    { code: '17', description: 'Collection action or judgment', patterns: ['collection', 'judgment'] },
+    { code: '18', description: 'Garnishment or attachment', patterns: ['garnish'] },
+    { code: '19', description: 'Foreclosure or repossession', patterns: ['foreclos', 'reposs'] },
+    { code: '20', description: 'Bankruptcy', patterns: ['bankrupt'] },
+    { code: '21', description: 'Number of recent inquiries on credit bureau report', patterns: ['inquir'] },
+    { code: '22', description: 'Value or type of collateral not sufficient', patterns: ['collateral', 'apprais', '\\bltv\\b', 'loan[- ]to[- ]value'] },
+  ],
+};
+
+/**
+ * Default notice template; {{name}} placeholders are filled from the notice
+ */
+export const DEFAULT_NOTICE_TEMPLATE = `{{creditorName}}
+Notice of Action Taken and Statement of Reasons
+
+Date: {{noticeDate}}
+Applicant: {{applicantName}}
+Application: {{loanId}}
+
+Thank you for your recent application. {{actionStatement}}
+
+Principal reason(s) for our decision:
+{{reasons}}
+
+NOTICE: The Federal Equal Credit Opportunity Act prohibits creditors from discriminating against
+credit applicants on the basis of race, color, religion, national origin, sex, marital status, age
+(provided the applicant has the capacity to enter into a binding contract); because all or part of
+the applicant's income derives from any public assistance program; or because the applicant has in
+good faith exercised any right under the Consumer Credit Protection Act. The Federal agency that
+administers compliance with this law concerning this creditor is: {{agency}}
+`;
+
+/**
+ * A logged reason mapped to a reason code
+ */
+export interface MappedReason {
+  code: string;
+  description: string;
+  /** Reason as logged */
+  reason: string;
+}
+
+/**
+ * An adverse action notice for a loan's latest decline or counteroffer
+ */
+export interface AdverseActionNotice {
+  loanId: string;
+  decision: AdverseDecision;
+  decisionAuditId: string;
+  /** When the adverse action was taken */
+  actionDate: string;
+  noticeDate: string;
+  /** Last day to deliver the notice */
+  deadline: string;
+  daysElapsed: number;
+  windowBreached: boolean;
+  reasons: MappedReason[];
+  reasonCodeVersion?: string;
+  warnings: string[];
+}
+
+/**
+ * Fields substituted into the template besides those derived from the notice
+ */
+export interface NoticeTemplateFields {
+  creditorName?: string;
+  applicantName?: string;
+  agency?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Load a reason code mapping file
+ */
+export function loadReasonCodes(tablePath: string): ReasonCodeTable {
+  if (!fs.existsSync(tablePath)) {
+    throw new Error(`Reason code mapping not found: ${tablePath}`);
+  }
+  const table = JSON.parse(fs.readFileSync(tablePath, 'utf-8')) as ReasonCodeTable;
+  if (!table || !Array.isArray(table.reasons)) {
+    throw new Error(`Invalid reason code mapping: ${tablePath}`);
+  }
+  table.reasons.forEach((r, i) => {
+    if (!r.code || !r.description || !Array.isArray(r.patterns)) {
+      throw new Error(`Reason code ${i + 1} needs a code, description and patterns`);
+    }
+    r.patterns.forEach((p) => new RegExp(p, 'i'));
+  });
+  return table;
+}
+
+/**
+ * Load the given mapping, or the default mapping file if present, or the built-in table
+ */
+export function createReasonCodes(tablePath?: string): ReasonCodeTable {
+  if (tablePath) {
+    return loadReasonCodes(tablePath);
+  }
+  return fs.existsSync(DEFAULT_REASON_CODES_FILE) ? loadReasonCodes(DEFAULT_REASON_CODES_FILE) : DEFAULT_REASON_CODES;
+}
+
+/**
+ * Map logged reasons to reason codes; unmatched reasons use the table's other code
+ */
+export function mapReasonCodes(reasons: string[], table: ReasonCodeTable = DEFAULT_REASON_CODES): MappedReason[] {
+  const rules = table.reasons.map((r) => ({ ...r, regexes: r.patterns.map((p) => new RegExp(p, 'i')) }));
+  return reasons.map((reason) => {
+    const rule = rules.find((r) => r.regexes.some((regex) => regex.test(reason)));
+    return rule
+      ? { code: rule.code, description: rule.description, reason }
+      : { code: table.otherCode || 'other', description: reason, reason };
+  });
+}
+
+function isAdverseDecision(entry: AuditEntry): boolean {
+  return entry.outputs?.decision === 'declined' || entry.outputs?.decision === 'countered';
+}
+
+/**
+ * Build the notice for a loan's latest declined or countered decision
+ */
+export function buildAdverseActionNotice(
+  loanId: string,
+  entries: AuditEntry[],
+  options: { table?: ReasonCodeTable; noticeDate?: Date } = {}
+): AdverseActionNotice {
+  const table = options.table || DEFAULT_REASON_CODES;
+  const noticeDate = options.noticeDate || new Date();
+  const loanEntries = entries
+    .filter((e) => e.loanId === loanId)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const adverse = loanEntries.filter(isAdverseDecision);
+  if (adverse.length === 0) {
+    throw new Error(`No declined or countered decision found for loan: ${loanId}`);
+  }
+  const decisionEntry = adverse[adverse.length - 1];
+  const decision = decisionEntry.outputs.decision as AdverseDecision;
+  const warnings: string[] = [];
+
+  const later = loanEntries.filter(
+    (e) => typeof e.outputs?.decision === 'string' && !isAdverseDecision(e) && e.timestamp > decisionEntry.timestamp
+  );
+  if (later.length > 0) {
+    warnings.push(`A later ${later[later.length - 1].outputs.decision} decision (${later[later.length - 1].auditId}) supersedes this ${decision} decision`);
+  }
+
+  const actionValue = decisionEntry.outputs.actionDate;
+  const actionDate = new Date(typeof actionValue === 'string' ? actionValue : decisionEntry.timestamp);
+  if (isNaN(actionDate.getTime())) {
+    throw new Error(`Invalid action date on decision ${decisionEntry.auditId}: ${actionValue}`);
+  }
+  const deadline = new Date(actionDate.getTime() + NOTICE_WINDOW_DAYS[decision] * DAY_MS);
+
+  const logged = decisionEntry.outputs.adverseActionReasons;
+  const reasons = mapReasonCodes(Array.isArray(logged) ? logged.map(String) : [], table);
+  if (reasons.length === 0) {
+    warnings.push('The decision has no adverse action reasons; a notice must state specific reasons');
+  }
+  reasons
+    .filter((r) => r.code === (table.otherCode || 'other'))
+    .forEach((r) => warnings.push(`No reason code matches "${r.reason}"; it is listed as other`));
+  if (reasons.length > MAX_PRINCIPAL_REASONS) {
+    warnings.push(`${reasons.length} reasons given; Reg B model forms disclose at most ${MAX_PRINCIPAL_REASONS} principal reasons`);
+  }
+
+  const windowBreached = noticeDate.getTime() > deadline.getTime();
+  if (windowBreached) {
+    warnings.push(`Notice date is past the ${NOTICE_WINDOW_DAYS[decision]}-day delivery deadline of ${deadline.toISOString()}`);
+  }
+
+  return {
+    loanId,
+    decision,
+    decisionAuditId: decisionEntry.auditId,
+    actionDate: actionDate.toISOString(),
+    noticeDate: noticeDate.toISOString(),
+    deadline: deadline.toISOString(),
+    daysElapsed: Math.floor((noticeDate.getTime() - actionDate.getTime()) / DAY_MS),
+    windowBreached,
+    reasons,
+    reasonCodeVersion: table.version,
+    warnings,
+  };
+}
+
+/**
+ * Render a notice from a template; unknown placeholders are an error
+ */
+export function renderAdverseActionNotice(
+  notice: AdverseActionNotice,
+  template: string = DEFAULT_NOTICE_TEMPLATE,
+  fields: NoticeTemplateFields = {}
+): string {
+  const values: Record<string, string> = {
+    loanId: notice.loanId,
+    decision: notice.decision,
+    actionDate: notice.actionDate.slice(0, 10),
+    noticeDate: notice.noticeDate.slice(0, 10),
+    deadline: notice.deadline.slice(0, 10),
+    actionStatement:
+      notice.decision === 'declined'
+        ? 'After careful review, we are unable to approve your application.'
+        : 'We are unable to offer credit on the terms you requested, but have made a counteroffer.',
+    reasons: notice.reasons.map((r) => `  - ${r.description}`).join('\n'),
+    reasonCodes: notice.reasons.map((r) => r.code).join(', '),
+    creditorName: fields.creditorName || '[Creditor name and address]',
+    applicantName: fields.applicantName || '[Applicant name]',
+    agency: fields.agency || '[Name and address of the federal agency]',
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(values, name)) {
+      throw new Error(`Unknown template placeholder: {{${name}}}`);
+    }
+    return values[name];
+  });
+}
+
+/**
+ * Log the generation of a notice as an entry linked to its decision
+ */
+export async function logAdverseActionNotice(
+  logger: AuditLogger,
+  notice: AdverseActionNotice,
+  rendered: string,
+  options?: { operator?: string }
+): Promise<AuditEntry> {
+  return logger.log({
+    tool: 'auditctl',
+    command: ADVERSE_ACTION_COMMAND,
+    toolVersion: VERSION,
+    inputs: { decisionAuditId: notice.decisionAuditId, reasonCodeVersion: notice.reasonCodeVersion },
+    outputs: {
+      noticeDate: notice.noticeDate,
+      deadline: notice.deadline,
+      windowBreached: notice.windowBreached,
+      reasonCodes: notice.reasons.map((r) => r.code),
+      noticeHash: crypto.createHash('sha256').update(rendered).digest('hex'),
+    },
+    rationale: `Adverse action notice generated for ${notice.decision} decision ${notice.decisionAuditId}`,
+    warnings: notice.warnings,
+    compliance: {
+      regulations: ['ECOA', 'Reg B'],
+      riskFlags: notice.windowBreached ? ['adverse-action-notice-late'] : [],
+      humanReviewRequired: notice.windowBreached,
+    },
+    operator: options?.operator,
+    loanId: notice.loanId,
+    parentAuditId: notice.decisionAuditId,
+  });
+}
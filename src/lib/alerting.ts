@@ -0,0 +1,449 @@
+/**
+ * Alerting - declarative rules evaluated against entries as they are logged or tailed
+ * Rules match on entry fields; a threshold turns a rule into "N matches within a window",
+ * optionally counted per group (e.g. per operator). Alerts go to stdout, a webhook or a
+ * hash-chained alert log
+ */
+
+import * as fs from 'fs';
+import { AuditEntry, AuditStorage } from '../types';
+import { VERSION } from '../version';
+import { AuditLogger } from './logger';
+import { FileStorage } from './storage/file';
+
+/**
+ * Default alert rules file, loaded when present
+ */
+export const DEFAULT_ALERT_RULES_FILE = './audit-alerts.json';
+
+export const ALERT_COMMAND = 'alert';
+
+export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * A condition on one field; a bare value means equals
+ */
+export type FieldCondition =
+  | string
+  | number
+  | boolean
+  | null
+  | {
+      equals?: unknown;
+      notEquals?: unknown;
+      /** Array contains the value, or string contains the substring */
+      contains?: string | number;
+      in?: unknown[];
+      /** Regular expression tested against the string value */
+      matches?: string;
+      exists?: boolean;
+      gt?: number;
+      gte?: number;
+      lt?: number;
+      lte?: number;
+    };
+
+/**
+ * Fire only when a rule matches `count` entries within `window` (e.g. "1h", "30m", "1d")
+ */
+export interface AlertThreshold {
+  count: number;
+  window: string;
+  /** Count separately per value of this field, e.g. "operator" */
+  groupBy?: string;
+}
+
+/**
+ * An alert rule
+ */
+export interface AlertRule {
+  name: string;
+  description?: string;
+  severity?: AlertSeverity;
+  /** Conditions keyed by dotted field path, e.g. "outputs.decision"; all must hold */
+  when: Record<string, FieldCondition>;
+  threshold?: AlertThreshold;
+}
+
+/**
+ * Where alerts are sent
+ */
+export type AlertSinkConfig =
+  | { type: 'stdout' }
+  | { type: 'webhook'; url: string; headers?: Record<string, string> }
+  | { type: 'log'; path: string };
+
+/**
+ * Alert rules file contents
+ */
+export interface AlertRulesFile {
+  version?: string;
+  rules: AlertRule[];
+  /** Defaults to stdout */
+  sinks?: AlertSinkConfig[];
+}
+
+/**
+ * A fired alert
+ */
+export interface Alert {
+  rule: string;
+  severity: AlertSeverity;
+  message: string;
+  /** The entry that triggered the alert */
+  auditId: string;
+  timestamp: string;
+  loanId?: string;
+  /** Matches within the window, for threshold rules */
+  count?: number;
+  group?: string;
+  /** Audit IDs counted towards a threshold */
+  auditIds?: string[];
+}
+
+/**
+ * Alert destination
+ */
+export interface AlertSink {
+  send(alert: Alert): Promise<void>;
+}
+
+const WINDOW_PATTERN = /^(\d+)\s*(s|m|h|d)$/;
+const WINDOW_UNITS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+const OPERATORS = ['equals', 'notEquals', 'contains', 'in', 'matches', 'exists', 'gt', 'gte', 'lt', 'lte'];
+
+/**
+ * Parse a window such as "1h" into milliseconds
+ */
+export function parseWindow(window: string): number {
+  const match = WINDOW_PATTERN.exec(String(window).trim());
+  if (!match || parseInt(match[1]) === 0) {
+    throw new Error(`Invalid window "${window}" (expected e.g. "30s", "15m", "1h", "1d")`);
+  }
+  return parseInt(match[1]) * WINDOW_UNITS[match[2]];
+}
+
+/**
+ * Value at a dotted path, e.g. "compliance.riskFlags"
+ */
+function fieldValue(entry: AuditEntry, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    entry
+  );
+}
+
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(actual) && !Array.isArray(expected)) {
+    return actual.some((a) => isEqual(a, expected));
+  }
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+/**
+ * Whether a value satisfies a condition
+ */
+function matchesCondition(actual: unknown, condition: FieldCondition): boolean {
+  if (condition === null || typeof condition !== 'object') {
+    return isEqual(actual, condition);
+  }
+  const c = condition;
+  if (c.exists !== undefined && (actual !== undefined && actual !== null) !== c.exists) {
+    return false;
+  }
+  if ('equals' in c && !isEqual(actual, c.equals)) {
+    return false;
+  }
+  if ('notEquals' in c && isEqual(actual, c.notEquals)) {
+    return false;
+  }
+  if (c.contains !== undefined) {
+    const contains = Array.isArray(actual)
+      ? actual.includes(c.contains)
+      : typeof actual === 'string' && actual.includes(String(c.contains));
+    if (!contains) {
+      return false;
+    }
+  }
+  if (c.in !== undefined && !c.in.some((v) => isEqual(actual, v))) {
+    return false;
+  }
+  if (c.matches !== undefined && !(typeof actual === 'string' && new RegExp(c.matches).test(actual))) {
+    return false;
+  }
+  const comparisons: Array<[number | undefined, (a: number, b: number) => boolean]> = [
+    [c.gt, (a, b) => a > b],
+    [c.gte, (a, b) => a >= b],
+    [c.lt, (a, b) => a < b],
+    [c.lte, (a, b) => a <= b],
+  ];
+  return comparisons.every(([bound, compare]) => bound === undefined || (typeof actual === 'number' && compare(actual, bound)));
+}
+
+/**
+ * Whether an entry meets every condition of a rule
+ */
+export function matchesRule(entry: AuditEntry, rule: AlertRule): boolean {
+  return Object.entries(rule.when).every(([fieldPath, condition]) =>
+    matchesCondition(fieldValue(entry, fieldPath), condition)
+  );
+}
+
+/**
+ * Check a rules file, throwing on the first problem
+ */
+function validateRules(file: AlertRulesFile, source: string): void {
+  if (!file || !Array.isArray(file.rules)) {
+    throw new Error(`Invalid alert rules: ${source}`);
+  }
+  const names = new Set<string>();
+  file.rules.forEach((rule, i) => {
+    const label = `Alert rule ${i + 1}${rule?.name ? ` (${rule.name})` : ''}`;
+    if (!rule || typeof rule.name !== 'string' || !rule.name) {
+      throw new Error(`${label} needs a name`);
+    }
+    if (names.has(rule.name)) {
+      throw new Error(`${label} duplicates another rule's name`);
+    }
+    names.add(rule.name);
+    if (!rule.when || typeof rule.when !== 'object' || Array.isArray(rule.when)) {
+      throw new Error(`${label} needs a "when" object of field conditions`);
+    }
+    Object.entries(rule.when).forEach(([fieldPath, condition]) => {
+      if (condition !== null && typeof condition === 'object') {
+        const unknown = Object.keys(condition).filter((k) => !OPERATORS.includes(k));
+        if (unknown.length > 0) {
+          throw new Error(`${label}: unknown operator ${unknown.join(', ')} on ${fieldPath}`);
+        }
+        if (condition.matches !== undefined) {
+          try {
+            new RegExp(condition.matches);
+          } catch (e: any) {
+            throw new Error(`${label}: invalid regular expression on ${fieldPath}: ${e.message}`);
+          }
+        }
+      }
+    });
+    if (rule.severity !== undefined && !['low', 'medium', 'high', 'critical'].includes(rule.severity)) {
+      throw new Error(`${label}: severity must be low, medium, high or critical`);
+    }
+    if (rule.threshold) {
+      if (!(Number.isInteger(rule.threshold.count) && rule.threshold.count > 0)) {
+        throw new Error(`${label}: threshold count must be a positive integer`);
+      }
+      parseWindow(rule.threshold.window);
+    }
+  });
+  (file.sinks || []).forEach((sink, i) => {
+    if (sink.type === 'webhook' ? !sink.url : sink.type === 'log' ? !sink.path : sink.type !== 'stdout') {
+      throw new Error(`Alert sink ${i + 1} must be stdout, webhook (with a url) or log (with a path)`);
+    }
+  });
+}
+
+/**
+ * Load an alert rules file
+ */
+export function loadAlertRules(rulesPath: string): AlertRulesFile {
+  if (!fs.existsSync(rulesPath)) {
+    throw new Error(`Alert rules not found: ${rulesPath}`);
+  }
+  const file = JSON.parse(fs.readFileSync(rulesPath, 'utf-8')) as AlertRulesFile;
+  validateRules(file, rulesPath);
+  return file;
+}
+
+/**
+ * Writes each alert as a JSON line to stdout (or another stream)
+ */
+export class StdoutAlertSink implements AlertSink {
+  constructor(private output: NodeJS.WritableStream = process.stdout) {}
+
+  async send(alert: Alert): Promise<void> {
+    this.output.write(JSON.stringify({ alert }) + '\n');
+  }
+}
+
+/**
+ * POSTs each alert as JSON to a webhook
+ */
+export class WebhookAlertSink implements AlertSink {
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {},
+    private timeoutMs = 5000
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify({ alert }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook ${this.url} responded ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Appends each alert as an entry in a separate hash-chained log, verifiable with auditctl verify
+ */
+export class LogAlertSink implements AlertSink {
+  private logger: AuditLogger;
+
+  constructor(filePath: string) {
+    this.logger = new AuditLogger(new FileStorage({ filePath }));
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await this.logger.log({
+      tool: 'auditctl',
+      command: ALERT_COMMAND,
+      toolVersion: VERSION,
+      inputs: { rule: alert.rule, auditId: alert.auditId, ...(alert.auditIds ? { auditIds: alert.auditIds } : {}) },
+      outputs: {
+        severity: alert.severity,
+        message: alert.message,
+        ...(alert.count !== undefined ? { count: alert.count } : {}),
+        ...(alert.group !== undefined ? { group: alert.group } : {}),
+      },
+      rationale: alert.message,
+      compliance: {
+        regulations: [],
+        riskFlags: [`alert:${alert.rule}`],
+        humanReviewRequired: alert.severity === 'critical',
+      },
+      loanId: alert.loanId,
+      parentAuditId: alert.auditId,
+    });
+  }
+}
+
+/**
+ * Build the sinks described by a rules file; `output` replaces stdout, e.g. where stdout carries a protocol
+ */
+export function createAlertSinks(
+  configs: AlertSinkConfig[] = [{ type: 'stdout' }],
+  output?: NodeJS.WritableStream
+): AlertSink[] {
+  return configs.map((config) => {
+    switch (config.type) {
+      case 'webhook':
+        return new WebhookAlertSink(config.url, config.headers);
+      case 'log':
+        return new LogAlertSink(config.path);
+      default:
+        return new StdoutAlertSink(output);
+    }
+  });
+}
+
+/**
+ * Evaluates rules against entries and dispatches alerts to sinks
+ * Threshold windows are measured on entry timestamps, so replaying a log gives the same alerts
+ */
+export class AlertEngine {
+  private rules: AlertRule[];
+  private sinks: AlertSink[];
+  /** Matches still inside each threshold window, keyed by rule and group */
+  private windows = new Map<string, Array<{ auditId: string; time: number }>>();
+
+  constructor(rules: AlertRule[], sinks: AlertSink[] = [new StdoutAlertSink()]) {
+    validateRules({ rules }, 'rules');
+    this.rules = rules;
+    this.sinks = sinks;
+  }
+
+  /**
+   * Alerts an entry triggers; updates threshold windows
+   */
+  evaluate(entry: AuditEntry): Alert[] {
+    const alerts: Alert[] = [];
+    this.rules.forEach((rule) => {
+      if (!matchesRule(entry, rule)) {
+        return;
+      }
+      const base = {
+        rule: rule.name,
+        severity: rule.severity || 'medium',
+        auditId: entry.auditId,
+        timestamp: entry.timestamp,
+        ...(entry.loanId ? { loanId: entry.loanId } : {}),
+      };
+      if (!rule.threshold) {
+        alerts.push({ ...base, message: `${rule.description || rule.name}: ${entry.tool} ${entry.command} ${entry.auditId}` });
+        return;
+      }
+
+      const { count, window, groupBy } = rule.threshold;
+      const group = groupBy ? String(fieldValue(entry, groupBy) ?? '') : undefined;
+      const key = `${rule.name}\0${group ?? ''}`;
+      const time = new Date(entry.timestamp).getTime();
+      const matches = (this.windows.get(key) || []).filter((m) => m.time > time - parseWindow(window));
+      matches.push({ auditId: entry.auditId, time });
+      if (matches.length >= count) {
+        alerts.push({
+          ...base,
+          message: `${rule.description || rule.name}: ${matches.length} matching entries within ${window}${
+            groupBy ? ` for ${groupBy}=${group}` : ''
+          }`,
+          count: matches.length,
+          ...(group !== undefined ? { group } : {}),
+          auditIds: matches.map((m) => m.auditId),
+        });
+        // Start counting afresh so one burst raises one alert
+        this.windows.delete(key);
+      } else {
+        this.windows.set(key, matches);
+      }
+    });
+    return alerts;
+  }
+
+  /**
+   * Count the log's recent entries into the threshold windows without sending alerts, so an engine
+   * in a short-lived process (one auditctl log call) sees matches logged before it started
+   * Reads entries within the longest threshold window; returns how many were replayed
+   */
+  async seed(storage: AuditStorage, now = Date.now()): Promise<number> {
+    const windows = this.rules.filter((r) => r.threshold).map((r) => parseWindow(r.threshold!.window));
+    if (windows.length === 0) {
+      return 0;
+    }
+    const entries = await storage.query({ startDate: new Date(now - Math.max(...windows)).toISOString() });
+    entries.forEach((entry) => this.evaluate(entry));
+    return entries.length;
+  }
+
+  /**
+   * Evaluate an entry and send its alerts to every sink
+   * A failing sink is reported on stderr and does not stop the others
+   */
+  async process(entry: AuditEntry): Promise<Alert[]> {
+    const alerts = this.evaluate(entry);
+    for (const alert of alerts) {
+      for (const sink of this.sinks) {
+        try {
+          await sink.send(alert);
+        } catch (e: any) {
+          console.error(`Warning: Failed to send alert ${alert.rule}: ${e.message}`);
+        }
+      }
+    }
+    return alerts;
+  }
+}
+
+/**
+ * Engine for the given rules file, or the default rules file if present; undefined if there is none
+ */
+export function createAlertEngine(rulesPath?: string, output?: NodeJS.WritableStream): AlertEngine | undefined {
+  const file = rulesPath
+    ? loadAlertRules(rulesPath)
+    : fs.existsSync(DEFAULT_ALERT_RULES_FILE)
+      ? loadAlertRules(DEFAULT_ALERT_RULES_FILE)
+      : undefined;
+  return file ? new AlertEngine(file.rules, createAlertSinks(file.sinks, output)) : undefined;
+}
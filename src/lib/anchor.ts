@@ -0,0 +1,191 @@
+/**
+ * External anchors - a head hash and entry count saved outside the log
+ * The chain alone cannot show that its last entries were deleted; an anchor from an earlier run can
+ * Positions count entries purged by retention, so anchors stay valid across purges
+ */
+
+import * as fs from 'fs';
+import { AuditEntry, IntegrityFailure } from '../types';
+import { isCheckpointEntry } from './checkpoint';
+import { PurgedSegment, collectPurgedSegments } from './storage/segmented';
+
+/**
+ * The head of the log at a point in time
+ */
+export interface LogAnchor {
+  version: 1;
+  /** Entries in the log up to and including the head, purged ones included; omitted when the position is unknown */
+  entryCount?: number;
+  headHash: string;
+  headAuditId: string;
+  headTimestamp: string;
+  createdAt: string;
+}
+
+/**
+ * Lookups for checking anchors against a log, built once and shared by every anchor checked
+ */
+export interface AnchorLogIndex {
+  entries: AuditEntry[];
+  /** Position of each entry hash in entries */
+  positions: Map<string, number>;
+  /** Each entry by audit ID */
+  byId: Map<string, AuditEntry>;
+  /** Entries purged by retention before each position */
+  purgedBefore: number[];
+  /** Segments purged by retention, from the log's purge entries */
+  purged: PurgedSegment[];
+}
+
+/**
+ * Index a log for anchor checks
+ * A purged segment leaves a gap where the next remaining entry chains to its seal
+ */
+export function indexAnchorLog(entries: AuditEntry[]): AnchorLogIndex {
+  const purged = [...collectPurgedSegments(entries).values()];
+  const bySeal = new Map(purged.map((p) => [p.sealHash, p]));
+  const counted = new Set<PurgedSegment>();
+  let total = 0;
+  const purgedBefore = entries.map((entry) => {
+    let segment = entry.previousHash ? bySeal.get(entry.previousHash) : undefined;
+    // Segments purged back to back chain to each other's seals
+    while (segment && !counted.has(segment)) {
+      counted.add(segment);
+      total += segment.entryCount + 1;
+      segment = segment.previousHash ? bySeal.get(segment.previousHash) : undefined;
+    }
+    return total;
+  });
+  return {
+    entries,
+    positions: new Map(entries.map((e, i) => [e.entryHash || '', i])),
+    byId: new Map(entries.map((e) => [e.auditId, e])),
+    purgedBefore,
+    purged,
+  };
+}
+
+/**
+ * Anchor the current head of the log
+ */
+export function createAnchor(entries: AuditEntry[]): LogAnchor {
+  const head = entries[entries.length - 1];
+  if (!head || !head.entryHash) {
+    throw new Error('Cannot anchor an empty log');
+  }
+  return {
+    version: 1,
+    entryCount: entries.length + indexAnchorLog(entries).purgedBefore[entries.length - 1],
+    headHash: head.entryHash,
+    headAuditId: head.auditId,
+    headTimestamp: head.timestamp,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Write an anchor file
+ */
+export function saveAnchor(anchor: LogAnchor, anchorPath: string): void {
+  fs.writeFileSync(anchorPath, JSON.stringify(anchor, null, 2) + '\n');
+}
+
+/**
+ * Load an anchor from an anchor file, a verification receipt (its head) or a checkpoint entry
+ * A checkpoint commits to everything before it through its previousHash, so its own hash is the head;
+ * its position is not recorded, so only its presence is checked
+ */
+export function loadAnchor(anchorPath: string): LogAnchor {
+  if (!fs.existsSync(anchorPath)) {
+    throw new Error(`Anchor not found: ${anchorPath}`);
+  }
+  const file = JSON.parse(fs.readFileSync(anchorPath, 'utf-8'));
+
+  if (file && typeof file.tool === 'string' && isCheckpointEntry(file)) {
+    if (!file.entryHash) {
+      throw new Error(`Checkpoint has no entry hash: ${anchorPath}`);
+    }
+    return {
+      version: 1,
+      headHash: file.entryHash,
+      headAuditId: file.auditId,
+      headTimestamp: file.timestamp,
+      createdAt: file.timestamp,
+    };
+  }
+
+  const anchor = file && typeof file.head === 'object' ? file.head : file;
+  if (
+    !anchor ||
+    typeof anchor.headHash !== 'string' ||
+    typeof anchor.headAuditId !== 'string' ||
+    (anchor.entryCount !== undefined && !(Number.isInteger(anchor.entryCount) && anchor.entryCount > 0))
+  ) {
+    throw new Error(`Invalid anchor: ${anchorPath} (expected an anchor, verification receipt or checkpoint entry)`);
+  }
+  return anchor;
+}
+
+/**
+ * Whether a purge record covers the anchored head: its segment was archived by retention
+ * Only recorded hashes and IDs count - a timestamp inside a purged range could belong to a forged anchor
+ */
+function archivedHead(purged: PurgedSegment[], anchor: LogAnchor): PurgedSegment | undefined {
+  return purged.find(
+    (p) =>
+      p.sealHash === anchor.headHash ||
+      p.finalHash === anchor.headHash ||
+      p.firstAuditId === anchor.headAuditId ||
+      p.lastAuditId === anchor.headAuditId
+  );
+}
+
+/**
+ * Check that the anchored head is still in the log, unchanged and at its recorded position
+ * Combined with a valid chain this shows nothing up to the head was deleted, inserted or rewritten
+ * A head archived by retention passes when a purge record names it: the first, last or seal entry of a segment
+ * Pass an index from indexAnchorLog when checking many anchors against one log
+ */
+export function verifyAnchor(
+  entries: AuditEntry[],
+  anchor: LogAnchor,
+  index: AnchorLogIndex = indexAnchorLog(entries)
+): IntegrityFailure[] {
+  const failure = (reason: string, actualHash?: string): IntegrityFailure[] => [
+    {
+      auditId: anchor.headAuditId,
+      timestamp: anchor.headTimestamp,
+      reason,
+      expectedHash: anchor.headHash,
+      actualHash,
+    },
+  ];
+
+  const position = index.positions.get(anchor.headHash);
+  if (position === undefined) {
+    const byId = index.byId.get(anchor.headAuditId);
+    if (byId) {
+      return failure(`Anchored head ${anchor.headAuditId} has been modified`, byId.entryHash);
+    }
+    if (archivedHead(index.purged, anchor)) {
+      return [];
+    }
+    const total = entries.length + (index.purgedBefore[entries.length - 1] ?? 0);
+    if (anchor.entryCount !== undefined && total < anchor.entryCount) {
+      return failure(
+        `Log has ${total} entries but the anchor recorded ${anchor.entryCount} - entries deleted or truncated`
+      );
+    }
+    return failure(`Anchored head ${anchor.headAuditId} not found - log truncated or rewritten`);
+  }
+
+  const entryNumber = position + 1 + index.purgedBefore[position];
+  if (anchor.entryCount !== undefined && entryNumber !== anchor.entryCount) {
+    return failure(
+      `Anchored head is entry ${entryNumber} but the anchor recorded entry ${anchor.entryCount} - ` +
+        'entries deleted, inserted or reordered before it',
+      entries[position].entryHash
+    );
+  }
+  return [];
+}
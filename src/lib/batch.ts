@@ -0,0 +1,146 @@
+/**
+ * Bulk ingestion of JSONL AuditEntryOptions, e.g. backfills from a loan origination system
+ */
+
+import * as readline from 'readline';
+import { AuditEntry, AuditEntryOptions } from '../types';
+import { AuditLogger } from './logger';
+import { validateEntryOptions } from './validation';
+
+/**
+ * How invalid lines are handled: write nothing, or log the valid lines and report the rest
+ */
+export type BatchMode = 'all-or-nothing' | 'skip-invalid';
+
+/**
+ * An invalid input line
+ */
+export interface BatchLineError {
+  /** 1-based line number in the input */
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of a batch ingestion
+ */
+export interface BatchResult {
+  /** Entries written, in input order (empty when handed to BatchOptions.onEntries instead) */
+  entries: AuditEntry[];
+  /** Number of entries written */
+  logged: number;
+  /** Invalid lines (nothing was written if any exist in all-or-nothing mode) */
+  errors: BatchLineError[];
+}
+
+/**
+ * Batch ingestion options
+ */
+export interface BatchOptions {
+  /** Entries appended per lock in skip-invalid mode (default 1000) */
+  chunkSize?: number;
+  /** Receive written entries chunk by chunk instead of collecting them in the result */
+  onEntries?: (entries: AuditEntry[]) => void | Promise<void>;
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+
+type BatchLine = { line: number; options: AuditEntryOptions } | { line: number; error: string };
+
+/**
+ * Parse and validate the non-blank lines of a JSONL stream one at a time
+ */
+async function* batchLines(input: NodeJS.ReadableStream, validate: (value: unknown) => string[]): AsyncGenerator<BatchLine> {
+  let line = 0;
+  for await (const text of readline.createInterface({ input, crlfDelay: Infinity })) {
+    line++;
+    if (!text.trim()) {
+      continue;
+    }
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (e: any) {
+      yield { line, error: `invalid JSON (${e.message})` };
+      continue;
+    }
+    const problems = validate(value);
+    yield problems.length > 0 ? { line, error: problems.join('; ') } : { line, options: value as AuditEntryOptions };
+  }
+}
+
+/**
+ * Read JSONL entry options from a stream, validating each non-blank line
+ */
+export async function readBatch(
+  input: NodeJS.ReadableStream,
+  validate: (value: unknown) => string[] = (value) => validateEntryOptions(value)
+): Promise<{ records: Array<{ line: number; options: AuditEntryOptions }>; errors: BatchLineError[] }> {
+  const records: Array<{ line: number; options: AuditEntryOptions }> = [];
+  const errors: BatchLineError[] = [];
+  for await (const result of batchLines(input, validate)) {
+    if ('error' in result) {
+      errors.push({ line: result.line, message: result.error });
+    } else {
+      records.push(result);
+    }
+  }
+  return { records, errors };
+}
+
+/**
+ * Read a JSONL stream and log its entries as chained batches
+ *
+ * all-or-nothing checks the whole input before writing, so it holds every record in memory and
+ * appends them under one lock. skip-invalid streams: it appends every chunkSize valid records
+ * under their own lock, so memory stays bounded (with onEntries) but other writers may interleave
+ * between chunks
+ */
+export async function ingestBatch(
+  logger: AuditLogger,
+  input: NodeJS.ReadableStream,
+  mode: BatchMode = 'all-or-nothing',
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const entries: AuditEntry[] = [];
+  let logged = 0;
+  const write = async (batch: AuditEntryOptions[]) => {
+    if (batch.length === 0) {
+      return;
+    }
+    const written = await logger.logBatch(batch);
+    logged += written.length;
+    if (options.onEntries) {
+      await options.onEntries(written);
+    } else {
+      entries.push(...written);
+    }
+  };
+  const validate = (value: unknown) => logger.validate(value);
+
+  if (mode === 'all-or-nothing') {
+    const { records, errors } = await readBatch(input, validate);
+    if (errors.length > 0) {
+      return { entries: [], logged: 0, errors };
+    }
+    await write(records.map((r) => r.options));
+    return { entries, logged, errors };
+  }
+
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  const errors: BatchLineError[] = [];
+  let chunk: AuditEntryOptions[] = [];
+  for await (const result of batchLines(input, validate)) {
+    if ('error' in result) {
+      errors.push({ line: result.line, message: result.error });
+      continue;
+    }
+    chunk.push(result.options);
+    if (chunk.length >= chunkSize) {
+      await write(chunk);
+      chunk = [];
+    }
+  }
+  await write(chunk);
+  return { entries, logged, errors };
+}
@@ -0,0 +1,58 @@
+/**
+ * RFC 8785 JSON Canonicalization Scheme - one serialization for a JSON value, whatever the key order,
+ * so hashes agree across tools and languages
+ */
+
+/**
+ * Serialize a value as canonical JSON: object keys sorted by UTF-16 code units, no whitespace,
+ * numbers and strings as ECMAScript serializes them
+ * Values are reduced to JSON as JSON.stringify would (toJSON, undefined members dropped, non-finite
+ * numbers as null), so a hash computed before writing matches the entry read back
+ */
+export function canonicalize(value: unknown): string {
+  const json = toJsonValue(value);
+  return json === undefined ? 'null' : serialize(json);
+}
+
+function hasToJson(value: object): value is { toJSON: () => unknown } {
+  return 'toJSON' in value && typeof value.toJSON === 'function';
+}
+
+function toJsonValue(value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && hasToJson(value)) {
+    value = value.toJSON();
+  }
+  switch (typeof value) {
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+    case 'number':
+      return Number.isFinite(value) ? value : null;
+    case 'bigint':
+      throw new Error('Cannot canonicalize a BigInt');
+    default:
+      return value;
+  }
+}
+
+function serialize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => {
+      const json = toJsonValue(item);
+      return json === undefined ? 'null' : serialize(json);
+    }).join(',')}]`;
+  }
+  const members: string[] = [];
+  // Default sort compares UTF-16 code units, as RFC 8785 requires
+  Object.keys(value).sort().forEach((key) => {
+    const json = toJsonValue((value as Record<string, unknown>)[key]);
+    if (json !== undefined) {
+      members.push(`${JSON.stringify(key)}:${serialize(json)}`);
+    }
+  });
+  return `{${members.join(',')}}`;
+}
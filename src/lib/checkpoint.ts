@@ -0,0 +1,260 @@
+/**
+ * Merkle checkpoints and inclusion proofs
+ * A checkpoint is a (signed) audit entry committing to the Merkle root of a range of entry hashes
+ */
+
+import { AuditEntry, AuditStorage } from '../types';
+import { VERSION } from '../version';
+import { AuditLogger, computeEntryHash } from './logger';
+import { TrustedKeyRegistry, checkEntrySignature } from './keys';
+import { inclusionPath, merkleRoot, verifyInclusion } from './merkle';
+
+export const CHECKPOINT_TOOL = 'auditctl';
+export const CHECKPOINT_COMMAND = 'checkpoint';
+
+/**
+ * Outputs recorded on a checkpoint entry
+ */
+export interface CheckpointOutputs {
+  /** Merkle root (hex) over the entry hashes in the range */
+  merkleRoot: string;
+  /** Position of the first entry in the log (0-based) */
+  startIndex: number;
+  /** Position after the last entry in the log */
+  endIndex: number;
+  /** Number of leaves in the tree */
+  treeSize: number;
+  firstAuditId: string;
+  lastAuditId: string;
+  lastEntryHash: string;
+}
+
+/**
+ * Self-contained proof that an entry is included under a checkpoint root
+ */
+export interface InclusionProof {
+  version: 1;
+  /** The entry being proven */
+  entry: AuditEntry;
+  /** Position of the entry within the checkpoint's range */
+  leafIndex: number;
+  treeSize: number;
+  /** Sibling hashes from the leaf up to the root */
+  auditPath: string[];
+  /** The checkpoint entry holding the root */
+  checkpoint: AuditEntry;
+}
+
+/**
+ * A single check performed while verifying a proof
+ */
+export interface ProofCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+/**
+ * Result of verifying an inclusion proof
+ */
+export interface ProofVerification {
+  valid: boolean;
+  checks: ProofCheck[];
+}
+
+/**
+ * Whether an entry is a checkpoint record
+ */
+export function isCheckpointEntry(entry: AuditEntry): boolean {
+  return entry.tool === CHECKPOINT_TOOL && entry.command === CHECKPOINT_COMMAND;
+}
+
+function checkpointOutputs(entry: AuditEntry): CheckpointOutputs {
+  return entry.outputs as unknown as CheckpointOutputs;
+}
+
+/**
+ * Locate a checkpoint's range in the log by its first and last audit IDs
+ * Positions shift once older segments are purged, so the recorded indexes are informational
+ */
+function checkpointRange(entries: AuditEntry[], checkpoint: AuditEntry): { start: number; end: number } | null {
+  const { firstAuditId, lastAuditId } = checkpointOutputs(checkpoint);
+  const start = entries.findIndex((e) => e.auditId === firstAuditId);
+  const last = entries.findIndex((e) => e.auditId === lastAuditId);
+  return start === -1 || last === -1 ? null : { start, end: last + 1 };
+}
+
+/**
+ * Find the checkpoint whose range covers a log position
+ */
+export function findCoveringCheckpoint(entries: AuditEntry[], position: number): AuditEntry | null {
+  return (
+    entries.find((e) => {
+      if (!isCheckpointEntry(e)) {
+        return false;
+      }
+      const range = checkpointRange(entries, e);
+      return range !== null && position >= range.start && position < range.end;
+    }) || null
+  );
+}
+
+/**
+ * Find the checkpoint covering an entry without reading the whole log
+ * Reads only checkpoint entries, then the entries within the time range of a candidate
+ */
+export async function findStoredCheckpoint(storage: AuditStorage, entry: AuditEntry): Promise<AuditEntry | null> {
+  const time = new Date(entry.timestamp).getTime();
+  const checkpoints = await storage.query({ tool: CHECKPOINT_TOOL, command: CHECKPOINT_COMMAND });
+  for (const checkpoint of checkpoints) {
+    const { firstAuditId, lastAuditId } = checkpointOutputs(checkpoint);
+    if (entry.auditId === firstAuditId || entry.auditId === lastAuditId) {
+      return checkpoint;
+    }
+    const [first, last] = await Promise.all([storage.getById(firstAuditId), storage.getById(lastAuditId)]);
+    if (!first || !last || time < new Date(first.timestamp).getTime() || time > new Date(last.timestamp).getTime()) {
+      continue;
+    }
+    // Timestamps may tie at the edges of the range, so place the entry by log order
+    const window = await storage.query({ startDate: first.timestamp, endDate: last.timestamp });
+    const position = window.findIndex((e) => e.auditId === entry.auditId);
+    const range = checkpointRange(window, checkpoint);
+    if (range !== null && position >= range.start && position < range.end) {
+      return checkpoint;
+    }
+  }
+  return null;
+}
+
+/**
+ * Log a checkpoint over all entries since the previous checkpoint
+ * The log is read under the storage lock, so no entry can land between the range and the checkpoint
+ * Returns null if fewer than minEntries new entries exist
+ */
+export async function createCheckpoint(
+  logger: AuditLogger,
+  options?: { minEntries?: number; operator?: string }
+): Promise<AuditEntry | null> {
+  return logger.logDerived(async () => {
+    const entries = await logger.query({});
+    const previous = [...entries].reverse().find(isCheckpointEntry);
+    // Each range starts at the previous checkpoint record, which was logged right after its range
+    const startIndex = previous ? entries.indexOf(previous) : 0;
+    const endIndex = entries.length;
+
+    if (endIndex - startIndex < Math.max(1, options?.minEntries ?? 1)) {
+      return null;
+    }
+
+    const range = entries.slice(startIndex, endIndex);
+    const outputs: CheckpointOutputs = {
+      merkleRoot: merkleRoot(range.map((e) => e.entryHash || '')),
+      startIndex,
+      endIndex,
+      treeSize: range.length,
+      firstAuditId: range[0].auditId,
+      lastAuditId: range[range.length - 1].auditId,
+      lastEntryHash: range[range.length - 1].entryHash || '',
+    };
+
+    return {
+      tool: CHECKPOINT_TOOL,
+      command: CHECKPOINT_COMMAND,
+      toolVersion: VERSION,
+      inputs: { startIndex, endIndex },
+      outputs: outputs as unknown as Record<string, unknown>,
+      rationale: `Merkle checkpoint over entries ${startIndex}-${endIndex - 1}`,
+      operator: options?.operator,
+    };
+  });
+}
+
+/**
+ * Build an inclusion proof for an entry from the full log
+ */
+export function buildInclusionProof(entries: AuditEntry[], auditId: string): InclusionProof {
+  const position = entries.findIndex((e) => e.auditId === auditId);
+  if (position === -1) {
+    throw new Error(`Audit entry not found: ${auditId}`);
+  }
+
+  const checkpoint = findCoveringCheckpoint(entries, position);
+  if (!checkpoint) {
+    throw new Error(
+      `Entry ${auditId} is not covered by a checkpoint yet - run "auditctl checkpoint" first`
+    );
+  }
+
+  const { start, end } = checkpointRange(entries, checkpoint)!;
+  const leaves = entries.slice(start, end).map((e) => e.entryHash || '');
+  if (leaves.length !== checkpointOutputs(checkpoint).treeSize) {
+    throw new Error(`Checkpoint ${checkpoint.auditId} range is incomplete - entries have been purged`);
+  }
+  const leafIndex = position - start;
+
+  return {
+    version: 1,
+    entry: entries[position],
+    leafIndex,
+    treeSize: leaves.length,
+    auditPath: inclusionPath(leaves, leafIndex),
+    checkpoint,
+  };
+}
+
+function hashMatches(entry: AuditEntry): boolean {
+  const { entryHash, signature, ...entryWithoutHash } = entry;
+  return computeEntryHash(entryWithoutHash) === entryHash;
+}
+
+/**
+ * Verify an inclusion proof without access to the log
+ * If a registry is given, the checkpoint must carry a valid trusted signature
+ */
+export function verifyInclusionProof(
+  proof: InclusionProof,
+  registry?: TrustedKeyRegistry
+): ProofVerification {
+  const checks: ProofCheck[] = [];
+  const outputs = checkpointOutputs(proof.checkpoint);
+
+  checks.push({
+    name: 'Entry hash',
+    passed: hashMatches(proof.entry),
+    detail: 'Entry content matches its entryHash',
+  });
+
+  checks.push({
+    name: 'Checkpoint hash',
+    passed: isCheckpointEntry(proof.checkpoint) && hashMatches(proof.checkpoint),
+    detail: 'Checkpoint record matches its entryHash',
+  });
+
+  if (registry) {
+    const reason = checkEntrySignature(proof.checkpoint, registry);
+    checks.push({
+      name: 'Checkpoint signature',
+      passed: reason === null,
+      detail: reason || `Signed by trusted key ${proof.checkpoint.keyId}`,
+    });
+  }
+
+  checks.push({
+    name: 'Inclusion',
+    passed:
+      proof.treeSize === outputs.treeSize &&
+      verifyInclusion(
+        proof.entry.entryHash || '',
+        proof.leafIndex,
+        proof.treeSize,
+        proof.auditPath,
+        outputs.merkleRoot
+      ),
+    detail: `Leaf ${proof.leafIndex} of ${proof.treeSize} under root ${outputs.merkleRoot}`,
+  });
+
+  return {
+    valid: checks.every((c) => c.passed),
+    checks,
+  };
+}
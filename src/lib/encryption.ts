@@ -0,0 +1,343 @@
+/**
+ * Field-level encryption of selected inputs/outputs paths (AES-256-GCM, envelope keys)
+ * Entries hold only ciphertext and are hashed as stored; data keys are wrapped by a local
+ * master key in a separate keyring, so rotating the master key never touches the log
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditEntry } from '../types';
+import { FileLock } from './storage/lock';
+
+/**
+ * Default master key file
+ */
+export const DEFAULT_ENCRYPTION_KEY_FILE = path.join(os.homedir(), '.auditctl', 'encryption.key');
+
+/**
+ * Default keyring of wrapped data keys
+ */
+export const DEFAULT_DATA_KEYS_FILE = './audit-data-keys.jsonl';
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * A local master key (key-encryption key)
+ */
+export interface MasterKey {
+  keyId: string;
+  key: Buffer;
+}
+
+/**
+ * A data key wrapped by a master key, as stored in the keyring
+ */
+export interface WrappedDataKey {
+  dekId: string;
+  /** Master key that wraps the data key */
+  keyId: string;
+  /** Base64 of iv || tag || ciphertext */
+  wrapped: string;
+  createdAt: string;
+}
+
+/**
+ * An encrypted field value as stored in an entry
+ */
+export interface EncryptedValue {
+  $encrypted: {
+    v: 1;
+    alg: typeof ALGORITHM;
+    /** Data key used */
+    dek: string;
+    iv: string;
+    tag: string;
+    ct: string;
+  };
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad?: string): { iv: Buffer; tag: Buffer; ct: Buffer } {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  if (aad) {
+    cipher.setAAD(Buffer.from(aad, 'utf-8'));
+  }
+  const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ct };
+}
+
+function unseal(key: Buffer, iv: Buffer, tag: Buffer, ct: Buffer, aad?: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  if (aad) {
+    decipher.setAAD(Buffer.from(aad, 'utf-8'));
+  }
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ct), decipher.final()]);
+}
+
+function masterKeyId(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+}
+
+/**
+ * Generate a master key file (readable only by the owner)
+ */
+export function generateMasterKey(filePath = DEFAULT_ENCRYPTION_KEY_FILE): MasterKey {
+  const key = crypto.randomBytes(32);
+  const keyId = masterKeyId(key);
+
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify({ keyId, key: key.toString('base64'), createdAt: new Date().toISOString() }, null, 2),
+    { mode: 0o600, flag: 'wx' }
+  );
+  return { keyId, key };
+}
+
+/**
+ * Load a master key file
+ */
+export function loadMasterKey(filePath = DEFAULT_ENCRYPTION_KEY_FILE): MasterKey {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Encryption key not found: ${filePath}`);
+  }
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const key = Buffer.from(data.key || '', 'base64');
+  if (key.length !== 32) {
+    throw new Error(`Invalid encryption key file: ${filePath}`);
+  }
+  return { keyId: masterKeyId(key), key };
+}
+
+/**
+ * Whether a value is an encrypted field
+ */
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return typeof value === 'object' && value !== null && '$encrypted' in value;
+}
+
+/**
+ * DataKeyRing - append-only JSONL file of wrapped data keys, rewritten only on rotation
+ */
+export class DataKeyRing {
+  private filePath: string;
+  private lock: FileLock;
+
+  constructor(filePath = DEFAULT_DATA_KEYS_FILE) {
+    this.filePath = filePath;
+    this.lock = new FileLock({ lockPath: `${filePath}.lock` });
+  }
+
+  /**
+   * Read all wrapped data keys
+   */
+  load(): Map<string, WrappedDataKey> {
+    const keys = new Map<string, WrappedDataKey>();
+    if (!fs.existsSync(this.filePath)) {
+      return keys;
+    }
+    fs.readFileSync(this.filePath, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .forEach((line) => {
+        const record = JSON.parse(line) as WrappedDataKey;
+        keys.set(record.dekId, record);
+      });
+    return keys;
+  }
+
+  /**
+   * Create a data key, store it wrapped by the master key and return it
+   */
+  async create(masterKey: MasterKey): Promise<{ dekId: string; key: Buffer }> {
+    const key = crypto.randomBytes(32);
+    const dekId = uuidv4();
+    const { iv, tag, ct } = seal(masterKey.key, key, dekId);
+    const record: WrappedDataKey = {
+      dekId,
+      keyId: masterKey.keyId,
+      wrapped: Buffer.concat([iv, tag, ct]).toString('base64'),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.lock.withLock(async () => {
+      fs.mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n', { mode: 0o600 });
+    });
+    return { dekId, key };
+  }
+
+  /**
+   * Unwrap a data key with whichever of the master keys wrapped it
+   */
+  unwrap(dekId: string, masterKeys: MasterKey[], keys = this.load()): Buffer {
+    const record = keys.get(dekId);
+    if (!record) {
+      throw new Error(`Data key ${dekId} not found in ${this.filePath}`);
+    }
+    const masterKey = masterKeys.find((k) => k.keyId === record.keyId);
+    if (!masterKey) {
+      throw new Error(`Data key ${dekId} is wrapped by key ${record.keyId}, which is not loaded`);
+    }
+    const wrapped = Buffer.from(record.wrapped, 'base64');
+    return unseal(masterKey.key, wrapped.subarray(0, 12), wrapped.subarray(12, 28), wrapped.subarray(28), dekId);
+  }
+
+  /**
+   * Re-wrap every data key under a new master key; returns the number of keys re-wrapped
+   * Entries are untouched, so their hashes do not change
+   */
+  async rewrap(previousKeys: MasterKey[], newKey: MasterKey): Promise<number> {
+    return this.lock.withLock(async () => {
+      const keys = this.load();
+      const records: WrappedDataKey[] = [];
+      let count = 0;
+
+      for (const record of keys.values()) {
+        if (record.keyId === newKey.keyId) {
+          records.push(record);
+          continue;
+        }
+        const dataKey = this.unwrap(record.dekId, previousKeys, keys);
+        const { iv, tag, ct } = seal(newKey.key, dataKey, record.dekId);
+        records.push({ ...record, keyId: newKey.keyId, wrapped: Buffer.concat([iv, tag, ct]).toString('base64') });
+        count++;
+      }
+
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, records.map((r) => JSON.stringify(r) + '\n').join(''), { mode: 0o600 });
+      fs.renameSync(tmpPath, this.filePath);
+      return count;
+    });
+  }
+}
+
+function splitPath(fieldPath: string): string[] {
+  return fieldPath.split('.').filter((p) => p);
+}
+
+function getPath(record: Record<string, unknown>, parts: string[]): unknown {
+  return parts.reduce<unknown>(
+    (value, part) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[part] : undefined),
+    record
+  );
+}
+
+function setPath(record: Record<string, unknown> | unknown[], parts: string[], value: unknown): Record<string, unknown> | unknown[] {
+  const [head, ...rest] = parts;
+  const current = (record as Record<string, unknown>)[head];
+  const next =
+    rest.length === 0
+      ? value
+      : setPath(typeof current === 'object' && current !== null ? (current as Record<string, unknown> | unknown[]) : {}, rest, value);
+  // Copy arrays as arrays so a path like outputs.items.0.score keeps items a list
+  if (Array.isArray(record)) {
+    const copy = [...record];
+    copy[Number(head)] = next;
+    return copy;
+  }
+  return { ...record, [head]: next };
+}
+
+/**
+ * FieldEncryptor - encrypts configured inputs/outputs paths, e.g. "inputs.income" or "outputs.credit.score"
+ * One data key is created per encryptor and reused for its entries
+ */
+export class FieldEncryptor {
+  private masterKey: MasterKey;
+  private dataKeys: DataKeyRing;
+  private fields: Array<{ section: 'inputs' | 'outputs'; parts: string[]; path: string }>;
+  private dataKey?: Promise<{ dekId: string; key: Buffer }>;
+
+  constructor(options: { masterKey: MasterKey; dataKeys: DataKeyRing; fields: string[] }) {
+    this.masterKey = options.masterKey;
+    this.dataKeys = options.dataKeys;
+    this.fields = options.fields.map((field) => {
+      const [section, ...parts] = splitPath(field);
+      if ((section !== 'inputs' && section !== 'outputs') || parts.length === 0) {
+        throw new Error(`Invalid encrypted field "${field}" (expected inputs.<path> or outputs.<path>)`);
+      }
+      return { section, parts, path: [section, ...parts].join('.') };
+    });
+  }
+
+  /**
+   * Replace the configured paths of a section with ciphertext of their original values
+   * The audit ID and path are bound as associated data so ciphertext can't be moved between entries
+   */
+  async encryptFields(
+    auditId: string,
+    section: 'inputs' | 'outputs',
+    original: Record<string, unknown>,
+    target: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    let result = target;
+    for (const field of this.fields.filter((f) => f.section === section)) {
+      const value = getPath(original, field.parts);
+      if (value === undefined) {
+        continue;
+      }
+      if (!this.dataKey) {
+        this.dataKey = this.dataKeys.create(this.masterKey);
+      }
+      const { dekId, key } = await this.dataKey;
+      const { iv, tag, ct } = seal(key, Buffer.from(JSON.stringify(value), 'utf-8'), `${auditId}:${field.path}`);
+      const encrypted: EncryptedValue = {
+        $encrypted: {
+          v: 1,
+          alg: ALGORITHM,
+          dek: dekId,
+          iv: iv.toString('base64'),
+          tag: tag.toString('base64'),
+          ct: ct.toString('base64'),
+        },
+      };
+      result = setPath(result, field.parts, encrypted) as Record<string, unknown>;
+    }
+    return result;
+  }
+}
+
+/**
+ * Return a copy of an entry with its encrypted fields decrypted
+ */
+export function decryptEntry(entry: AuditEntry, masterKeys: MasterKey[], dataKeys: DataKeyRing): AuditEntry {
+  const keys = dataKeys.load();
+  const unwrapped = new Map<string, Buffer>();
+
+  const decrypt = (value: unknown, fieldPath: string): unknown => {
+    if (isEncryptedValue(value)) {
+      const { dek, iv, tag, ct } = value.$encrypted;
+      if (!unwrapped.has(dek)) {
+        unwrapped.set(dek, dataKeys.unwrap(dek, masterKeys, keys));
+      }
+      const plaintext = unseal(
+        unwrapped.get(dek)!,
+        Buffer.from(iv, 'base64'),
+        Buffer.from(tag, 'base64'),
+        Buffer.from(ct, 'base64'),
+        `${entry.auditId}:${fieldPath}`
+      );
+      return JSON.parse(plaintext.toString('utf-8'));
+    }
+    if (Array.isArray(value)) {
+      return value.map((v, i) => decrypt(v, `${fieldPath}.${i}`));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, decrypt(v, `${fieldPath}.${k}`)])
+      );
+    }
+    return value;
+  };
+
+  return {
+    ...entry,
+    inputs: decrypt(entry.inputs, 'inputs') as Record<string, unknown>,
+    outputs: decrypt(entry.outputs, 'outputs') as Record<string, unknown>,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Export formats for compliance/examination - shared by the export command and the MCP server
+ */
+
+import { buildHMDALAR, formatHMDALAR } from './hmda';
+import { AuditEntry, ExportFormat } from '../types';
+
+/**
+ * Supported export formats
+ */
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'jsonl', 'csv', 'occ', 'cfpb', 'hmda'];
+
+/**
+ * Formatted export with any warnings about the data
+ */
+export interface ExportResult {
+  output: string;
+  warnings: string[];
+}
+
+function formatAsCSV(entries: AuditEntry[]): string {
+  const headers = [
+    'audit_id',
+    'timestamp',
+    'tool',
+    'command',
+    'tool_version',
+    'operator',
+    'loan_id',
+    'session_id',
+    'rationale',
+    'warnings',
+    'regulations',
+    'risk_flags',
+    'human_review_required',
+    'duration_ms',
+    'entry_hash',
+  ];
+
+  const rows = entries.map((e) => [
+    e.auditId,
+    e.timestamp,
+    e.tool,
+    e.command,
+    e.toolVersion,
+    e.operator,
+    e.loanId || '',
+    e.sessionId || '',
+    `"${e.rationale.replace(/"/g, '""')}"`,
+    `"${e.warnings.join('; ')}"`,
+    `"${e.compliance.regulations.join('; ')}"`,
+    `"${e.compliance.riskFlags.join('; ')}"`,
+    e.compliance.humanReviewRequired ? 'true' : 'false',
+    e.durationMs?.toString() || '',
+    e.entryHash || '',
+  ]);
+
+  return [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
+}
+
+function formatAsOCC(entries: AuditEntry[]): string {
+  // OCC examination format - structured for regulatory review
+  const output = {
+    exportDate: new Date().toISOString(),
+    exportFormat: 'OCC Examination Ready',
+    totalEntries: entries.length,
+    dateRange: {
+      start: entries.length > 0 ? entries[0].timestamp : null,
+      end: entries.length > 0 ? entries[entries.length - 1].timestamp : null,
+    },
+    summary: {
+      byTool: {} as Record<string, number>,
+      byRegulation: {} as Record<string, number>,
+      riskFlagged: entries.filter((e) => e.compliance.riskFlags.length > 0).length,
+      humanReviewRequired: entries.filter((e) => e.compliance.humanReviewRequired).length,
+    },
+    entries: entries.map((e) => ({
+      auditId: e.auditId,
+      timestamp: e.timestamp,
+      tool: e.tool,
+      command: e.command,
+      toolVersion: e.toolVersion,
+      operator: e.operator,
+      loanId: e.loanId,
+      rationale: e.rationale,
+      warnings: e.warnings,
+      compliance: e.compliance,
+      integrityHash: e.entryHash,
+    })),
+  };
+
+  // Build summaries
+  entries.forEach((e) => {
+    output.summary.byTool[e.tool] = (output.summary.byTool[e.tool] || 0) + 1;
+    e.compliance.regulations.forEach((reg) => {
+      output.summary.byRegulation[reg] = (output.summary.byRegulation[reg] || 0) + 1;
+    });
+  });
+
+  return JSON.stringify(output, null, 2);
+}
+
+function formatAsCFPB(entries: AuditEntry[]): string {
+  // CFPB fair lending analysis format
+  const output = {
+    exportDate: new Date().toISOString(),
+    exportFormat: 'CFPB Fair Lending Analysis',
+    totalDecisions: entries.filter((e) => 
+      e.outputs && typeof e.outputs === 'object' && 'decision' in e.outputs
+    ).length,
+    entries: entries
+      .filter((e) => e.outputs && typeof e.outputs === 'object' && 'decision' in e.outputs)
+      .map((e) => ({
+        auditId: e.auditId,
+        timestamp: e.timestamp,
+        loanId: e.loanId,
+        decision: (e.outputs as any).decision,
+        adverseActionReasons: (e.outputs as any).adverseActionReasons,
+        rationale: e.rationale,
+        ecoapCompliant: e.compliance.regulations.includes('ECOA'),
+        riskFlags: e.compliance.riskFlags,
+      })),
+  };
+
+  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Format entries in an export format
+ */
+export function exportEntries(
+  entries: AuditEntry[],
+  format: ExportFormat,
+  options?: { lei?: string }
+): ExportResult {
+  const warnings: string[] = [];
+
+  switch (format) {
+    case 'json':
+      return { output: JSON.stringify(entries, null, 2), warnings };
+    case 'jsonl':
+      return { output: entries.map((e) => JSON.stringify(e)).join('\n'), warnings };
+    case 'csv':
+      return { output: formatAsCSV(entries), warnings };
+    case 'occ':
+      return { output: formatAsOCC(entries), warnings };
+    case 'cfpb':
+      return { output: formatAsCFPB(entries), warnings };
+    case 'hmda': {
+      const lar = buildHMDALAR(entries);
+      lar.missing.forEach((m) => {
+        warnings.push(`Loan ${m.loanId} missing required HMDA fields: ${m.missing.join(', ')}`);
+      });
+      if (lar.unassignedEntries > 0) {
+        warnings.push(`${lar.unassignedEntries} entries without a loan ID were skipped`);
+      }
+      return { output: formatHMDALAR(lar.records, options?.lei), warnings };
+    }
+    default:
+      throw new Error(`Unknown format: ${format} (expected ${EXPORT_FORMATS.join(', ')})`);
+  }
+}
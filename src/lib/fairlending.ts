@@ -0,0 +1,373 @@
+/**
+ * Fair lending disparity analysis of logged decisions
+ * Outcomes per protected-class or proxy segment, adverse impact ratios against a reference
+ * segment (four-fifths rule) and Pearson chi-square tests of each segment against the reference
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditEntry } from '../types';
+
+/**
+ * Adverse impact ratios below this breach the four-fifths rule
+ */
+export const FOUR_FIFTHS_THRESHOLD = 0.8;
+
+/**
+ * Expected cell counts below this make the chi-square approximation unreliable
+ */
+const MIN_EXPECTED_COUNT = 5;
+
+/**
+ * Attributes of a loan, e.g. { race: 'Black', sex: 'Female' }
+ */
+export type LoanAttributes = Record<string, string>;
+
+/**
+ * Outcome counts and disparity statistics for one segment
+ */
+export interface SegmentAnalysis {
+  value: string;
+  total: number;
+  approved: number;
+  denied: number;
+  approvalRate: number;
+  denialRate: number;
+  /** Approval rate relative to the reference segment */
+  adverseImpactRatio: number | null;
+  /** Pearson chi-square (1 df) of this segment against the reference; null for the reference */
+  chiSquare: number | null;
+  pValue: number | null;
+  significant: boolean;
+  fourFifthsBreach: boolean;
+  /** An expected count is below 5, so the chi-square test is unreliable */
+  smallSample: boolean;
+}
+
+/**
+ * Analysis of one attribute
+ */
+export interface AttributeAnalysis {
+  attribute: string;
+  reference: string | null;
+  /** Decisions without a value for the attribute */
+  unassigned: number;
+  segments: SegmentAnalysis[];
+}
+
+/**
+ * Fair lending analysis result
+ */
+export interface FairLendingAnalysis {
+  generatedAt: string;
+  /** Loans with a final decision (the latest decision per loan) */
+  decisions: number;
+  /** Loans whose latest decision is not final, e.g. referred */
+  excluded: number;
+  alpha: number;
+  attributes: AttributeAnalysis[];
+  warnings: string[];
+}
+
+/**
+ * Analysis options
+ */
+export interface FairLendingOptions {
+  /** Attributes by loanId, e.g. from loadLoanAttributes */
+  attributes?: Map<string, LoanAttributes>;
+  /** Attributes to segment by (default: every attribute in the attributes file) */
+  by?: string[];
+  /** Reference segment per attribute (default: the segment with the highest approval rate) */
+  reference?: Record<string, string>;
+  /** Significance level (default 0.05) */
+  alpha?: number;
+}
+
+/**
+ * Parse CSV text into rows, handling quoted fields
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/**
+ * Load loan attributes from CSV (with a loanId column), a JSON array or JSONL
+ */
+export function loadLoanAttributes(filePath: string): Map<string, LoanAttributes> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Attributes file not found: ${filePath}`);
+  }
+  const text = fs.readFileSync(filePath, 'utf-8');
+  let records: Array<Record<string, unknown>>;
+
+  if (path.extname(filePath).toLowerCase() === '.csv') {
+    const [header, ...rows] = parseCsv(text);
+    if (!header || !header.includes('loanId')) {
+      throw new Error(`Attributes file needs a loanId column: ${filePath}`);
+    }
+    records = rows.map((r) => Object.fromEntries(header.map((h, i) => [h.trim(), (r[i] || '').trim()])));
+  } else if (text.trimStart().startsWith('[')) {
+    records = JSON.parse(text);
+  } else {
+    records = text.split('\n').filter((l) => l.trim()).map((l) => JSON.parse(l));
+  }
+
+  const attributes = new Map<string, LoanAttributes>();
+  records.forEach((record, i) => {
+    const { loanId, ...rest } = record;
+    if (typeof loanId !== 'string' || !loanId) {
+      throw new Error(`Attributes record ${i + 1} has no loanId`);
+    }
+    attributes.set(
+      loanId,
+      Object.fromEntries(
+        Object.entries(rest)
+          .filter(([, v]) => v !== null && v !== undefined && v !== '')
+          .map(([k, v]) => [k, String(v)])
+      )
+    );
+  });
+  return attributes;
+}
+
+/**
+ * Complementary error function (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+function erfc(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const value = poly * Math.exp(-x * x);
+  return x >= 0 ? value : 2 - value;
+}
+
+/**
+ * Pearson chi-square of a 2x2 table [[a, b], [c, d]] with its p-value (1 degree of freedom)
+ */
+export function chiSquare2x2(
+  a: number,
+  b: number,
+  c: number,
+  d: number
+): { chiSquare: number; pValue: number; minExpected: number } {
+  const n = a + b + c + d;
+  if (n === 0) {
+    return { chiSquare: 0, pValue: 1, minExpected: 0 };
+  }
+  const rows = [a + b, c + d];
+  const cols = [a + c, b + d];
+  const expected = [rows[0] * cols[0], rows[0] * cols[1], rows[1] * cols[0], rows[1] * cols[1]].map((e) => e / n);
+  const minExpected = Math.min(...expected);
+  if (expected.some((e) => e === 0)) {
+    // One of the margins is empty: no evidence of a difference
+    return { chiSquare: 0, pValue: 1, minExpected };
+  }
+  const observed = [a, b, c, d];
+  const chiSquare = observed.reduce((sum, o, i) => sum + (o - expected[i]) ** 2 / expected[i], 0);
+  return { chiSquare, pValue: chiSquare === 0 ? 1 : erfc(Math.sqrt(chiSquare / 2)), minExpected };
+}
+
+/**
+ * Final outcome of a decision, or null if it is not final
+ * Counteroffers are treated as denials, as in HMDA reporting
+ */
+function outcome(entry: AuditEntry): 'approved' | 'denied' | null {
+  switch (entry.outputs?.decision) {
+    case 'approved':
+      return 'approved';
+    case 'declined':
+    case 'countered':
+      return 'denied';
+    default:
+      return null;
+  }
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Analyze approval and denial disparities across segments
+ * Uses each loan's latest decision; attributes come from the attributes map, falling back to
+ * the decision entry's inputs
+ */
+export function analyzeFairLending(entries: AuditEntry[], options: FairLendingOptions = {}): FairLendingAnalysis {
+  const alpha = options.alpha ?? 0.05;
+  const warnings: string[] = [];
+
+  const latest = new Map<string, AuditEntry>();
+  entries
+    .filter((e) => e.loanId && typeof e.outputs?.decision === 'string')
+    .forEach((e) => {
+      const current = latest.get(e.loanId!);
+      if (!current || new Date(e.timestamp).getTime() >= new Date(current.timestamp).getTime()) {
+        latest.set(e.loanId!, e);
+      }
+    });
+  const decided = [...latest.values()].filter((e) => outcome(e) !== null);
+
+  const by =
+    options.by ||
+    [...new Set([...(options.attributes?.values() || [])].flatMap((a) => Object.keys(a)))].sort();
+  if (by.length === 0) {
+    throw new Error('No attributes to segment by - provide an attributes file or attribute names');
+  }
+
+  const attributeOf = (entry: AuditEntry, attribute: string): string | undefined => {
+    const fromFile = options.attributes?.get(entry.loanId!)?.[attribute];
+    if (fromFile !== undefined) {
+      return fromFile;
+    }
+    const fromInputs = entry.inputs?.[attribute];
+    return typeof fromInputs === 'string' || typeof fromInputs === 'number' ? String(fromInputs) : undefined;
+  };
+
+  const attributes = by.map((attribute): AttributeAnalysis => {
+    const counts = new Map<string, { approved: number; denied: number }>();
+    let unassigned = 0;
+    decided.forEach((entry) => {
+      const value = attributeOf(entry, attribute);
+      if (value === undefined) {
+        unassigned++;
+        return;
+      }
+      const count = counts.get(value) || { approved: 0, denied: 0 };
+      count[outcome(entry)!]++;
+      counts.set(value, count);
+    });
+    if (unassigned > 0) {
+      warnings.push(`${unassigned} decision(s) have no ${attribute} attribute and were left out of its analysis`);
+    }
+
+    const rate = (c: { approved: number; denied: number }) => c.approved / (c.approved + c.denied);
+    let reference = options.reference?.[attribute] ?? null;
+    if (reference !== null && !counts.has(reference)) {
+      throw new Error(`Reference segment ${attribute}=${reference} has no decisions`);
+    }
+    if (reference === null && counts.size > 0) {
+      reference = [...counts.entries()].reduce((best, current) => (rate(current[1]) > rate(best[1]) ? current : best))[0];
+    }
+    const ref = reference !== null ? counts.get(reference)! : undefined;
+
+    const segments = [...counts.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([value, c]): SegmentAnalysis => {
+        const total = c.approved + c.denied;
+        const approvalRate = rate(c);
+        const isReference = value === reference;
+        const refRate = ref ? rate(ref) : 0;
+        const adverseImpactRatio = ref && refRate > 0 ? round(approvalRate / refRate) : null;
+        const test = ref && !isReference ? chiSquare2x2(c.approved, c.denied, ref.approved, ref.denied) : null;
+        const smallSample = !!test && test.minExpected < MIN_EXPECTED_COUNT;
+        if (smallSample) {
+          warnings.push(`${attribute}=${value}: expected counts below ${MIN_EXPECTED_COUNT}, chi-square is unreliable`);
+        }
+        return {
+          value,
+          total,
+          approved: c.approved,
+          denied: c.denied,
+          approvalRate: round(approvalRate),
+          denialRate: round(1 - approvalRate),
+          adverseImpactRatio,
+          chiSquare: test ? round(test.chiSquare) : null,
+          pValue: test ? test.pValue : null,
+          significant: !!test && test.pValue < alpha,
+          fourFifthsBreach: adverseImpactRatio !== null && adverseImpactRatio < FOUR_FIFTHS_THRESHOLD,
+          smallSample,
+        };
+      });
+
+    return { attribute, reference, unassigned, segments };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    decisions: decided.length,
+    excluded: latest.size - decided.length,
+    alpha,
+    attributes,
+    warnings,
+  };
+}
+
+function csvField(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format an analysis as CSV, one row per segment
+ */
+export function formatFairLendingCsv(analysis: FairLendingAnalysis): string {
+  const headers = [
+    'attribute',
+    'segment',
+    'reference',
+    'total',
+    'approved',
+    'denied',
+    'approval_rate',
+    'denial_rate',
+    'adverse_impact_ratio',
+    'chi_square',
+    'p_value',
+    'significant',
+    'four_fifths_breach',
+    'small_sample',
+  ];
+  const rows = analysis.attributes.flatMap((a) =>
+    a.segments.map((s) => [
+      a.attribute,
+      s.value,
+      s.value === a.reference,
+      s.total,
+      s.approved,
+      s.denied,
+      s.approvalRate,
+      s.denialRate,
+      s.adverseImpactRatio,
+      s.chiSquare,
+      s.pValue,
+      s.significant,
+      s.fourFifthsBreach,
+      s.smallSample,
+    ])
+  );
+  return [headers.join(','), ...rows.map((r) => r.map(csvField).join(','))].join('\n');
+}
@@ -0,0 +1,478 @@
+/**
+ * Filter expressions for queries, e.g.
+ *   tool = decctl AND outputs.decision = declined AND inputs.dti > 0.43 AND regulations contains TRID
+ *
+ * Comparisons: = != > >= < <= contains in matches (or ~) exists; combined with AND, OR, NOT and parentheses.
+ * Fields are dotted paths into the entry (inputs.borrower.income, outputs.items[0].amount, an optional
+ * leading "$."); regulations, riskFlags, humanReviewRequired, checksPerformed and exemptions are
+ * shorthand for compliance.*. Values are numbers, true/false/null, quoted strings, bare words,
+ * (lists, for in) and /regexes/flags (for matches)
+ */
+
+import { AuditEntry } from '../types';
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'in' | 'matches' | 'exists';
+
+export type FilterValue = string | number | boolean | null | FilterValue[] | RegExp;
+
+/**
+ * A parsed filter expression
+ */
+export type FilterExpression =
+  | { type: 'and' | 'or'; operands: FilterExpression[] }
+  | { type: 'not'; operand: FilterExpression }
+  | { type: 'compare'; field: string; path: string[]; operator: FilterOperator; value?: FilterValue };
+
+/**
+ * Sort key for sortEntries
+ */
+export interface SortKey {
+  field: string;
+  path: string[];
+  descending: boolean;
+}
+
+/** Top-level entry fields a path may start with */
+const ENTRY_FIELDS = [
+  'auditId',
+  'timestamp',
+  'tool',
+  'command',
+  'toolVersion',
+  'inputs',
+  'outputs',
+  'rationale',
+  'warnings',
+  'compliance',
+  'operator',
+  'sessionId',
+  'parentAuditId',
+  'loanId',
+  'durationMs',
+  'previousHash',
+  'entryHash',
+  'keyId',
+  'signature',
+  'redactionPolicy',
+  'hashVersion',
+  'hashAlgorithm',
+];
+
+const COMPLIANCE_FIELDS = ['regulations', 'riskFlags', 'humanReviewRequired', 'checksPerformed', 'exemptions'];
+
+const WORD_OPERATORS: FilterOperator[] = ['contains', 'in', 'matches', 'exists'];
+const KEYWORDS = ['and', 'or', 'not', ...WORD_OPERATORS];
+
+/** Characters that end a bare word */
+const DELIMITERS = /[\s(),=!<>~'"&|]/;
+
+/**
+ * Split a field path into keys, resolving compliance shorthand; throws on unknown fields
+ */
+export function parseFieldPath(field: string): string[] {
+  const keys: string[] = [];
+  const source = field.startsWith('$.') ? field.substring(2) : field;
+  const segment = /([^.[\]]+)|\[(\d+)\]/g;
+  let expected = 0;
+  let match: RegExpExecArray | null;
+  while ((match = segment.exec(source)) !== null) {
+    if (match.index !== expected) {
+      throw new Error(`Invalid field path "${field}"`);
+    }
+    keys.push(match[1] ?? match[2]);
+    expected = segment.lastIndex;
+    if (source[expected] === '.') {
+      expected++;
+    }
+  }
+  if (keys.length === 0 || expected !== source.length) {
+    throw new Error(`Invalid field path "${field}"`);
+  }
+  if (COMPLIANCE_FIELDS.includes(keys[0])) {
+    keys.unshift('compliance');
+  }
+  if (!ENTRY_FIELDS.includes(keys[0])) {
+    throw new Error(`Unknown field "${keys[0]}" (expected an entry field such as tool, loanId, inputs.<path> or outputs.<path>)`);
+  }
+  return keys;
+}
+
+class FilterParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): FilterExpression {
+    this.skipSpace();
+    if (this.pos === this.source.length) {
+      this.fail('Empty filter expression');
+    }
+    const expression = this.parseOr();
+    this.skipSpace();
+    if (this.pos < this.source.length) {
+      this.fail(`Unexpected "${this.peekWord() || this.source[this.pos]}" - expected AND, OR or the end of the expression`);
+    }
+    return expression;
+  }
+
+  private fail(problem: string, at = this.pos): never {
+    throw new Error(`${problem} at position ${at + 1}\n  ${this.source}\n  ${' '.repeat(at)}^`);
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  /** The bare word at the cursor, without consuming it */
+  private peekWord(): string {
+    let end = this.pos;
+    while (end < this.source.length && !DELIMITERS.test(this.source[end])) {
+      end++;
+    }
+    return this.source.substring(this.pos, end);
+  }
+
+  private acceptKeyword(keyword: string, symbol?: string): boolean {
+    this.skipSpace();
+    if (symbol && this.source.startsWith(symbol, this.pos)) {
+      this.pos += symbol.length;
+      return true;
+    }
+    if (this.peekWord().toLowerCase() === keyword) {
+      this.pos += keyword.length;
+      return true;
+    }
+    return false;
+  }
+
+  private parseOr(): FilterExpression {
+    const operands = [this.parseAnd()];
+    while (this.acceptKeyword('or', '||')) {
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  private parseAnd(): FilterExpression {
+    const operands = [this.parseNot()];
+    while (this.acceptKeyword('and', '&&')) {
+      operands.push(this.parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parseNot(): FilterExpression {
+    this.skipSpace();
+    if (this.source[this.pos] === '!' && this.source[this.pos + 1] !== '=') {
+      this.pos++;
+      return { type: 'not', operand: this.parseNot() };
+    }
+    if (this.acceptKeyword('not')) {
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterExpression {
+    this.skipSpace();
+    if (this.source[this.pos] === '(') {
+      this.pos++;
+      const expression = this.parseOr();
+      this.skipSpace();
+      if (this.source[this.pos] !== ')') {
+        this.fail('Unclosed "(" - expected ")"');
+      }
+      this.pos++;
+      return expression;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterExpression {
+    const start = this.pos;
+    const field = this.peekWord();
+    if (!field) {
+      this.fail(this.pos === this.source.length ? 'Expected a field at the end of the expression' : `Expected a field, found "${this.source[this.pos]}"`);
+    }
+    if (KEYWORDS.includes(field.toLowerCase())) {
+      this.fail(`Expected a field, found keyword "${field}"`);
+    }
+    let path: string[];
+    try {
+      path = parseFieldPath(field);
+    } catch (e: any) {
+      this.fail(e.message, start);
+    }
+    this.pos += field.length;
+
+    this.skipSpace();
+    const opStart = this.pos;
+    const operator = this.parseOperator();
+    if (operator === 'exists') {
+      return { type: 'compare', field, path, operator };
+    }
+
+    this.skipSpace();
+    let value: FilterValue;
+    if (operator === 'in') {
+      value = this.parseList();
+    } else if (operator === 'matches') {
+      value = this.parseRegex();
+    } else {
+      value = this.parseScalar(`after "${this.source.substring(opStart, this.pos).trim()}"`);
+    }
+    return { type: 'compare', field, path, operator, value };
+  }
+
+  private parseOperator(): FilterOperator {
+    const symbol = /^(==|!=|>=|<=|=|>|<|~)/.exec(this.source.substring(this.pos));
+    if (symbol) {
+      this.pos += symbol[1].length;
+      return symbol[1] === '==' ? '=' : symbol[1] === '~' ? 'matches' : (symbol[1] as FilterOperator);
+    }
+    const word = this.peekWord().toLowerCase() as FilterOperator;
+    if (WORD_OPERATORS.includes(word)) {
+      this.pos += word.length;
+      return word;
+    }
+    this.fail(
+      this.pos === this.source.length
+        ? 'Expected an operator (=, !=, >, >=, <, <=, contains, in, matches, exists) at the end of the expression'
+        : `Expected an operator (=, !=, >, >=, <, <=, contains, in, matches, exists), found "${this.peekWord() || this.source[this.pos]}"`
+    );
+  }
+
+  private parseScalar(context: string): FilterValue {
+    const quote = this.source[this.pos];
+    if (quote === '"' || quote === "'") {
+      return this.parseQuoted();
+    }
+    const word = this.peekWord();
+    if (!word) {
+      this.fail(`Expected a value ${context}`);
+    }
+    if (['and', 'or'].includes(word.toLowerCase())) {
+      this.fail(`Expected a value ${context}, found keyword "${word}" (quote it to match the word itself)`);
+    }
+    this.pos += word.length;
+    if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(word)) {
+      return Number(word);
+    }
+    const literals: Record<string, FilterValue> = { true: true, false: false, null: null };
+    return word in literals ? literals[word] : word;
+  }
+
+  private parseQuoted(): string {
+    const start = this.pos;
+    const quote = this.source[this.pos++];
+    let value = '';
+    while (this.pos < this.source.length && this.source[this.pos] !== quote) {
+      if (this.source[this.pos] === '\\' && this.pos + 1 < this.source.length) {
+        this.pos++;
+      }
+      value += this.source[this.pos++];
+    }
+    if (this.pos === this.source.length) {
+      this.fail(`Unterminated string starting at position ${start + 1}`, start);
+    }
+    this.pos++;
+    return value;
+  }
+
+  private parseList(): FilterValue[] {
+    if (this.source[this.pos] !== '(') {
+      this.fail('Expected a list after "in", e.g. (approved, countered)');
+    }
+    this.pos++;
+    const values: FilterValue[] = [];
+    for (;;) {
+      this.skipSpace();
+      values.push(this.parseScalar('in the list'));
+      this.skipSpace();
+      if (this.source[this.pos] === ')') {
+        this.pos++;
+        return values;
+      }
+      if (this.source[this.pos] !== ',') {
+        this.fail('Expected "," or ")" in the list');
+      }
+      this.pos++;
+    }
+  }
+
+  private parseRegex(): RegExp {
+    const start = this.pos;
+    let pattern: string;
+    let flags = '';
+    if (this.source[this.pos] === '/') {
+      this.pos++;
+      pattern = '';
+      while (this.pos < this.source.length && this.source[this.pos] !== '/') {
+        if (this.source[this.pos] === '\\' && this.pos + 1 < this.source.length) {
+          pattern += this.source[this.pos++];
+        }
+        pattern += this.source[this.pos++];
+      }
+      if (this.pos === this.source.length) {
+        this.fail(`Unterminated regular expression starting at position ${start + 1}`, start);
+      }
+      this.pos++;
+      flags = /^[a-z]*/.exec(this.source.substring(this.pos))![0];
+      this.pos += flags.length;
+    } else {
+      pattern = String(this.parseScalar('after "matches"'));
+    }
+    try {
+      return new RegExp(pattern, flags);
+    } catch (e: any) {
+      this.fail(`Invalid regular expression: ${e.message}`, start);
+    }
+  }
+}
+
+/**
+ * Parse a filter expression, throwing an error that points at the problem
+ */
+export function parseFilter(expression: string): FilterExpression {
+  return new FilterParser(expression).parse();
+}
+
+/**
+ * Value at a parsed path; undefined if any step is missing
+ */
+export function valueAtPath(entry: AuditEntry, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    entry
+  );
+}
+
+function isEqual(actual: unknown, expected: FilterValue): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some((a) => isEqual(a, expected));
+  }
+  if (typeof actual === 'string' && typeof expected === 'number') {
+    return actual === String(expected);
+  }
+  return actual === expected;
+}
+
+function compareTo(actual: unknown, expected: FilterValue): number | undefined {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return actual - expected;
+  }
+  if (typeof actual === 'string' && (typeof expected === 'string' || typeof expected === 'number')) {
+    const other = String(expected);
+    return actual < other ? -1 : actual > other ? 1 : 0;
+  }
+  return undefined;
+}
+
+function matchesComparison(actual: unknown, operator: FilterOperator, expected: FilterValue | undefined): boolean {
+  switch (operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case '=':
+      return isEqual(actual, expected!);
+    case '!=':
+      return !isEqual(actual, expected!);
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some((a) => isEqual(a, expected!))
+        : typeof actual === 'string' && actual.includes(String(expected));
+    case 'in':
+      return (expected as FilterValue[]).some((v) => isEqual(actual, v));
+    case 'matches':
+      return typeof actual === 'string' && (expected as RegExp).test(actual);
+    default: {
+      const difference = Array.isArray(actual) ? undefined : compareTo(actual, expected!);
+      if (difference === undefined) {
+        return false;
+      }
+      return operator === '>' ? difference > 0 : operator === '>=' ? difference >= 0 : operator === '<' ? difference < 0 : difference <= 0;
+    }
+  }
+}
+
+/**
+ * Whether an entry satisfies a parsed expression
+ */
+export function evaluateFilter(expression: FilterExpression, entry: AuditEntry): boolean {
+  switch (expression.type) {
+    case 'and':
+      return expression.operands.every((e) => evaluateFilter(e, entry));
+    case 'or':
+      return expression.operands.some((e) => evaluateFilter(e, entry));
+    case 'not':
+      return !evaluateFilter(expression.operand, entry);
+    case 'compare':
+      return matchesComparison(valueAtPath(entry, expression.path), expression.operator, expression.value);
+  }
+}
+
+/**
+ * Parse an expression into a predicate over entries
+ */
+export function compileFilter(expression: string): (entry: AuditEntry) => boolean {
+  const parsed = parseFilter(expression);
+  return (entry) => evaluateFilter(parsed, entry);
+}
+
+/**
+ * Parse sort keys: comma-separated fields, "-" prefix (or ":desc" suffix) for descending,
+ * e.g. "-inputs.dti,timestamp"
+ */
+export function parseSort(spec: string): SortKey[] {
+  return spec.split(',').map((part) => {
+    let field = part.trim();
+    let descending = false;
+    if (field.startsWith('-')) {
+      descending = true;
+      field = field.substring(1);
+    }
+    const direction = /:(asc|desc)$/i.exec(field);
+    if (direction) {
+      descending = direction[1].toLowerCase() === 'desc';
+      field = field.substring(0, direction.index);
+    }
+    if (!field) {
+      throw new Error(`Invalid sort "${spec}" (expected e.g. -inputs.dti,timestamp)`);
+    }
+    return { field, path: parseFieldPath(field), descending };
+  });
+}
+
+/**
+ * Sort entries by keys, keeping log order for ties; entries missing a key sort last
+ * Numbers sort numerically, everything else as strings
+ */
+export function sortEntries(entries: AuditEntry[], keys: SortKey[]): AuditEntry[] {
+  const compareKey = (a: AuditEntry, b: AuditEntry, key: SortKey): number => {
+    const x = valueAtPath(a, key.path);
+    const y = valueAtPath(b, key.path);
+    const xMissing = x === undefined || x === null;
+    const yMissing = y === undefined || y === null;
+    if (xMissing || yMissing) {
+      return xMissing === yMissing ? 0 : xMissing ? 1 : -1;
+    }
+    const order =
+      typeof x === 'number' && typeof y === 'number'
+        ? x - y
+        : String(x) < String(y) ? -1 : String(x) > String(y) ? 1 : 0;
+    return key.descending ? -order : order;
+  };
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => {
+      for (const key of keys) {
+        const order = compareKey(a.entry, b.entry, key);
+        if (order !== 0) {
+          return order;
+        }
+      }
+      return a.index - b.index;
+    })
+    .map(({ entry }) => entry);
+}
@@ -0,0 +1,187 @@
+/**
+ * Hash migration bridges
+ * A bridge is a signed audit entry, hashed with the new algorithm, that re-seals every entry before it:
+ * it records a digest of their canonical JSON, so the legacy part of the log stays protected by the
+ * new algorithm without rewriting entries or invalidating their signatures
+ */
+
+import * as crypto from 'crypto';
+import { AuditEntry, HashAlgorithm, IntegrityFailure } from '../types';
+import { VERSION } from '../version';
+import { canonicalize } from './canonical';
+import { AuditLogger, CURRENT_HASH_VERSION, HASH_ALGORITHMS } from './logger';
+import { collectPurgedSegments, isSealEntry } from './storage/segmented';
+
+export const HASH_BRIDGE_TOOL = 'auditctl';
+export const HASH_BRIDGE_COMMAND = 'hash-bridge';
+
+/**
+ * Digest of one segment of a rotated log, so a bridge can still be checked once retention purges segments
+ */
+export interface HashBridgeSegment {
+  /** Entries in the segment before the bridge, its seal included */
+  entries: number;
+  /** entryHash of the segment's seal; absent for the segment the bridge was logged in */
+  sealHash?: string;
+  digest: string;
+}
+
+/**
+ * Outputs recorded on a bridge entry
+ */
+export interface HashBridgeOutputs {
+  /** Entries before the bridge, all covered by sealDigest */
+  sealedEntries: number;
+  /** How many of them use the legacy hash */
+  legacyEntries: number;
+  /** entryHash of the last entry before the bridge */
+  headHash: string;
+  hashVersion: number;
+  hashAlgorithm: HashAlgorithm;
+  /** Digest over the canonical JSON of every entry before the bridge, one per line */
+  sealDigest: string;
+  /** The same digest per segment, for logs rotated into sealed segments */
+  segments?: HashBridgeSegment[];
+}
+
+/**
+ * Whether an entry is a hash migration bridge
+ */
+export function isHashBridgeEntry(entry: AuditEntry): boolean {
+  return entry.tool === HASH_BRIDGE_TOOL && entry.command === HASH_BRIDGE_COMMAND;
+}
+
+/**
+ * Digest over the canonical JSON of entries, signatures included
+ */
+export function computeSealDigest(entries: AuditEntry[], algorithm: HashAlgorithm): string {
+  const hash = crypto.createHash(algorithm);
+  entries.forEach((entry) => hash.update(canonicalize(entry) + '\n'));
+  return hash.digest('hex');
+}
+
+/**
+ * Split entries into segments, each ending with its seal; the last may be unsealed
+ */
+function splitSegments(entries: AuditEntry[]): AuditEntry[][] {
+  const segments: AuditEntry[][] = [[]];
+  entries.forEach((entry) => {
+    segments[segments.length - 1].push(entry);
+    if (isSealEntry(entry)) {
+      segments.push([]);
+    }
+  });
+  return segments.filter((s) => s.length > 0);
+}
+
+/**
+ * Log a bridge re-sealing the whole log with the logger's hash algorithm; the logger should sign it
+ * The log is read under the storage lock, so no entry can land between the sealed ones and the bridge
+ * Throws if every entry since the last bridge to that algorithm already uses it
+ */
+export async function logHashBridge(logger: AuditLogger, options?: { operator?: string }): Promise<AuditEntry> {
+  const hashAlgorithm = logger.getHashAlgorithm();
+  return logger.logDerived(async () => {
+    const entries = await logger.query({});
+    if (entries.length === 0) {
+      throw new Error('Nothing to migrate: the log is empty');
+    }
+    const lastBridge = entries
+      .map((e) => isHashBridgeEntry(e) && (e.outputs as unknown as HashBridgeOutputs).hashAlgorithm === hashAlgorithm)
+      .lastIndexOf(true);
+    const outdated = entries
+      .slice(lastBridge + 1)
+      .filter((e) => e.hashVersion !== CURRENT_HASH_VERSION || (e.hashAlgorithm || 'sha256') !== hashAlgorithm);
+    if (outdated.length === 0) {
+      throw new Error(`Nothing to migrate: every entry is sealed with hash version ${CURRENT_HASH_VERSION} and ${hashAlgorithm}`);
+    }
+
+    const segments = entries.some(isSealEntry)
+      ? splitSegments(entries).map((segment) => {
+          const last = segment[segment.length - 1];
+          return {
+            entries: segment.length,
+            ...(isSealEntry(last) ? { sealHash: last.entryHash || '' } : {}),
+            digest: computeSealDigest(segment, hashAlgorithm),
+          };
+        })
+      : undefined;
+    const outputs: HashBridgeOutputs = {
+      sealedEntries: entries.length,
+      legacyEntries: entries.filter((e) => e.hashVersion === undefined).length,
+      headHash: entries[entries.length - 1].entryHash || '',
+      hashVersion: CURRENT_HASH_VERSION,
+      hashAlgorithm,
+      sealDigest: computeSealDigest(entries, hashAlgorithm),
+      ...(segments ? { segments } : {}),
+    };
+
+    return {
+      tool: HASH_BRIDGE_TOOL,
+      command: HASH_BRIDGE_COMMAND,
+      toolVersion: VERSION,
+      inputs: { hashAlgorithm },
+      outputs: outputs as unknown as Record<string, unknown>,
+      rationale: `Re-sealed ${entries.length} entries (${outputs.legacyEntries} legacy) with hash version ${CURRENT_HASH_VERSION} and ${hashAlgorithm}`,
+      operator: options?.operator,
+    };
+  });
+}
+
+/**
+ * Check every bridge in a log against the entries before it
+ * Segments purged by retention are skipped: their purge records and archives account for them
+ * Signatures are checked with the other entries' (verify --require-signatures); unsigned bridges fail here
+ */
+export function verifyHashBridges(entries: AuditEntry[]): IntegrityFailure[] {
+  const failures: IntegrityFailure[] = [];
+  const purged = new Set([...collectPurgedSegments(entries).values()].map((p) => p.sealHash));
+  entries.forEach((bridge, index) => {
+    if (!isHashBridgeEntry(bridge)) {
+      return;
+    }
+    const fail = (reason: string) => failures.push({ auditId: bridge.auditId, timestamp: bridge.timestamp, reason });
+    const outputs = bridge.outputs as unknown as HashBridgeOutputs;
+
+    if (!bridge.signature || !bridge.keyId) {
+      fail('Hash bridge is not signed');
+    }
+    if (bridge.hashAlgorithm !== outputs.hashAlgorithm) {
+      fail(`Hash bridge records ${outputs.hashAlgorithm} but is itself hashed with ${bridge.hashAlgorithm || 'sha256'}`);
+    }
+    if (!HASH_ALGORITHMS.includes(outputs.hashAlgorithm)) {
+      fail(`Hash bridge uses unsupported algorithm "${outputs.hashAlgorithm}"`);
+      return;
+    }
+
+    if (!outputs.segments) {
+      if (outputs.sealedEntries !== index) {
+        fail(`Hash bridge sealed ${outputs.sealedEntries} entries but ${index} precede it - entries deleted or inserted`);
+      } else if (computeSealDigest(entries.slice(0, index), outputs.hashAlgorithm) !== outputs.sealDigest) {
+        fail('Hash bridge seal digest mismatch - entries before it have been altered');
+      }
+      return;
+    }
+
+    let position = 0;
+    for (const segment of outputs.segments) {
+      if (segment.sealHash && purged.has(segment.sealHash)) {
+        continue;
+      }
+      const present = entries.slice(position, Math.min(position + segment.entries, index));
+      position += segment.entries;
+      if (present.length !== segment.entries || (segment.sealHash && present[present.length - 1].entryHash !== segment.sealHash)) {
+        fail('Hash bridge segments do not match the entries before it - entries deleted or inserted');
+        return;
+      }
+      if (computeSealDigest(present, outputs.hashAlgorithm) !== segment.digest) {
+        fail('Hash bridge seal digest mismatch - entries before it have been altered');
+        return;
+      }
+    }
+    if (position !== index) {
+      fail(`Hash bridge sealed ${position} retained entries but ${index} precede it - entries deleted or inserted`);
+    }
+  });
+  return failures;
+}
@@ -0,0 +1,267 @@
+/**
+ * HMDA Loan/Application Register (LAR) builder
+ * Derives LAR records from logged decision entries, grouped by loan
+ */
+
+import { AuditEntry } from '../types';
+
+/**
+ * HMDA action taken codes
+ */
+export const HMDA_ACTION_TAKEN = {
+  originated: 1,
+  approvedNotAccepted: 2,
+  denied: 3,
+  withdrawn: 4,
+  incomplete: 5,
+  purchased: 6,
+  preapprovalDenied: 7,
+  preapprovalApprovedNotAccepted: 8,
+} as const;
+
+/**
+ * HMDA denial reason codes
+ */
+export const HMDA_DENIAL_REASONS = {
+  debtToIncome: 1,
+  employmentHistory: 2,
+  creditHistory: 3,
+  collateral: 4,
+  insufficientCash: 5,
+  unverifiableInformation: 6,
+  incompleteApplication: 7,
+  mortgageInsuranceDenied: 8,
+  other: 9,
+  notApplicable: 10,
+} as const;
+
+/**
+ * A single LAR record derived from a loan's decision entries
+ */
+export interface HMDARecord {
+  /** Universal loan identifier (the logged loanId) */
+  uli: string;
+  /** Loan amount in dollars */
+  loanAmount?: number;
+  /** HMDA action taken code (1-8) */
+  actionTaken?: number;
+  /** Action taken date (YYYYMMDD) */
+  actionTakenDate?: string;
+  /** Up to four HMDA denial reason codes */
+  denialReasons: number[];
+  /** Free-text reason when denial reason 9 (Other) is reported */
+  denialReasonOther?: string;
+  /** Audit ID of the decision entry the record was built from */
+  sourceAuditId?: string;
+}
+
+/**
+ * A loan that could not be reported because required fields are missing
+ */
+export interface HMDAMissingFields {
+  loanId: string;
+  missing: string[];
+}
+
+/**
+ * Result of building the LAR
+ */
+export interface HMDALARResult {
+  records: HMDARecord[];
+  missing: HMDAMissingFields[];
+  /** Entries skipped because they have no loanId */
+  unassignedEntries: number;
+}
+
+/**
+ * Keyword patterns mapping free-text adverse action reasons to HMDA codes
+ */
+const denialReasonPatterns: Array<{ code: number; pattern: RegExp }> = [
+  { code: HMDA_DENIAL_REASONS.debtToIncome, pattern: /\bdti\b|debt[- ]to[- ]income|debt ratio/i },
+  { code: HMDA_DENIAL_REASONS.employmentHistory, pattern: /employment|employer|job/i },
+  { code: HMDA_DENIAL_REASONS.creditHistory, pattern: /credit (history|score|report)|delinquen|bankruptcy|fico/i },
+  { code: HMDA_DENIAL_REASONS.collateral, pattern: /collateral|apprais|\bltv\b|loan[- ]to[- ]value|property/i },
+  { code: HMDA_DENIAL_REASONS.insufficientCash, pattern: /insufficient (cash|funds)|down payment|closing costs|reserves/i },
+  { code: HMDA_DENIAL_REASONS.unverifiableInformation, pattern: /unverif|could not (be )?verif|unable to verify/i },
+  { code: HMDA_DENIAL_REASONS.incompleteApplication, pattern: /incomplete/i },
+  { code: HMDA_DENIAL_REASONS.mortgageInsuranceDenied, pattern: /mortgage insurance/i },
+];
+
+/**
+ * Map a free-text adverse action reason to a HMDA denial reason code
+ */
+export function mapDenialReason(reason: string): number {
+  const match = denialReasonPatterns.find((p) => p.pattern.test(reason));
+  return match ? match.code : HMDA_DENIAL_REASONS.other;
+}
+
+/**
+ * Map a logged decision to a HMDA action taken code
+ */
+function mapActionTaken(outputs: Record<string, unknown>): number | undefined {
+  const explicit = Number(outputs.actionTaken);
+  if (Number.isInteger(explicit) && explicit >= 1 && explicit <= 8) {
+    return explicit;
+  }
+
+  switch (outputs.decision) {
+    case 'approved':
+      return HMDA_ACTION_TAKEN.originated;
+    case 'declined':
+    // A counteroffer the applicant did not accept is reported as a denial
+    case 'countered':
+      return HMDA_ACTION_TAKEN.denied;
+    default:
+      // Referred decisions have no final action yet
+      return undefined;
+  }
+}
+
+/**
+ * Format a date value as YYYYMMDD
+ */
+function formatLARDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  if (typeof value === 'string' && /^\d{8}$/.test(value)) {
+    return value;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function isDecisionEntry(entry: AuditEntry): boolean {
+  return !!entry.outputs && typeof entry.outputs === 'object' && 'decision' in entry.outputs;
+}
+
+/**
+ * Build a LAR record from a loan's latest decision entry
+ */
+function buildRecord(loanId: string, decision: AuditEntry): HMDARecord {
+  const outputs = decision.outputs;
+  const actionTaken = mapActionTaken(outputs);
+  const loanAmount = Number(outputs.loanAmount);
+
+  const record: HMDARecord = {
+    uli: loanId,
+    loanAmount: outputs.loanAmount !== undefined && !isNaN(loanAmount) ? loanAmount : undefined,
+    actionTaken,
+    actionTakenDate: formatLARDate(outputs.actionDate ?? decision.timestamp),
+    denialReasons: [HMDA_DENIAL_REASONS.notApplicable],
+    sourceAuditId: decision.auditId,
+  };
+
+  if (actionTaken === HMDA_ACTION_TAKEN.denied || actionTaken === HMDA_ACTION_TAKEN.preapprovalDenied) {
+    const reasons = Array.isArray(outputs.adverseActionReasons)
+      ? (outputs.adverseActionReasons as unknown[]).map(String)
+      : [];
+    const codes: number[] = [];
+    const other: string[] = [];
+
+    reasons.forEach((reason) => {
+      const code = mapDenialReason(reason);
+      if (code === HMDA_DENIAL_REASONS.other) {
+        other.push(reason);
+      }
+      if (!codes.includes(code)) {
+        codes.push(code);
+      }
+    });
+
+    record.denialReasons = codes.slice(0, 4);
+    if (other.length > 0 && record.denialReasons.includes(HMDA_DENIAL_REASONS.other)) {
+      record.denialReasonOther = other.join('; ');
+    }
+  }
+
+  return record;
+}
+
+/**
+ * List the required LAR fields missing from a record
+ */
+function findMissingFields(record: HMDARecord): string[] {
+  const missing: string[] = [];
+  if (record.loanAmount === undefined) {
+    missing.push('loanAmount');
+  }
+  if (record.actionTaken === undefined) {
+    missing.push('actionTaken');
+  }
+  if (record.actionTakenDate === undefined) {
+    missing.push('actionTakenDate');
+  }
+  if (record.denialReasons.length === 0) {
+    missing.push('denialReasons');
+  }
+  return missing;
+}
+
+/**
+ * Group entries by loan and build LAR records from each loan's latest decision
+ */
+export function buildHMDALAR(entries: AuditEntry[]): HMDALARResult {
+  const byLoan = new Map<string, AuditEntry[]>();
+  let unassignedEntries = 0;
+
+  entries.forEach((e) => {
+    if (!e.loanId) {
+      unassignedEntries++;
+      return;
+    }
+    const group = byLoan.get(e.loanId) || [];
+    group.push(e);
+    byLoan.set(e.loanId, group);
+  });
+
+  const records: HMDARecord[] = [];
+  const missing: HMDAMissingFields[] = [];
+
+  byLoan.forEach((loanEntries, loanId) => {
+    const decisions = loanEntries.filter(isDecisionEntry);
+    if (decisions.length === 0) {
+      missing.push({ loanId, missing: ['decision'] });
+      return;
+    }
+
+    const record = buildRecord(loanId, decisions[decisions.length - 1]);
+    const missingFields = findMissingFields(record);
+    if (missingFields.length > 0) {
+      missing.push({ loanId, missing: missingFields });
+      return;
+    }
+    records.push(record);
+  });
+
+  return { records, missing, unassignedEntries };
+}
+
+/**
+ * Format LAR records as pipe-delimited rows
+ *
+ * Field order: record identifier (2), LEI, ULI, loan amount, action taken,
+ * action taken date, denial reasons 1-4, denial reason other text
+ */
+export function formatHMDALAR(records: HMDARecord[], lei = ''): string {
+  return records
+    .map((r) => {
+      const reasons = [0, 1, 2, 3].map((i) =>
+        r.denialReasons[i] !== undefined ? r.denialReasons[i].toString() : ''
+      );
+      return [
+        '2',
+        lei,
+        r.uli,
+        r.loanAmount?.toString() ?? '',
+        r.actionTaken?.toString() ?? '',
+        r.actionTakenDate ?? '',
+        ...reasons,
+        (r.denialReasonOther ?? '').replace(/\|/g, ' '),
+      ].join('|');
+    })
+    .join('\n');
+}
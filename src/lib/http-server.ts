@@ -0,0 +1,229 @@
+/**
+ * HTTP API for ingesting and querying audit entries
+ * All writes go through one AuditLogger, one request at a time, so the hash chain stays consistent
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AuditEntryOptions, AuditQueryOptions, AuditStorage, ExportFormat } from '../types';
+import { AuditLogger } from './logger';
+import { EXPORT_FORMATS, exportEntries } from './export';
+import { parseFilter } from './filter';
+
+/**
+ * HTTP server options
+ */
+export interface AuditServerOptions {
+  storage: AuditStorage;
+  logger?: AuditLogger;
+  /** Accepted bearer tokens */
+  tokens: string[];
+  /** Largest request body accepted in bytes (default 10 MB) */
+  maxBodyBytes?: number;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv',
+  occ: 'application/json',
+  cfpb: 'application/json',
+  hmda: 'text/plain',
+};
+
+/**
+ * Error carrying an HTTP status
+ */
+function httpError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function digest(token: string): Buffer {
+  return crypto.createHash('sha256').update(token).digest();
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw httpError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw httpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Map URL query parameters onto query options
+ */
+export function parseQueryParams(params: URLSearchParams): AuditQueryOptions {
+  const options: AuditQueryOptions = {};
+  (['loanId', 'tool', 'command', 'operator', 'sessionId', 'startDate', 'endDate'] as const).forEach((key) => {
+    const value = params.get(key);
+    if (value) {
+      options[key] = value;
+    }
+  });
+
+  const flag = (key: string): boolean | undefined => {
+    const value = params.get(key);
+    if (value === null) {
+      return undefined;
+    }
+    if (value !== 'true' && value !== 'false') {
+      throw httpError(400, `${key} must be true or false`);
+    }
+    return value === 'true';
+  };
+  const count = (key: string): number | undefined => {
+    const value = params.get(key);
+    if (value === null) {
+      return undefined;
+    }
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) {
+      throw httpError(400, `${key} must be a non-negative integer`);
+    }
+    return n;
+  };
+
+  const where = params.get('where');
+  if (where) {
+    try {
+      parseFilter(where);
+    } catch (e: any) {
+      throw httpError(400, `Invalid where: ${e.message}`);
+    }
+    options.where = where;
+  }
+
+  options.hasRiskFlags = flag('hasRiskFlags');
+  options.humanReviewRequired = flag('humanReviewRequired');
+  options.limit = count('limit');
+  options.offset = count('offset');
+  return options;
+}
+
+function checkEntryOptions(logger: AuditLogger, value: unknown, index?: number): AuditEntryOptions {
+  const problems = logger.validate(value);
+  if (problems.length > 0) {
+    throw httpError(400, `${index === undefined ? 'Entry' : `Entry ${index}`} ${problems.join('; ')}`);
+  }
+  return value as AuditEntryOptions;
+}
+
+/**
+ * Create the audit HTTP server (not yet listening)
+ */
+export function createAuditServer(options: AuditServerOptions): http.Server {
+  if (options.tokens.length === 0) {
+    throw new Error('At least one API token is required');
+  }
+
+  const { storage } = options;
+  const logger = options.logger || new AuditLogger(storage);
+  const tokens = options.tokens.map(digest);
+  const maxBodyBytes = options.maxBodyBytes ?? 10 * 1024 * 1024;
+  let writes: Promise<unknown> = Promise.resolve();
+
+  // Serialize writes in this process; the storage lock covers other processes
+  const serialized = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = writes.then(fn);
+    writes = run.catch(() => undefined);
+    return run;
+  };
+
+  const authorized = (req: http.IncomingMessage): boolean => {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    if (!match) {
+      return false;
+    }
+    const presented = digest(match[1].trim());
+    return tokens.some((t) => crypto.timingSafeEqual(t, presented));
+  };
+
+  const route = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter((p) => p);
+    const method = req.method || 'GET';
+
+    if (parts[0] === 'entries' && parts.length === 1) {
+      if (method === 'POST') {
+        const body = await readBody(req, maxBodyBytes);
+        if (Array.isArray(body)) {
+          // Validate the whole batch before writing any of it
+          const batch = body.map((item, i) => checkEntryOptions(logger, item, i));
+          const entries = await serialized(() => logger.logBatch(batch));
+          return sendJson(res, 201, { entries });
+        }
+        const entryOptions = checkEntryOptions(logger, body);
+        return sendJson(res, 201, await serialized(() => logger.log(entryOptions)));
+      }
+      if (method === 'GET') {
+        return sendJson(res, 200, await storage.query(parseQueryParams(url.searchParams)));
+      }
+    }
+
+    if (parts[0] === 'entries' && parts.length === 2 && method === 'GET') {
+      let auditId: string;
+      try {
+        auditId = decodeURIComponent(parts[1]);
+      } catch {
+        throw httpError(400, `Invalid audit ID in path: ${parts[1]}`);
+      }
+      const entry = await storage.getById(auditId);
+      if (!entry) {
+        throw httpError(404, `Audit entry not found: ${parts[1]}`);
+      }
+      return sendJson(res, 200, entry);
+    }
+
+    if (parts[0] === 'verify' && parts.length === 1 && method === 'GET') {
+      return sendJson(res, 200, await storage.verifyIntegrity(url.searchParams.get('fromDate') || undefined));
+    }
+
+    if (parts[0] === 'export' && parts.length === 2 && method === 'GET') {
+      const format = parts[1] as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        throw httpError(404, `Unknown export format: ${format} (expected ${EXPORT_FORMATS.join(', ')})`);
+      }
+      const { limit, offset, ...filters } = parseQueryParams(url.searchParams);
+      const result = exportEntries(await storage.query(filters), format, {
+        lei: url.searchParams.get('lei') || undefined,
+      });
+      res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[format],
+        // Header values must be Latin-1 on one line, so each warning is percent-encoded
+        ...(result.warnings.length > 0
+          ? { 'X-Export-Warnings': result.warnings.map(encodeURIComponent).join('; ') }
+          : {}),
+      });
+      res.end(result.output);
+      return;
+    }
+
+    throw httpError(404, `No route for ${method} ${url.pathname}`);
+  };
+
+  return http.createServer((req, res) => {
+    if (!authorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+    route(req, res).catch((error: any) => {
+      sendJson(res, error.status || 500, { error: error.message });
+    });
+  });
+}
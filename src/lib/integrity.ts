@@ -0,0 +1,140 @@
+/**
+ * Hash chain verification shared by the storage backends
+ */
+
+import { AuditEntry, CorruptLine, IntegrityResult, IntegrityFailure, IntegrityWarning } from '../types';
+import { computeEntryHash } from './logger';
+
+/**
+ * Verify the hash chain of entries in log order, optionally from a date
+ * Each entry is hashed under its own hash version, so logs mixing legacy and canonical entries verify
+ * Timestamps earlier than the previous entry's, and legacy entries after canonical ones, are reported as warnings
+ */
+export function verifyChain(entries: AuditEntry[], fromDate?: string): IntegrityResult {
+  const failures: IntegrityFailure[] = [];
+  const warnings: IntegrityWarning[] = [];
+  const fromTime = fromDate ? new Date(fromDate).getTime() : -Infinity;
+  let entriesChecked = 0;
+  let validEntries = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (new Date(entry.timestamp).getTime() < fromTime) {
+      continue;
+    }
+    entriesChecked++;
+
+    if (i > 0 && new Date(entry.timestamp).getTime() < new Date(entries[i - 1].timestamp).getTime()) {
+      warnings.push({
+        auditId: entry.auditId,
+        timestamp: entry.timestamp,
+        reason: `Timestamp goes backwards (previous entry ${entries[i - 1].auditId} is at ${entries[i - 1].timestamp})`,
+      });
+    }
+
+    if (i > 0 && entry.hashVersion === undefined && entries[i - 1].hashVersion !== undefined) {
+      warnings.push({
+        auditId: entry.auditId,
+        timestamp: entry.timestamp,
+        reason: `Legacy entry hash after hash version ${entries[i - 1].hashVersion} entries - written by an older tool?`,
+      });
+    }
+
+    // Check hash chain
+    if (i > 0) {
+      const previousEntry = entries[i - 1];
+      if (entry.previousHash !== previousEntry.entryHash) {
+        failures.push({
+          auditId: entry.auditId,
+          timestamp: entry.timestamp,
+          reason: 'Previous hash mismatch',
+          expectedHash: previousEntry.entryHash,
+          actualHash: entry.previousHash,
+        });
+        continue;
+      }
+    }
+
+    // Verify entry hash
+    const { entryHash, ...entryWithoutHash } = entry;
+    let computedHash: string;
+    try {
+      computedHash = computeEntryHash(entryWithoutHash as any);
+    } catch (e: any) {
+      failures.push({
+        auditId: entry.auditId,
+        timestamp: entry.timestamp,
+        reason: `Cannot verify entry hash: ${e.message}`,
+        expectedHash: entryHash,
+      });
+      continue;
+    }
+    if (computedHash !== entryHash) {
+      failures.push({
+        auditId: entry.auditId,
+        timestamp: entry.timestamp,
+        reason: 'Entry hash mismatch - possible tampering',
+        expectedHash: entryHash,
+        actualHash: computedHash,
+      });
+      continue;
+    }
+
+    validEntries++;
+  }
+
+  return {
+    valid: failures.length === 0,
+    entriesChecked,
+    validEntries,
+    invalidEntries: failures.length,
+    failures,
+    warnings,
+  };
+}
+
+/**
+ * Report lines that could not be parsed as failures; they are always checked, whatever the date range
+ */
+export function addCorruptLines(result: IntegrityResult, corrupt: CorruptLine[]): IntegrityResult {
+  if (corrupt.length === 0) {
+    return result;
+  }
+  return {
+    ...result,
+    valid: false,
+    entriesChecked: result.entriesChecked + corrupt.length,
+    invalidEntries: result.invalidEntries + corrupt.length,
+    failures: [
+      ...result.failures,
+      ...corrupt.map((c) => ({
+        auditId: '',
+        timestamp: '',
+        line: c.line,
+        reason: c.reason,
+      })),
+    ],
+  };
+}
+
+/**
+ * Add failures from additional checks to a chain verification result
+ */
+export function mergeIntegrityFailures(
+  result: IntegrityResult,
+  extra: IntegrityFailure[]
+): IntegrityResult {
+  const failures = [...result.failures, ...extra];
+  // Corrupt lines have no audit ID, so each counts on its own
+  const invalidIds = new Set(failures.filter((f) => f.line === undefined).map((f) => f.auditId));
+  const invalidEntries = invalidIds.size + failures.filter((f) => f.line !== undefined).length;
+
+  return {
+    valid: failures.length === 0,
+    entriesChecked: result.entriesChecked,
+    validEntries: Math.max(0, result.entriesChecked - invalidEntries),
+    invalidEntries,
+    failures,
+    ...(result.warnings ? { warnings: result.warnings } : {}),
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * Ed25519 signing keys for audit entries
+ * Local key store, trusted-key registry and signature verification
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditEntry, IntegrityFailure } from '../types';
+
+/**
+ * Default directory holding local private keys
+ */
+export const DEFAULT_KEYS_DIR = path.join(os.homedir(), '.auditctl', 'keys');
+
+/**
+ * Default trusted-key registry file
+ */
+export const DEFAULT_TRUSTED_KEYS_FILE = './trusted-keys.json';
+
+/**
+ * Signs entry hashes on behalf of an operator or tool
+ */
+export interface EntrySigner {
+  /** ID of the signing key */
+  keyId: string;
+  /** Sign an entry hash, returning a base64 signature */
+  sign(entryHash: string): string;
+}
+
+/**
+ * A public key in the trusted-key registry
+ */
+export interface TrustedKey {
+  keyId: string;
+  /** SPKI PEM encoded Ed25519 public key */
+  publicKey: string;
+  /** Operator or tool the key belongs to */
+  owner: string;
+  createdAt: string;
+  revokedAt?: string;
+  revocationReason?: string;
+}
+
+/**
+ * Trusted-key registry file contents
+ */
+export interface TrustedKeyRegistry {
+  version: 1;
+  keys: TrustedKey[];
+}
+
+/**
+ * A key pair generated into the local key store
+ */
+export interface GeneratedKey {
+  keyId: string;
+  owner: string;
+  publicKey: string;
+  privateKeyPath: string;
+  publicKeyPath: string;
+}
+
+/**
+ * Derive the key ID (SHA-256 fingerprint prefix) of a public key
+ */
+export function computeKeyId(publicKey: string | crypto.KeyObject): string {
+  const key = typeof publicKey === 'string' ? crypto.createPublicKey(publicKey) : publicKey;
+  const der = key.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').substring(0, 16);
+}
+
+/**
+ * Generate an Ed25519 key pair into the local key store
+ */
+export function generateKeyPair(owner: string, keysDir = DEFAULT_KEYS_DIR): GeneratedKey {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const keyId = computeKeyId(publicKey);
+  const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+  fs.mkdirSync(keysDir, { recursive: true, mode: 0o700 });
+  const privateKeyPath = path.join(keysDir, `${keyId}.key`);
+  const publicKeyPath = path.join(keysDir, `${keyId}.pub`);
+  fs.writeFileSync(privateKeyPath, privatePem, { mode: 0o600, flag: 'wx' });
+  fs.writeFileSync(publicKeyPath, publicPem, { flag: 'wx' });
+  fs.writeFileSync(
+    path.join(keysDir, `${keyId}.json`),
+    JSON.stringify({ keyId, owner, createdAt: new Date().toISOString() }, null, 2)
+  );
+
+  return { keyId, owner, publicKey: publicPem, privateKeyPath, publicKeyPath };
+}
+
+/**
+ * List key IDs with a private key in the local key store
+ */
+export function listLocalKeys(keysDir = DEFAULT_KEYS_DIR): Array<{ keyId: string; owner?: string; createdAt?: string }> {
+  if (!fs.existsSync(keysDir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(keysDir)
+    .filter((f) => f.endsWith('.key'))
+    .map((f) => {
+      const keyId = f.slice(0, -'.key'.length);
+      const metaPath = path.join(keysDir, `${keyId}.json`);
+      const meta = fs.existsSync(metaPath) ? JSON.parse(fs.readFileSync(metaPath, 'utf-8')) : {};
+      return { keyId, owner: meta.owner, createdAt: meta.createdAt };
+    });
+}
+
+/**
+ * Create a signer from a PEM private key
+ */
+export function createSigner(privateKeyPem: string): EntrySigner {
+  const privateKey = crypto.createPrivateKey(privateKeyPem);
+  const keyId = computeKeyId(crypto.createPublicKey(privateKey));
+  return {
+    keyId,
+    sign: (entryHash: string) =>
+      crypto.sign(null, Buffer.from(entryHash, 'utf-8'), privateKey).toString('base64'),
+  };
+}
+
+/**
+ * Load a signer for a key ID from the local key store
+ */
+export function loadSigner(keyId: string, keysDir = DEFAULT_KEYS_DIR): EntrySigner {
+  const privateKeyPath = path.join(keysDir, `${keyId}.key`);
+  if (!fs.existsSync(privateKeyPath)) {
+    throw new Error(`Signing key not found: ${privateKeyPath}`);
+  }
+  return createSigner(fs.readFileSync(privateKeyPath, 'utf-8'));
+}
+
+/**
+ * Load the trusted-key registry (empty if the file doesn't exist)
+ */
+export function loadRegistry(registryPath = DEFAULT_TRUSTED_KEYS_FILE): TrustedKeyRegistry {
+  if (!fs.existsSync(registryPath)) {
+    return { version: 1, keys: [] };
+  }
+  const registry = JSON.parse(fs.readFileSync(registryPath, 'utf-8'));
+  if (!registry || !Array.isArray(registry.keys)) {
+    throw new Error(`Invalid trusted-key registry: ${registryPath}`);
+  }
+  return registry;
+}
+
+/**
+ * Write the trusted-key registry
+ */
+export function saveRegistry(registry: TrustedKeyRegistry, registryPath = DEFAULT_TRUSTED_KEYS_FILE): void {
+  const dir = path.dirname(path.resolve(registryPath));
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(registryPath, JSON.stringify(registry, null, 2) + '\n');
+}
+
+/**
+ * Add a public key to the registry
+ */
+export function trustKey(registry: TrustedKeyRegistry, publicKey: string, owner: string): TrustedKey {
+  const keyId = computeKeyId(publicKey);
+  const existing = registry.keys.find((k) => k.keyId === keyId);
+  if (existing) {
+    return existing;
+  }
+
+  const key: TrustedKey = {
+    keyId,
+    publicKey,
+    owner,
+    createdAt: new Date().toISOString(),
+  };
+  registry.keys.push(key);
+  return key;
+}
+
+/**
+ * Mark a key as revoked in the registry
+ */
+export function revokeKey(registry: TrustedKeyRegistry, keyId: string, reason?: string): TrustedKey {
+  const key = registry.keys.find((k) => k.keyId === keyId);
+  if (!key) {
+    throw new Error(`Key not found in registry: ${keyId}`);
+  }
+  if (!key.revokedAt) {
+    key.revokedAt = new Date().toISOString();
+    key.revocationReason = reason;
+  }
+  return key;
+}
+
+/**
+ * Check a signature over a hash against the registry; returns a failure reason or null
+ */
+export function checkHashSignature(
+  hash: string,
+  keyId: string,
+  signature: string,
+  registry: TrustedKeyRegistry,
+  subject = 'hash'
+): string | null {
+  const key = registry.keys.find((k) => k.keyId === keyId);
+  if (!key) {
+    return `Signed with unknown key ${keyId}`;
+  }
+  if (key.revokedAt) {
+    return `Signed with key ${keyId} revoked at ${key.revokedAt}`;
+  }
+
+  const valid = crypto.verify(
+    null,
+    Buffer.from(hash, 'utf-8'),
+    crypto.createPublicKey(key.publicKey),
+    Buffer.from(signature, 'base64')
+  );
+  return valid ? null : `Signature does not match ${subject}`;
+}
+
+/**
+ * Check an entry's signature against the registry; returns a failure reason or null
+ */
+export function checkEntrySignature(entry: AuditEntry, registry: TrustedKeyRegistry): string | null {
+  if (!entry.signature || !entry.keyId) {
+    return 'Entry is not signed';
+  }
+  if (!entry.entryHash) {
+    return 'Entry has no hash to verify the signature against';
+  }
+  return checkHashSignature(entry.entryHash, entry.keyId, entry.signature, registry, 'entry hash');
+}
+
+/**
+ * Verify signatures of a set of entries, returning one failure per bad entry
+ */
+export function verifySignatures(entries: AuditEntry[], registry: TrustedKeyRegistry): IntegrityFailure[] {
+  const failures: IntegrityFailure[] = [];
+  entries.forEach((entry) => {
+    const reason = checkEntrySignature(entry, registry);
+    if (reason) {
+      failures.push({
+        auditId: entry.auditId,
+        timestamp: entry.timestamp,
+        reason,
+      });
+    }
+  });
+  return failures;
+}
@@ -0,0 +1,252 @@
+/**
+ * Lineage - the parentAuditId graph: ancestors, descendants, graph export and broken links
+ */
+
+import { AuditEntry, IntegrityWarning } from '../types';
+
+/**
+ * Kinds of broken parent link
+ */
+export type LineageIssueKind = 'missing-parent' | 'parent-after-child' | 'cycle';
+
+/**
+ * A broken parent link
+ */
+export interface LineageIssue {
+  kind: LineageIssueKind;
+  auditId: string;
+  parentAuditId: string;
+  message: string;
+}
+
+/**
+ * A parent -> child link
+ */
+export interface LineageEdge {
+  parent: string;
+  child: string;
+}
+
+/**
+ * The lineage of one entry
+ */
+export interface LineageGraph {
+  auditId: string;
+  /** Ancestors, nearest first */
+  ancestors: AuditEntry[];
+  entry: AuditEntry;
+  /** Descendants, breadth first */
+  descendants: AuditEntry[];
+  edges: LineageEdge[];
+  /** Broken links among the graph's entries */
+  issues: LineageIssue[];
+}
+
+/**
+ * Find parent cycles in one pass: each entry has one parent, so walking up from every entry and
+ * stopping at entries already walked visits each entry once
+ * Returns each cycle keyed by its member that comes first in the log, listed from that member
+ */
+export function findParentCycles(entries: AuditEntry[], byId: Map<string, AuditEntry>): Map<string, string[]> {
+  const position = new Map(entries.map((e, i) => [e.auditId, i]));
+  // Walk that first reached each entry
+  const walkOf = new Map<string, number>();
+  const cycles = new Map<string, string[]>();
+
+  entries.forEach((entry, walk) => {
+    const path: string[] = [];
+    let id: string | undefined = entry.auditId;
+    while (id && byId.has(id) && !walkOf.has(id)) {
+      walkOf.set(id, walk);
+      path.push(id);
+      id = byId.get(id)!.parentAuditId;
+    }
+    // Reaching an entry of this same walk closes a cycle; earlier walks were already checked
+    if (!id || walkOf.get(id) !== walk) {
+      return;
+    }
+    const members = path.slice(path.indexOf(id));
+    const first = members.reduce((a, b) => (position.get(b)! < position.get(a)! ? b : a));
+    const start = members.indexOf(first);
+    cycles.set(first, [...members.slice(start), ...members.slice(0, start)]);
+  });
+
+  return cycles;
+}
+
+/**
+ * Find broken parent links: missing parents, parents later than their child, and cycles
+ */
+export function findLineageIssues(entries: AuditEntry[]): LineageIssue[] {
+  const byId = new Map(entries.map((e) => [e.auditId, e]));
+  const cycles = findParentCycles(entries, byId);
+  const issues: LineageIssue[] = [];
+
+  entries.forEach((entry) => {
+    const parentId = entry.parentAuditId;
+    if (!parentId) {
+      return;
+    }
+    const parent = byId.get(parentId);
+    if (!parent) {
+      issues.push({
+        kind: 'missing-parent',
+        auditId: entry.auditId,
+        parentAuditId: parentId,
+        message: `Parent ${parentId} does not exist`,
+      });
+      return;
+    }
+    if (new Date(parent.timestamp).getTime() > new Date(entry.timestamp).getTime()) {
+      issues.push({
+        kind: 'parent-after-child',
+        auditId: entry.auditId,
+        parentAuditId: parentId,
+        message: `Parent ${parentId} is timestamped after its child (${parent.timestamp} > ${entry.timestamp})`,
+      });
+    }
+
+    // Reported once per cycle, on its first member
+    const cycle = cycles.get(entry.auditId);
+    if (cycle) {
+      issues.push({
+        kind: 'cycle',
+        auditId: entry.auditId,
+        parentAuditId: parentId,
+        message: `Parent cycle: ${[...cycle, entry.auditId].join(' -> ')}`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Walk the ancestors and descendants of an entry
+ */
+export function buildLineage(auditId: string, entries: AuditEntry[], options: { depth?: number } = {}): LineageGraph {
+  const maxDepth = options.depth ?? Infinity;
+  const byId = new Map(entries.map((e) => [e.auditId, e]));
+  const entry = byId.get(auditId);
+  if (!entry) {
+    throw new Error(`Audit entry not found: ${auditId}`);
+  }
+
+  const children = new Map<string, AuditEntry[]>();
+  entries.forEach((e) => {
+    if (e.parentAuditId) {
+      if (!children.has(e.parentAuditId)) {
+        children.set(e.parentAuditId, []);
+      }
+      children.get(e.parentAuditId)!.push(e);
+    }
+  });
+
+  const visited = new Set([auditId]);
+  const edges: LineageEdge[] = [];
+  const edgeKeys = new Set<string>();
+  const addEdge = (parent: string, child: string) => {
+    if (!edgeKeys.has(`${parent}\0${child}`)) {
+      edgeKeys.add(`${parent}\0${child}`);
+      edges.push({ parent, child });
+    }
+  };
+
+  const ancestors: AuditEntry[] = [];
+  let current = entry;
+  while (current.parentAuditId && ancestors.length < maxDepth) {
+    addEdge(current.parentAuditId, current.auditId);
+    const parent = byId.get(current.parentAuditId);
+    if (!parent || visited.has(parent.auditId)) {
+      break;
+    }
+    visited.add(parent.auditId);
+    ancestors.push(parent);
+    current = parent;
+  }
+
+  const descendants: AuditEntry[] = [];
+  let frontier = [entry];
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+    const next: AuditEntry[] = [];
+    frontier.forEach((node) => {
+      (children.get(node.auditId) || []).forEach((child) => {
+        addEdge(node.auditId, child.auditId);
+        if (!visited.has(child.auditId)) {
+          visited.add(child.auditId);
+          descendants.push(child);
+          next.push(child);
+        }
+      });
+    });
+    frontier = next;
+  }
+
+  const issues = findLineageIssues(entries).filter((i) => visited.has(i.auditId));
+  return { auditId, ancestors, entry, descendants, edges, issues };
+}
+
+/**
+ * Report broken parent links as integrity warnings
+ */
+export function lineageWarnings(entries: AuditEntry[]): IntegrityWarning[] {
+  const byId = new Map(entries.map((e) => [e.auditId, e]));
+  return findLineageIssues(entries).map((issue) => ({
+    auditId: issue.auditId,
+    timestamp: byId.get(issue.auditId)!.timestamp,
+    reason: issue.message,
+  }));
+}
+
+function graphNodes(graph: LineageGraph): { entries: AuditEntry[]; missing: string[] } {
+  const entries = [...graph.ancestors.slice().reverse(), graph.entry, ...graph.descendants];
+  const known = new Set(entries.map((e) => e.auditId));
+  const missing = [...new Set(graph.edges.map((e) => e.parent).filter((id) => !known.has(id)))];
+  return { entries, missing };
+}
+
+function nodeLabel(entry: AuditEntry): string {
+  return `${entry.tool} ${entry.command}\n${entry.timestamp}\n${entry.auditId.substring(0, 8)}`;
+}
+
+/**
+ * Export the lineage as a Graphviz DOT digraph
+ */
+export function lineageToDot(graph: LineageGraph): string {
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  const { entries, missing } = graphNodes(graph);
+  const lines = ['digraph lineage {', '  rankdir=TB;', '  node [shape=box, fontname="Helvetica"];'];
+  entries.forEach((e) => {
+    const style = e.auditId === graph.auditId ? ', style="bold,filled", fillcolor="#fff2cc"' : '';
+    lines.push(`  ${quote(e.auditId)} [label=${quote(nodeLabel(e))}${style}];`);
+  });
+  missing.forEach((id) => {
+    lines.push(`  ${quote(id)} [label=${quote(`missing\n${id.substring(0, 8)}`)}, style=dashed, color=red];`);
+  });
+  graph.edges.forEach((e) => lines.push(`  ${quote(e.parent)} -> ${quote(e.child)};`));
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Export the lineage as a Mermaid flowchart
+ */
+export function lineageToMermaid(graph: LineageGraph): string {
+  const escape = (value: string) => value.replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
+  const { entries, missing } = graphNodes(graph);
+  const ids = new Map<string, string>();
+  const nodeId = (auditId: string) => {
+    if (!ids.has(auditId)) {
+      ids.set(auditId, `n${ids.size}`);
+    }
+    return ids.get(auditId)!;
+  };
+
+  const lines = ['graph TD'];
+  entries.forEach((e) => lines.push(`  ${nodeId(e.auditId)}["${escape(nodeLabel(e))}"]`));
+  missing.forEach((id) => lines.push(`  ${nodeId(id)}["${escape(`missing\n${id.substring(0, 8)}`)}"]`));
+  graph.edges.forEach((e) => lines.push(`  ${nodeId(e.parent)} --> ${nodeId(e.child)}`));
+  lines.push(`  style ${nodeId(graph.auditId)} stroke-width:3px`);
+  missing.forEach((id) => lines.push(`  style ${nodeId(id)} stroke:#c00,stroke-dasharray:4`));
+  return lines.join('\n');
+}
@@ -9,7 +9,14 @@ import {
   AuditEntryOptions,
   ComplianceInfo,
   AuditStorage,
+  HashAlgorithm,
 } from '../types';
+import { canonicalize } from './canonical';
+import { EntrySigner } from './keys';
+import { Redactor } from './redaction';
+import { FieldEncryptor } from './encryption';
+import { SchemaRegistry, validateEntryOptions } from './validation';
+import { AlertEngine } from './alerting';
 
 /**
  * Default compliance info for entries without explicit compliance data
@@ -21,10 +28,24 @@ const defaultComplianceInfo: ComplianceInfo = {
 };
 
 /**
- * Compute SHA-256 hash of an audit entry
+ * Hash version written on new entries
  */
-export function computeEntryHash(entry: Omit<AuditEntry, 'entryHash'>): string {
-  const content = JSON.stringify({
+export const CURRENT_HASH_VERSION = 2;
+
+/**
+ * Algorithms accepted for entry hashes
+ */
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['sha256', 'sha512', 'sha3-256', 'sha3-512'];
+
+/**
+ * Compute the hash of an audit entry under its hash version
+ * Legacy entries (no hashVersion) hash JSON.stringify of the fields in a fixed order with SHA-256;
+ * version 2 hashes the RFC 8785 canonical JSON of the same fields, the version and the algorithm
+ */
+export function computeEntryHash(
+  entry: Omit<AuditEntry, 'entryHash' | 'signature'>
+): string {
+  const fields = {
     auditId: entry.auditId,
     timestamp: entry.timestamp,
     tool: entry.tool,
@@ -41,47 +62,34 @@ export function computeEntryHash(entry: Omit<AuditEntry, 'entryHash'>): string {
     loanId: entry.loanId,
     durationMs: entry.durationMs,
     previousHash: entry.previousHash,
-  });
-  return crypto.createHash('sha256').update(content).digest('hex');
+    keyId: entry.keyId,
+    redactionPolicy: entry.redactionPolicy,
+  };
+
+  if (entry.hashVersion === undefined) {
+    return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+  }
+  if (entry.hashVersion !== 2) {
+    throw new Error(`Unsupported hash version ${entry.hashVersion}`);
+  }
+  const algorithm = entry.hashAlgorithm || 'sha256';
+  if (!HASH_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported hash algorithm "${algorithm}"`);
+  }
+  const content = canonicalize({ ...fields, hashVersion: entry.hashVersion, hashAlgorithm: algorithm });
+  return crypto.createHash(algorithm).update(content).digest('hex');
 }
 
+const defaultRedactor = new Redactor();
+
 /**
- * Sanitize inputs to remove PII before logging
- * Override this function for custom sanitization rules
+ * Sanitize inputs to remove PII before logging, using the built-in redaction policy
+ * Configure a Redactor on the logger for custom rules
  */
 export function sanitizeInputs(
   inputs: Record<string, unknown>
 ): Record<string, unknown> {
-  const sensitiveKeys = [
-    'ssn',
-    'social_security',
-    'socialSecurity',
-    'ssn_last4',
-    'password',
-    'secret',
-    'token',
-    'api_key',
-    'apiKey',
-    'account_number',
-    'accountNumber',
-    'routing_number',
-    'routingNumber',
-  ];
-
-  const sanitized: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(inputs)) {
-    const lowerKey = key.toLowerCase();
-    if (sensitiveKeys.some((sk) => lowerKey.includes(sk.toLowerCase()))) {
-      sanitized[key] = '[REDACTED]';
-    } else if (typeof value === 'object' && value !== null) {
-      sanitized[key] = sanitizeInputs(value as Record<string, unknown>);
-    } else {
-      sanitized[key] = value;
-    }
-  }
-
-  return sanitized;
+  return defaultRedactor.redactRecord(inputs);
 }
 
 /**
@@ -91,35 +99,149 @@ export class AuditLogger {
   private storage: AuditStorage;
   private defaultOperator: string;
   private sessionId?: string;
+  private signer?: EntrySigner;
+  private redactor: Redactor;
+  private encryptor?: FieldEncryptor;
+  private schemas?: SchemaRegistry;
+  private alerts?: AlertEngine;
+  private hashAlgorithm: HashAlgorithm;
 
   constructor(
     storage: AuditStorage,
-    options?: { defaultOperator?: string; sessionId?: string }
+    options?: {
+      defaultOperator?: string;
+      sessionId?: string;
+      signer?: EntrySigner;
+      redactor?: Redactor;
+      encryptor?: FieldEncryptor;
+      schemas?: SchemaRegistry;
+      alerts?: AlertEngine;
+      hashAlgorithm?: HashAlgorithm;
+    }
   ) {
     this.storage = storage;
     this.defaultOperator = options?.defaultOperator || 'system';
     this.sessionId = options?.sessionId;
+    this.signer = options?.signer;
+    this.redactor = options?.redactor || defaultRedactor;
+    this.encryptor = options?.encryptor;
+    this.schemas = options?.schemas;
+    this.alerts = options?.alerts;
+    this.hashAlgorithm = options?.hashAlgorithm || 'sha256';
+    if (!HASH_ALGORITHMS.includes(this.hashAlgorithm)) {
+      throw new Error(`Unsupported hash algorithm "${this.hashAlgorithm}" (expected ${HASH_ALGORITHMS.join(', ')})`);
+    }
+  }
+
+  /**
+   * Problems that would stop an entry from being logged; empty if it is valid
+   */
+  validate(options: unknown): string[] {
+    return validateEntryOptions(options, this.schemas);
   }
 
   /**
    * Create and log a new audit entry
    */
   async log(options: AuditEntryOptions): Promise<AuditEntry> {
+    // Hold the storage lock so concurrent writers cannot chain off the same entry
+    const entry = this.storage.withLock
+      ? await this.storage.withLock(() => this.appendEntry(options))
+      : await this.appendEntry(options);
+    // Alert once the lock is released so slow sinks do not hold up other writers
+    await this.alerts?.process(entry);
+    return entry;
+  }
+
+  /**
+   * Log an entry whose options are derived from the log itself, e.g. a digest of every entry so far
+   * The options are built under the storage lock, so no other writer can append in between
+   * If build returns null nothing is logged and null is returned
+   */
+  async logDerived(build: () => Promise<AuditEntryOptions>): Promise<AuditEntry>;
+  async logDerived(build: () => Promise<AuditEntryOptions | null>): Promise<AuditEntry | null>;
+  async logDerived(build: () => Promise<AuditEntryOptions | null>): Promise<AuditEntry | null> {
+    const run = async () => {
+      const options = await build();
+      return options ? this.appendEntry(options) : null;
+    };
+    const entry = this.storage.withLock ? await this.storage.withLock(run) : await run();
+    if (entry) {
+      await this.alerts?.process(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Log several entries under one lock, reading the last hash once and chaining in memory
+   * Every entry is built before any is appended, so a bad record writes nothing
+   */
+  async logBatch(batch: AuditEntryOptions[]): Promise<AuditEntry[]> {
+    const run = async () => {
+      const lastEntry = await this.storage.getLastEntry();
+      const entries: AuditEntry[] = [];
+      let previousHash = lastEntry?.entryHash;
+      for (const options of batch) {
+        const entry = await this.buildEntry(options, previousHash);
+        entries.push(entry);
+        previousHash = entry.entryHash;
+      }
+      for (const entry of entries) {
+        await this.storage.append(entry);
+      }
+      return entries;
+    };
+    const entries = this.storage.withLock ? await this.storage.withLock(run) : await run();
+    for (const entry of entries) {
+      await this.alerts?.process(entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Build, hash and append an entry chained to the current last entry
+   */
+  private async appendEntry(options: AuditEntryOptions): Promise<AuditEntry> {
     // Get the last entry for hash chaining
     const lastEntry = await this.storage.getLastEntry();
-    const previousHash = lastEntry?.entryHash;
+    const entry = await this.buildEntry(options, lastEntry?.entryHash);
+
+    // Append to storage
+    await this.storage.append(entry);
+
+    return entry;
+  }
+
+  /**
+   * Build and hash an entry chained to previousHash
+   */
+  private async buildEntry(options: AuditEntryOptions, previousHash: string | undefined): Promise<AuditEntry> {
+    // Reject malformed options before anything is hashed into the chain
+    const problems = this.validate(options);
+    if (problems.length > 0) {
+      throw new Error(`Invalid audit entry: ${problems.join('; ')}`);
+    }
+
+    // Redact, then encrypt configured fields from their original values
+    const auditId = uuidv4();
+    let inputs = this.redactor.redactRecord(options.inputs);
+    let outputs = this.redactor.redactRecord(options.outputs);
+    if (this.encryptor) {
+      inputs = await this.encryptor.encryptFields(auditId, 'inputs', options.inputs, inputs);
+      outputs = await this.encryptor.encryptFields(auditId, 'outputs', options.outputs, outputs);
+    }
 
     // Build the entry (without final hash)
-    const entryWithoutHash: Omit<AuditEntry, 'entryHash'> = {
-      auditId: uuidv4(),
+    const entryWithoutHash: Omit<AuditEntry, 'entryHash' | 'signature'> = {
+      auditId,
       timestamp: new Date().toISOString(),
       tool: options.tool,
       command: options.command,
       toolVersion: options.toolVersion,
-      inputs: sanitizeInputs(options.inputs),
-      outputs: options.outputs,
-      rationale: options.rationale,
-      warnings: options.warnings || [],
+      inputs,
+      outputs,
+      rationale: this.redactor.redactText(options.rationale),
+      warnings: (options.warnings || []).map((w) => this.redactor.redactText(w)),
       compliance: {
         ...defaultComplianceInfo,
         ...options.compliance,
@@ -130,19 +252,23 @@ export class AuditLogger {
       loanId: options.loanId,
       durationMs: options.durationMs,
       previousHash,
+      keyId: this.signer?.keyId,
+      redactionPolicy: this.redactor.version,
+      hashVersion: CURRENT_HASH_VERSION,
+      hashAlgorithm: this.hashAlgorithm,
     };
 
     // Compute the entry hash
     const entryHash = computeEntryHash(entryWithoutHash);
 
-    // Create the final entry
+    // Create the final entry, signing the hash if a signer is configured
     const entry: AuditEntry = {
       ...entryWithoutHash,
       entryHash,
     };
-
-    // Append to storage
-    await this.storage.append(entry);
+    if (this.signer) {
+      entry.signature = this.signer.sign(entryHash);
+    }
 
     return entry;
   }
@@ -156,20 +282,22 @@ export class AuditLogger {
       declineReasons?: string[];
     }
   ): Promise<AuditEntry> {
+    // decision and declineReasons are recorded in outputs, not as entry fields
+    const { decision, declineReasons, ...entryOptions } = options;
     const outputs: Record<string, unknown> = {
       ...options.outputs,
-      decision: options.decision,
+      decision,
     };
 
     // For declines, ensure we have adverse action reasons
-    if (options.decision === 'declined') {
-      outputs.adverseActionReasons = options.declineReasons || [
+    if (decision === 'declined') {
+      outputs.adverseActionReasons = declineReasons || [
         'Unspecified reason',
       ];
     }
 
     return this.log({
-      ...options,
+      ...entryOptions,
       outputs,
       compliance: {
         ...options.compliance,
@@ -179,7 +307,7 @@ export class AuditLogger {
           'Reg B',
         ],
         humanReviewRequired:
-          options.decision === 'declined' ||
+          decision === 'declined' ||
           options.compliance?.humanReviewRequired ||
           false,
       },
@@ -193,9 +321,22 @@ export class AuditLogger {
     return new AuditLogger(this.storage, {
       defaultOperator: this.defaultOperator,
       sessionId: sessionId || uuidv4(),
+      signer: this.signer,
+      redactor: this.redactor,
+      encryptor: this.encryptor,
+      schemas: this.schemas,
+      alerts: this.alerts,
+      hashAlgorithm: this.hashAlgorithm,
     });
   }
 
+  /**
+   * Algorithm used for new entry hashes
+   */
+  getHashAlgorithm(): HashAlgorithm {
+    return this.hashAlgorithm;
+  }
+
   /**
    * Get current session ID
    */
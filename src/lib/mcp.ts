@@ -0,0 +1,323 @@
+/**
+ * Model Context Protocol server - audit logging and querying as MCP tools over stdio
+ * Newline-delimited JSON-RPC 2.0, as used by the MCP stdio transport
+ */
+
+import * as readline from 'readline';
+import { AuditEntryOptions, AuditQueryOptions, AuditStorage, ExportFormat } from '../types';
+import { VERSION } from '../version';
+import { AuditLogger } from './logger';
+import { EXPORT_FORMATS, exportEntries } from './export';
+import { JsonSchema, auditEntryOptionsSchema, auditQueryOptionsSchema } from './schema';
+import { buildLoanTimeline } from './timeline';
+
+/**
+ * Protocol versions this server speaks, newest first
+ */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const TIMELINE_URI = /^auditctl:\/\/loans\/([^/]+)\/timeline$/;
+
+/**
+ * JSON-RPC request or notification
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * JSON-RPC response
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * An MCP tool definition
+ */
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+}
+
+/**
+ * Result of an MCP tool call
+ */
+interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+const JSON_RPC_ERRORS = {
+  parse: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internal: -32603,
+  resourceNotFound: -32002,
+};
+
+const logDecisionSchema: JsonSchema = {
+  ...auditEntryOptionsSchema,
+  description: 'Options for logging a lending decision (ECOA and Reg B are added automatically)',
+  properties: {
+    ...auditEntryOptionsSchema.properties,
+    decision: { type: 'string', enum: ['approved', 'declined', 'referred', 'countered'] },
+    declineReasons: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Adverse action reasons for a decline',
+    },
+  },
+  required: [...(auditEntryOptionsSchema.required || []), 'decision'],
+};
+
+/**
+ * Tools exposed by the server
+ */
+export const MCP_TOOLS: McpTool[] = [
+  {
+    name: 'log',
+    description: 'Append an entry to the audit log',
+    inputSchema: auditEntryOptionsSchema,
+  },
+  {
+    name: 'log_decision',
+    description: 'Append a lending decision, tracking adverse action reasons for declines',
+    inputSchema: logDecisionSchema,
+  },
+  {
+    name: 'query',
+    description: 'Search audit entries',
+    inputSchema: auditQueryOptionsSchema,
+  },
+  {
+    name: 'get_entry',
+    description: 'Get an audit entry by ID',
+    inputSchema: {
+      type: 'object',
+      properties: { auditId: { type: 'string', description: 'Audit entry ID' } },
+      required: ['auditId'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'verify',
+    description: 'Verify the hash chain of the audit log',
+    inputSchema: {
+      type: 'object',
+      properties: { fromDate: { type: 'string', format: 'date-time', description: 'Verify from this date' } },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'export',
+    description: 'Export audit entries in a compliance format',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        format: { type: 'string', enum: EXPORT_FORMATS },
+        startDate: auditQueryOptionsSchema.properties!.startDate,
+        endDate: auditQueryOptionsSchema.properties!.endDate,
+        loanId: auditQueryOptionsSchema.properties!.loanId,
+        tool: auditQueryOptionsSchema.properties!.tool,
+        lei: { type: 'string', description: 'Legal Entity Identifier for HMDA LAR records' },
+      },
+      required: ['format'],
+      additionalProperties: false,
+    },
+  },
+];
+
+function textResult(value: unknown, isError = false): ToolResult {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return isError ? { content: [{ type: 'text', text }], isError } : { content: [{ type: 'text', text }] };
+}
+
+/**
+ * McpServer - handles MCP requests against an audit log
+ */
+export class McpServer {
+  private storage: AuditStorage;
+  private logger: AuditLogger;
+
+  constructor(storage: AuditStorage, logger?: AuditLogger) {
+    this.storage = storage;
+    this.logger = logger || new AuditLogger(storage);
+  }
+
+  /**
+   * Handle one JSON-RPC message; returns null for notifications
+   */
+  async handle(message: JsonRpcRequest): Promise<JsonRpcResponse | null> {
+    const id = message.id ?? null;
+    const isNotification = message.id === undefined;
+
+    if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      return this.error(id, JSON_RPC_ERRORS.invalidRequest, 'Invalid JSON-RPC request');
+    }
+
+    try {
+      const result = await this.dispatch(message.method, message.params || {});
+      if (isNotification) {
+        return null;
+      }
+      if (result === undefined) {
+        return this.error(id, JSON_RPC_ERRORS.methodNotFound, `Method not found: ${message.method}`);
+      }
+      return { jsonrpc: '2.0', id, result };
+    } catch (error: any) {
+      const code = typeof error.code === 'number' ? error.code : JSON_RPC_ERRORS.internal;
+      return isNotification ? null : this.error(id, code, error.message);
+    }
+  }
+
+  /**
+   * Serve newline-delimited JSON-RPC until the input closes
+   */
+  async serveStdio(
+    input: NodeJS.ReadableStream = process.stdin,
+    output: NodeJS.WritableStream = process.stdout
+  ): Promise<void> {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    // Messages are handled one at a time so log writes keep their order
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      let response: JsonRpcResponse | null;
+      try {
+        response = await this.handle(JSON.parse(line));
+      } catch {
+        response = this.error(null, JSON_RPC_ERRORS.parse, 'Parse error');
+      }
+      if (response) {
+        output.write(JSON.stringify(response) + '\n');
+      }
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, any>): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return {
+          protocolVersion: MCP_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+            ? params.protocolVersion
+            : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: 'auditctl', version: VERSION },
+        };
+      case 'notifications/initialized':
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: MCP_TOOLS };
+      case 'tools/call':
+        return this.callTool(params.name, params.arguments || {});
+      case 'resources/list':
+        return { resources: await this.listTimelines() };
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: [
+            {
+              uriTemplate: 'auditctl://loans/{loanId}/timeline',
+              name: 'Loan timeline',
+              description: 'Every audit entry for a loan in chronological order',
+              mimeType: 'application/json',
+            },
+          ],
+        };
+      case 'resources/read':
+        return this.readResource(params.uri);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Run a tool; tool failures are reported in the result, not as protocol errors
+   */
+  private async callTool(name: string, args: Record<string, any>): Promise<ToolResult> {
+    const tool = MCP_TOOLS.find((t) => t.name === name);
+    if (!tool) {
+      throw Object.assign(new Error(`Unknown tool: ${name}`), { code: JSON_RPC_ERRORS.invalidParams });
+    }
+
+    const missing = (tool.inputSchema.required || []).filter((key) => args[key] === undefined);
+    if (missing.length > 0) {
+      return textResult(`Missing required arguments: ${missing.join(', ')}`, true);
+    }
+
+    try {
+      switch (name) {
+        case 'log':
+          return textResult(await this.logger.log(args as AuditEntryOptions));
+        case 'log_decision':
+          return textResult(await this.logger.logDecision(args as Parameters<AuditLogger['logDecision']>[0]));
+        case 'query':
+          return textResult(await this.storage.query(args as AuditQueryOptions));
+        case 'get_entry': {
+          const entry = await this.storage.getById(args.auditId);
+          return entry ? textResult(entry) : textResult(`Audit entry not found: ${args.auditId}`, true);
+        }
+        case 'verify':
+          return textResult(await this.storage.verifyIntegrity(args.fromDate));
+        default: {
+          const entries = await this.storage.query({
+            startDate: args.startDate,
+            endDate: args.endDate,
+            loanId: args.loanId,
+            tool: args.tool,
+          });
+          const result = exportEntries(entries, args.format as ExportFormat, { lei: args.lei });
+          return {
+            content: [
+              { type: 'text', text: result.output },
+              ...result.warnings.map((w) => ({ type: 'text' as const, text: `Warning: ${w}` })),
+            ],
+          };
+        }
+      }
+    } catch (error: any) {
+      return textResult(`Error: ${error.message}`, true);
+    }
+  }
+
+  private async listTimelines() {
+    const loanIds = new Set<string>();
+    (await this.storage.query({})).forEach((e) => {
+      if (e.loanId) {
+        loanIds.add(e.loanId);
+      }
+    });
+    return [...loanIds].map((loanId) => ({
+      uri: `auditctl://loans/${encodeURIComponent(loanId)}/timeline`,
+      name: `Loan ${loanId} timeline`,
+      mimeType: 'application/json',
+    }));
+  }
+
+  private async readResource(uri: string) {
+    const match = TIMELINE_URI.exec(uri || '');
+    if (!match) {
+      throw Object.assign(new Error(`Unknown resource: ${uri}`), { code: JSON_RPC_ERRORS.resourceNotFound });
+    }
+    const loanId = decodeURIComponent(match[1]);
+    const timeline = buildLoanTimeline(loanId, await this.storage.query({ loanId }));
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(timeline, null, 2) }],
+    };
+  }
+
+  private error(id: string | number | null, code: number, message: string): JsonRpcResponse {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Merkle tree over entry hashes (RFC 6962 / RFC 9162 hashing)
+ * Leaves and nodes are domain-separated so a leaf can never be passed off as a node
+ */
+
+import * as crypto from 'crypto';
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = crypto.createHash('sha256');
+  parts.forEach((p) => hash.update(p));
+  return hash.digest();
+}
+
+/**
+ * Hash a leaf (an entry hash in hex)
+ */
+export function hashLeaf(entryHash: string): Buffer {
+  return sha256(LEAF_PREFIX, Buffer.from(entryHash, 'hex'));
+}
+
+function hashNode(left: Buffer, right: Buffer): Buffer {
+  return sha256(NODE_PREFIX, left, right);
+}
+
+/**
+ * Largest power of two strictly smaller than n
+ */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
+  }
+  return k;
+}
+
+function subtreeRoot(leaves: Buffer[], start: number, end: number): Buffer {
+  const n = end - start;
+  if (n === 1) {
+    return leaves[start];
+  }
+  const k = splitPoint(n);
+  return hashNode(subtreeRoot(leaves, start, start + k), subtreeRoot(leaves, start + k, end));
+}
+
+function subtreePath(leaves: Buffer[], index: number, start: number, end: number): Buffer[] {
+  const n = end - start;
+  if (n <= 1) {
+    return [];
+  }
+  const k = splitPoint(n);
+  if (index < start + k) {
+    return [...subtreePath(leaves, index, start, start + k), subtreeRoot(leaves, start + k, end)];
+  }
+  return [...subtreePath(leaves, index, start + k, end), subtreeRoot(leaves, start, start + k)];
+}
+
+/**
+ * Compute the Merkle root of a list of entry hashes (hex)
+ */
+export function merkleRoot(entryHashes: string[]): string {
+  if (entryHashes.length === 0) {
+    return sha256().toString('hex');
+  }
+  const leaves = entryHashes.map(hashLeaf);
+  return subtreeRoot(leaves, 0, leaves.length).toString('hex');
+}
+
+/**
+ * Compute the inclusion (audit) path for the leaf at an index
+ */
+export function inclusionPath(entryHashes: string[], index: number): string[] {
+  if (index < 0 || index >= entryHashes.length) {
+    throw new Error(`Leaf index ${index} out of range for tree of size ${entryHashes.length}`);
+  }
+  const leaves = entryHashes.map(hashLeaf);
+  return subtreePath(leaves, index, 0, leaves.length).map((b) => b.toString('hex'));
+}
+
+/**
+ * Verify an inclusion path against a root without access to the other leaves
+ */
+export function verifyInclusion(
+  entryHash: string,
+  index: number,
+  treeSize: number,
+  path: string[],
+  root: string
+): boolean {
+  if (index < 0 || index >= treeSize) {
+    return false;
+  }
+
+  let fn = index;
+  let sn = treeSize - 1;
+  let r = hashLeaf(entryHash);
+
+  for (const p of path) {
+    if (sn === 0) {
+      return false;
+    }
+    const sibling = Buffer.from(p, 'hex');
+    if (fn % 2 === 1 || fn === sn) {
+      r = hashNode(sibling, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = hashNode(r, sibling);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && r.toString('hex') === root;
+}
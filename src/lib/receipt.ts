@@ -0,0 +1,116 @@
+/**
+ * Verification receipts - a hashed (and optionally signed) record of a verification run,
+ * to archive as examination evidence. A receipt's head can anchor the next run
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { AuditEntry, IntegrityResult } from '../types';
+import { VERSION } from '../version';
+import { EntrySigner, TrustedKeyRegistry, checkHashSignature } from './keys';
+import { LogAnchor, createAnchor } from './anchor';
+
+/**
+ * A verification receipt
+ */
+export interface VerificationReceipt {
+  version: 1;
+  tool: 'auditctl';
+  toolVersion: string;
+  verifiedAt: string;
+  /** The log that was verified, e.g. ./audit.jsonl or sqlite:./audit.db */
+  log: string;
+  /** Start date of the verified range, if limited */
+  from?: string;
+  /** Checks performed, e.g. hash-chain, signatures, anchor */
+  checks: string[];
+  result: IntegrityResult;
+  /** Head of the log when verified; null for an empty log */
+  head: LogAnchor | null;
+  /** Anchor the log was verified against */
+  anchor?: LogAnchor;
+  receiptHash: string;
+  keyId?: string;
+  /** Base64 Ed25519 signature over receiptHash */
+  signature?: string;
+}
+
+/**
+ * SHA-256 over a receipt's contents, including the signing key ID
+ */
+export function computeReceiptHash(receipt: Omit<VerificationReceipt, 'receiptHash' | 'signature'>): string {
+  const content = JSON.stringify({
+    version: receipt.version,
+    tool: receipt.tool,
+    toolVersion: receipt.toolVersion,
+    verifiedAt: receipt.verifiedAt,
+    log: receipt.log,
+    from: receipt.from,
+    checks: receipt.checks,
+    result: receipt.result,
+    head: receipt.head,
+    anchor: receipt.anchor,
+    keyId: receipt.keyId,
+  });
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Build a receipt for a verification result
+ */
+export function buildVerificationReceipt(
+  entries: AuditEntry[],
+  result: IntegrityResult,
+  options: { log: string; checks: string[]; from?: string; anchor?: LogAnchor; signer?: EntrySigner }
+): VerificationReceipt {
+  const unhashed: Omit<VerificationReceipt, 'receiptHash' | 'signature'> = {
+    version: 1,
+    tool: 'auditctl',
+    toolVersion: VERSION,
+    verifiedAt: new Date().toISOString(),
+    log: options.log,
+    from: options.from,
+    checks: options.checks,
+    result,
+    head: entries.length > 0 ? createAnchor(entries) : null,
+    anchor: options.anchor,
+    keyId: options.signer?.keyId,
+  };
+  const receiptHash = computeReceiptHash(unhashed);
+  return {
+    ...unhashed,
+    receiptHash,
+    ...(options.signer ? { signature: options.signer.sign(receiptHash) } : {}),
+  };
+}
+
+/**
+ * Check a receipt's hash and, if a registry is given, its signature; returns a failure reason or null
+ */
+export function checkVerificationReceipt(receipt: VerificationReceipt, registry?: TrustedKeyRegistry): string | null {
+  const { receiptHash, signature, ...unhashed } = receipt;
+  if (computeReceiptHash(unhashed) !== receiptHash) {
+    return 'Receipt hash mismatch - receipt has been modified';
+  }
+  if (!registry) {
+    return null;
+  }
+  if (!signature || !receipt.keyId) {
+    return 'Receipt is not signed';
+  }
+  return checkHashSignature(receiptHash, receipt.keyId, signature, registry, 'receipt hash');
+}
+
+/**
+ * Load a receipt file
+ */
+export function loadVerificationReceipt(receiptPath: string): VerificationReceipt {
+  if (!fs.existsSync(receiptPath)) {
+    throw new Error(`Receipt not found: ${receiptPath}`);
+  }
+  const receipt = JSON.parse(fs.readFileSync(receiptPath, 'utf-8'));
+  if (!receipt || typeof receipt.receiptHash !== 'string' || !receipt.result) {
+    throw new Error(`Invalid verification receipt: ${receiptPath}`);
+  }
+  return receipt;
+}
@@ -0,0 +1,229 @@
+/**
+ * PII redaction engine - policy-driven redaction of entry fields before they are hashed and stored
+ * Key rules match field names; pattern rules find PII inside any string value or free text
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+/**
+ * Default redaction policy file
+ */
+export const DEFAULT_REDACTION_FILE = './redaction.json';
+
+/**
+ * Environment variable holding the HMAC key for tokenization
+ */
+export const DEFAULT_REDACTION_KEY_ENV = 'AUDITCTL_REDACTION_KEY';
+
+/**
+ * How a matched value is redacted
+ * - mask: replaced with [REDACTED]
+ * - drop: field removed (key rules) or match removed from the text (pattern rules)
+ * - hmac: replaced with a keyed HMAC token, so equal values can still be correlated
+ * - last4: all but the last four characters masked
+ */
+export type RedactionMode = 'mask' | 'drop' | 'hmac' | 'last4';
+
+/**
+ * Redact fields whose name matches a pattern
+ */
+export interface RedactionKeyRule {
+  /** Regular expression matched case-insensitively against field names */
+  pattern: string;
+  mode?: RedactionMode;
+}
+
+/**
+ * Redact PII found inside string values
+ */
+export interface RedactionPatternRule {
+  /** Rule name; a built-in name (ssn, account, email, phone, dob) supplies its own regex */
+  name: string;
+  /** Regular expression, required unless name is built-in */
+  regex?: string;
+  mode?: RedactionMode;
+}
+
+/**
+ * Redaction policy file contents
+ */
+export interface RedactionPolicy {
+  /** Policy version recorded on every entry it redacts */
+  version: string;
+  /** Mode for rules that don't set one (default "mask") */
+  defaultMode?: RedactionMode;
+  keys: RedactionKeyRule[];
+  patterns: RedactionPatternRule[];
+  /** Environment variable holding the HMAC key (default AUDITCTL_REDACTION_KEY) */
+  hmacKeyEnv?: string;
+}
+
+/**
+ * Built-in value patterns
+ */
+export const BUILTIN_PATTERNS: Record<string, string> = {
+  ssn: '\\b\\d{3}-\\d{2}-\\d{4}\\b',
+  account: '\\b\\d{10,17}\\b',
+  email: '\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}\\b',
+  phone: '(?:\\+?1[-.\\s]?)?(?:\\(\\d{3}\\)\\s?|\\b\\d{3}[-.\\s])\\d{3}[-.\\s]\\d{4}\\b',
+  dob: '\\b(?:dob|date of birth|birth ?date)\\s*[:=]?\\s*\\d{1,4}[-/]\\d{1,2}[-/]\\d{1,4}\\b',
+};
+
+/**
+ * Policy used when none is configured
+ */
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  version: 'builtin-1',
+  defaultMode: 'mask',
+  keys: [
+    {
+      pattern:
+        'ssn|social_?security|password|secret|token|api_?key|account_?number|routing_?number|date_?of_?birth|^dob$',
+    },
+  ],
+  patterns: ['ssn', 'email', 'phone', 'dob'].map((name) => ({ name })),
+};
+
+const MODES: RedactionMode[] = ['mask', 'drop', 'hmac', 'last4'];
+const REDACTED = '[REDACTED]';
+
+/**
+ * Load and validate a redaction policy file
+ */
+export function loadRedactionPolicy(policyPath = DEFAULT_REDACTION_FILE): RedactionPolicy {
+  if (!fs.existsSync(policyPath)) {
+    throw new Error(`Redaction policy not found: ${policyPath}`);
+  }
+  const policy = JSON.parse(fs.readFileSync(policyPath, 'utf-8')) as RedactionPolicy;
+  if (!policy || !policy.version || !Array.isArray(policy.keys) || !Array.isArray(policy.patterns)) {
+    throw new Error(`Invalid redaction policy: ${policyPath} (needs version, keys and patterns)`);
+  }
+  return policy;
+}
+
+/**
+ * Create a redactor from a policy file, falling back to ./redaction.json, then the built-in policy
+ */
+export function createRedactor(policyPath?: string): Redactor {
+  if (policyPath) {
+    return new Redactor(loadRedactionPolicy(policyPath));
+  }
+  return fs.existsSync(DEFAULT_REDACTION_FILE)
+    ? new Redactor(loadRedactionPolicy(DEFAULT_REDACTION_FILE))
+    : new Redactor();
+}
+
+function keepLast4(value: string): string {
+  const keep = Math.max(0, value.length - 4);
+  return value.slice(0, keep).replace(/[A-Za-z0-9]/g, '*') + value.slice(keep);
+}
+
+/**
+ * Redactor - applies a redaction policy to entry fields
+ */
+export class Redactor {
+  readonly version: string;
+  private keyRules: Array<{ regex: RegExp; mode: RedactionMode }>;
+  private patternRules: Array<{ name: string; regex: RegExp; mode: RedactionMode }>;
+  private hmacKey?: string;
+
+  constructor(policy: RedactionPolicy = DEFAULT_REDACTION_POLICY, options?: { hmacKey?: string }) {
+    const defaultMode = policy.defaultMode || 'mask';
+    const checkMode = (mode: RedactionMode, rule: string): RedactionMode => {
+      if (!MODES.includes(mode)) {
+        throw new Error(`Invalid redaction mode "${mode}" for ${rule} (expected ${MODES.join(', ')})`);
+      }
+      return mode;
+    };
+
+    this.version = policy.version;
+    this.keyRules = policy.keys.map((rule) => ({
+      regex: new RegExp(rule.pattern, 'i'),
+      mode: checkMode(rule.mode || defaultMode, `key rule "${rule.pattern}"`),
+    }));
+    this.patternRules = policy.patterns.map((rule) => {
+      const source = rule.regex || BUILTIN_PATTERNS[rule.name];
+      if (!source) {
+        throw new Error(`Redaction pattern "${rule.name}" needs a regex`);
+      }
+      return {
+        name: rule.name,
+        regex: new RegExp(source, 'gi'),
+        mode: checkMode(rule.mode || defaultMode, `pattern "${rule.name}"`),
+      };
+    });
+
+    this.hmacKey = options?.hmacKey ?? process.env[policy.hmacKeyEnv || DEFAULT_REDACTION_KEY_ENV];
+    const usesHmac = [...this.keyRules, ...this.patternRules].some((r) => r.mode === 'hmac');
+    if (usesHmac && !this.hmacKey) {
+      throw new Error(
+        `Redaction policy ${policy.version} uses hmac tokens but no key is set (${policy.hmacKeyEnv || DEFAULT_REDACTION_KEY_ENV})`
+      );
+    }
+  }
+
+  /**
+   * Redact an object, recursing into nested objects and arrays
+   */
+  redactRecord(record: Record<string, unknown>): Record<string, unknown> {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      const rule = this.keyRules.find((r) => r.regex.test(key));
+      if (!rule) {
+        redacted[key] = this.redactValue(value);
+      } else if (rule.mode !== 'drop') {
+        redacted[key] = this.apply(rule.mode, value);
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * Redact any value - strings are scanned for PII patterns
+   */
+  redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return this.redactRecord(value as Record<string, unknown>);
+    }
+    return value;
+  }
+
+  /**
+   * Redact PII patterns in free text
+   */
+  redactText(text: string): string {
+    return this.patternRules.reduce(
+      (result, rule) =>
+        result.replace(rule.regex, (match) =>
+          rule.mode === 'drop' ? '' : (this.apply(rule.mode, match) as string)
+        ),
+      text
+    );
+  }
+
+  /**
+   * Keyed HMAC token for a value
+   */
+  token(value: string): string {
+    return `tok_${crypto.createHmac('sha256', this.hmacKey || '').update(value).digest('hex').substring(0, 16)}`;
+  }
+
+  private apply(mode: RedactionMode, value: unknown): unknown {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    switch (mode) {
+      case 'hmac':
+        return this.token(text);
+      case 'last4':
+        return typeof value === 'string' || typeof value === 'number' ? keepLast4(text) : REDACTED;
+      default:
+        return REDACTED;
+    }
+  }
+}
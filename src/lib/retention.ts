@@ -0,0 +1,297 @@
+/**
+ * Retention policies - archive and purge sealed segments once every entry has expired
+ * Purged segments are compressed into an archive and recorded on a purge entry so the chain stays verifiable
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AuditEntry } from '../types';
+import { VERSION } from '../version';
+import { AuditLogger } from './logger';
+import {
+  PURGE_COMMAND,
+  PurgeOutputs,
+  PurgedSegment,
+  SEAL_TOOL,
+  SealOutputs,
+  SegmentInfo,
+  SegmentedFileStorage,
+  collectPurgedSegments,
+  isSealEntry,
+} from './storage/segmented';
+
+/**
+ * Default retention policy file
+ */
+export const DEFAULT_RETENTION_FILE = './retention.json';
+
+/**
+ * Retention period for entries matching a regulation or tool
+ */
+export interface RetentionRule {
+  /** Matches entries listing this regulation, e.g. "ECOA" */
+  regulation?: string;
+  /** Matches entries from this tool, e.g. "finctl" */
+  tool?: string;
+  /** Retention period, e.g. "25 months", "3 years", "90 days" */
+  retain: string;
+}
+
+/**
+ * A loan whose entries must not be purged
+ */
+export interface LegalHold {
+  loanId: string;
+  reason?: string;
+  placedAt?: string;
+}
+
+/**
+ * Retention policy file contents
+ */
+export interface RetentionPolicy {
+  /** Policy version recorded on purge entries */
+  version?: string;
+  /** Retention for entries no rule matches; omit to keep them indefinitely */
+  defaultRetain?: string;
+  rules: RetentionRule[];
+  legalHolds?: LegalHold[];
+}
+
+/**
+ * Retention status of one segment
+ */
+export interface SegmentRetention {
+  segment: SegmentInfo;
+  /** Entries in the segment, excluding the seal */
+  entryCount: number;
+  /** When the last entry in the segment expires; null if some entry is kept indefinitely */
+  expiresAt: string | null;
+  /** Loans under legal hold with entries in the segment */
+  heldLoanIds: string[];
+  /** Whether the segment will be purged */
+  purge: boolean;
+  /** Why the segment is kept */
+  reason?: string;
+}
+
+/**
+ * Result of applying a retention policy
+ */
+export interface RetentionResult {
+  segments: SegmentRetention[];
+  /** The purge entry written, or null if nothing was purged (or on a dry run) */
+  purgeEntry: AuditEntry | null;
+}
+
+const RETAIN_PATTERN = /^(\d+)\s*(day|month|year)s?$/i;
+
+/**
+ * Validate a retention period string
+ */
+export function parseRetain(retain: string): { amount: number; unit: 'day' | 'month' | 'year' } {
+  const match = RETAIN_PATTERN.exec(retain.trim());
+  if (!match) {
+    throw new Error(`Invalid retention period "${retain}" (expected e.g. "25 months", "3 years")`);
+  }
+  return { amount: parseInt(match[1]), unit: match[2].toLowerCase() as 'day' | 'month' | 'year' };
+}
+
+/**
+ * Add a retention period to a date
+ */
+export function addRetention(date: Date, retain: string): Date {
+  const { amount, unit } = parseRetain(retain);
+  const result = new Date(date.getTime());
+  switch (unit) {
+    case 'day':
+      result.setUTCDate(result.getUTCDate() + amount);
+      break;
+    case 'month':
+      result.setUTCMonth(result.getUTCMonth() + amount);
+      break;
+    case 'year':
+      result.setUTCFullYear(result.getUTCFullYear() + amount);
+      break;
+  }
+  return result;
+}
+
+/**
+ * Load and validate a retention policy file
+ */
+export function loadRetentionPolicy(policyPath = DEFAULT_RETENTION_FILE): RetentionPolicy {
+  if (!fs.existsSync(policyPath)) {
+    throw new Error(`Retention policy not found: ${policyPath}`);
+  }
+  const policy = JSON.parse(fs.readFileSync(policyPath, 'utf-8')) as RetentionPolicy;
+  if (!policy || !Array.isArray(policy.rules)) {
+    throw new Error(`Invalid retention policy: ${policyPath}`);
+  }
+
+  policy.rules.forEach((rule, i) => {
+    if (!rule.regulation && !rule.tool) {
+      throw new Error(`Retention rule ${i + 1} needs a regulation or tool`);
+    }
+    parseRetain(rule.retain);
+  });
+  if (policy.defaultRetain) {
+    parseRetain(policy.defaultRetain);
+  }
+  return policy;
+}
+
+/**
+ * When an entry expires under a policy - the longest matching retention wins
+ * Returns null if the entry must be kept indefinitely
+ */
+export function entryExpiry(entry: AuditEntry, policy: RetentionPolicy): Date | null {
+  const timestamp = new Date(entry.timestamp);
+  const matching = policy.rules.filter(
+    (rule) =>
+      (rule.regulation !== undefined && entry.compliance.regulations.includes(rule.regulation)) ||
+      (rule.tool !== undefined && rule.tool === entry.tool)
+  );
+
+  if (matching.length === 0) {
+    return policy.defaultRetain ? addRetention(timestamp, policy.defaultRetain) : null;
+  }
+  return new Date(Math.max(...matching.map((rule) => addRetention(timestamp, rule.retain).getTime())));
+}
+
+/**
+ * Work out which sealed segments have fully expired
+ */
+export async function planRetention(
+  storage: SegmentedFileStorage,
+  policy: RetentionPolicy,
+  asOf = new Date()
+): Promise<SegmentRetention[]> {
+  const held = new Set((policy.legalHolds || []).map((h) => h.loanId));
+  const segments = storage.listSegments();
+  const plan: SegmentRetention[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const entries = await storage.segmentEntries(segment);
+    const last = entries[entries.length - 1];
+    const sealed = last && isSealEntry(last);
+    const records = sealed ? entries.slice(0, -1) : entries;
+
+    // auditctl's own records (seals, checkpoints, purges) don't hold a segment back
+    const expiries = records
+      .filter((e) => e.tool !== SEAL_TOOL)
+      .map((e) => entryExpiry(e, policy));
+    const expiresAt = expiries.includes(null)
+      ? null
+      : new Date(Math.max(0, ...expiries.map((d) => d!.getTime())));
+    const heldLoanIds = [
+      ...new Set(records.map((e) => e.loanId).filter((id): id is string => !!id && held.has(id))),
+    ];
+
+    let reason: string | undefined;
+    if (!sealed) {
+      reason = 'Active segment';
+    } else if (expiresAt === null) {
+      reason = 'Contains entries kept indefinitely';
+    } else if (expiresAt.getTime() > asOf.getTime()) {
+      reason = `Retained until ${expiresAt.toISOString()}`;
+    } else if (heldLoanIds.length > 0) {
+      reason = `Legal hold: ${heldLoanIds.join(', ')}`;
+    }
+
+    plan.push({
+      segment,
+      entryCount: records.length,
+      expiresAt: expiresAt ? expiresAt.toISOString() : null,
+      heldLoanIds,
+      purge: reason === undefined,
+      reason,
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Compress a segment into the archive directory, returning its purge record
+ */
+function archiveSegment(segment: SegmentInfo, entries: AuditEntry[], archiveDir: string, directory: string): PurgedSegment {
+  const seal = entries[entries.length - 1];
+  const records = entries.slice(0, -1);
+  const compressed = zlib.gzipSync(fs.readFileSync(segment.filePath));
+  const archivePath = path.join(archiveDir, `${segment.fileName}.gz`);
+
+  fs.mkdirSync(archiveDir, { recursive: true });
+  fs.writeFileSync(archivePath, compressed);
+
+  return {
+    segment: segment.fileName,
+    segmentNumber: (seal.outputs as unknown as SealOutputs).segmentNumber,
+    entryCount: records.length,
+    firstAuditId: entries[0].auditId,
+    lastAuditId: (records[records.length - 1] || seal).auditId,
+    firstTimestamp: entries[0].timestamp,
+    lastTimestamp: (records[records.length - 1] || seal).timestamp,
+    previousHash: entries[0].previousHash,
+    finalHash: (seal.outputs as unknown as SealOutputs).finalHash,
+    sealHash: seal.entryHash || '',
+    archive: path.relative(directory, archivePath),
+    archiveSha256: crypto.createHash('sha256').update(compressed).digest('hex'),
+  };
+}
+
+/**
+ * Archive and purge expired segments, logging a purge entry that keeps the chain verifiable
+ * Archives are written first and segments removed only after the purge entry is logged
+ * The archive directory defaults to "archive" inside the segment directory
+ */
+export async function applyRetention(
+  logger: AuditLogger,
+  storage: SegmentedFileStorage,
+  policy: RetentionPolicy,
+  options: { archiveDir?: string; asOf?: Date; operator?: string; dryRun?: boolean }
+): Promise<RetentionResult> {
+  const plan = await planRetention(storage, policy, options.asOf);
+  const toPurge = plan.filter((s) => s.purge);
+
+  if (options.dryRun || toPurge.length === 0) {
+    return { segments: plan, purgeEntry: null };
+  }
+
+  const directory = path.dirname(toPurge[0].segment.filePath);
+  const archiveDir = options.archiveDir || path.join(directory, 'archive');
+  const previouslyPurged = [...collectPurgedSegments(await storage.query({})).values()];
+  const purged: PurgedSegment[] = [];
+  for (const { segment } of toPurge) {
+    purged.push(
+      archiveSegment(segment, await storage.segmentEntries(segment), archiveDir, directory)
+    );
+  }
+
+  const heldLoanIds = [...new Set(plan.flatMap((s) => (s.reason?.startsWith('Legal hold') ? s.heldLoanIds : [])))];
+  const outputs: PurgeOutputs = {
+    segments: purged,
+    previouslyPurged,
+    heldLoanIds,
+    policyVersion: policy.version,
+  };
+  const entryCount = purged.reduce((sum, p) => sum + p.entryCount, 0);
+
+  const purgeEntry = await logger.log({
+    tool: SEAL_TOOL,
+    command: PURGE_COMMAND,
+    toolVersion: VERSION,
+    inputs: { asOf: (options.asOf || new Date()).toISOString(), policyVersion: policy.version },
+    outputs: outputs as unknown as Record<string, unknown>,
+    rationale: `Purged ${purged.length} expired segment(s) with ${entryCount} entries under the retention policy`,
+    warnings: heldLoanIds.length > 0 ? [`Segments kept under legal hold for loans: ${heldLoanIds.join(', ')}`] : [],
+    operator: options.operator,
+  });
+
+  toPurge.forEach(({ segment }) => storage.removeSegment(segment));
+
+  return { segments: plan, purgeEntry };
+}
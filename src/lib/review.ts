@@ -0,0 +1,219 @@
+/**
+ * Human review workflow - review sign-off entries, the pending review queue and SLA reporting
+ * A review is an auditctl review entry whose parentAuditId is the reviewed entry
+ */
+
+import { AuditEntry } from '../types';
+import { VERSION } from '../version';
+import { AuditLogger } from './logger';
+
+export const REVIEW_COMMAND = 'review';
+
+/**
+ * Hours within which a required review should be completed
+ */
+export const DEFAULT_REVIEW_SLA_HOURS = 48;
+
+export type ReviewOutcome = 'approved' | 'rejected';
+
+export type ReviewStatus = 'pending' | 'completed';
+
+/**
+ * An entry awaiting review
+ */
+export interface PendingReview {
+  entry: AuditEntry;
+  ageHours: number;
+  overdue: boolean;
+}
+
+/**
+ * A completed review
+ */
+export interface CompletedReview {
+  auditId: string;
+  reviewAuditId: string;
+  outcome: ReviewOutcome;
+  reviewer: string;
+  /** Hours from the reviewed entry to its review */
+  hoursToReview: number;
+  late: boolean;
+}
+
+/**
+ * Review SLA report
+ */
+export interface ReviewSlaReport {
+  generatedAt: string;
+  slaHours: number;
+  required: number;
+  completed: number;
+  pending: number;
+  /** Pending reviews older than the SLA */
+  overdue: number;
+  /** Reviews completed after the SLA */
+  completedLate: number;
+  medianHoursToReview: number | null;
+  overdueReviews: PendingReview[];
+  lateReviews: CompletedReview[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const hoursBetween = (from: string, to: Date) => (to.getTime() - new Date(from).getTime()) / 3600000;
+
+/**
+ * Whether an entry is a review sign-off
+ */
+export function isReviewEntry(entry: AuditEntry): boolean {
+  return entry.tool === 'auditctl' && entry.command === REVIEW_COMMAND && !!entry.parentAuditId;
+}
+
+/**
+ * Review entries keyed by the audit ID they review (the first review wins)
+ */
+export function findReviews(entries: AuditEntry[]): Map<string, AuditEntry> {
+  const reviews = new Map<string, AuditEntry>();
+  entries.filter(isReviewEntry).forEach((e) => {
+    if (!reviews.has(e.parentAuditId!)) {
+      reviews.set(e.parentAuditId!, e);
+    }
+  });
+  return reviews;
+}
+
+/**
+ * Review status of an entry, or null if it does not require review
+ */
+export function reviewStatus(entry: AuditEntry, reviews: Map<string, AuditEntry>): ReviewStatus | null {
+  if (!entry.compliance.humanReviewRequired) {
+    return null;
+  }
+  return reviews.has(entry.auditId) ? 'completed' : 'pending';
+}
+
+/**
+ * Keep only entries with the given review status
+ * `all` must include the review entries, so pass the whole log rather than a filtered page
+ */
+export function filterByReviewStatus(
+  entries: AuditEntry[],
+  all: AuditEntry[],
+  status: ReviewStatus
+): AuditEntry[] {
+  const reviews = findReviews(all);
+  return entries.filter((e) => reviewStatus(e, reviews) === status);
+}
+
+/**
+ * Entries that require review and have none, oldest first
+ */
+export function buildReviewQueue(
+  entries: AuditEntry[],
+  options: { now?: Date; slaHours?: number } = {}
+): PendingReview[] {
+  const now = options.now || new Date();
+  const slaHours = options.slaHours ?? DEFAULT_REVIEW_SLA_HOURS;
+  const reviews = findReviews(entries);
+  return entries
+    .filter((e) => reviewStatus(e, reviews) === 'pending')
+    .map((entry) => {
+      const ageHours = hoursBetween(entry.timestamp, now);
+      return { entry, ageHours: round(ageHours), overdue: ageHours > slaHours };
+    })
+    .sort((a, b) => b.ageHours - a.ageHours);
+}
+
+/**
+ * Report review turnaround against the SLA
+ */
+export function buildReviewSlaReport(
+  entries: AuditEntry[],
+  options: { now?: Date; slaHours?: number } = {}
+): ReviewSlaReport {
+  const now = options.now || new Date();
+  const slaHours = options.slaHours ?? DEFAULT_REVIEW_SLA_HOURS;
+  const reviews = findReviews(entries);
+  const required = entries.filter((e) => e.compliance.humanReviewRequired);
+
+  const completed: CompletedReview[] = required
+    .filter((e) => reviews.has(e.auditId))
+    .map((e) => {
+      const review = reviews.get(e.auditId)!;
+      const hoursToReview = hoursBetween(e.timestamp, new Date(review.timestamp));
+      return {
+        auditId: e.auditId,
+        reviewAuditId: review.auditId,
+        outcome: review.outputs.outcome as ReviewOutcome,
+        reviewer: review.operator,
+        hoursToReview: round(hoursToReview),
+        late: hoursToReview > slaHours,
+      };
+    });
+  const pending = buildReviewQueue(entries, { now, slaHours });
+
+  const turnaround = completed.map((c) => c.hoursToReview).sort((a, b) => a - b);
+  const mid = Math.floor(turnaround.length / 2);
+  const median =
+    turnaround.length === 0
+      ? null
+      : turnaround.length % 2
+        ? turnaround[mid]
+        : round((turnaround[mid - 1] + turnaround[mid]) / 2);
+
+  return {
+    generatedAt: now.toISOString(),
+    slaHours,
+    required: required.length,
+    completed: completed.length,
+    pending: pending.length,
+    overdue: pending.filter((p) => p.overdue).length,
+    completedLate: completed.filter((c) => c.late).length,
+    medianHoursToReview: median,
+    overdueReviews: pending.filter((p) => p.overdue),
+    lateReviews: completed.filter((c) => c.late),
+  };
+}
+
+/**
+ * Record a review sign-off as an entry linked to the reviewed entry
+ * Earlier reviews are looked up under the storage lock, so concurrent reviewers cannot both sign off
+ * Throws if the entry does not require review or has already been reviewed
+ */
+export async function logReview(
+  logger: AuditLogger,
+  entry: AuditEntry,
+  options: { outcome: ReviewOutcome; reviewer: string; notes?: string }
+): Promise<AuditEntry> {
+  if (!entry.compliance.humanReviewRequired) {
+    throw new Error(`Entry ${entry.auditId} does not require human review`);
+  }
+
+  return logger.logDerived(async () => {
+    const existing = await logger.query({ tool: 'auditctl', command: REVIEW_COMMAND });
+    const previous = findReviews(existing).get(entry.auditId);
+    if (previous) {
+      throw new Error(
+        `Entry ${entry.auditId} was already ${previous.outputs.outcome} by ${previous.operator} (${previous.auditId})`
+      );
+    }
+
+    return {
+      tool: 'auditctl',
+      command: REVIEW_COMMAND,
+      toolVersion: VERSION,
+      inputs: { reviewedAuditId: entry.auditId, reviewedTool: entry.tool, reviewedCommand: entry.command },
+      outputs: { outcome: options.outcome, ...(options.notes ? { notes: options.notes } : {}) },
+      rationale: `Human review ${options.outcome} by ${options.reviewer}${options.notes ? `: ${options.notes}` : ''}`,
+      compliance: {
+        regulations: entry.compliance.regulations,
+        riskFlags: [],
+        humanReviewRequired: false,
+        checksPerformed: ['human-review'],
+      },
+      operator: options.reviewer,
+      loanId: entry.loanId,
+      parentAuditId: entry.auditId,
+    };
+  });
+}
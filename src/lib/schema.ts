@@ -0,0 +1,205 @@
+/**
+ * JSON Schemas for the public option types
+ * Each schema is typed against its interface, so adding or removing a field without updating
+ * the schema fails to compile
+ */
+
+import { AuditEntryOptions, AuditQueryOptions, ComplianceInfo } from '../types';
+
+/**
+ * The subset of JSON Schema used by auditctl
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  minimum?: number;
+}
+
+/**
+ * Keys of T that are not optional
+ */
+type RequiredKeys<T> = { [K in keyof T]-?: {} extends Pick<T, K> ? never : K }[keyof T];
+
+/**
+ * Build an object schema that must list every property of T and mark exactly its required ones
+ */
+function objectSchema<T>(
+  description: string,
+  properties: { [K in keyof Required<T>]: JsonSchema },
+  required: { [K in RequiredKeys<T>]: true }
+): JsonSchema {
+  return {
+    type: 'object',
+    description,
+    properties,
+    required: Object.keys(required),
+    additionalProperties: false,
+  };
+}
+
+const stringArray = (description: string): JsonSchema => ({
+  type: 'array',
+  items: { type: 'string' },
+  description,
+});
+
+const dateTime = (description: string): JsonSchema => ({
+  type: 'string',
+  format: 'date-time',
+  description,
+});
+
+/**
+ * Schema for compliance info on entry options (every field optional)
+ */
+export const complianceSchema: JsonSchema = objectSchema<Partial<ComplianceInfo>>(
+  'Compliance-related metadata',
+  {
+    regulations: stringArray('Applicable regulations (e.g., "ECOA", "TRID", "HMDA")'),
+    riskFlags: stringArray('Risk flags identified during the operation'),
+    humanReviewRequired: { type: 'boolean', description: 'Whether human review is required' },
+    checksPerformed: stringArray('Specific compliance checks performed'),
+    exemptions: stringArray('Any exemptions applied'),
+  },
+  {}
+);
+
+/**
+ * Schema for AuditEntryOptions
+ */
+export const auditEntryOptionsSchema: JsonSchema = objectSchema<AuditEntryOptions>(
+  'Options for creating an audit entry',
+  {
+    tool: { type: 'string', description: 'The tool that generated this entry (e.g., "finctl", "mortctl")' },
+    command: { type: 'string', description: 'The specific command or operation performed' },
+    toolVersion: { type: 'string', description: 'Version of the tool' },
+    inputs: { type: 'object', description: 'Input parameters (PII is redacted before logging)' },
+    outputs: { type: 'object', description: 'Output results' },
+    rationale: { type: 'string', description: 'Human-readable explanation of the decision/calculation' },
+    warnings: stringArray('Any warnings generated'),
+    compliance: complianceSchema,
+    operator: { type: 'string', description: 'Who or what initiated the operation' },
+    sessionId: { type: 'string', description: 'Session or batch identifier for grouping related entries' },
+    parentAuditId: { type: 'string', description: 'Parent audit ID for chained operations' },
+    loanId: { type: 'string', description: 'Loan or application identifier' },
+    durationMs: { type: 'number', minimum: 0, description: 'Duration of the operation in milliseconds' },
+  },
+  { tool: true, command: true, toolVersion: true, inputs: true, outputs: true, rationale: true }
+);
+
+/**
+ * Schema for AuditQueryOptions
+ */
+export const auditQueryOptionsSchema: JsonSchema = objectSchema<AuditQueryOptions>(
+  'Query options for searching audit entries',
+  {
+    loanId: { type: 'string', description: 'Filter by loan ID' },
+    tool: { type: 'string', description: 'Filter by tool name' },
+    command: { type: 'string', description: 'Filter by command' },
+    operator: { type: 'string', description: 'Filter by operator' },
+    sessionId: { type: 'string', description: 'Filter by session ID' },
+    startDate: dateTime('Start of date range (ISO-8601)'),
+    endDate: dateTime('End of date range (ISO-8601)'),
+    hasRiskFlags: { type: 'boolean', description: 'Filter entries with risk flags' },
+    humanReviewRequired: { type: 'boolean', description: 'Filter entries requiring human review' },
+    where: {
+      type: 'string',
+      description: 'Filter expression, e.g. "outputs.decision = declined AND inputs.dti > 0.43 AND regulations contains TRID"',
+    },
+    limit: { type: 'integer', minimum: 1, description: 'Maximum number of entries to return' },
+    offset: { type: 'integer', minimum: 0, description: 'Offset for pagination' },
+  },
+  {}
+);
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validate a value against a schema, returning one message per problem (empty if valid)
+ * Paths are dotted from the root, e.g. "compliance.riskFlags[0] must be a string"
+ * Values for which skip returns true are accepted as-is (e.g. encrypted fields)
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = '',
+  skip?: (value: unknown) => boolean
+): string[] {
+  const at = (message: string) => (path ? `${path} ${message}` : message);
+  if (skip?.(value)) {
+    return [];
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const article = /^[aeiou]/.test(schema.type) ? 'an' : 'a';
+    return [at(`must be ${article} ${schema.type} (got ${describeType(value)})`)];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [at(`must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`)];
+  }
+
+  const problems: string[] = [];
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    problems.push(at(`must be at least ${schema.minimum}`));
+  }
+  if (typeof value === 'string' && schema.format === 'date-time' && isNaN(Date.parse(value))) {
+    problems.push(at('must be an ISO-8601 date-time'));
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => problems.push(...validateSchema(item, schema.items!, `${path}[${i}]`, skip)));
+  }
+
+  if (matchesType(value, 'object') && (schema.properties || schema.required)) {
+    const record = value as Record<string, unknown>;
+    const child = (key: string) => (path ? `${path}.${key}` : key);
+
+    const missing = (schema.required || []).filter((key) => record[key] === undefined);
+    if (missing.length > 0) {
+      problems.push(at(`missing required fields: ${missing.join(', ')}`));
+    }
+    Object.entries(record).forEach(([key, v]) => {
+      // Own properties only, so keys such as constructor are not mistaken for declared fields
+      const property =
+        schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)
+          ? schema.properties[key]
+          : undefined;
+      if (property) {
+        // Optional fields may be left undefined
+        if (v !== undefined) {
+          problems.push(...validateSchema(v, property, child(key), skip));
+        }
+      } else if (schema.additionalProperties === false) {
+        problems.push(`unknown field: ${child(key)}`);
+      }
+    });
+  }
+
+  return problems;
+}
@@ -0,0 +1,268 @@
+/**
+ * Aggregate statistics over audit entries
+ * Counts, durationMs percentiles, decline rates and warning rates, grouped by any field or time bucket
+ */
+
+import { AuditEntry } from '../types';
+import { parseFieldPath, valueAtPath } from './filter';
+
+/**
+ * Time buckets entries can be grouped by (UTC)
+ */
+export const STATS_TIME_BUCKETS = ['day', 'week', 'month'] as const;
+
+/**
+ * Shorthand group names for common fields
+ */
+const GROUP_ALIASES: Record<string, string> = {
+  decision: 'outputs.decision',
+  riskFlag: 'compliance.riskFlags',
+  regulation: 'compliance.regulations',
+};
+
+/**
+ * Group value for entries without one
+ */
+export const NO_VALUE = '(none)';
+
+/**
+ * Default durationMs percentiles
+ */
+export const DEFAULT_PERCENTILES = [50, 90, 95, 99];
+
+/**
+ * durationMs distribution over the entries that recorded one
+ */
+export interface DurationStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  /** e.g. { p50: 42, p95: 180 } */
+  percentiles: Record<string, number>;
+}
+
+/**
+ * Statistics for one group
+ */
+export interface StatsGroup {
+  /** Group value per group-by field, e.g. { tool: 'decctl', month: '2026-01' } */
+  key: Record<string, string>;
+  count: number;
+  duration: DurationStats | null;
+  /** Entries with outputs.decision */
+  decisions: number;
+  declined: number;
+  /** declined / decisions; null without decisions */
+  declineRate: number | null;
+  /** Entries with at least one warning */
+  withWarnings: number;
+  warningRate: number;
+}
+
+/**
+ * Statistics over a set of entries
+ */
+export interface AuditStats {
+  generatedAt: string;
+  groupBy: string[];
+  /** All entries together */
+  total: StatsGroup;
+  groups: StatsGroup[];
+}
+
+/**
+ * Statistics options
+ */
+export interface StatsOptions {
+  /** Fields or time buckets to group by, e.g. ['tool', 'month'] or ['decision', 'inputs.state'] */
+  groupBy?: string[];
+  /** durationMs percentiles to report (default 50, 90, 95, 99) */
+  percentiles?: number[];
+}
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, '0');
+}
+
+/**
+ * ISO 8601 week of a date, e.g. 2026-W03
+ */
+function isoWeek(date: Date): string {
+  // The week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = 1 + Math.floor((thursday.getTime() - yearStart) / 86400000 / 7);
+  return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+}
+
+/**
+ * Build a function returning an entry's values for a group-by field; arrays give one value per element
+ */
+function groupValues(field: string): (entry: AuditEntry) => string[] {
+  if ((STATS_TIME_BUCKETS as readonly string[]).includes(field)) {
+    return (entry) => {
+      const date = new Date(entry.timestamp);
+      if (isNaN(date.getTime())) {
+        return [NO_VALUE];
+      }
+      const month = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+      return [field === 'month' ? month : field === 'day' ? `${month}-${pad(date.getUTCDate())}` : isoWeek(date)];
+    };
+  }
+  const path = parseFieldPath(GROUP_ALIASES[field] || field);
+  return (entry) => {
+    const value = valueAtPath(entry, path);
+    const values = (Array.isArray(value) ? value : [value]).filter((v) => v !== undefined && v !== null && v !== '');
+    if (values.length === 0) {
+      return [NO_VALUE];
+    }
+    return [...new Set(values.map((v) => (typeof v === 'object' ? JSON.stringify(v) : String(v))))];
+  };
+}
+
+/**
+ * Percentile of sorted values by linear interpolation between closest ranks
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    throw new Error('Cannot take a percentile of no values');
+  }
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function round(value: number, places = 4): number {
+  return Math.round(value * 10 ** places) / 10 ** places;
+}
+
+function summarize(key: Record<string, string>, entries: AuditEntry[], percentiles: number[]): StatsGroup {
+  const durations = entries
+    .map((e) => e.durationMs)
+    .filter((d): d is number => typeof d === 'number' && Number.isFinite(d))
+    .sort((a, b) => a - b);
+  const decisions = entries.filter((e) => e.outputs?.decision !== undefined);
+  const declined = decisions.filter((e) => e.outputs.decision === 'declined').length;
+  const withWarnings = entries.filter((e) => (e.warnings || []).length > 0).length;
+
+  return {
+    key,
+    count: entries.length,
+    duration:
+      durations.length === 0
+        ? null
+        : {
+            count: durations.length,
+            min: durations[0],
+            max: durations[durations.length - 1],
+            mean: round(durations.reduce((sum, d) => sum + d, 0) / durations.length, 2),
+            percentiles: Object.fromEntries(percentiles.map((p) => [`p${p}`, round(percentile(durations, p), 2)])),
+          },
+    decisions: decisions.length,
+    declined,
+    declineRate: decisions.length > 0 ? round(declined / decisions.length) : null,
+    withWarnings,
+    warningRate: entries.length > 0 ? round(withWarnings / entries.length) : 0,
+  };
+}
+
+/**
+ * Compute statistics, grouped by the given fields
+ * An entry with several values for a field (e.g. risk flags) counts in each of their groups
+ * Groups are ordered by time bucket when the first field is one, otherwise by count
+ */
+export function computeStats(entries: AuditEntry[], options: StatsOptions = {}): AuditStats {
+  const groupBy = options.groupBy || [];
+  const percentiles = options.percentiles || DEFAULT_PERCENTILES;
+  percentiles.forEach((p) => {
+    if (!(p >= 0 && p <= 100)) {
+      throw new Error(`Invalid percentile: ${p} (expected 0-100)`);
+    }
+  });
+  const extractors = groupBy.map(groupValues);
+
+  const groups = new Map<string, { key: Record<string, string>; entries: AuditEntry[] }>();
+  entries.forEach((entry) => {
+    // Every combination of the entry's values across the group-by fields
+    let keys: string[][] = [[]];
+    extractors.forEach((values) => {
+      const fieldValues = values(entry);
+      keys = keys.flatMap((k) => fieldValues.map((v) => [...k, v]));
+    });
+    keys.forEach((values) => {
+      const id = JSON.stringify(values);
+      if (!groups.has(id)) {
+        groups.set(id, { key: Object.fromEntries(groupBy.map((field, i) => [field, values[i]])), entries: [] });
+      }
+      groups.get(id)!.entries.push(entry);
+    });
+  });
+
+  const byTime = groupBy.length > 0 && (STATS_TIME_BUCKETS as readonly string[]).includes(groupBy[0]);
+  const label = (g: StatsGroup) => groupBy.map((field) => g.key[field]).join('\u0000');
+  const summaries = groupBy.length === 0
+    ? []
+    : [...groups.values()]
+        .map((g) => summarize(g.key, g.entries, percentiles))
+        .sort((a, b) => (byTime ? 0 : b.count - a.count) || (label(a) < label(b) ? -1 : label(a) > label(b) ? 1 : 0));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    groupBy,
+    total: summarize({}, entries, percentiles),
+    groups: summaries,
+  };
+}
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format statistics as CSV, one row per group, then a total row
+ */
+export function formatStatsCsv(stats: AuditStats): string {
+  const percentileKeys = Object.keys(stats.total.duration?.percentiles || {});
+  const headers = [
+    ...stats.groupBy,
+    'count',
+    'decisions',
+    'declined',
+    'decline_rate',
+    'with_warnings',
+    'warning_rate',
+    'duration_count',
+    'duration_min',
+    'duration_mean',
+    ...percentileKeys.map((p) => `duration_${p}`),
+    'duration_max',
+  ];
+  const row = (group: StatsGroup, labels: string[]) =>
+    [
+      ...labels,
+      group.count,
+      group.decisions,
+      group.declined,
+      group.declineRate,
+      group.withWarnings,
+      group.warningRate,
+      group.duration?.count ?? 0,
+      group.duration?.min ?? null,
+      group.duration?.mean ?? null,
+      ...percentileKeys.map((p) => group.duration?.percentiles[p] ?? null),
+      group.duration?.max ?? null,
+    ]
+      .map(csvField)
+      .join(',');
+
+  const lines = [
+    headers.map(csvField).join(','),
+    ...stats.groups.map((g) => row(g, stats.groupBy.map((field) => g.key[field]))),
+    row(stats.total, stats.groupBy.length > 0 ? ['(total)', ...stats.groupBy.slice(1).map(() => '')] : []),
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,366 @@
+/**
+ * Sidecar index for FileStorage
+ * Maps auditId, loanId, sessionId and tool to byte offsets in the JSONL log
+ */
+
+import * as fs from 'fs';
+import { AuditEntry, AuditQueryOptions } from '../../types';
+import { readLinesForward, readLinesBackward, readLineAt } from './lines';
+
+const WRITE_BATCH = 10000;
+
+/**
+ * A single index record - one per entry in the log
+ */
+export interface IndexRecord {
+  auditId: string;
+  /** Byte offset of the entry's line in the log */
+  offset: number;
+  /** Byte length of the entry's line including the newline */
+  length: number;
+  timestamp: string;
+  tool: string;
+  loanId?: string;
+  sessionId?: string;
+}
+
+/**
+ * File index options
+ */
+export interface FileIndexOptions {
+  /** Path to the audit log file */
+  logPath: string;
+  /** Path to the sidecar index file */
+  indexPath: string;
+}
+
+/**
+ * Build the index record for an entry written at a byte offset
+ */
+export function toIndexRecord(
+  entry: AuditEntry,
+  offset: number,
+  length: number
+): IndexRecord {
+  return {
+    auditId: entry.auditId,
+    offset,
+    length,
+    timestamp: entry.timestamp,
+    tool: entry.tool,
+    loanId: entry.loanId,
+    sessionId: entry.sessionId,
+  };
+}
+
+function addPosting(map: Map<string, IndexRecord[]>, key: string | undefined, record: IndexRecord) {
+  if (key === undefined) {
+    return;
+  }
+  const list = map.get(key);
+  if (list) {
+    list.push(record);
+  } else {
+    map.set(key, [record]);
+  }
+}
+
+/**
+ * FileIndex - in-memory view of the sidecar index, kept in step with the log
+ *
+ * The sidecar is itself an append-only JSONL file. Writers from several processes
+ * may append overlapping records, so loading deduplicates by offset and rescans
+ * any byte range of the log the index does not cover.
+ */
+export class FileIndex {
+  private logPath: string;
+  private indexPath: string;
+  private loaded = false;
+  private records: IndexRecord[] = [];
+  private byId = new Map<string, IndexRecord>();
+  private byLoan = new Map<string, IndexRecord[]>();
+  private bySession = new Map<string, IndexRecord[]>();
+  private byTool = new Map<string, IndexRecord[]>();
+  /** Bytes of the log covered by the index */
+  private indexedSize = 0;
+
+  constructor(options: FileIndexOptions) {
+    this.logPath = options.logPath;
+    this.indexPath = options.indexPath;
+  }
+
+  /**
+   * Number of indexed entries
+   */
+  get size(): number {
+    return this.records.length;
+  }
+
+  /**
+   * Load the index if needed and index any entries appended since
+   */
+  async refresh(): Promise<void> {
+    const logSize = await this.logSize();
+
+    if (!this.loaded) {
+      await this.load();
+    }
+
+    // The log shrank or was replaced - the index cannot be trusted
+    if (logSize < this.indexedSize || !(await this.lastRecordMatches())) {
+      await this.rebuild();
+      return;
+    }
+
+    if (logSize > this.indexedSize) {
+      const added = await this.scan(this.indexedSize, logSize);
+      await this.persist(added);
+    }
+  }
+
+  /**
+   * Rebuild the index from scratch by scanning the whole log
+   */
+  async rebuild(): Promise<number> {
+    this.reset();
+    await this.scan(0, await this.logSize());
+    this.loaded = true;
+    await this.writeAll();
+    return this.records.length;
+  }
+
+  /**
+   * Record an entry just appended to the log at the given offset
+   */
+  async recordAppend(entry: AuditEntry, offset: number, length: number): Promise<void> {
+    const record = toIndexRecord(entry, offset, length);
+
+    if (this.loaded && this.indexedSize === offset) {
+      this.add(record);
+    }
+
+    // Only extend the sidecar if it already covers the log up to this entry;
+    // otherwise the gap is filled the next time the index is refreshed
+    if ((await this.persistedEnd()) === offset) {
+      await this.persist([record]);
+    }
+  }
+
+  /**
+   * Look up an entry's index record by audit ID
+   */
+  get(auditId: string): IndexRecord | undefined {
+    return this.byId.get(auditId);
+  }
+
+  /**
+   * Select index records matching the indexed fields of a query, in log order
+   */
+  select(options: AuditQueryOptions): IndexRecord[] {
+    let candidates = this.records;
+
+    const postings: Array<IndexRecord[] | undefined> = [];
+    if (options.loanId) {
+      postings.push(this.byLoan.get(options.loanId) || []);
+    }
+    if (options.sessionId) {
+      postings.push(this.bySession.get(options.sessionId) || []);
+    }
+    if (options.tool) {
+      postings.push(this.byTool.get(options.tool) || []);
+    }
+    postings.forEach((list) => {
+      if (list && list.length < candidates.length) {
+        candidates = list;
+      }
+    });
+
+    const start = options.startDate ? new Date(options.startDate).getTime() : undefined;
+    const end = options.endDate ? new Date(options.endDate).getTime() : undefined;
+
+    return candidates.filter((r) => {
+      if (options.loanId && r.loanId !== options.loanId) return false;
+      if (options.sessionId && r.sessionId !== options.sessionId) return false;
+      if (options.tool && r.tool !== options.tool) return false;
+      if (start !== undefined || end !== undefined) {
+        const time = new Date(r.timestamp).getTime();
+        if (start !== undefined && time < start) return false;
+        if (end !== undefined && time > end) return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Load the sidecar, deduplicating records and filling any gaps from the log
+   */
+  private async load(): Promise<void> {
+    this.reset();
+
+    const byOffset = new Map<number, IndexRecord>();
+    for await (const line of readLinesForward(this.indexPath)) {
+      if (!line.complete || !line.text.trim()) {
+        continue;
+      }
+      try {
+        const record: IndexRecord = JSON.parse(line.text);
+        byOffset.set(record.offset, record);
+      } catch {
+        // A torn index line is recovered by rescanning the log
+      }
+    }
+
+    const sorted = Array.from(byOffset.values()).sort((a, b) => a.offset - b.offset);
+    let dirty = false;
+
+    for (const record of sorted) {
+      if (record.offset < this.indexedSize) {
+        dirty = true;
+        continue;
+      }
+      if (record.offset > this.indexedSize) {
+        const filled = await this.scan(this.indexedSize, record.offset);
+        dirty = dirty || filled.length > 0;
+      }
+      this.add(record);
+    }
+
+    this.loaded = true;
+    if (dirty) {
+      await this.writeAll();
+    }
+  }
+
+  /**
+   * Index complete log lines between two byte offsets
+   */
+  private async scan(start: number, end: number): Promise<IndexRecord[]> {
+    const added: IndexRecord[] = [];
+
+    for await (const line of readLinesForward(this.logPath, start)) {
+      if (line.offset >= end || !line.complete) {
+        break;
+      }
+      this.indexedSize = line.offset + line.length;
+      if (!line.text.trim()) {
+        continue;
+      }
+      try {
+        const entry: AuditEntry = JSON.parse(line.text);
+        const record = toIndexRecord(entry, line.offset, line.length);
+        this.add(record, false);
+        added.push(record);
+      } catch {
+        // Invalid lines are left out of the index
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Check that the last indexed record still points at the same entry
+   */
+  private async lastRecordMatches(): Promise<boolean> {
+    const last = this.records[this.records.length - 1];
+    if (!last) {
+      return true;
+    }
+
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(this.logPath, 'r');
+    } catch {
+      return false;
+    }
+    try {
+      const text = await readLineAt(handle, last.offset, last.length);
+      return JSON.parse(text).auditId === last.auditId;
+    } catch {
+      return false;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private add(record: IndexRecord, advance = true): void {
+    this.records.push(record);
+    this.byId.set(record.auditId, record);
+    addPosting(this.byLoan, record.loanId, record);
+    addPosting(this.bySession, record.sessionId, record);
+    addPosting(this.byTool, record.tool, record);
+    if (advance) {
+      this.indexedSize = record.offset + record.length;
+    }
+  }
+
+  private reset(): void {
+    this.records = [];
+    this.byId.clear();
+    this.byLoan.clear();
+    this.bySession.clear();
+    this.byTool.clear();
+    this.indexedSize = 0;
+  }
+
+  private async logSize(): Promise<number> {
+    try {
+      return (await fs.promises.stat(this.logPath)).size;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        return 0;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * End offset of the last record in the sidecar file
+   */
+  private async persistedEnd(): Promise<number> {
+    for await (const line of readLinesBackward(this.indexPath)) {
+      if (!line.complete || !line.text.trim()) {
+        continue;
+      }
+      try {
+        const record: IndexRecord = JSON.parse(line.text);
+        return record.offset + record.length;
+      } catch {
+        return -1;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Append records to the sidecar (best effort - the log stays the source of truth)
+   */
+  private async persist(records: IndexRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    const content = records.map((r) => JSON.stringify(r) + '\n').join('');
+    await fs.promises.appendFile(this.indexPath, content, 'utf-8').catch(() => undefined);
+  }
+
+  /**
+   * Replace the sidecar with the in-memory records
+   */
+  private async writeAll(): Promise<void> {
+    const tmpPath = `${this.indexPath}.${process.pid}.tmp`;
+    let handle: fs.promises.FileHandle | undefined;
+    try {
+      handle = await fs.promises.open(tmpPath, 'w');
+      for (let i = 0; i < this.records.length; i += WRITE_BATCH) {
+        const batch = this.records.slice(i, i + WRITE_BATCH);
+        await handle.write(batch.map((r) => JSON.stringify(r) + '\n').join(''));
+      }
+      await handle.close();
+      handle = undefined;
+      await fs.promises.rename(tmpPath, this.indexPath);
+    } catch {
+      await handle?.close().catch(() => undefined);
+      await fs.promises.unlink(tmpPath).catch(() => undefined);
+    }
+  }
+}
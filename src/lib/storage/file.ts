@@ -5,15 +5,18 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as readline from 'readline';
 import {
   AuditEntry,
   AuditStorage,
   AuditQueryOptions,
+  CorruptLine,
   IntegrityResult,
-  IntegrityFailure,
 } from '../../types';
-import { computeEntryHash } from '../logger';
+import { addCorruptLines, verifyChain } from '../integrity';
+import { compileFilter } from '../filter';
+import { FileLock } from './lock';
+import { FileIndex } from './file-index';
+import { readLinesForward, readLinesBackward, readLineAt } from './lines';
 
 /**
  * File storage options
@@ -23,6 +26,82 @@ export interface FileStorageOptions {
   filePath: string;
   /** Create file if it doesn't exist */
   createIfMissing?: boolean;
+  /** Maximum time to wait for the append lock in milliseconds (default 10000) */
+  lockTimeoutMs?: number;
+  /** Age after which an abandoned lock file is recovered in milliseconds (default 30000) */
+  staleLockMs?: number;
+  /** Maintain a sidecar index (<filePath>.idx) for fast lookups (default true) */
+  useIndex?: boolean;
+}
+
+/**
+ * Check whether an entry matches every filter in the query options
+ */
+function matchesQuery(e: AuditEntry, options: AuditQueryOptions): boolean {
+  if (options.loanId && e.loanId !== options.loanId) {
+    return false;
+  }
+  if (options.tool && e.tool !== options.tool) {
+    return false;
+  }
+  if (options.command && e.command !== options.command) {
+    return false;
+  }
+  if (options.operator && e.operator !== options.operator) {
+    return false;
+  }
+  if (options.sessionId && e.sessionId !== options.sessionId) {
+    return false;
+  }
+  if (options.startDate) {
+    const start = new Date(options.startDate).getTime();
+    if (new Date(e.timestamp).getTime() < start) {
+      return false;
+    }
+  }
+  if (options.endDate) {
+    const end = new Date(options.endDate).getTime();
+    if (new Date(e.timestamp).getTime() > end) {
+      return false;
+    }
+  }
+  if (options.hasRiskFlags) {
+    if (!e.compliance.riskFlags || e.compliance.riskFlags.length === 0) {
+      return false;
+    }
+  }
+  if (options.humanReviewRequired !== undefined) {
+    if (e.compliance.humanReviewRequired !== options.humanReviewRequired) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether the query can be answered from the index alone
+ */
+function isIndexOnlyQuery(options: AuditQueryOptions): boolean {
+  return (
+    !options.where &&
+    !options.command &&
+    !options.operator &&
+    !options.hasRiskFlags &&
+    options.humanReviewRequired === undefined
+  );
+}
+
+/**
+ * Whether the index can narrow down the candidates for a query
+ */
+function usesIndexedFilter(options: AuditQueryOptions): boolean {
+  return !!(
+    options.loanId ||
+    options.sessionId ||
+    options.tool ||
+    options.startDate ||
+    options.endDate
+  );
 }
 
 /**
@@ -30,9 +109,20 @@ export interface FileStorageOptions {
  */
 export class FileStorage implements AuditStorage {
   private filePath: string;
+  private lockTimeoutMs?: number;
+  private staleLockMs?: number;
+  private index?: FileIndex;
 
   constructor(options: FileStorageOptions) {
     this.filePath = path.resolve(options.filePath);
+    this.lockTimeoutMs = options.lockTimeoutMs;
+    this.staleLockMs = options.staleLockMs;
+    if (options.useIndex !== false) {
+      this.index = new FileIndex({
+        logPath: this.filePath,
+        indexPath: `${this.filePath}.idx`,
+      });
+    }
 
     // Ensure directory exists
     const dir = path.dirname(this.filePath);
@@ -51,175 +141,262 @@ export class FileStorage implements AuditStorage {
    */
   async append(entry: AuditEntry): Promise<void> {
     const line = JSON.stringify(entry) + '\n';
+    const offset = await this.fileSize();
     await fs.promises.appendFile(this.filePath, line, 'utf-8');
+    await this.index?.recordAppend(entry, offset, Buffer.byteLength(line));
+  }
+
+  /**
+   * Run a function while holding the cross-process append lock
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lock = new FileLock({
+      lockPath: `${this.filePath}.lock`,
+      timeoutMs: this.lockTimeoutMs,
+      staleMs: this.staleLockMs,
+    });
+    return lock.withLock(fn);
   }
 
   /**
    * Query entries based on options
    */
   async query(options: AuditQueryOptions): Promise<AuditEntry[]> {
-    const entries = await this.readAllEntries();
-    let filtered = entries;
-
-    // Apply filters
-    if (options.loanId) {
-      filtered = filtered.filter((e) => e.loanId === options.loanId);
-    }
-    if (options.tool) {
-      filtered = filtered.filter((e) => e.tool === options.tool);
-    }
-    if (options.command) {
-      filtered = filtered.filter((e) => e.command === options.command);
-    }
-    if (options.operator) {
-      filtered = filtered.filter((e) => e.operator === options.operator);
-    }
-    if (options.sessionId) {
-      filtered = filtered.filter((e) => e.sessionId === options.sessionId);
-    }
-    if (options.startDate) {
-      const start = new Date(options.startDate).getTime();
-      filtered = filtered.filter((e) => new Date(e.timestamp).getTime() >= start);
-    }
-    if (options.endDate) {
-      const end = new Date(options.endDate).getTime();
-      filtered = filtered.filter((e) => new Date(e.timestamp).getTime() <= end);
-    }
-    if (options.hasRiskFlags) {
-      filtered = filtered.filter(
-        (e) => e.compliance.riskFlags && e.compliance.riskFlags.length > 0
-      );
+    const entries: AuditEntry[] = [];
+    for await (const entry of this.stream(options)) {
+      entries.push(entry);
     }
-    if (options.humanReviewRequired !== undefined) {
-      filtered = filtered.filter(
-        (e) => e.compliance.humanReviewRequired === options.humanReviewRequired
-      );
+    return entries;
+  }
+
+  /**
+   * Stream entries matching the options in log order, stopping once the limit is reached
+   */
+  async *stream(options: AuditQueryOptions): AsyncGenerator<AuditEntry> {
+    let skip = options.offset || 0;
+    let remaining = options.limit || Infinity;
+    if (remaining <= 0) {
+      return;
     }
 
-    // Apply pagination
-    const offset = options.offset || 0;
-    const limit = options.limit || filtered.length;
-    filtered = filtered.slice(offset, offset + limit);
+    const source = this.index && usesIndexedFilter(options)
+      ? this.streamIndexed(options)
+      : this.streamAll();
 
-    return filtered;
+    const where = options.where ? compileFilter(options.where) : undefined;
+    for await (const entry of source) {
+      if (!matchesQuery(entry, options) || (where && !where(entry))) {
+        continue;
+      }
+      if (skip > 0) {
+        skip--;
+        continue;
+      }
+      yield entry;
+      if (--remaining <= 0) {
+        return;
+      }
+    }
   }
 
   /**
    * Get entry by audit ID
    */
   async getById(auditId: string): Promise<AuditEntry | null> {
-    const entries = await this.readAllEntries();
-    return entries.find((e) => e.auditId === auditId) || null;
+    if (!this.index) {
+      for await (const entry of this.streamAll()) {
+        if (entry.auditId === auditId) {
+          return entry;
+        }
+      }
+      return null;
+    }
+
+    await this.index.refresh();
+    let entry = await this.readIndexed(auditId);
+    if (entry === undefined) {
+      // The index pointed at the wrong line - rebuild it and look again
+      await this.index.rebuild();
+      entry = await this.readIndexed(auditId);
+    }
+    return entry || null;
   }
 
   /**
-   * Get the last entry (for hash chaining)
+   * Get the last entry (for hash chaining), reading from the tail of the file
    */
   async getLastEntry(): Promise<AuditEntry | null> {
-    const entries = await this.readAllEntries();
-    return entries.length > 0 ? entries[entries.length - 1] : null;
+    for await (const line of readLinesBackward(this.filePath)) {
+      if (!line.text.trim()) {
+        continue;
+      }
+      try {
+        return JSON.parse(line.text);
+      } catch (e) {
+        // Skip invalid lines
+        console.error(`Warning: Invalid JSON line in audit log: ${line.text}`);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Rebuild the sidecar index from the log, returning the number of indexed entries
+   */
+  async rebuildIndex(): Promise<number> {
+    if (!this.index) {
+      throw new Error('Index is disabled for this storage');
+    }
+    return this.index.rebuild();
   }
 
   /**
    * Verify integrity of the audit chain
    */
   async verifyIntegrity(fromDate?: string): Promise<IntegrityResult> {
-    const entries = await this.readAllEntries();
-    const failures: IntegrityFailure[] = [];
-    let validEntries = 0;
-
-    // Filter by date if specified
-    let toCheck = entries;
-    if (fromDate) {
-      const fromTime = new Date(fromDate).getTime();
-      toCheck = entries.filter(
-        (e) => new Date(e.timestamp).getTime() >= fromTime
-      );
+    const { entries, corrupt } = await this.readLog();
+    return addCorruptLines(verifyChain(entries, fromDate), corrupt);
+  }
+
+  /**
+   * Count total entries
+   */
+  async count(options?: AuditQueryOptions): Promise<number> {
+    if (this.index && isIndexOnlyQuery(options || {})) {
+      await this.index.refresh();
+      const matched = options ? this.index.select(options).length : this.index.size;
+      const offset = options?.offset || 0;
+      const limit = options?.limit || Infinity;
+      return Math.max(0, Math.min(matched - offset, limit));
     }
 
-    for (let i = 0; i < toCheck.length; i++) {
-      const entry = toCheck[i];
-      const entryIndex = entries.indexOf(entry);
-
-      // Check hash chain
-      if (entryIndex > 0) {
-        const previousEntry = entries[entryIndex - 1];
-        if (entry.previousHash !== previousEntry.entryHash) {
-          failures.push({
-            auditId: entry.auditId,
-            timestamp: entry.timestamp,
-            reason: 'Previous hash mismatch',
-            expectedHash: previousEntry.entryHash,
-            actualHash: entry.previousHash,
-          });
-          continue;
-        }
-      }
+    let count = 0;
+    for await (const _entry of this.stream(options || {})) {
+      count++;
+    }
+    return count;
+  }
 
-      // Verify entry hash
-      const { entryHash, ...entryWithoutHash } = entry;
-      const computedHash = computeEntryHash(entryWithoutHash as any);
-      if (computedHash !== entryHash) {
-        failures.push({
-          auditId: entry.auditId,
-          timestamp: entry.timestamp,
-          reason: 'Entry hash mismatch - possible tampering',
-          expectedHash: entryHash,
-          actualHash: computedHash,
-        });
+  /**
+   * Stream every entry in the file
+   */
+  private async *streamAll(): AsyncGenerator<AuditEntry> {
+    for await (const line of readLinesForward(this.filePath)) {
+      if (!line.text.trim()) {
         continue;
       }
-
-      validEntries++;
+      try {
+        yield JSON.parse(line.text);
+      } catch (e) {
+        // Skip invalid lines
+        console.error(`Warning: Invalid JSON line in audit log: ${line.text}`);
+      }
     }
-
-    return {
-      valid: failures.length === 0,
-      entriesChecked: toCheck.length,
-      validEntries,
-      invalidEntries: failures.length,
-      failures,
-    };
   }
 
   /**
-   * Count total entries
+   * Stream entries selected by the index's filters, reading each by offset
    */
-  async count(options?: AuditQueryOptions): Promise<number> {
-    if (options) {
-      const entries = await this.query(options);
-      return entries.length;
+  private async *streamIndexed(options: AuditQueryOptions): AsyncGenerator<AuditEntry> {
+    const index = this.index!;
+    await index.refresh();
+    const seen = new Set<string>();
+    let records = index.select(options);
+    let rebuilt = false;
+    if (records.length === 0) {
+      return;
+    }
+
+    const handle = await fs.promises.open(this.filePath, 'r');
+    try {
+      for (let i = 0; i < records.length; i++) {
+        const record = records[i];
+        if (seen.has(record.auditId)) {
+          continue;
+        }
+        const entry: AuditEntry | undefined = await readLineAt(handle, record.offset, record.length)
+          .then((text) => JSON.parse(text))
+          .catch(() => undefined);
+
+        if (!entry || entry.auditId !== record.auditId) {
+          if (rebuilt) {
+            throw new Error(`Audit index does not match log at offset ${record.offset}`);
+          }
+          // Stale index - rebuild and continue with the entries not yet yielded
+          rebuilt = true;
+          await index.rebuild();
+          records = index.select(options);
+          i = -1;
+          continue;
+        }
+
+        seen.add(entry.auditId);
+        yield entry;
+      }
+    } finally {
+      await handle.close();
     }
-    const entries = await this.readAllEntries();
-    return entries.length;
   }
 
   /**
-   * Read all entries from the file
+   * Read an entry through the index; undefined if the index is stale
    */
-  private async readAllEntries(): Promise<AuditEntry[]> {
-    if (!fs.existsSync(this.filePath)) {
-      return [];
+  private async readIndexed(auditId: string): Promise<AuditEntry | null | undefined> {
+    const record = this.index!.get(auditId);
+    if (!record) {
+      return null;
+    }
+    const handle = await fs.promises.open(this.filePath, 'r');
+    try {
+      const entry: AuditEntry = JSON.parse(
+        await readLineAt(handle, record.offset, record.length)
+      );
+      return entry.auditId === auditId ? entry : undefined;
+    } catch {
+      return undefined;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async fileSize(): Promise<number> {
+    try {
+      return (await fs.promises.stat(this.filePath)).size;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        return 0;
+      }
+      throw e;
     }
+  }
 
+  /**
+   * Read every entry in log order, collecting lines that cannot be parsed instead of skipping them
+   */
+  async readLog(): Promise<{ entries: AuditEntry[]; corrupt: CorruptLine[] }> {
     const entries: AuditEntry[] = [];
-    const fileStream = fs.createReadStream(this.filePath);
-    const rl = readline.createInterface({
-      input: fileStream,
-      crlfDelay: Infinity,
-    });
+    const corrupt: CorruptLine[] = [];
+    let lineNumber = 0;
 
-    for await (const line of rl) {
-      if (line.trim()) {
-        try {
-          entries.push(JSON.parse(line));
-        } catch (e) {
-          // Skip invalid lines
-          console.error(`Warning: Invalid JSON line in audit log: ${line}`);
-        }
+    for await (const line of readLinesForward(this.filePath)) {
+      lineNumber++;
+      if (!line.text.trim()) {
+        continue;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line.text);
+      } catch (e: any) {
+        corrupt.push({ line: lineNumber, reason: `Line ${lineNumber} is not valid JSON: ${e.message}` });
+        continue;
       }
+      if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        corrupt.push({ line: lineNumber, reason: `Line ${lineNumber} is not an audit entry` });
+        continue;
+      }
+      entries.push(parsed as AuditEntry);
     }
 
-    return entries;
+    return { entries, corrupt };
   }
 }
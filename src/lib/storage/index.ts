@@ -1 +1,14 @@
 export { FileStorage, FileStorageOptions } from './file';
+export { FileLock, FileLockOptions } from './lock';
+export { FileIndex, FileIndexOptions, IndexRecord } from './file-index';
+export { SqliteStorage, SqliteStorageOptions } from './sqlite';
+export { openStorage, parseStoreUri, OpenStorageOptions, StorageLocation } from './open';
+export {
+  SegmentedFileStorage,
+  SegmentedFileStorageOptions,
+  SegmentInfo,
+  SealOutputs,
+  RotationPeriod,
+  isSealEntry,
+  periodLabel,
+} from './segmented';
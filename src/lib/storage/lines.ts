@@ -0,0 +1,158 @@
+/**
+ * Byte-offset aware line readers for JSONL files
+ * Stream forward from any offset or backward from the end without loading the whole file
+ */
+
+import * as fs from 'fs';
+
+/**
+ * A single line read from a file
+ */
+export interface FileLine {
+  /** Line content without the trailing newline */
+  text: string;
+  /** Byte offset of the first character of the line */
+  offset: number;
+  /** Byte length of the line including its newline */
+  length: number;
+  /** Whether the line is terminated by a newline */
+  complete: boolean;
+}
+
+const CHUNK_SIZE = 64 * 1024;
+const NEWLINE = 0x0a;
+
+function toText(buf: Buffer): string {
+  // Tolerate CRLF line endings
+  const end = buf.length > 0 && buf[buf.length - 1] === 0x0d ? buf.length - 1 : buf.length;
+  return buf.toString('utf-8', 0, end);
+}
+
+/**
+ * Read lines in file order starting at a byte offset
+ */
+export async function* readLinesForward(
+  filePath: string,
+  start = 0
+): AsyncGenerator<FileLine> {
+  if (!fs.existsSync(filePath)) {
+    return;
+  }
+
+  const stream = fs.createReadStream(filePath, { start, highWaterMark: CHUNK_SIZE });
+  let pending: Buffer = Buffer.alloc(0);
+  let pendingOffset = start;
+
+  try {
+    for await (const chunk of stream) {
+      const buf = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : (chunk as Buffer);
+      let lineStart = 0;
+      let idx: number;
+
+      while ((idx = buf.indexOf(NEWLINE, lineStart)) !== -1) {
+        yield {
+          text: toText(buf.subarray(lineStart, idx)),
+          offset: pendingOffset + lineStart,
+          length: idx - lineStart + 1,
+          complete: true,
+        };
+        lineStart = idx + 1;
+      }
+
+      pending = buf.subarray(lineStart);
+      pendingOffset += lineStart;
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  // Final line without a trailing newline (e.g. a write in progress)
+  if (pending.length > 0) {
+    yield {
+      text: toText(pending),
+      offset: pendingOffset,
+      length: pending.length,
+      complete: false,
+    };
+  }
+}
+
+/**
+ * Read lines in reverse order starting from the end of the file
+ */
+export async function* readLinesBackward(filePath: string): AsyncGenerator<FileLine> {
+  let handle: fs.promises.FileHandle;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+  } catch (e: any) {
+    if (e.code === 'ENOENT') {
+      return;
+    }
+    throw e;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    let position = size;
+    let pending: Buffer = Buffer.alloc(0);
+
+    while (position > 0) {
+      const readSize = Math.min(CHUNK_SIZE, position);
+      position -= readSize;
+      const chunk = Buffer.alloc(readSize);
+      await handle.read(chunk, 0, readSize, position);
+
+      const buf = Buffer.concat([chunk, pending]);
+      let lineEnd = buf.length;
+      let idx: number;
+
+      // The buffer starts at `position`; every newline found closes the line after it
+      while ((idx = buf.lastIndexOf(NEWLINE, lineEnd - 1)) !== -1) {
+        if (idx + 1 < lineEnd) {
+          const hasNewline = position + lineEnd < size;
+          yield {
+            text: toText(buf.subarray(idx + 1, lineEnd)),
+            offset: position + idx + 1,
+            length: lineEnd - idx - 1 + (hasNewline ? 1 : 0),
+            complete: hasNewline,
+          };
+        }
+        lineEnd = idx;
+        if (lineEnd === 0) {
+          break;
+        }
+      }
+
+      pending = buf.subarray(0, lineEnd);
+    }
+
+    if (pending.length > 0) {
+      const hasNewline = pending.length < size;
+      yield {
+        text: toText(pending),
+        offset: 0,
+        length: pending.length + (hasNewline ? 1 : 0),
+        complete: hasNewline,
+      };
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read a single line at a known byte offset
+ */
+export async function readLineAt(
+  handle: fs.promises.FileHandle,
+  offset: number,
+  length: number
+): Promise<string> {
+  const buf = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buf, 0, length, offset);
+  let end = bytesRead;
+  if (end > 0 && buf[end - 1] === NEWLINE) {
+    end--;
+  }
+  return toText(buf.subarray(0, end));
+}
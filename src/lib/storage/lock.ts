@@ -0,0 +1,226 @@
+/**
+ * Cross-process advisory lock based on an exclusive lock file
+ * Used to serialize the read-last/hash/append sequence between writers
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+
+/**
+ * File lock options
+ */
+export interface FileLockOptions {
+  /** Path of the lock file */
+  lockPath: string;
+  /** Maximum time to wait for the lock in milliseconds */
+  timeoutMs?: number;
+  /** Age after which an abandoned lock is considered stale in milliseconds; the holder refreshes it while held */
+  staleMs?: number;
+  /** Delay between acquisition attempts in milliseconds */
+  retryMs?: number;
+}
+
+/**
+ * Contents written to the lock file by the holder
+ */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+  token: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_STALE_MS = 30000;
+const DEFAULT_RETRY_MS = 25;
+
+/**
+ * Use a duration option if it is a finite, non-negative number, otherwise the default
+ */
+function durationOrDefault(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check whether a process on this host is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: any) {
+    // EPERM means the process exists but belongs to another user
+    return e.code === 'EPERM';
+  }
+}
+
+/**
+ * FileLock - exclusive lock held by creating a file with O_EXCL
+ */
+export class FileLock {
+  private lockPath: string;
+  private timeoutMs: number;
+  private staleMs: number;
+  private retryMs: number;
+  private token?: string;
+  private heartbeat?: NodeJS.Timeout;
+
+  constructor(options: FileLockOptions) {
+    this.lockPath = options.lockPath;
+    this.timeoutMs = durationOrDefault(options.timeoutMs, DEFAULT_TIMEOUT_MS);
+    this.staleMs = durationOrDefault(options.staleMs, DEFAULT_STALE_MS);
+    this.retryMs = durationOrDefault(options.retryMs, DEFAULT_RETRY_MS);
+  }
+
+  /**
+   * Acquire the lock, waiting up to the configured timeout
+   */
+  async acquire(): Promise<void> {
+    if (this.token) {
+      throw new Error(`Lock already held: ${this.lockPath}`);
+    }
+
+    const deadline = Date.now() + this.timeoutMs;
+    const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const owner: LockOwner = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      acquiredAt: new Date().toISOString(),
+      token,
+    };
+
+    for (;;) {
+      try {
+        await fs.promises.writeFile(this.lockPath, JSON.stringify(owner), {
+          flag: 'wx',
+        });
+        this.token = token;
+        this.startHeartbeat();
+        return;
+      } catch (e: any) {
+        if (e.code !== 'EEXIST') {
+          throw e;
+        }
+      }
+
+      if (await this.removeIfStale()) {
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out after ${this.timeoutMs}ms waiting for lock: ${this.lockPath}`
+        );
+      }
+
+      await sleep(this.retryMs);
+    }
+  }
+
+  /**
+   * Release the lock if it is still owned by this instance
+   */
+  async release(): Promise<void> {
+    if (!this.token) {
+      return;
+    }
+
+    const token = this.token;
+    this.token = undefined;
+    clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+
+    // Leave the file alone if our lock was recovered as stale and re-acquired
+    const owner = await this.readOwner();
+    if (owner && owner.token !== token) {
+      return;
+    }
+    await fs.promises.unlink(this.lockPath).catch((e: any) => {
+      if (e.code !== 'ENOENT') {
+        throw e;
+      }
+    });
+  }
+
+  /**
+   * Run a function while holding the lock
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      await this.release();
+    }
+  }
+
+  /**
+   * Keep the lock file's mtime fresh while held, so a long-running holder is not taken for stale
+   */
+  private startHeartbeat(): void {
+    this.heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.promises.utimes(this.lockPath, now, now).catch(() => undefined);
+    }, Math.max(1, Math.floor(this.staleMs / 3)));
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Remove the lock file if its holder is gone, or it has exceeded the stale age and
+   * its holder cannot be checked (another host or an unreadable owner)
+   */
+  private async removeIfStale(): Promise<boolean> {
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(this.lockPath);
+    } catch (e: any) {
+      // Lock was released between our attempt and the check
+      return e.code === 'ENOENT';
+    }
+
+    const owner = await this.readOwner();
+    const local = owner !== null && owner.hostname === os.hostname();
+    if (owner && local && isProcessAlive(owner.pid)) {
+      // A live holder on this host keeps the lock however long it takes
+      return false;
+    }
+    const expired = Date.now() - stat.mtimeMs > this.staleMs;
+    if (!expired && !local) {
+      return false;
+    }
+
+    // Move the stale lock aside atomically so only one waiter removes it
+    const aside = `${this.lockPath}.stale-${process.pid}-${Date.now()}`;
+    try {
+      await fs.promises.rename(this.lockPath, aside);
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        return true;
+      }
+      throw e;
+    }
+
+    // Another waiter may have replaced the stale lock with a live one in between
+    const moved = await this.readOwner(aside);
+    if (owner && moved && moved.token !== owner.token) {
+      await fs.promises.link(aside, this.lockPath).catch(() => undefined);
+      await fs.promises.unlink(aside).catch(() => undefined);
+      return false;
+    }
+
+    await fs.promises.unlink(aside).catch(() => undefined);
+    return true;
+  }
+
+  private async readOwner(lockPath = this.lockPath): Promise<LockOwner | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(lockPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+}
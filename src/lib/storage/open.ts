@@ -0,0 +1,115 @@
+/**
+ * Open a storage backend from a storage URI
+ * e.g. "sqlite:./audit.db", "file:./audit.jsonl" or "segments:./audit?period=month"
+ */
+
+import * as fs from 'fs';
+import { AuditStorage } from '../../types';
+import { EntrySigner } from '../keys';
+import { FileStorage } from './file';
+import { SqliteStorage } from './sqlite';
+import { RotationPeriod, SegmentedFileStorage } from './segmented';
+
+/**
+ * Options for opening a storage backend
+ */
+export interface OpenStorageOptions {
+  /** Storage URI (takes precedence over auditFile) */
+  store?: string;
+  /** Path to a JSONL audit log, used when no store URI is given */
+  auditFile?: string;
+  /** Create the backing file if it doesn't exist */
+  createIfMissing?: boolean;
+  /** Maximum time to wait for the write lock in milliseconds */
+  lockTimeoutMs?: number;
+  /** Signs records the storage writes itself (segment seals) */
+  signer?: EntrySigner;
+}
+
+/**
+ * Parsed storage URI
+ */
+export interface StorageLocation {
+  scheme: 'file' | 'sqlite' | 'segments';
+  path: string;
+  /** Query parameters, e.g. segments:./audit?maxBytes=10485760&period=month */
+  params: Record<string, string>;
+}
+
+/**
+ * Parse a storage URI; a bare path is treated as a JSONL file
+ */
+export function parseStoreUri(uri: string): StorageLocation {
+  const match = /^([a-z][a-z0-9+.-]+):(?:\/\/)?(.*)$/i.exec(uri);
+  if (!match) {
+    return { scheme: 'file', path: uri, params: {} };
+  }
+
+  const scheme = match[1].toLowerCase();
+  const [location, query] = match[2].split('?', 2);
+  if (!location) {
+    throw new Error(`Storage URI has no path: ${uri}`);
+  }
+  if (scheme !== 'file' && scheme !== 'sqlite' && scheme !== 'segments') {
+    throw new Error(
+      `Unsupported storage URI scheme "${scheme}" (expected file:, sqlite: or segments:)`
+    );
+  }
+  return {
+    scheme,
+    path: location,
+    params: Object.fromEntries(new URLSearchParams(query || '')),
+  };
+}
+
+/**
+ * Open the storage backend described by the options
+ */
+export function openStorage(options: OpenStorageOptions): AuditStorage {
+  const location: StorageLocation = options.store
+    ? parseStoreUri(options.store)
+    : { scheme: 'file', path: options.auditFile || './audit.jsonl', params: {} };
+
+  // A directory of segments can be passed anywhere a log file is accepted
+  if (
+    location.scheme === 'file' &&
+    fs.existsSync(location.path) &&
+    fs.statSync(location.path).isDirectory()
+  ) {
+    location.scheme = 'segments';
+  }
+
+  if (location.scheme === 'segments') {
+    const { period, maxBytes, prefix } = location.params;
+    if (period && !['day', 'month', 'year'].includes(period)) {
+      throw new Error(`Invalid rotation period "${period}" (expected day, month or year)`);
+    }
+    const bytes = maxBytes === undefined ? undefined : Number(maxBytes);
+    if (bytes !== undefined && !(Number.isInteger(bytes) && bytes > 0)) {
+      throw new Error(`Invalid maxBytes "${maxBytes}" (expected a positive whole number of bytes)`);
+    }
+    return new SegmentedFileStorage({
+      directory: location.path,
+      prefix,
+      period: period as RotationPeriod | undefined,
+      maxBytes: bytes,
+      createIfMissing: options.createIfMissing,
+      lockTimeoutMs: options.lockTimeoutMs,
+      signer: options.signer,
+    });
+  }
+
+  if (location.scheme === 'sqlite') {
+    return new SqliteStorage({
+      filePath: location.path,
+      createIfMissing: options.createIfMissing,
+      lockTimeoutMs: options.lockTimeoutMs,
+    });
+  }
+
+  return new FileStorage({
+    filePath: location.path,
+    createIfMissing: options.createIfMissing,
+    lockTimeoutMs: options.lockTimeoutMs,
+  });
+}
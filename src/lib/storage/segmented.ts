@@ -0,0 +1,557 @@
+/**
+ * Segmented file storage - a directory of rotated JSONL segments read as one log
+ * Finished segments end with a seal entry; the next segment's first entry chains to the seal
+ * Segments removed under a retention policy are accounted for by purge entries
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AuditEntry,
+  AuditStorage,
+  AuditQueryOptions,
+  CorruptLine,
+  IntegrityResult,
+  IntegrityFailure,
+} from '../../types';
+import { VERSION } from '../../version';
+import { CURRENT_HASH_VERSION, computeEntryHash } from '../logger';
+import { EntrySigner } from '../keys';
+import { addCorruptLines, verifyChain, mergeIntegrityFailures } from '../integrity';
+import { FileStorage } from './file';
+import { FileLock } from './lock';
+
+export const SEAL_TOOL = 'auditctl';
+export const SEAL_COMMAND = 'seal';
+export const PURGE_COMMAND = 'purge';
+
+/**
+ * Calendar period used for rotation
+ */
+export type RotationPeriod = 'day' | 'month' | 'year';
+
+/**
+ * Segmented storage options
+ */
+export interface SegmentedFileStorageOptions {
+  /** Directory holding the segment files */
+  directory: string;
+  /** Segment file name prefix (default "audit") */
+  prefix?: string;
+  /** Rotate once the active segment reaches this many bytes */
+  maxBytes?: number;
+  /** Rotate when the calendar period changes, e.g. audit-2026-10.jsonl for "month" */
+  period?: RotationPeriod;
+  /** Create the directory if it doesn't exist */
+  createIfMissing?: boolean;
+  /** Maximum time to wait for the append lock in milliseconds (default 10000) */
+  lockTimeoutMs?: number;
+  /** Signs seal entries */
+  signer?: EntrySigner;
+}
+
+/**
+ * Outputs recorded on a seal entry
+ */
+export interface SealOutputs {
+  /** File name of the sealed segment */
+  segment: string;
+  /** Position of the segment in the log (0-based) */
+  segmentNumber: number;
+  /** Number of entries in the segment, excluding the seal */
+  entryCount: number;
+  /** Hash of the last entry before the seal */
+  finalHash: string;
+}
+
+/**
+ * A sealed segment removed from the directory, as recorded on a purge entry
+ */
+export interface PurgedSegment {
+  segment: string;
+  segmentNumber: number;
+  /** Number of entries in the segment, excluding the seal */
+  entryCount: number;
+  firstAuditId: string;
+  lastAuditId: string;
+  firstTimestamp: string;
+  lastTimestamp: string;
+  /** previousHash of the segment's first entry */
+  previousHash?: string;
+  /** Hash of the segment's last entry before the seal; absent on purges recorded before it was added */
+  finalHash?: string;
+  /** Hash of the seal entry - the next segment chains to it */
+  sealHash: string;
+  /** Path of the compressed archive, relative to the segment directory */
+  archive: string;
+  /** SHA-256 of the compressed archive */
+  archiveSha256: string;
+}
+
+/**
+ * Outputs recorded on a purge entry
+ */
+export interface PurgeOutputs {
+  /** Segments purged by this run */
+  segments: PurgedSegment[];
+  /** Segments purged by earlier runs, carried forward so they stay verifiable once those purge entries are purged too */
+  previouslyPurged: PurgedSegment[];
+  /** Loans whose legal hold kept otherwise expired segments */
+  heldLoanIds: string[];
+  policyVersion?: string;
+}
+
+/**
+ * A segment file in the directory
+ */
+export interface SegmentInfo {
+  fileName: string;
+  filePath: string;
+  /** Period label (e.g. "2026-10"), empty for size-only rotation */
+  label: string;
+  /** Part number within the period */
+  part: number;
+}
+
+/**
+ * Whether an entry is a segment seal
+ */
+export function isSealEntry(entry: AuditEntry): boolean {
+  return entry.tool === SEAL_TOOL && entry.command === SEAL_COMMAND;
+}
+
+/**
+ * Whether an entry records purged segments
+ */
+export function isPurgeEntry(entry: AuditEntry): boolean {
+  return entry.tool === SEAL_TOOL && entry.command === PURGE_COMMAND;
+}
+
+/**
+ * All purged segments recorded in a log, by segment number
+ */
+export function collectPurgedSegments(entries: AuditEntry[]): Map<number, PurgedSegment> {
+  const purged = new Map<number, PurgedSegment>();
+  entries.filter(isPurgeEntry).forEach((entry) => {
+    const outputs = entry.outputs as unknown as PurgeOutputs;
+    [...(outputs.previouslyPurged || []), ...(outputs.segments || [])].forEach((p) =>
+      purged.set(p.segmentNumber, p)
+    );
+  });
+  return purged;
+}
+
+/**
+ * Period label for a date
+ */
+export function periodLabel(date: Date, period?: RotationPeriod): string {
+  const iso = date.toISOString();
+  switch (period) {
+    case 'day':
+      return iso.slice(0, 10);
+    case 'month':
+      return iso.slice(0, 7);
+    case 'year':
+      return iso.slice(0, 4);
+    default:
+      return '';
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * SegmentedFileStorage - rotated, sealed JSONL segments
+ */
+export class SegmentedFileStorage implements AuditStorage {
+  private directory: string;
+  private prefix: string;
+  private maxBytes?: number;
+  private period?: RotationPeriod;
+  private signer?: EntrySigner;
+  private lock: FileLock;
+  private pattern: RegExp;
+  private segmentStorages = new Map<string, FileStorage>();
+
+  constructor(options: SegmentedFileStorageOptions) {
+    this.directory = path.resolve(options.directory);
+    this.prefix = options.prefix || 'audit';
+    this.maxBytes = options.maxBytes;
+    this.period = options.period;
+    this.signer = options.signer;
+    this.pattern = new RegExp(
+      `^${escapeRegExp(this.prefix)}(?:-(\\d{4}(?:-\\d{2}){0,2}))?(?:\\.(\\d+))?\\.jsonl$`
+    );
+
+    if (options.createIfMissing !== false && !fs.existsSync(this.directory)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+    }
+
+    this.lock = new FileLock({
+      lockPath: path.join(this.directory, `.${this.prefix}.lock`),
+      timeoutMs: options.lockTimeoutMs,
+    });
+  }
+
+  /**
+   * List segment files in log order
+   */
+  listSegments(): SegmentInfo[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.directory)
+      .map((fileName) => {
+        const match = this.pattern.exec(fileName);
+        if (!match) {
+          return null;
+        }
+        return {
+          fileName,
+          filePath: path.join(this.directory, fileName),
+          label: match[1] || '',
+          part: match[2] ? parseInt(match[2]) : 0,
+        };
+      })
+      .filter((s): s is SegmentInfo => s !== null)
+      .sort((a, b) => (a.label === b.label ? a.part - b.part : a.label < b.label ? -1 : 1));
+  }
+
+  /**
+   * Append an entry to the active segment
+   */
+  async append(entry: AuditEntry): Promise<void> {
+    const segments = this.listSegments();
+    const active = segments.length > 0
+      ? segments[segments.length - 1]
+      : this.createSegment(periodLabel(new Date(), this.period), 0);
+    await this.storageFor(active).append(entry);
+  }
+
+  /**
+   * Query entries across all segments
+   */
+  async query(options: AuditQueryOptions): Promise<AuditEntry[]> {
+    const { offset, limit, ...filters } = options;
+    let skip = offset || 0;
+    let remaining = limit || Infinity;
+    const entries: AuditEntry[] = [];
+
+    for (const segment of this.listSegments()) {
+      for await (const entry of this.storageFor(segment).stream(filters)) {
+        if (skip > 0) {
+          skip--;
+          continue;
+        }
+        entries.push(entry);
+        if (--remaining <= 0) {
+          return entries;
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get entry by audit ID
+   */
+  async getById(auditId: string): Promise<AuditEntry | null> {
+    for (const segment of this.listSegments()) {
+      const entry = await this.storageFor(segment).getById(auditId);
+      if (entry) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the last entry (for hash chaining) - may be the previous segment's seal
+   */
+  async getLastEntry(): Promise<AuditEntry | null> {
+    const segments = this.listSegments();
+    for (let i = segments.length - 1; i >= 0; i--) {
+      const entry = await this.storageFor(segments[i]).getLastEntry();
+      if (entry) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Verify the chain across segments, plus segment seals and ordering
+   * A gap left by purged segments is accepted when the purge records account for it
+   */
+  async verifyIntegrity(fromDate?: string): Promise<IntegrityResult> {
+    const segments = this.listSegments();
+    const loaded: AuditEntry[][] = [];
+    const corrupt: CorruptLine[] = [];
+    for (const segment of segments) {
+      const log = await this.storageFor(segment).readLog();
+      loaded.push(log.entries);
+      corrupt.push(...log.corrupt.map((c) => ({ ...c, reason: `Segment ${segment.fileName}: ${c.reason}` })));
+    }
+
+    const purged = collectPurgedSegments(loaded.flat());
+    const runs: AuditEntry[][] = [[]];
+    const failures: IntegrityFailure[] = [];
+    let expected = 0;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const entries = loaded[i];
+      const last = entries[entries.length - 1];
+      const isActive = i === segments.length - 1;
+      const seal = last && isSealEntry(last) ? (last.outputs as unknown as SealOutputs) : null;
+
+      // Skip over purged segments; the first entry after the gap must chain to the last purged seal
+      let gapEnd: PurgedSegment | undefined;
+      while (purged.has(expected) && expected !== seal?.segmentNumber) {
+        gapEnd = purged.get(expected);
+        expected++;
+      }
+      if (gapEnd) {
+        runs.push([]);
+        if (entries.length > 0 && entries[0].previousHash !== gapEnd.sealHash) {
+          failures.push({
+            auditId: entries[0].auditId,
+            timestamp: entries[0].timestamp,
+            reason: `Segment ${segment.fileName} does not chain to purged segment ${gapEnd.segment}`,
+            expectedHash: gapEnd.sealHash,
+            actualHash: entries[0].previousHash,
+          });
+        }
+      }
+      runs[runs.length - 1].push(...entries);
+
+      if (!seal) {
+        if (!isActive) {
+          failures.push({
+            auditId: last?.auditId || '',
+            timestamp: last?.timestamp || '',
+            reason: `Segment ${segment.fileName} is not sealed but is followed by ${segments[i + 1].fileName}`,
+          });
+        }
+        continue;
+      }
+
+      const sealed = entries.slice(0, -1);
+      const problems: string[] = [];
+
+      if (seal.segmentNumber !== expected) {
+        problems.push(
+          `seal is for segment ${seal.segmentNumber} but found at position ${expected} - segment missing or reordered`
+        );
+      }
+      if (seal.segment !== segment.fileName) {
+        problems.push(`seal names ${seal.segment} but file is ${segment.fileName}`);
+      }
+      if (seal.entryCount !== sealed.length) {
+        problems.push(`seal records ${seal.entryCount} entries but segment has ${sealed.length}`);
+      }
+      if (sealed.length > 0 && seal.finalHash !== sealed[sealed.length - 1].entryHash) {
+        problems.push('seal final hash does not match last entry');
+      }
+      expected++;
+
+      problems.forEach((problem) => {
+        failures.push({
+          auditId: last.auditId,
+          timestamp: last.timestamp,
+          reason: `Segment ${segment.fileName}: ${problem}`,
+        });
+      });
+    }
+
+    const results = runs.map((run) => verifyChain(run, fromDate));
+    const chain: IntegrityResult = {
+      valid: results.every((r) => r.valid),
+      entriesChecked: results.reduce((sum, r) => sum + r.entriesChecked, 0),
+      validEntries: results.reduce((sum, r) => sum + r.validEntries, 0),
+      invalidEntries: results.reduce((sum, r) => sum + r.invalidEntries, 0),
+      failures: results.flatMap((r) => r.failures),
+      warnings: results.flatMap((r) => r.warnings || []),
+    };
+    return addCorruptLines(mergeIntegrityFailures(chain, failures), corrupt);
+  }
+
+  /**
+   * Count entries across all segments
+   */
+  async count(options?: AuditQueryOptions): Promise<number> {
+    const { offset, limit, ...filters } = options || {};
+    let total = 0;
+    for (const segment of this.listSegments()) {
+      total += await this.storageFor(segment).count(filters);
+    }
+    return Math.max(0, Math.min(total - (offset || 0), limit || Infinity));
+  }
+
+  /**
+   * Run a function while holding the append lock, rotating the active segment first if due
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.lock.withLock(async () => {
+      await this.rotateIfDue();
+      return fn();
+    });
+  }
+
+  /**
+   * Read every entry of one segment
+   */
+  async segmentEntries(segment: SegmentInfo): Promise<AuditEntry[]> {
+    return this.storageFor(segment).query({});
+  }
+
+  /**
+   * Delete a segment file and its index (used by retention once the segment is archived)
+   */
+  removeSegment(segment: SegmentInfo): void {
+    fs.rmSync(segment.filePath, { force: true });
+    fs.rmSync(`${segment.filePath}.idx`, { force: true });
+    this.segmentStorages.delete(segment.filePath);
+  }
+
+  /**
+   * Rebuild the sidecar index of every segment
+   */
+  async rebuildIndex(): Promise<number> {
+    let total = 0;
+    for (const segment of this.listSegments()) {
+      total += await this.storageFor(segment).rebuildIndex();
+    }
+    return total;
+  }
+
+  /**
+   * Seal the active segment and start a new one if its size or period limit is reached
+   */
+  private async rotateIfDue(): Promise<void> {
+    const segments = this.listSegments();
+    const now = new Date();
+    const label = periodLabel(now, this.period);
+
+    if (segments.length === 0) {
+      this.createSegment(label, 0);
+      return;
+    }
+
+    const activeIndex = segments.length - 1;
+    const active = segments[activeIndex];
+    const storage = this.storageFor(active);
+    const last = await storage.getLastEntry();
+
+    // Never seal an empty segment; recover a segment sealed before the next was created
+    if (!last) {
+      return;
+    }
+    if (isSealEntry(last)) {
+      this.createNextSegment(active, label);
+      return;
+    }
+
+    const periodChanged = this.period !== undefined && active.label !== label;
+    const sizeExceeded =
+      this.maxBytes !== undefined && fs.statSync(active.filePath).size >= this.maxBytes;
+    if (!periodChanged && !sizeExceeded) {
+      return;
+    }
+
+    const outputs: SealOutputs = {
+      segment: active.fileName,
+      segmentNumber: await this.segmentNumberOf(segments, activeIndex),
+      entryCount: await storage.count(),
+      finalHash: last.entryHash || '',
+    };
+    await storage.append(this.buildSeal(outputs, last.entryHash));
+    this.createNextSegment(active, label);
+  }
+
+  /**
+   * Logical number of a segment: one past the previous seal, or past the last purged segment
+   * (list positions stop matching once retention removes segment files)
+   */
+  private async segmentNumberOf(segments: SegmentInfo[], index: number): Promise<number> {
+    if (index > 0) {
+      const previous = await this.storageFor(segments[index - 1]).getLastEntry();
+      if (previous && isSealEntry(previous)) {
+        return (previous.outputs as unknown as SealOutputs).segmentNumber + 1;
+      }
+      return index;
+    }
+    const purged = [...collectPurgedSegments(await this.storageFor(segments[0]).query({})).keys()];
+    return purged.length > 0 ? Math.max(...purged) + 1 : 0;
+  }
+
+  private buildSeal(outputs: SealOutputs, previousHash?: string): AuditEntry {
+    const sealWithoutHash: Omit<AuditEntry, 'entryHash' | 'signature'> = {
+      auditId: uuidv4(),
+      timestamp: new Date().toISOString(),
+      tool: SEAL_TOOL,
+      command: SEAL_COMMAND,
+      toolVersion: VERSION,
+      inputs: {},
+      outputs: outputs as unknown as Record<string, unknown>,
+      rationale: `Sealed segment ${outputs.segment} with ${outputs.entryCount} entries`,
+      warnings: [],
+      compliance: {
+        regulations: [],
+        riskFlags: [],
+        humanReviewRequired: false,
+      },
+      operator: 'system',
+      previousHash,
+      keyId: this.signer?.keyId,
+      hashVersion: CURRENT_HASH_VERSION,
+      hashAlgorithm: 'sha256',
+    };
+
+    const entryHash = computeEntryHash(sealWithoutHash);
+    const seal: AuditEntry = { ...sealWithoutHash, entryHash };
+    if (this.signer) {
+      seal.signature = this.signer.sign(entryHash);
+    }
+    return seal;
+  }
+
+  private createNextSegment(active: SegmentInfo, label: string): SegmentInfo {
+    if (this.period !== undefined && active.label !== label) {
+      return this.createSegment(label, 0);
+    }
+    return this.createSegment(active.label, active.part + 1);
+  }
+
+  private createSegment(label: string, part: number): SegmentInfo {
+    // Skip names already taken (e.g. after a clock change)
+    for (;;) {
+      const base = label ? `${this.prefix}-${label}` : this.prefix;
+      const fileName = part === 0 && label
+        ? `${base}.jsonl`
+        : `${base}.${String(part).padStart(4, '0')}.jsonl`;
+      const filePath = path.join(this.directory, fileName);
+
+      if (!fs.existsSync(filePath)) {
+        fs.writeFileSync(filePath, '');
+        return { fileName, filePath, label, part };
+      }
+      part++;
+    }
+  }
+
+  private storageFor(segment: SegmentInfo): FileStorage {
+    let storage = this.segmentStorages.get(segment.filePath);
+    if (!storage) {
+      storage = new FileStorage({ filePath: segment.filePath, createIfMissing: false });
+      this.segmentStorages.set(segment.filePath, storage);
+    }
+    return storage;
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * SQLite storage backend for audit entries
+ * Append-only tables enforced by triggers, with indexed columns for every query filter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import {
+  AuditEntry,
+  AuditStorage,
+  AuditQueryOptions,
+  IntegrityResult,
+} from '../../types';
+import { verifyChain } from '../integrity';
+import { compileFilter } from '../filter';
+
+/**
+ * SQLite storage options
+ */
+export interface SqliteStorageOptions {
+  /** Path to the SQLite database file */
+  filePath: string;
+  /** Create the database if it doesn't exist */
+  createIfMissing?: boolean;
+  /** Maximum time to wait for the write lock in milliseconds (default 10000) */
+  lockTimeoutMs?: number;
+}
+
+const SCHEMA_VERSION = 1;
+
+/**
+ * Normalized tables holding the compliance arrays of each entry
+ */
+const complianceTables: Array<{ table: string; field: 'regulations' | 'riskFlags' | 'checksPerformed' | 'exemptions' }> = [
+  { table: 'entry_regulations', field: 'regulations' },
+  { table: 'entry_risk_flags', field: 'riskFlags' },
+  { table: 'entry_checks_performed', field: 'checksPerformed' },
+  { table: 'entry_exemptions', field: 'exemptions' },
+];
+
+function appendOnlyTriggers(table: string): string {
+  return `
+    CREATE TRIGGER IF NOT EXISTS ${table}_no_update BEFORE UPDATE ON ${table}
+    BEGIN SELECT RAISE(ABORT, 'audit log is append-only: UPDATE rejected'); END;
+    CREATE TRIGGER IF NOT EXISTS ${table}_no_delete BEFORE DELETE ON ${table}
+    BEGIN SELECT RAISE(ABORT, 'audit log is append-only: DELETE rejected'); END;
+  `;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entries (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    audit_id TEXT NOT NULL UNIQUE,
+    timestamp TEXT NOT NULL,
+    timestamp_ms INTEGER NOT NULL,
+    tool TEXT NOT NULL,
+    command TEXT NOT NULL,
+    tool_version TEXT NOT NULL,
+    operator TEXT NOT NULL,
+    session_id TEXT,
+    parent_audit_id TEXT,
+    loan_id TEXT,
+    duration_ms INTEGER,
+    has_risk_flags INTEGER NOT NULL,
+    human_review_required INTEGER NOT NULL,
+    previous_hash TEXT,
+    entry_hash TEXT,
+    entry_json TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_entries_loan_id ON entries (loan_id);
+  CREATE INDEX IF NOT EXISTS idx_entries_tool ON entries (tool);
+  CREATE INDEX IF NOT EXISTS idx_entries_command ON entries (command);
+  CREATE INDEX IF NOT EXISTS idx_entries_operator ON entries (operator);
+  CREATE INDEX IF NOT EXISTS idx_entries_session_id ON entries (session_id);
+  CREATE INDEX IF NOT EXISTS idx_entries_timestamp_ms ON entries (timestamp_ms);
+  CREATE INDEX IF NOT EXISTS idx_entries_has_risk_flags ON entries (has_risk_flags);
+  CREATE INDEX IF NOT EXISTS idx_entries_human_review ON entries (human_review_required);
+  ${appendOnlyTriggers('entries')}
+  ${complianceTables
+    .map(
+      ({ table }) => `
+  CREATE TABLE IF NOT EXISTS ${table} (
+    entry_seq INTEGER NOT NULL REFERENCES entries (seq),
+    value TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_${table}_value ON ${table} (value);
+  CREATE INDEX IF NOT EXISTS idx_${table}_entry ON ${table} (entry_seq);
+  ${appendOnlyTriggers(table)}`
+    )
+    .join('\n')}
+`;
+
+/**
+ * Load the optional SQLite driver
+ */
+function loadDriver(): typeof BetterSqlite3 {
+  try {
+    return require('better-sqlite3');
+  } catch (e: any) {
+    throw new Error(
+      `SQLite storage requires the optional "better-sqlite3" package (${e.message})`
+    );
+  }
+}
+
+/**
+ * Build the WHERE clause for query options
+ */
+function buildWhere(options: AuditQueryOptions): { sql: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  const equals: Array<[string, string | undefined]> = [
+    ['loan_id', options.loanId],
+    ['tool', options.tool],
+    ['command', options.command],
+    ['operator', options.operator],
+    ['session_id', options.sessionId],
+  ];
+  equals.forEach(([column, value]) => {
+    if (value) {
+      clauses.push(`${column} = ?`);
+      params.push(value);
+    }
+  });
+
+  if (options.startDate) {
+    clauses.push('timestamp_ms >= ?');
+    params.push(new Date(options.startDate).getTime());
+  }
+  if (options.endDate) {
+    clauses.push('timestamp_ms <= ?');
+    params.push(new Date(options.endDate).getTime());
+  }
+  if (options.hasRiskFlags) {
+    clauses.push('has_risk_flags = 1');
+  }
+  if (options.humanReviewRequired !== undefined) {
+    clauses.push('human_review_required = ?');
+    params.push(options.humanReviewRequired ? 1 : 0);
+  }
+
+  return {
+    sql: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/**
+ * SqliteStorage - append-only SQLite storage
+ */
+export class SqliteStorage implements AuditStorage {
+  private db: BetterSqlite3.Database;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: SqliteStorageOptions) {
+    const Database = loadDriver();
+    const filePath = path.resolve(options.filePath);
+
+    if (options.createIfMissing !== false) {
+      const dir = path.dirname(filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this.db = new Database(filePath, {
+      fileMustExist: options.createIfMissing === false,
+      timeout: options.lockTimeoutMs ?? 10000,
+    });
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  /**
+   * Append an entry to the audit log
+   */
+  async append(entry: AuditEntry): Promise<void> {
+    const insertEntry = this.db.prepare(`
+      INSERT INTO entries (
+        audit_id, timestamp, timestamp_ms, tool, command, tool_version, operator,
+        session_id, parent_audit_id, loan_id, duration_ms, has_risk_flags,
+        human_review_required, previous_hash, entry_hash, entry_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insert = this.db.transaction((e: AuditEntry) => {
+      const { lastInsertRowid } = insertEntry.run(
+        e.auditId,
+        e.timestamp,
+        new Date(e.timestamp).getTime(),
+        e.tool,
+        e.command,
+        e.toolVersion,
+        e.operator,
+        e.sessionId ?? null,
+        e.parentAuditId ?? null,
+        e.loanId ?? null,
+        e.durationMs ?? null,
+        e.compliance.riskFlags && e.compliance.riskFlags.length > 0 ? 1 : 0,
+        e.compliance.humanReviewRequired ? 1 : 0,
+        e.previousHash ?? null,
+        e.entryHash ?? null,
+        JSON.stringify(e)
+      );
+
+      complianceTables.forEach(({ table, field }) => {
+        const values = e.compliance[field] || [];
+        const stmt = this.db.prepare(`INSERT INTO ${table} (entry_seq, value) VALUES (?, ?)`);
+        values.forEach((value) => stmt.run(lastInsertRowid, value));
+      });
+    });
+
+    insert(entry);
+  }
+
+  /**
+   * Query entries based on options
+   */
+  async query(options: AuditQueryOptions): Promise<AuditEntry[]> {
+    if (options.where) {
+      // Filter expressions have no SQL translation, so they are applied before paginating
+      const { where, offset, limit, ...filters } = options;
+      const matches = (await this.query(filters)).filter(compileFilter(where));
+      return matches.slice(offset || 0, limit ? (offset || 0) + limit : undefined);
+    }
+    const where = buildWhere(options);
+    const rows = this.db
+      .prepare(`SELECT entry_json FROM entries ${where.sql} ORDER BY seq LIMIT ? OFFSET ?`)
+      .all(...where.params, options.limit || -1, options.offset || 0) as Array<{ entry_json: string }>;
+    return rows.map((r) => JSON.parse(r.entry_json));
+  }
+
+  /**
+   * Get entry by audit ID
+   */
+  async getById(auditId: string): Promise<AuditEntry | null> {
+    const row = this.db
+      .prepare('SELECT entry_json FROM entries WHERE audit_id = ?')
+      .get(auditId) as { entry_json: string } | undefined;
+    return row ? JSON.parse(row.entry_json) : null;
+  }
+
+  /**
+   * Get the last entry (for hash chaining)
+   */
+  async getLastEntry(): Promise<AuditEntry | null> {
+    const row = this.db
+      .prepare('SELECT entry_json FROM entries ORDER BY seq DESC LIMIT 1')
+      .get() as { entry_json: string } | undefined;
+    return row ? JSON.parse(row.entry_json) : null;
+  }
+
+  /**
+   * Verify integrity of the audit chain
+   */
+  async verifyIntegrity(fromDate?: string): Promise<IntegrityResult> {
+    const entries: AuditEntry[] = [];
+    const rows = this.db
+      .prepare('SELECT entry_json FROM entries ORDER BY seq')
+      .iterate() as IterableIterator<{ entry_json: string }>;
+    for (const row of rows) {
+      entries.push(JSON.parse(row.entry_json));
+    }
+    return verifyChain(entries, fromDate);
+  }
+
+  /**
+   * Count total entries
+   */
+  async count(options?: AuditQueryOptions): Promise<number> {
+    if (options?.where) {
+      return (await this.query(options)).length;
+    }
+    const where = buildWhere(options || {});
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS n FROM (SELECT seq FROM entries ${where.sql} ORDER BY seq LIMIT ? OFFSET ?)`
+      )
+      .get(...where.params, options?.limit || -1, options?.offset || 0) as { n: number };
+    return row.n;
+  }
+
+  /**
+   * Run a function inside an immediate write transaction
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    // Serialize callers in this process; BEGIN IMMEDIATE serializes other processes
+    const run = this.queue.then(async () => {
+      this.db.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await fn();
+        this.db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Create or upgrade the schema
+   */
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `Audit database schema version ${version} is newer than supported (${SCHEMA_VERSION})`
+      );
+    }
+    if (version < SCHEMA_VERSION) {
+      this.db.exec(SCHEMA);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    }
+  }
+}
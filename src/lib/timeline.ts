@@ -0,0 +1,288 @@
+/**
+ * Loan timelines - every audit entry for a loan in chronological order, with parent trees,
+ * session groups, decision transitions and the gaps between activity
+ */
+
+import { AuditEntry } from '../types';
+import { findParentCycles } from './lineage';
+
+/**
+ * Default quiet period after which a timeline reports a gap
+ */
+export const DEFAULT_GAP_HOURS = 72;
+
+/**
+ * One step in a loan timeline
+ */
+export interface TimelineEvent {
+  auditId: string;
+  timestamp: string;
+  tool: string;
+  command: string;
+  operator: string;
+  rationale: string;
+  /** Decision recorded by the entry, if any */
+  decision?: string;
+  warnings: string[];
+  riskFlags: string[];
+  humanReviewRequired: boolean;
+  sessionId?: string;
+  parentAuditId?: string;
+  /** Depth in the loan's parentAuditId tree (0 for roots) */
+  depth: number;
+}
+
+/**
+ * A node in a parentAuditId tree
+ */
+export interface TimelineNode {
+  auditId: string;
+  children: TimelineNode[];
+}
+
+/**
+ * Entries of a loan that share a session
+ */
+export interface TimelineSession {
+  sessionId: string;
+  auditIds: string[];
+  firstActivity: string;
+  lastActivity: string;
+}
+
+/**
+ * A change in a loan's decision
+ */
+export interface DecisionTransition {
+  auditId: string;
+  timestamp: string;
+  /** Previous decision, null for the first */
+  from: string | null;
+  to: string;
+}
+
+/**
+ * A quiet period between two events
+ */
+export interface TimelineGap {
+  afterAuditId: string;
+  beforeAuditId: string;
+  from: string;
+  to: string;
+  hours: number;
+}
+
+/**
+ * A loan's audit history
+ */
+export interface LoanTimeline {
+  loanId: string;
+  entryCount: number;
+  firstActivity: string | null;
+  lastActivity: string | null;
+  events: TimelineEvent[];
+  /** parentAuditId trees; entries whose parent is not on the loan are roots */
+  trees: TimelineNode[];
+  sessions: TimelineSession[];
+  decisions: DecisionTransition[];
+  gaps: TimelineGap[];
+  warningCount: number;
+  /** Every distinct risk flag raised on the loan */
+  riskFlags: string[];
+  humanReviewCount: number;
+}
+
+/**
+ * Build the timeline of a loan from its entries
+ */
+export function buildLoanTimeline(
+  loanId: string,
+  entries: AuditEntry[],
+  options: { gapHours?: number } = {}
+): LoanTimeline {
+  const gapMs = (options.gapHours ?? DEFAULT_GAP_HOURS) * 3600000;
+  const loanEntries = entries
+    .filter((e) => e.loanId === loanId)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  // Parent trees, limited to the loan's own entries
+  const nodes = new Map<string, TimelineNode>(
+    loanEntries.map((e) => [e.auditId, { auditId: e.auditId, children: [] }])
+  );
+  const cycles = findParentCycles(loanEntries, new Map(loanEntries.map((e) => [e.auditId, e])));
+  const inCycle = new Set([...cycles.values()].flat());
+  const trees: TimelineNode[] = [];
+  loanEntries.forEach((e) => {
+    const parent = e.parentAuditId ? nodes.get(e.parentAuditId) : undefined;
+    // Entries in a parent cycle are treated as roots so every entry appears once
+    if (parent && !inCycle.has(e.auditId)) {
+      parent.children.push(nodes.get(e.auditId)!);
+    } else {
+      trees.push(nodes.get(e.auditId)!);
+    }
+  });
+  // Walk the trees with an explicit stack so deep parent chains cannot overflow the call stack
+  const depths = new Map<string, number>();
+  const stack: Array<[TimelineNode, number]> = trees.map((root) => [root, 0]);
+  while (stack.length > 0) {
+    const [node, depth] = stack.pop()!;
+    depths.set(node.auditId, depth);
+    node.children.forEach((child) => stack.push([child, depth + 1]));
+  }
+
+  const events: TimelineEvent[] = loanEntries.map((e) => ({
+    auditId: e.auditId,
+    timestamp: e.timestamp,
+    tool: e.tool,
+    command: e.command,
+    operator: e.operator,
+    rationale: e.rationale,
+    decision: typeof e.outputs?.decision === 'string' ? e.outputs.decision : undefined,
+    warnings: e.warnings,
+    riskFlags: e.compliance.riskFlags,
+    humanReviewRequired: e.compliance.humanReviewRequired,
+    sessionId: e.sessionId,
+    parentAuditId: e.parentAuditId,
+    depth: depths.get(e.auditId) ?? 0,
+  }));
+
+  const sessions = new Map<string, TimelineSession>();
+  const decisions: DecisionTransition[] = [];
+  const gaps: TimelineGap[] = [];
+  events.forEach((event, i) => {
+    if (event.sessionId) {
+      const session = sessions.get(event.sessionId);
+      if (session) {
+        session.auditIds.push(event.auditId);
+        session.lastActivity = event.timestamp;
+      } else {
+        sessions.set(event.sessionId, {
+          sessionId: event.sessionId,
+          auditIds: [event.auditId],
+          firstActivity: event.timestamp,
+          lastActivity: event.timestamp,
+        });
+      }
+    }
+
+    if (event.decision) {
+      const previous = decisions.length > 0 ? decisions[decisions.length - 1].to : null;
+      if (event.decision !== previous) {
+        decisions.push({ auditId: event.auditId, timestamp: event.timestamp, from: previous, to: event.decision });
+      }
+    }
+
+    if (i > 0) {
+      const prior = events[i - 1];
+      const elapsed = new Date(event.timestamp).getTime() - new Date(prior.timestamp).getTime();
+      if (elapsed > gapMs) {
+        gaps.push({
+          afterAuditId: prior.auditId,
+          beforeAuditId: event.auditId,
+          from: prior.timestamp,
+          to: event.timestamp,
+          hours: Math.round((elapsed / 3600000) * 10) / 10,
+        });
+      }
+    }
+  });
+
+  return {
+    loanId,
+    entryCount: events.length,
+    firstActivity: events.length > 0 ? events[0].timestamp : null,
+    lastActivity: events.length > 0 ? events[events.length - 1].timestamp : null,
+    events,
+    trees,
+    sessions: [...sessions.values()],
+    decisions,
+    gaps,
+    warningCount: events.reduce((n, e) => n + e.warnings.length, 0),
+    riskFlags: [...new Set(events.flatMap((e) => e.riskFlags))],
+    humanReviewCount: events.filter((e) => e.humanReviewRequired).length,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a timeline as a self-contained HTML document (inline styles, no scripts or external assets)
+ */
+export function renderTimelineHtml(timeline: LoanTimeline): string {
+  const gapsBefore = new Map(timeline.gaps.map((g) => [g.beforeAuditId, g]));
+  const transitions = new Map(timeline.decisions.map((d) => [d.auditId, d]));
+  const path = timeline.decisions.map((d) => escapeHtml(d.to)).join(' &rarr; ');
+
+  const rows = timeline.events.map((e) => {
+    const gap = gapsBefore.get(e.auditId);
+    const transition = transitions.get(e.auditId);
+    const notes = [
+      ...e.warnings.map((w) => `<span class="warning">&#9888; ${escapeHtml(w)}</span>`),
+      ...e.riskFlags.map((f) => `<span class="risk">&#9873; ${escapeHtml(f)}</span>`),
+      ...(e.humanReviewRequired ? ['<span class="review">Human review required</span>'] : []),
+    ];
+    const decision = transition
+      ? `${transition.from ? `${escapeHtml(transition.from)} &rarr; ` : ''}<strong>${escapeHtml(transition.to)}</strong>`
+      : escapeHtml(e.decision || '');
+    return [
+      gap ? `<tr class="gap"><td colspan="6">No activity for ${gap.hours} hours</td></tr>` : '',
+      `<tr${notes.length > 0 ? ' class="flagged"' : ''}>`,
+      `<td>${escapeHtml(e.timestamp)}</td>`,
+      `<td style="padding-left:${0.5 + e.depth * 1.5}em">${e.depth > 0 ? '&#8627; ' : ''}${escapeHtml(`${e.tool} ${e.command}`)}</td>`,
+      `<td>${escapeHtml(e.operator)}${e.sessionId ? `<br><small>session ${escapeHtml(e.sessionId)}</small>` : ''}</td>`,
+      `<td>${decision}</td>`,
+      `<td>${escapeHtml(e.rationale)}${notes.length > 0 ? `<br>${notes.join(' ')}` : ''}</td>`,
+      `<td><code>${escapeHtml(e.auditId)}</code></td>`,
+      '</tr>',
+    ].join('');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Loan ${escapeHtml(timeline.loanId)} audit timeline</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9em; }
+th, td { border-bottom: 1px solid #ddd; padding: 0.4em 0.5em; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; }
+tr.flagged { background: #fff8e6; }
+tr.gap td { background: #f0f0f0; color: #666; font-style: italic; text-align: center; }
+.warning { color: #8a5a00; }
+.risk { color: #b00020; }
+.review { color: #0047ab; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 0.2em 1em; }
+dt { font-weight: bold; }
+code { font-size: 0.85em; }
+</style>
+</head>
+<body>
+<h1>Loan ${escapeHtml(timeline.loanId)}</h1>
+<dl>
+<dt>Entries</dt><dd>${timeline.entryCount}</dd>
+<dt>Period</dt><dd>${escapeHtml(timeline.firstActivity || '-')} &ndash; ${escapeHtml(timeline.lastActivity || '-')}</dd>
+<dt>Decisions</dt><dd>${path || 'None recorded'}</dd>
+<dt>Sessions</dt><dd>${timeline.sessions.length}</dd>
+<dt>Warnings</dt><dd>${timeline.warningCount}</dd>
+<dt>Risk flags</dt><dd>${timeline.riskFlags.map(escapeHtml).join(', ') || 'None'}</dd>
+<dt>Human review</dt><dd>${timeline.humanReviewCount}</dd>
+<dt>Gaps</dt><dd>${timeline.gaps.length}</dd>
+</dl>
+<table>
+<thead><tr><th>Time</th><th>Operation</th><th>Operator</th><th>Decision</th><th>Rationale</th><th>Audit ID</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
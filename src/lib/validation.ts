@@ -0,0 +1,190 @@
+/**
+ * Runtime validation of AuditEntryOptions, with optional per-tool/per-command schemas for
+ * inputs and outputs, so malformed entries are rejected before they are hashed into the chain
+ */
+
+import * as fs from 'fs';
+import { AuditEntry, AuditEntryOptions } from '../types';
+import { JsonSchema, auditEntryOptionsSchema, validateSchema } from './schema';
+import { isEncryptedValue } from './encryption';
+
+/**
+ * Default schema registry file, loaded when present
+ */
+export const DEFAULT_SCHEMA_REGISTRY_FILE = './audit-schemas.json';
+
+/**
+ * Schemas for the inputs and outputs of one tool command
+ */
+export interface CommandSchema {
+  tool: string;
+  command: string;
+  inputs?: JsonSchema;
+  outputs?: JsonSchema;
+}
+
+/**
+ * Schema registry file contents
+ */
+export interface SchemaRegistryFile {
+  version?: string;
+  commands: CommandSchema[];
+}
+
+/**
+ * SchemaRegistry - per-tool/per-command schemas; commands without one are only checked
+ * against the AuditEntryOptions schema
+ */
+export class SchemaRegistry {
+  private schemas = new Map<string, CommandSchema>();
+
+  constructor(commands: CommandSchema[] = []) {
+    commands.forEach((c) => this.register(c));
+  }
+
+  /**
+   * Add or replace the schema for a tool command
+   */
+  register(schema: CommandSchema): void {
+    this.schemas.set(`${schema.tool}\0${schema.command}`, schema);
+  }
+
+  /**
+   * Schema registered for a tool command, if any
+   */
+  lookup(tool: string, command: string): CommandSchema | undefined {
+    return this.schemas.get(`${tool}\0${command}`);
+  }
+
+  get size(): number {
+    return this.schemas.size;
+  }
+}
+
+/**
+ * Load a schema registry file
+ */
+export function loadSchemaRegistry(registryPath: string): SchemaRegistry {
+  if (!fs.existsSync(registryPath)) {
+    throw new Error(`Schema registry not found: ${registryPath}`);
+  }
+  const file = JSON.parse(fs.readFileSync(registryPath, 'utf-8')) as SchemaRegistryFile;
+  if (!file || !Array.isArray(file.commands)) {
+    throw new Error(`Invalid schema registry: ${registryPath}`);
+  }
+  file.commands.forEach((c, i) => {
+    if (typeof c.tool !== 'string' || typeof c.command !== 'string') {
+      throw new Error(`Schema registry entry ${i + 1} needs a tool and command`);
+    }
+  });
+  return new SchemaRegistry(file.commands);
+}
+
+/**
+ * Load the given registry, or the default registry file if present
+ */
+export function createSchemaRegistry(registryPath?: string): SchemaRegistry {
+  if (registryPath) {
+    return loadSchemaRegistry(registryPath);
+  }
+  return fs.existsSync(DEFAULT_SCHEMA_REGISTRY_FILE)
+    ? loadSchemaRegistry(DEFAULT_SCHEMA_REGISTRY_FILE)
+    : new SchemaRegistry();
+}
+
+/**
+ * Problems with a value as AuditEntryOptions, including any registered command schema;
+ * empty if it can be logged
+ */
+export function validateEntryOptions(value: unknown, registry?: SchemaRegistry): string[] {
+  const problems = validateSchema(value, auditEntryOptionsSchema);
+  if (problems.length > 0 || !registry) {
+    return problems;
+  }
+  const options = value as AuditEntryOptions;
+  const schema = registry.lookup(options.tool, options.command);
+  if (!schema) {
+    return [];
+  }
+  return [
+    ...(schema.inputs ? validateSchema(options.inputs, schema.inputs, 'inputs') : []),
+    ...(schema.outputs ? validateSchema(options.outputs, schema.outputs, 'outputs') : []),
+  ];
+}
+
+/**
+ * Problems with a logged entry's options; encrypted fields are not checked, and redacted
+ * values are checked as stored
+ */
+export function validateLoggedEntry(entry: AuditEntry, registry?: SchemaRegistry): string[] {
+  const options: Record<string, unknown> = {};
+  Object.keys(auditEntryOptionsSchema.properties || {}).forEach((key) => {
+    const value = entry[key as keyof AuditEntry];
+    if (value !== undefined) {
+      options[key] = value;
+    }
+  });
+
+  const problems = validateSchema(options, auditEntryOptionsSchema, '', isEncryptedValue);
+  const schema = problems.length === 0 && registry?.lookup(entry.tool, entry.command);
+  if (!schema) {
+    return problems;
+  }
+  return [
+    ...(schema.inputs ? validateSchema(entry.inputs, schema.inputs, 'inputs', isEncryptedValue) : []),
+    ...(schema.outputs ? validateSchema(entry.outputs, schema.outputs, 'outputs', isEncryptedValue) : []),
+  ];
+}
+
+/**
+ * An entry that fails validation
+ */
+export interface SchemaCheckFailure {
+  auditId: string;
+  timestamp: string;
+  tool: string;
+  command: string;
+  problems: string[];
+}
+
+/**
+ * Result of checking logged entries against the schemas
+ */
+export interface SchemaCheckResult {
+  valid: boolean;
+  entriesChecked: number;
+  /** Entries whose tool command has a registered schema */
+  entriesWithCommandSchema: number;
+  failures: SchemaCheckFailure[];
+}
+
+/**
+ * Check logged entries against the AuditEntryOptions schema and any registered command schemas
+ */
+export function checkLoggedEntries(entries: AuditEntry[], registry?: SchemaRegistry): SchemaCheckResult {
+  const failures: SchemaCheckFailure[] = [];
+  let entriesWithCommandSchema = 0;
+
+  entries.forEach((entry) => {
+    if (registry?.lookup(entry.tool, entry.command)) {
+      entriesWithCommandSchema++;
+    }
+    const problems = validateLoggedEntry(entry, registry);
+    if (problems.length > 0) {
+      failures.push({
+        auditId: entry.auditId,
+        timestamp: entry.timestamp,
+        tool: entry.tool,
+        command: entry.command,
+        problems,
+      });
+    }
+  });
+
+  return {
+    valid: failures.length === 0,
+    entriesChecked: entries.length,
+    entriesWithCommandSchema,
+    failures,
+  };
+}
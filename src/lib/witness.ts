@@ -0,0 +1,331 @@
+/**
+ * Anchor witnesses - places outside the operator's control where chain heads are published
+ * e.g. "file:/mnt/witness/anchors.jsonl", "git:/srv/audit-anchors" or
+ * "rfc3161:./tokens?tsa=https://tsa.example.com&ca=./tsa-ca.pem"
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { AuditEntry, IntegrityFailure } from '../types';
+import { LogAnchor, indexAnchorLog, verifyAnchor } from './anchor';
+
+/**
+ * Default witness list, used when no --witness is given
+ */
+export const DEFAULT_WITNESSES_FILE = './audit-witnesses.json';
+
+/**
+ * An anchor as recorded by a witness
+ */
+export interface WitnessedAnchor {
+  anchor: LogAnchor;
+  /** Where the witness holds it, e.g. a line number, commit or token file */
+  reference: string;
+}
+
+/**
+ * Anchors a witness holds, and anything wrong with the witness itself
+ */
+export interface WitnessRecords {
+  anchors: WitnessedAnchor[];
+  problems: string[];
+}
+
+/**
+ * A place anchors are published to
+ */
+export interface AnchorWitness {
+  /** The witness URI */
+  name: string;
+  /** Record an anchor; returns where it was recorded */
+  publish(anchor: LogAnchor): Promise<string>;
+  /** Read back every anchor recorded so far, checking the witness has not been altered */
+  records(): Promise<WitnessRecords>;
+}
+
+interface WitnessFileRecord {
+  anchor: LogAnchor;
+  previousHash?: string;
+  recordHash: string;
+}
+
+function recordHash(anchor: LogAnchor, previousHash?: string): string {
+  return crypto.createHash('sha256').update(JSON.stringify({ anchor, previousHash })).digest('hex');
+}
+
+/**
+ * Append-only JSONL file of anchors, hash-chained so edits to it are detectable
+ * Put it on a mount the log's writers cannot modify
+ */
+export class FileWitness implements AnchorWitness {
+  readonly name: string;
+
+  constructor(private filePath: string) {
+    this.name = `file:${filePath}`;
+  }
+
+  private read(): { records: WitnessFileRecord[]; problems: string[] } {
+    if (!fs.existsSync(this.filePath)) {
+      return { records: [], problems: [] };
+    }
+    const records: WitnessFileRecord[] = [];
+    const problems: string[] = [];
+    fs.readFileSync(this.filePath, 'utf-8')
+      .split('\n')
+      .forEach((line, i) => {
+        if (!line.trim()) {
+          return;
+        }
+        try {
+          records.push(JSON.parse(line));
+        } catch (e: any) {
+          problems.push(`line ${i + 1} is not valid JSON`);
+        }
+      });
+    records.forEach((record, i) => {
+      const expectedPrevious = i > 0 ? records[i - 1].recordHash : undefined;
+      if (record.previousHash !== expectedPrevious || record.recordHash !== recordHash(record.anchor, record.previousHash)) {
+        problems.push(`record ${i + 1} has been altered or records were removed before it`);
+      }
+    });
+    return { records, problems };
+  }
+
+  async publish(anchor: LogAnchor): Promise<string> {
+    const { records } = this.read();
+    const previousHash = records[records.length - 1]?.recordHash;
+    const record: WitnessFileRecord = { anchor, previousHash, recordHash: recordHash(anchor, previousHash) };
+    fs.mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+    return `record ${records.length + 1}`;
+  }
+
+  async records(): Promise<WitnessRecords> {
+    const { records, problems } = this.read();
+    return {
+      anchors: records.map((r, i) => ({ anchor: r.anchor, reference: `record ${i + 1}` })),
+      problems,
+    };
+  }
+}
+
+/**
+ * Commits each anchor to an anchors file in an existing git repository
+ * Push the repository somewhere the operator cannot rewrite; verification checks the file
+ * only ever grew from commit to commit
+ */
+export class GitWitness implements AnchorWitness {
+  readonly name: string;
+
+  constructor(
+    private repoDir: string,
+    private fileName = 'anchors.jsonl'
+  ) {
+    this.name = `git:${repoDir}`;
+  }
+
+  private git(...args: string[]): string {
+    return execFileSync('git', ['-C', this.repoDir, ...args], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+  }
+
+  async publish(anchor: LogAnchor): Promise<string> {
+    fs.appendFileSync(path.join(this.repoDir, this.fileName), JSON.stringify(anchor) + '\n');
+    this.git('add', this.fileName);
+    this.git('commit', '-q', '-m', `auditctl anchor: entry ${anchor.entryCount} head ${anchor.headHash.substring(0, 12)}`);
+    return `commit ${this.git('rev-parse', '--short', 'HEAD').trim()}`;
+  }
+
+  async records(): Promise<WitnessRecords> {
+    const problems: string[] = [];
+    const commits = this.git('log', '--reverse', '--format=%h', '--', this.fileName).split('\n').filter(Boolean);
+    if (this.git('status', '--porcelain', '--', this.fileName).trim()) {
+      problems.push(`${this.fileName} has uncommitted changes`);
+    }
+
+    let previous = '';
+    let anchors: WitnessedAnchor[] = [];
+    commits.forEach((commit) => {
+      let content = '';
+      try {
+        content = this.git('show', `${commit}:${this.fileName}`);
+      } catch (e) {
+        // Deleted in this commit
+      }
+      const lines = content.split('\n').filter((l) => l.trim());
+      if (!content.startsWith(previous)) {
+        problems.push(`commit ${commit} rewrote earlier anchors in ${this.fileName}`);
+        anchors = [];
+      }
+      // Attribute each added line to the commit that added it
+      lines.slice(anchors.length).forEach((line) => {
+        anchors.push({ anchor: JSON.parse(line), reference: `commit ${commit} line ${anchors.length + 1}` });
+      });
+      previous = content;
+    });
+    return { anchors, problems };
+  }
+}
+
+/**
+ * Timestamps each anchor with an RFC 3161 time-stamping authority, keeping the anchor and its
+ * token side by side so they can be verified offline against the TSA's CA certificate
+ * Uses the openssl command line tool
+ */
+export class Rfc3161Witness implements AnchorWitness {
+  readonly name: string;
+
+  constructor(
+    private dir: string,
+    private options: { tsaUrl?: string; caFile?: string }
+  ) {
+    this.name = `rfc3161:${dir}`;
+  }
+
+  private openssl(...args: string[]): string {
+    return execFileSync('openssl', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+  }
+
+  async publish(anchor: LogAnchor): Promise<string> {
+    if (!this.options.tsaUrl) {
+      throw new Error(`${this.name} needs a tsa URL to publish`);
+    }
+    fs.mkdirSync(this.dir, { recursive: true });
+    const base = path.join(this.dir, `anchor-${String(anchor.entryCount ?? 0).padStart(10, '0')}-${anchor.headHash.substring(0, 12)}`);
+    fs.writeFileSync(`${base}.json`, JSON.stringify(anchor, null, 2) + '\n');
+    this.openssl('ts', '-query', '-data', `${base}.json`, '-sha256', '-cert', '-out', `${base}.tsq`);
+
+    const response = await fetch(this.options.tsaUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/timestamp-query' },
+      body: fs.readFileSync(`${base}.tsq`),
+      signal: AbortSignal.timeout(30000),
+    });
+    if (!response.ok) {
+      throw new Error(`Time-stamping authority ${this.options.tsaUrl} responded ${response.status}`);
+    }
+    fs.writeFileSync(`${base}.tsr`, Buffer.from(await response.arrayBuffer()));
+    fs.unlinkSync(`${base}.tsq`);
+
+    const problem = this.checkToken(`${base}.json`, `${base}.tsr`);
+    if (problem) {
+      throw new Error(`Time-stamp token for ${path.basename(base)} did not verify: ${problem}`);
+    }
+    return path.basename(`${base}.tsr`);
+  }
+
+  /**
+   * Verify a token against its anchor file; returns a problem or null
+   */
+  private checkToken(dataFile: string, tokenFile: string): string | null {
+    if (!this.options.caFile) {
+      return 'no CA certificate configured (ca=...)';
+    }
+    try {
+      this.openssl('ts', '-verify', '-data', dataFile, '-in', tokenFile, '-CAfile', this.options.caFile);
+      return null;
+    } catch (e: any) {
+      // OpenSSL 3 errors read <pid>:error:<code>:<library>:<function>:<reason>:<file>:<line>:
+      const reason = /:error:[^:]*:[^:]*:[^:]*:([^:\n]+)/.exec(String(e.stderr || ''));
+      return reason ? reason[1].trim() : 'verification failed';
+    }
+  }
+
+  async records(): Promise<WitnessRecords> {
+    if (!fs.existsSync(this.dir)) {
+      return { anchors: [], problems: [] };
+    }
+    const anchors: WitnessedAnchor[] = [];
+    const problems: string[] = [];
+    fs.readdirSync(this.dir)
+      .filter((f) => /^anchor-.*\.json$/.test(f))
+      .sort()
+      .forEach((file) => {
+        const dataFile = path.join(this.dir, file);
+        const tokenFile = dataFile.replace(/\.json$/, '.tsr');
+        if (!fs.existsSync(tokenFile)) {
+          problems.push(`${file} has no time-stamp token`);
+          return;
+        }
+        const problem = this.checkToken(dataFile, tokenFile);
+        if (problem) {
+          problems.push(`${path.basename(tokenFile)} does not verify: ${problem}`);
+          return;
+        }
+        anchors.push({ anchor: JSON.parse(fs.readFileSync(dataFile, 'utf-8')), reference: path.basename(tokenFile) });
+      });
+    return { anchors, problems };
+  }
+}
+
+/**
+ * Create a witness from its URI
+ */
+export function openWitness(uri: string): AnchorWitness {
+  const match = /^([a-z0-9]+):(.+)$/i.exec(uri);
+  if (!match) {
+    throw new Error(`Invalid witness "${uri}" (expected file:, git: or rfc3161:)`);
+  }
+  const [location, query] = match[2].split('?', 2);
+  const params = Object.fromEntries(new URLSearchParams(query || ''));
+  switch (match[1].toLowerCase()) {
+    case 'file':
+      return new FileWitness(location);
+    case 'git':
+      return new GitWitness(location, params.file);
+    case 'rfc3161':
+      return new Rfc3161Witness(location, { tsaUrl: params.tsa, caFile: params.ca });
+    default:
+      throw new Error(`Unsupported witness "${match[1]}" (expected file:, git: or rfc3161:)`);
+  }
+}
+
+/**
+ * Load a witness list file: { "witnesses": ["file:...", "git:..."] }
+ */
+export function loadWitnesses(filePath: string): string[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Witness list not found: ${filePath}`);
+  }
+  const file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!file || !Array.isArray(file.witnesses) || !file.witnesses.every((w: unknown) => typeof w === 'string')) {
+    throw new Error(`Invalid witness list: ${filePath}`);
+  }
+  return file.witnesses;
+}
+
+/**
+ * The given witness URIs, or those in the default witness list if present
+ */
+export function createWitnesses(uris: string[] = []): AnchorWitness[] {
+  const list = uris.length > 0 ? uris : fs.existsSync(DEFAULT_WITNESSES_FILE) ? loadWitnesses(DEFAULT_WITNESSES_FILE) : [];
+  return list.map(openWitness);
+}
+
+/**
+ * Check the log against every anchor each witness holds
+ * Problems with a witness itself are failures too: an altered witness proves nothing
+ */
+export async function verifyWitnessedAnchors(
+  entries: AuditEntry[],
+  witnesses: AnchorWitness[]
+): Promise<{ anchorsChecked: number; failures: IntegrityFailure[] }> {
+  let anchorsChecked = 0;
+  const failures: IntegrityFailure[] = [];
+  // A witness fed every 15 minutes holds tens of thousands of anchors; look each head up in one index
+  const index = indexAnchorLog(entries);
+  for (const witness of witnesses) {
+    const { anchors, problems } = await witness.records();
+    problems.forEach((problem) => {
+      failures.push({ auditId: '', timestamp: '', reason: `Witness ${witness.name}: ${problem}` });
+    });
+    anchors.forEach(({ anchor, reference }) => {
+      anchorsChecked++;
+      verifyAnchor(entries, anchor, index).forEach((f) => {
+        failures.push({ ...f, reason: `Witness ${witness.name} (${reference}): ${f.reason}` });
+      });
+    });
+  }
+  return { anchorsChecked, failures };
+}
@@ -18,6 +18,11 @@ export interface ComplianceInfo {
   exemptions?: string[];
 }
 
+/**
+ * Hash algorithms for entry hashes
+ */
+export type HashAlgorithm = 'sha256' | 'sha512' | 'sha3-256' | 'sha3-512';
+
 /**
  * A single audit entry - the core unit of audit logging
  */
@@ -32,7 +37,7 @@ export interface AuditEntry {
   command: string;
   /** Version of the tool */
   toolVersion: string;
-  /** Input parameters (sanitized - no PII in logs) */
+  /** Input parameters (redacted - no PII in logs) */
   inputs: Record<string, unknown>;
   /** Output results */
   outputs: Record<string, unknown>;
@@ -52,10 +57,20 @@ export interface AuditEntry {
   loanId?: string;
   /** Duration of the operation in milliseconds */
   durationMs?: number;
-  /** SHA-256 hash of the previous entry (for integrity chain) */
+  /** Hash of the previous entry (for integrity chain) */
   previousHash?: string;
-  /** SHA-256 hash of this entry */
+  /** Hash of this entry */
   entryHash?: string;
+  /** How entryHash was computed: absent for legacy entries, 2 for RFC 8785 canonical JSON */
+  hashVersion?: number;
+  /** Algorithm for entryHash from hash version 2 (legacy entries use SHA-256) */
+  hashAlgorithm?: HashAlgorithm;
+  /** ID of the Ed25519 key that signed this entry */
+  keyId?: string;
+  /** Base64 Ed25519 signature over entryHash */
+  signature?: string;
+  /** Version of the redaction policy applied to this entry */
+  redactionPolicy?: string;
 }
 
 /**
@@ -99,6 +114,8 @@ export interface AuditQueryOptions {
   hasRiskFlags?: boolean;
   /** Filter entries requiring human review */
   humanReviewRequired?: boolean;
+  /** Filter expression, e.g. "outputs.decision = declined AND inputs.dti > 0.43" */
+  where?: string;
   /** Maximum number of entries to return */
   limit?: number;
   /** Offset for pagination */
@@ -121,6 +138,8 @@ export interface AuditStorage {
   verifyIntegrity(fromDate?: string): Promise<IntegrityResult>;
   /** Count total entries */
   count(options?: AuditQueryOptions): Promise<number>;
+  /** Run a function while holding an exclusive append lock (optional) */
+  withLock?<T>(fn: () => Promise<T>): Promise<T>;
 }
 
 /**
@@ -137,6 +156,8 @@ export interface IntegrityResult {
   invalidEntries: number;
   /** Details of any integrity failures */
   failures: IntegrityFailure[];
+  /** Findings that do not invalidate the chain, e.g. timestamps going backwards */
+  warnings?: IntegrityWarning[];
 }
 
 /**
@@ -148,6 +169,26 @@ export interface IntegrityFailure {
   reason: string;
   expectedHash?: string;
   actualHash?: string;
+  /** Line number in the log file, for lines that could not be parsed */
+  line?: number;
+}
+
+/**
+ * A log line that could not be parsed as an entry
+ */
+export interface CorruptLine {
+  /** 1-based line number */
+  line: number;
+  reason: string;
+}
+
+/**
+ * Details of an integrity warning
+ */
+export interface IntegrityWarning {
+  auditId: string;
+  timestamp: string;
+  reason: string;
 }
 
 /**
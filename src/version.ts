@@ -0,0 +1,4 @@
+/**
+ * auditctl version - recorded on entries auditctl writes itself
+ */
+export const VERSION = '0.1.0';
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/lib/storage/file';
+import { AuditLogger } from '../src/lib/logger';
+import {
+  buildAdverseActionNotice,
+  loadReasonCodes,
+  logAdverseActionNotice,
+  mapReasonCodes,
+  renderAdverseActionNotice,
+} from '../src/lib/adverse-action';
+
+describe('adverse action notices', () => {
+  let dir: string;
+  let storage: FileStorage;
+  let logger: AuditLogger;
+
+  const base = {
+    tool: 'mortctl',
+    command: 'decide',
+    toolVersion: '1.0.0',
+    inputs: {},
+    outputs: {},
+    rationale: 'Underwriting decision',
+    loanId: 'LOAN-7',
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-adverse-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    logger = new AuditLogger(storage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should map logged reasons to Reg B reason codes', () => {
+    expect(
+      mapReasonCodes(['DTI exceeds maximum', 'Insufficient credit history', 'Applicant moved to Mars'])
+    ).toEqual([
+      { code: '08', description: 'Excessive obligations in relation to income', reason: 'DTI exceeds maximum' },
+      { code: '14', description: 'Limited credit experience', reason: 'Insufficient credit history' },
+      { code: '23', description: 'Applicant moved to Mars', reason: 'Applicant moved to Mars' },
+    ]);
+  });
+
+  it('should use the latest declined or countered decision', async () => {
+    await logger.logDecision({ ...base, decision: 'countered', declineReasons: ['Collateral value too low'] });
+    const declined = await logger.logDecision({
+      ...base,
+      decision: 'declined',
+      declineReasons: ['DTI exceeds maximum', 'Unexplained reason'],
+    });
+    await logger.logDecision({ ...base, loanId: 'LOAN-8', decision: 'declined' });
+
+    const entries = await storage.query({});
+    const notice = buildAdverseActionNotice('LOAN-7', entries);
+    expect(notice.decisionAuditId).toBe(declined.auditId);
+    expect(notice.decision).toBe('declined');
+    expect(notice.reasons.map((r) => r.code)).toEqual(['08', '23']);
+    expect(notice.windowBreached).toBe(false);
+    expect(notice.warnings).toEqual(['No reason code matches "Unexplained reason"; it is listed as other']);
+
+    expect(() => buildAdverseActionNotice('LOAN-9', entries)).toThrow('No declined or countered decision');
+  });
+
+  it('should flag notices past the delivery window', async () => {
+    await logger.logDecision({
+      ...base,
+      outputs: { actionDate: '2026-01-01T00:00:00Z' },
+      decision: 'declined',
+      declineReasons: ['Bankruptcy'],
+    });
+    const entries = await storage.query({});
+
+    const onTime = buildAdverseActionNotice('LOAN-7', entries, { noticeDate: new Date('2026-01-30T00:00:00Z') });
+    expect(onTime.windowBreached).toBe(false);
+    expect(onTime.deadline).toBe('2026-01-31T00:00:00.000Z');
+
+    const late = buildAdverseActionNotice('LOAN-7', entries, { noticeDate: new Date('2026-02-05T00:00:00Z') });
+    expect(late.windowBreached).toBe(true);
+    expect(late.daysElapsed).toBe(35);
+    expect(late.warnings[0]).toContain('past the 30-day delivery deadline');
+  });
+
+  it('should render templates and log the notice as a linked entry', async () => {
+    const decision = await logger.logDecision({ ...base, decision: 'declined', declineReasons: ['Bankruptcy'] });
+    const notice = buildAdverseActionNotice('LOAN-7', await storage.query({}));
+
+    const text = renderAdverseActionNotice(notice, undefined, { creditorName: 'First Bank', applicantName: 'Pat Doe' });
+    expect(text).toContain('First Bank');
+    expect(text).toContain('Applicant: Pat Doe');
+    expect(text).toContain('  - Bankruptcy');
+    expect(text).toContain('Equal Credit Opportunity Act');
+
+    expect(renderAdverseActionNotice(notice, 'Codes: {{ reasonCodes }}')).toBe('Codes: 20');
+    expect(() => renderAdverseActionNotice(notice, '{{ssn}}')).toThrow('Unknown template placeholder');
+    expect(() => renderAdverseActionNotice(notice, '{{constructor}}')).toThrow('Unknown template placeholder');
+    expect(() => renderAdverseActionNotice(notice, '{{toString}}')).toThrow('Unknown template placeholder');
+
+    const entry = await logAdverseActionNotice(logger, notice, text);
+    expect(entry.parentAuditId).toBe(decision.auditId);
+    expect(entry.loanId).toBe('LOAN-7');
+    expect(entry.command).toBe('adverse-action');
+    expect(entry.outputs.reasonCodes).toEqual(['20']);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+  });
+
+  it('should load a custom reason code mapping', () => {
+    const file = path.join(dir, 'reasons.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ version: 'bank-2', otherCode: 'X', reasons: [{ code: 'R1', description: 'Low score', patterns: ['fico'] }] })
+    );
+    const table = loadReasonCodes(file);
+    expect(mapReasonCodes(['FICO below 620', 'Other'], table).map((r) => r.code)).toEqual(['R1', 'X']);
+
+    fs.writeFileSync(file, JSON.stringify({ reasons: [{ code: 'R1' }] }));
+    expect(() => loadReasonCodes(file)).toThrow('needs a code, description and patterns');
+  });
+});
@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { FileStorage } from '../src/lib/storage/file';
+import { AuditLogger } from '../src/lib/logger';
+import { AuditEntry } from '../src/types';
+import {
+  Alert,
+  AlertEngine,
+  AlertRule,
+  AlertSink,
+  LogAlertSink,
+  WebhookAlertSink,
+  loadAlertRules,
+  matchesRule,
+} from '../src/lib/alerting';
+
+describe('alerting', () => {
+  let dir: string;
+  let storage: FileStorage;
+  let sent: Alert[];
+  const sink: AlertSink = { send: async (alert) => void sent.push(alert) };
+
+  const base = {
+    tool: 'decctl',
+    command: 'decide',
+    toolVersion: '1.0.0',
+    inputs: {},
+    outputs: {},
+    rationale: 'Credit decision',
+  };
+
+  const unspecifiedDecline: AlertRule = {
+    name: 'unspecified-decline',
+    severity: 'high',
+    when: {
+      tool: 'decctl',
+      'outputs.decision': 'declined',
+      'outputs.adverseActionReasons': { contains: 'Unspecified reason' },
+    },
+  };
+
+  function entry(overrides: Partial<AuditEntry>): AuditEntry {
+    return {
+      ...base,
+      auditId: `id-${Math.random()}`,
+      timestamp: '2026-03-01T10:00:00.000Z',
+      warnings: [],
+      compliance: { regulations: [], riskFlags: [], humanReviewRequired: false },
+      operator: 'system',
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-alerting-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    sent = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should match field conditions', () => {
+    const e = entry({
+      compliance: { regulations: ['BSA'], riskFlags: ['OFAC_HIT'], humanReviewRequired: true },
+      durationMs: 1500,
+      loanId: 'LOAN-42',
+    });
+    expect(matchesRule(e, { name: 'r', when: { 'compliance.riskFlags': 'OFAC_HIT' } })).toBe(true);
+    expect(matchesRule(e, { name: 'r', when: { 'compliance.riskFlags': { contains: 'PEP' } } })).toBe(false);
+    expect(matchesRule(e, { name: 'r', when: { durationMs: { gt: 1000, lte: 1500 } } })).toBe(true);
+    expect(matchesRule(e, { name: 'r', when: { loanId: { matches: '^LOAN-\\d+$' }, tool: { in: ['decctl'] } } })).toBe(true);
+    expect(matchesRule(e, { name: 'r', when: { sessionId: { exists: true } } })).toBe(false);
+    expect(matchesRule(e, { name: 'r', when: { operator: { notEquals: 'system' } } })).toBe(false);
+  });
+
+  it('should raise alerts from AuditLogger.log', async () => {
+    const logger = new AuditLogger(storage, { alerts: new AlertEngine([unspecifiedDecline], [sink]) });
+    await logger.logDecision({ ...base, decision: 'declined', declineReasons: ['DTI exceeds maximum'] });
+    const declined = await logger.logDecision({ ...base, decision: 'declined', loanId: 'LOAN-1' });
+    await logger.startSession().logDecision({ ...base, decision: 'declined' });
+
+    expect(sent).toHaveLength(2);
+    expect(sent[0]).toMatchObject({
+      rule: 'unspecified-decline',
+      severity: 'high',
+      auditId: declined.auditId,
+      loanId: 'LOAN-1',
+    });
+  });
+
+  it('should fire threshold rules per group within the window', () => {
+    const engine = new AlertEngine(
+      [{ name: 'volume', when: { command: 'decide' }, threshold: { count: 3, window: '1h', groupBy: 'operator' } }],
+      [sink]
+    );
+    const at = (minutes: number, operator = 'bob') =>
+      engine.evaluate(entry({ operator, timestamp: new Date(Date.UTC(2026, 2, 1, 10, minutes)).toISOString() }));
+
+    expect(at(0)).toEqual([]);
+    expect(at(10)).toEqual([]);
+    expect(at(20, 'alice')).toEqual([]);
+    const [alert] = at(30);
+    expect(alert).toMatchObject({ rule: 'volume', count: 3, group: 'bob' });
+    expect(alert.auditIds).toHaveLength(3);
+    expect(alert.message).toBe('volume: 3 matching entries within 1h for operator=bob');
+
+    // The window restarts after an alert, and old matches fall out of it
+    expect(at(40)).toEqual([]);
+    expect(at(120)).toEqual([]);
+    expect(at(130)).toEqual([]);
+    expect(at(135)).toHaveLength(1);
+  });
+
+  it('should seed threshold windows from entries logged by earlier processes', async () => {
+    const rule: AlertRule = { name: 'volume', when: { command: 'decide' }, threshold: { count: 3, window: '1h' } };
+    // Each earlier process had its own engine, so neither alerted
+    for (let i = 0; i < 2; i++) {
+      await new AuditLogger(storage, { alerts: new AlertEngine([rule], [sink]) }).log(base);
+    }
+    expect(sent).toEqual([]);
+
+    const engine = new AlertEngine([rule], [sink]);
+    expect(await engine.seed(storage)).toBe(2);
+    expect(sent).toEqual([]);
+    await new AuditLogger(storage, { alerts: engine }).log(base);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].count).toBe(3);
+
+    // Entries older than the longest window are not read
+    expect(await new AlertEngine([rule], [sink]).seed(storage, Date.now() + 2 * 3600000)).toBe(0);
+  });
+
+  it('should write alerts to a hash-chained alert log', async () => {
+    const alertLog = path.join(dir, 'alerts.jsonl');
+    const logger = new AuditLogger(storage, {
+      alerts: new AlertEngine([{ name: 'ofac', severity: 'critical', when: { 'compliance.riskFlags': 'OFAC_HIT' } }], [
+        new LogAlertSink(alertLog),
+      ]),
+    });
+    const hit = await logger.log({ ...base, compliance: { riskFlags: ['OFAC_HIT'] } });
+    await logger.log({ ...base, compliance: { riskFlags: ['OFAC_HIT'] } });
+
+    const alerts = new FileStorage({ filePath: alertLog });
+    const [first] = await alerts.query({});
+    expect(first).toMatchObject({
+      tool: 'auditctl',
+      command: 'alert',
+      parentAuditId: hit.auditId,
+      outputs: { severity: 'critical' },
+      compliance: { riskFlags: ['alert:ofac'], humanReviewRequired: true },
+    });
+    expect((await alerts.verifyIntegrity()).valid).toBe(true);
+    expect(await alerts.count()).toBe(2);
+  });
+
+  it('should post alerts to a webhook and survive a failing sink', async () => {
+    const received: any[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.writeHead(req.url === '/fail' ? 500 : 204).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      const engine = new AlertEngine(
+        [{ name: 'any', when: { tool: 'decctl' } }],
+        [new WebhookAlertSink(`${url}/fail`), new WebhookAlertSink(`${url}/alerts`)]
+      );
+      const alerts = await engine.process(entry({}));
+      expect(alerts).toHaveLength(1);
+      expect(received).toHaveLength(2);
+      expect(received[1].alert.rule).toBe('any');
+      expect(errors).toHaveBeenCalledWith(expect.stringContaining('Failed to send alert any'));
+    } finally {
+      errors.mockRestore();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('should reject invalid rules files', () => {
+    const file = path.join(dir, 'alerts.json');
+    const write = (content: unknown) => fs.writeFileSync(file, JSON.stringify(content));
+
+    write({ rules: [unspecifiedDecline], sinks: [{ type: 'log', path: './alerts.jsonl' }] });
+    expect(loadAlertRules(file).rules).toHaveLength(1);
+
+    write({ rules: [{ name: 'a', when: { tool: { like: 'x' } } }] });
+    expect(() => loadAlertRules(file)).toThrow('Alert rule 1 (a): unknown operator like on tool');
+    write({ rules: [{ name: 'a', when: {}, threshold: { count: 5, window: '1 week' } }] });
+    expect(() => loadAlertRules(file)).toThrow('Invalid window "1 week"');
+    write({ rules: [{ name: 'a', when: {} }], sinks: [{ type: 'webhook' }] });
+    expect(() => loadAlertRules(file)).toThrow('Alert sink 1 must be');
+    expect(() => loadAlertRules(path.join(dir, 'missing.json'))).toThrow('Alert rules not found');
+  });
+});
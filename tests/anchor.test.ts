@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/lib/storage/file';
+import { AuditLogger, computeEntryHash } from '../src/lib/logger';
+import { createCheckpoint } from '../src/lib/checkpoint';
+import { createAnchor, loadAnchor, saveAnchor, verifyAnchor } from '../src/lib/anchor';
+import { SegmentedFileStorage } from '../src/lib/storage/segmented';
+import { applyRetention } from '../src/lib/retention';
+
+describe('log anchors', () => {
+  let dir: string;
+  let file: string;
+  let storage: FileStorage;
+  let logger: AuditLogger;
+
+  const log = (i: number) =>
+    logger.log({ tool: 'finctl', command: 'calc', toolVersion: '1.0.0', inputs: { i }, outputs: {}, rationale: `Entry ${i}` });
+
+  const rewrite = (lines: string[]) => fs.writeFileSync(file, lines.map((l) => l + '\n').join(''));
+  const readLines = () => fs.readFileSync(file, 'utf-8').trim().split('\n');
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-anchor-'));
+    file = path.join(dir, 'audit.jsonl');
+    storage = new FileStorage({ filePath: file, useIndex: false });
+    logger = new AuditLogger(storage);
+    for (let i = 0; i < 4; i++) {
+      await log(i);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should detect truncation that the chain alone misses', async () => {
+    const anchor = createAnchor(await storage.query({}));
+    expect(anchor.entryCount).toBe(4);
+
+    // Appending after the anchor is fine
+    await log(4);
+    expect(verifyAnchor(await storage.query({}), anchor)).toEqual([]);
+
+    // Dropping the last two lines leaves a valid chain
+    rewrite(readLines().slice(0, 3));
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+    const [failure] = verifyAnchor(await storage.query({}), anchor);
+    expect(failure.reason).toBe('Log has 3 entries but the anchor recorded 4 - entries deleted or truncated');
+    expect(failure.auditId).toBe(anchor.headAuditId);
+  });
+
+  it('should detect a modified head and a moved head', async () => {
+    const anchor = createAnchor(await storage.query({}));
+    const lines = readLines();
+
+    // Rewritten with a recomputed hash, so only the anchor notices
+    const { entryHash, ...head } = JSON.parse(lines[3]);
+    head.rationale = 'Entry three';
+    rewrite([...lines.slice(0, 3), JSON.stringify({ ...head, entryHash: computeEntryHash(head) })]);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+    expect(verifyAnchor(await storage.query({}), anchor)[0].reason).toBe(
+      `Anchored head ${anchor.headAuditId} has been modified`
+    );
+
+    rewrite([lines[0], ...lines.slice(2)]);
+    expect(verifyAnchor(await storage.query({}), anchor)[0].reason).toMatch(
+      /^Anchored head is entry 3 but the anchor recorded entry 4/
+    );
+  });
+
+  it('should load anchors, receipts and checkpoint entries', async () => {
+    const anchorPath = path.join(dir, 'anchor.json');
+    const anchor = createAnchor(await storage.query({}));
+    saveAnchor(anchor, anchorPath);
+    expect(loadAnchor(anchorPath)).toEqual(anchor);
+
+    fs.writeFileSync(anchorPath, JSON.stringify({ receiptHash: 'x', head: anchor }));
+    expect(loadAnchor(anchorPath)).toEqual(anchor);
+
+    const checkpoint = (await createCheckpoint(logger))!;
+    fs.writeFileSync(anchorPath, JSON.stringify(checkpoint));
+    const fromCheckpoint = loadAnchor(anchorPath);
+    expect(fromCheckpoint).toMatchObject({ headHash: checkpoint.entryHash, headAuditId: checkpoint.auditId });
+    expect(fromCheckpoint.entryCount).toBeUndefined();
+    await log(5);
+    expect(verifyAnchor(await storage.query({}), fromCheckpoint)).toEqual([]);
+
+    fs.writeFileSync(anchorPath, JSON.stringify({ headHash: 'abc' }));
+    expect(() => loadAnchor(anchorPath)).toThrow('Invalid anchor');
+    expect(() => createAnchor([])).toThrow('Cannot anchor an empty log');
+  });
+});
+
+describe('anchors across retention purges', () => {
+  let dir: string;
+  let storage: SegmentedFileStorage;
+  let logger: AuditLogger;
+  const later = new Date(Date.now() + 4 * 365 * 24 * 3600 * 1000);
+  const policy = { version: '1', rules: [{ regulation: 'ECOA', retain: '25 months' }] };
+
+  const log = (i: number, regulations = ['ECOA']) =>
+    logger.log({
+      tool: 'finctl',
+      command: 'calc',
+      toolVersion: '1.0.0',
+      inputs: { i },
+      outputs: {},
+      rationale: `Entry ${i}`,
+      compliance: { regulations },
+    });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-anchor-purge-'));
+    // Rotate after every entry, whatever its size
+    storage = new SegmentedFileStorage({ directory: dir, maxBytes: 1 });
+    logger = new AuditLogger(storage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should count purged entries towards anchored positions', async () => {
+    await log(0, []);
+    await log(1);
+    const archived = createAnchor(await storage.query({}));
+    await log(2);
+    await log(3);
+    const head = createAnchor(await storage.query({}));
+
+    // Purges the segments of entries 1 and 2; entry 0 is kept indefinitely and entry 3 is active
+    await applyRetention(logger, storage, policy, { asOf: later });
+    const entries = await storage.query({});
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+    expect(entries.some((e) => e.rationale === 'Entry 1')).toBe(false);
+
+    expect(verifyAnchor(entries, head)).toEqual([]);
+    expect(verifyAnchor(entries, archived)).toEqual([]);
+    expect(verifyAnchor(entries, createAnchor(entries))).toEqual([]);
+    expect(verifyAnchor(entries, { ...head, entryCount: head.entryCount! + 1 })[0].reason).toMatch(
+      /^Anchored head is entry \d+ but the anchor recorded entry \d+/
+    );
+  });
+
+  it('should not accept an unknown head just because its timestamp falls in a purged segment', async () => {
+    await log(0, []);
+    await log(1);
+    const archived = createAnchor(await storage.query({}));
+    await log(2);
+
+    await applyRetention(logger, storage, policy, { asOf: later });
+    const entries = await storage.query({});
+    const forged = { ...archived, headHash: 'f'.repeat(64), headAuditId: 'forged' };
+
+    expect(verifyAnchor(entries, forged)[0].reason).toMatch(/not found/);
+    expect(verifyAnchor(entries, { ...archived, headAuditId: 'forged' })).toEqual([]);
+  });
+});
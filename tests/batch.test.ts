@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { FileStorage } from '../src/lib/storage/file';
+import { AuditLogger } from '../src/lib/logger';
+import { ingestBatch } from '../src/lib/batch';
+import { SchemaRegistry } from '../src/lib/validation';
+
+describe('batch ingestion', () => {
+  let dir: string;
+  let storage: FileStorage;
+  let logger: AuditLogger;
+
+  const entry = {
+    tool: 'los',
+    command: 'backfill',
+    toolVersion: '2.3.0',
+    inputs: { applicant: 'A-1' },
+    outputs: { status: 'funded' },
+    rationale: 'Backfilled from origination system',
+  };
+
+  function jsonl(...lines: unknown[]): Readable {
+    return Readable.from([lines.map((l) => (typeof l === 'string' ? l : JSON.stringify(l))).join('\n')]);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-batch-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    logger = new AuditLogger(storage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should chain a batch onto the existing log in one pass', async () => {
+    const first = await logger.log(entry);
+    const result = await ingestBatch(
+      logger,
+      jsonl({ ...entry, loanId: 'LOAN-1' }, '', { ...entry, loanId: 'LOAN-2' }, { ...entry, loanId: 'LOAN-3' })
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.entries.map((e) => e.loanId)).toEqual(['LOAN-1', 'LOAN-2', 'LOAN-3']);
+    expect(result.entries[0].previousHash).toBe(first.entryHash);
+    expect(result.entries[2].previousHash).toBe(result.entries[1].entryHash);
+
+    const integrity = await storage.verifyIntegrity();
+    expect(integrity.valid).toBe(true);
+    expect(integrity.entriesChecked).toBe(4);
+  });
+
+  it('should write nothing when any line is invalid in all-or-nothing mode', async () => {
+    const result = await ingestBatch(
+      logger,
+      jsonl(entry, '{"tool": "los",', { ...entry, inputs: 'oops' }, { tool: 'los' })
+    );
+
+    expect(result.entries).toEqual([]);
+    expect(result.errors.map((e) => e.line)).toEqual([2, 3, 4]);
+    expect(result.errors[0].message).toContain('invalid JSON');
+    expect(result.errors[1].message).toBe('inputs must be an object (got string)');
+    expect(result.errors[2].message).toContain('missing required fields: command, toolVersion');
+    expect(await storage.count()).toBe(0);
+  });
+
+  it('should log the valid lines in skip-invalid mode', async () => {
+    const result = await ingestBatch(logger, jsonl(entry, '[1, 2]', entry), 'skip-invalid');
+
+    expect(result.entries).toHaveLength(2);
+    expect(result.errors).toEqual([{ line: 2, message: 'must be an object (got array)' }]);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+  });
+
+  it('should append in chunks and hand entries to onEntries in skip-invalid mode', async () => {
+    const chunks: number[] = [];
+    const result = await ingestBatch(logger, jsonl(entry, entry, 'oops', entry, entry, entry), 'skip-invalid', {
+      chunkSize: 2,
+      onEntries: (entries) => {
+        chunks.push(entries.length);
+      },
+    });
+
+    expect(chunks).toEqual([2, 2, 1]);
+    expect(result.entries).toEqual([]);
+    expect(result.logged).toBe(5);
+    expect(result.errors.map((e) => e.line)).toEqual([3]);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+  });
+
+  it('should check lines against the logger\'s command schemas', async () => {
+    const schemas = new SchemaRegistry([
+      { tool: 'los', command: 'backfill', outputs: { type: 'object', required: ['status', 'fundedAt'] } },
+    ]);
+    const result = await ingestBatch(new AuditLogger(storage, { schemas }), jsonl(entry), 'skip-invalid');
+
+    expect(result.entries).toEqual([]);
+    expect(result.errors).toEqual([{ line: 1, message: 'outputs missing required fields: fundedAt' }]);
+  });
+});
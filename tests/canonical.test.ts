@@ -0,0 +1,58 @@
+import { canonicalize } from '../src/lib/canonical';
+import { computeEntryHash } from '../src/lib/logger';
+import { AuditEntry } from '../src/types';
+
+describe('canonicalize', () => {
+  it('should serialize numbers, strings and key order as RFC 8785 does', () => {
+    // Examples from RFC 8785 section 3.2.2 and 3.2.3
+    expect(canonicalize({ numbers: [333333333.33333329, 1e30, 4.5, 2e-3, 0.000000000000000000000000001] })).toBe(
+      '{"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27]}'
+    );
+    expect(canonicalize({ string: '\u20ac$\u000F\u000aA\'\u0042\u0022\u005c\\"/' })).toBe(
+      '{"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    );
+    const sorted = canonicalize({ '\u20ac': 'Euro', '\r': 'CR', '\ufb33': 'Hebrew', '1': 'One', '\ud83d\ude00': 'Smiley', '\u0080': 'Control', '\u00f6': 'Latin' });
+    expect(Object.keys(JSON.parse(sorted))).toEqual(['1', '\r', '\u0080', '\u00f6', '\u20ac', '\ud83d\ude00', '\ufb33']);
+    expect(sorted.startsWith('{"\\r":"CR","1":"One","\u0080":"Control"')).toBe(true);
+  });
+
+  it('should reduce values to JSON the way JSON.stringify does', () => {
+    expect(canonicalize({ b: undefined, a: [undefined, NaN, new Date(0)], c: { z: 1, y: null } })).toBe(
+      '{"a":[null,null,"1970-01-01T00:00:00.000Z"],"c":{"y":null,"z":1}}'
+    );
+  });
+});
+
+describe('computeEntryHash', () => {
+  const entry = (inputs: Record<string, unknown>, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+    auditId: 'a',
+    timestamp: '2026-01-15T00:00:00.000Z',
+    tool: 'finctl',
+    command: 'calc',
+    toolVersion: '1.0.0',
+    inputs,
+    outputs: {},
+    rationale: '',
+    warnings: [],
+    compliance: { regulations: [], riskFlags: [], humanReviewRequired: false },
+    operator: 'test',
+    ...overrides,
+  });
+
+  it('should not depend on key order from hash version 2', () => {
+    const v2 = { hashVersion: 2, hashAlgorithm: 'sha256' as const };
+    expect(computeEntryHash(entry({ a: 1, b: 2 }, v2))).toBe(computeEntryHash(entry({ b: 2, a: 1 }, v2)));
+    // Legacy hashes follow insertion order
+    expect(computeEntryHash(entry({ a: 1, b: 2 }))).not.toBe(computeEntryHash(entry({ b: 2, a: 1 })));
+  });
+
+  it('should hash with the entry\'s algorithm and reject unknown versions', () => {
+    expect(computeEntryHash(entry({}))).toHaveLength(64);
+    expect(computeEntryHash(entry({}, { hashVersion: 2, hashAlgorithm: 'sha512' }))).toHaveLength(128);
+    expect(computeEntryHash(entry({}, { hashVersion: 2, hashAlgorithm: 'sha3-256' }))).toHaveLength(64);
+    expect(computeEntryHash(entry({}, { hashVersion: 2, hashAlgorithm: 'sha3-256' }))).not.toBe(
+      computeEntryHash(entry({}, { hashVersion: 2, hashAlgorithm: 'sha256' }))
+    );
+    expect(() => computeEntryHash(entry({}, { hashVersion: 3 }))).toThrow('Unsupported hash version 3');
+  });
+});
@@ -0,0 +1,151 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '../src/lib/logger';
+import { FileStorage } from '../src/lib/storage/file';
+import { generateKeyPair, loadSigner, trustKey, TrustedKeyRegistry } from '../src/lib/keys';
+import { inclusionPath, merkleRoot, verifyInclusion } from '../src/lib/merkle';
+import {
+  buildInclusionProof,
+  createCheckpoint,
+  CheckpointOutputs,
+  findStoredCheckpoint,
+  verifyInclusionProof,
+} from '../src/lib/checkpoint';
+
+function fakeHashes(n: number): string[] {
+  return Array.from({ length: n }, (_, i) =>
+    crypto.createHash('sha256').update(`entry-${i}`).digest('hex')
+  );
+}
+
+describe('merkle', () => {
+  it('should verify inclusion of every leaf for assorted tree sizes', () => {
+    for (const size of [1, 2, 3, 5, 8, 13]) {
+      const hashes = fakeHashes(size);
+      const root = merkleRoot(hashes);
+      hashes.forEach((hash, i) => {
+        expect(verifyInclusion(hash, i, size, inclusionPath(hashes, i), root)).toBe(true);
+      });
+    }
+  });
+
+  it('should reject a proof for the wrong leaf or root', () => {
+    const hashes = fakeHashes(7);
+    const root = merkleRoot(hashes);
+    const proof = inclusionPath(hashes, 3);
+
+    expect(verifyInclusion(hashes[4], 3, 7, proof, root)).toBe(false);
+    expect(verifyInclusion(hashes[3], 3, 7, proof, merkleRoot(fakeHashes(6)))).toBe(false);
+    expect(verifyInclusion(hashes[3], 2, 7, proof, root)).toBe(false);
+  });
+});
+
+describe('checkpoints', () => {
+  let dir: string;
+  let storage: FileStorage;
+  let logger: AuditLogger;
+  let registry: TrustedKeyRegistry;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-checkpoint-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    const key = generateKeyPair('auditctl', dir);
+    registry = { version: 1, keys: [] };
+    trustKey(registry, key.publicKey, 'auditctl');
+    logger = new AuditLogger(storage, { signer: loadSigner(key.keyId, dir) });
+
+    for (let i = 0; i < 5; i++) {
+      await logger.log({
+        tool: 'finctl',
+        command: 'income w2',
+        toolVersion: '0.1.0',
+        inputs: { i },
+        outputs: {},
+        rationale: `Entry ${i}`,
+        loanId: 'LOAN-1',
+      });
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should checkpoint entries since the previous checkpoint', async () => {
+    const first = await createCheckpoint(logger);
+    expect((first!.outputs as unknown as CheckpointOutputs).startIndex).toBe(0);
+    expect((first!.outputs as unknown as CheckpointOutputs).endIndex).toBe(5);
+
+    expect(await createCheckpoint(logger, { minEntries: 2 })).toBeNull();
+
+    const second = await createCheckpoint(logger);
+    expect((second!.outputs as unknown as CheckpointOutputs).startIndex).toBe(5);
+    expect((second!.outputs as unknown as CheckpointOutputs).treeSize).toBe(1);
+  });
+
+  it('should cover entries appended while a checkpoint is built', async () => {
+    const log = (i: number) =>
+      logger.log({ tool: 'finctl', command: 'income w2', toolVersion: '0.1.0', inputs: { i }, outputs: {}, rationale: `Entry ${i}` });
+
+    await Promise.all([log(5), createCheckpoint(logger), log(6), log(7)]);
+    await createCheckpoint(logger);
+    const entries = await storage.query({});
+
+    for (const entry of entries.slice(0, -1)) {
+      expect(buildInclusionProof(entries, entry.auditId).entry.auditId).toBe(entry.auditId);
+    }
+  });
+
+  it('should produce proofs that verify without the log', async () => {
+    await createCheckpoint(logger);
+    const entries = await storage.query({});
+
+    const proof = buildInclusionProof(entries, entries[2].auditId);
+    const result = verifyInclusionProof(JSON.parse(JSON.stringify(proof)), registry);
+
+    expect(result.valid).toBe(true);
+    expect(result.checks.map((c) => c.name)).toEqual([
+      'Entry hash',
+      'Checkpoint hash',
+      'Checkpoint signature',
+      'Inclusion',
+    ]);
+  });
+
+  it('should fail proofs for tampered entries or untrusted checkpoints', async () => {
+    await createCheckpoint(logger);
+    const entries = await storage.query({});
+    const proof = buildInclusionProof(entries, entries[1].auditId);
+
+    const tampered = { ...proof, entry: { ...proof.entry, rationale: 'Changed' } };
+    expect(verifyInclusionProof(tampered, registry).valid).toBe(false);
+
+    const untrusted = verifyInclusionProof(proof, { version: 1, keys: [] });
+    expect(untrusted.valid).toBe(false);
+    expect(untrusted.checks.find((c) => !c.passed)?.name).toBe('Checkpoint signature');
+  });
+
+  it('should find the checkpoint covering a stored entry', async () => {
+    const first = await createCheckpoint(logger);
+    const later = await logger.log({
+      tool: 'finctl',
+      command: 'income w2',
+      toolVersion: '0.1.0',
+      inputs: {},
+      outputs: {},
+      rationale: 'After the checkpoint',
+    });
+    const entries = await storage.query({});
+
+    expect((await findStoredCheckpoint(storage, entries[0]))?.auditId).toBe(first!.auditId);
+    expect((await findStoredCheckpoint(storage, entries[3]))?.auditId).toBe(first!.auditId);
+    expect(await findStoredCheckpoint(storage, later)).toBeNull();
+  });
+
+  it('should refuse to prove entries not yet covered by a checkpoint', async () => {
+    const entries = await storage.query({});
+    expect(() => buildInclusionProof(entries, entries[0].auditId)).toThrow(/not covered/);
+  });
+});
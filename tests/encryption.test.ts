@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '../src/lib/logger';
+import { FileStorage } from '../src/lib/storage/file';
+import {
+  DataKeyRing,
+  FieldEncryptor,
+  decryptEntry,
+  generateMasterKey,
+  isEncryptedValue,
+  loadMasterKey,
+} from '../src/lib/encryption';
+
+describe('field encryption', () => {
+  let dir: string;
+  let storage: FileStorage;
+  let dataKeys: DataKeyRing;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-encryption-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    dataKeys = new DataKeyRing(path.join(dir, 'data-keys.jsonl'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function logger(keyFile = 'master.key') {
+    const masterKey = fs.existsSync(path.join(dir, keyFile))
+      ? loadMasterKey(path.join(dir, keyFile))
+      : generateMasterKey(path.join(dir, keyFile));
+    return new AuditLogger(storage, {
+      encryptor: new FieldEncryptor({
+        masterKey,
+        dataKeys,
+        fields: ['inputs.income', 'outputs.credit.score'],
+      }),
+    });
+  }
+
+  async function logEntry(auditLogger: AuditLogger) {
+    return auditLogger.log({
+      tool: 'finctl',
+      command: 'income w2',
+      toolVersion: '0.1.0',
+      inputs: { income: { base: 85000, bonus: 5000 }, employer: 'Acme' },
+      outputs: { credit: { score: 742, bureau: 'equifax' } },
+      rationale: 'Income verified',
+    });
+  }
+
+  it('should store only ciphertext for the configured fields', async () => {
+    const entry = await logEntry(logger());
+    const raw = fs.readFileSync(path.join(dir, 'audit.jsonl'), 'utf-8');
+
+    expect(isEncryptedValue(entry.inputs.income)).toBe(true);
+    expect(isEncryptedValue((entry.outputs.credit as any).score)).toBe(true);
+    expect(entry.inputs.employer).toBe('Acme');
+    expect((entry.outputs.credit as any).bureau).toBe('equifax');
+    expect(raw).not.toContain('85000');
+    expect(raw).not.toContain('742');
+  });
+
+  it('should verify without keys and decrypt with them', async () => {
+    const entry = await logEntry(logger());
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+
+    const decrypted = decryptEntry(entry, [loadMasterKey(path.join(dir, 'master.key'))], dataKeys);
+    expect(decrypted.inputs.income).toEqual({ base: 85000, bonus: 5000 });
+    expect((decrypted.outputs.credit as any).score).toBe(742);
+  });
+
+  it('should reject ciphertext moved to another entry', async () => {
+    const auditLogger = logger();
+    const first = await logEntry(auditLogger);
+    const second = await logEntry(auditLogger);
+    const key = loadMasterKey(path.join(dir, 'master.key'));
+
+    const swapped = { ...second, inputs: { ...second.inputs, income: first.inputs.income } };
+    expect(() => decryptEntry(swapped, [key], dataKeys)).toThrow();
+  });
+
+  it('should re-wrap data keys on rotation without changing entry hashes', async () => {
+    const entry = await logEntry(logger());
+    const oldKey = loadMasterKey(path.join(dir, 'master.key'));
+    const newKey = generateMasterKey(path.join(dir, 'master-2.key'));
+
+    expect(await dataKeys.rewrap([oldKey], newKey)).toBe(1);
+
+    const stored = await storage.getById(entry.auditId);
+    expect(stored!.entryHash).toBe(entry.entryHash);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+    expect(decryptEntry(stored!, [newKey], dataKeys).inputs.income).toEqual({ base: 85000, bonus: 5000 });
+    expect(() => decryptEntry(stored!, [oldKey], dataKeys)).toThrow(/not loaded/);
+  });
+
+  it('should keep arrays on paths through them', async () => {
+    const masterKey = generateMasterKey(path.join(dir, 'master.key'));
+    const entry = await new AuditLogger(storage, {
+      encryptor: new FieldEncryptor({ masterKey, dataKeys, fields: ['outputs.items.1.score'] }),
+    }).log({
+      tool: 'decctl',
+      command: 'evaluate',
+      toolVersion: '0.1.0',
+      inputs: {},
+      outputs: { items: [{ score: 700 }, { score: 742 }] },
+      rationale: 'Scored',
+    });
+
+    const items = entry.outputs.items as any[];
+    expect(Array.isArray(items)).toBe(true);
+    expect(items[0]).toEqual({ score: 700 });
+    expect(isEncryptedValue(items[1].score)).toBe(true);
+    expect(decryptEntry(entry, [masterKey], dataKeys).outputs.items).toEqual([{ score: 700 }, { score: 742 }]);
+  });
+
+  it('should reject fields outside inputs and outputs', () => {
+    const masterKey = generateMasterKey(path.join(dir, 'master.key'));
+    expect(() => new FieldEncryptor({ masterKey, dataKeys, fields: ['rationale'] })).toThrow(
+      /Invalid encrypted field/
+    );
+  });
+});
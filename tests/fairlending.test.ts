@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditEntry } from '../src/types';
+import {
+  analyzeFairLending,
+  chiSquare2x2,
+  formatFairLendingCsv,
+  loadLoanAttributes,
+} from '../src/lib/fairlending';
+
+describe('fair lending analysis', () => {
+  let dir: string;
+  let n = 0;
+
+  function decision(loanId: string, value: string, inputs: Record<string, unknown> = {}, timestamp?: string): AuditEntry {
+    n++;
+    return {
+      auditId: `id-${n}`,
+      timestamp: timestamp || new Date(Date.UTC(2026, 0, 1, 0, 0, n)).toISOString(),
+      tool: 'mortctl',
+      command: 'decide',
+      toolVersion: '1.0.0',
+      inputs,
+      outputs: { decision: value },
+      rationale: '',
+      warnings: [],
+      compliance: { regulations: ['ECOA'], riskFlags: [], humanReviewRequired: false },
+      operator: 'system',
+      loanId,
+    };
+  }
+
+  // Group A approves 40 of 50, group B approves 20 of 50
+  function portfolio(): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    for (let i = 0; i < 50; i++) {
+      entries.push(decision(`A-${i}`, i < 40 ? 'approved' : 'declined'));
+      entries.push(decision(`B-${i}`, i < 20 ? 'approved' : i < 45 ? 'declined' : 'countered'));
+    }
+    return entries;
+  }
+
+  function attributes(): Map<string, Record<string, string>> {
+    const map = new Map<string, Record<string, string>>();
+    for (let i = 0; i < 50; i++) {
+      map.set(`A-${i}`, { group: 'A' });
+      map.set(`B-${i}`, { group: 'B' });
+    }
+    return map;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-fairlending-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should compute chi-square p-values', () => {
+    const result = chiSquare2x2(20, 30, 40, 10);
+    expect(result.chiSquare).toBeCloseTo(16.6667, 3);
+    expect(result.pValue).toBeCloseTo(0.0000446, 6);
+    expect(result.minExpected).toBe(20);
+    expect(chiSquare2x2(5, 0, 5, 0).pValue).toBe(1);
+  });
+
+  it('should flag segments that breach the four-fifths rule', () => {
+    const analysis = analyzeFairLending(portfolio(), { attributes: attributes() });
+    expect(analysis.decisions).toBe(100);
+
+    const [group] = analysis.attributes;
+    expect(group.attribute).toBe('group');
+    expect(group.reference).toBe('A');
+    expect(group.segments.map((s) => [s.value, s.approved, s.denied, s.approvalRate, s.adverseImpactRatio])).toEqual([
+      ['A', 40, 10, 0.8, 1],
+      ['B', 20, 30, 0.4, 0.5],
+    ]);
+    const b = group.segments[1];
+    expect(b.fourFifthsBreach).toBe(true);
+    expect(b.significant).toBe(true);
+    expect(b.denialRate).toBe(0.6);
+    expect(group.segments[0].chiSquare).toBeNull();
+  });
+
+  it('should use the latest decision per loan and fall back to entry inputs', () => {
+    const analysis = analyzeFairLending(
+      [
+        decision('L1', 'declined', { segment: 'X' }, '2026-01-01T00:00:00Z'),
+        decision('L1', 'approved', { segment: 'X' }, '2026-01-02T00:00:00Z'),
+        decision('L2', 'referred', { segment: 'Y' }),
+        decision('L3', 'declined', { segment: 'Y' }),
+        decision('L4', 'approved'),
+      ],
+      { by: ['segment'], reference: { segment: 'Y' } }
+    );
+
+    expect(analysis.decisions).toBe(3);
+    expect(analysis.excluded).toBe(1);
+    const [segment] = analysis.attributes;
+    expect(segment.unassigned).toBe(1);
+    expect(segment.reference).toBe('Y');
+    // The reference never approves, so no ratio can be computed
+    expect(segment.segments.map((s) => [s.value, s.approved, s.adverseImpactRatio])).toEqual([
+      ['X', 1, null],
+      ['Y', 0, null],
+    ]);
+    expect(analysis.warnings).toContain('1 decision(s) have no segment attribute and were left out of its analysis');
+    expect(analysis.warnings.some((w) => w.includes('chi-square is unreliable'))).toBe(true);
+
+    expect(() => analyzeFairLending([], {})).toThrow('No attributes to segment by');
+    expect(() => analyzeFairLending(portfolio(), { attributes: attributes(), reference: { group: 'Z' } })).toThrow(
+      'Reference segment group=Z has no decisions'
+    );
+  });
+
+  it('should load CSV and JSONL attributes and format CSV output', () => {
+    const csv = path.join(dir, 'attributes.csv');
+    fs.writeFileSync(csv, 'loanId,race,note\nL1,"Asian",""\r\nL2,White,"has, comma"\n');
+    expect(loadLoanAttributes(csv)).toEqual(
+      new Map([
+        ['L1', { race: 'Asian' }],
+        ['L2', { race: 'White', note: 'has, comma' }],
+      ])
+    );
+
+    const jsonl = path.join(dir, 'attributes.jsonl');
+    fs.writeFileSync(jsonl, '{"loanId":"L1","age":62}\n{"race":"x"}\n');
+    expect(() => loadLoanAttributes(jsonl)).toThrow('Attributes record 2 has no loanId');
+
+    const output = formatFairLendingCsv(analyzeFairLending(portfolio(), { attributes: attributes() }));
+    const lines = output.split('\n');
+    expect(lines[0]).toBe(
+      'attribute,segment,reference,total,approved,denied,approval_rate,denial_rate,adverse_impact_ratio,chi_square,p_value,significant,four_fifths_breach,small_sample'
+    );
+    expect(lines[1]).toBe('group,A,true,50,40,10,0.8,0.2,1,,,false,false,false');
+    expect(lines[2]).toMatch(/^group,B,false,50,20,30,0\.4,0\.6,0\.5,16\.6667,0\.0000\d+,true,true,false$/);
+  });
+});
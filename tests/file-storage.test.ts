@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditLogger, computeEntryHash } from '../src/lib/logger';
+import { FileStorage } from '../src/lib/storage/file';
+import { readLinesBackward, readLinesForward } from '../src/lib/storage/lines';
+
+const TEST_FILE = path.join(__dirname, 'test-storage-audit.jsonl');
+const INDEX_FILE = `${TEST_FILE}.idx`;
+
+function cleanup() {
+  for (const file of [TEST_FILE, INDEX_FILE]) {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  }
+}
+
+async function seed(logger: AuditLogger, count: number) {
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    entries.push(
+      await logger.log({
+        tool: i % 2 === 0 ? 'finctl' : 'decctl',
+        command: i % 3 === 0 ? 'income w2' : 'decide',
+        toolVersion: '0.1.0',
+        inputs: { i },
+        outputs: {},
+        rationale: `Entry ${i}`,
+        loanId: `LOAN-${i % 4}`,
+      })
+    );
+  }
+  return entries;
+}
+
+describe('line readers', () => {
+  beforeEach(cleanup);
+  afterEach(cleanup);
+
+  it('should read lines forward and backward with byte offsets', async () => {
+    fs.writeFileSync(TEST_FILE, 'one\nzwei ü\n\nthree');
+
+    const forward = [];
+    for await (const line of readLinesForward(TEST_FILE)) {
+      forward.push(line);
+    }
+    const backward = [];
+    for await (const line of readLinesBackward(TEST_FILE)) {
+      backward.push(line);
+    }
+
+    expect(forward.map((l) => l.text)).toEqual(['one', 'zwei ü', '', 'three']);
+    expect(forward[1]).toEqual({ text: 'zwei ü', offset: 4, length: 8, complete: true });
+    expect(forward[3].complete).toBe(false);
+    expect(backward.map((l) => l.text)).toEqual(['three', 'zwei ü', 'one']);
+    expect(backward[1]).toEqual(forward[1]);
+  });
+});
+
+describe('FileStorage', () => {
+  let storage: FileStorage;
+  let logger: AuditLogger;
+
+  beforeEach(() => {
+    cleanup();
+    storage = new FileStorage({ filePath: TEST_FILE });
+    logger = new AuditLogger(storage);
+  });
+
+  afterEach(cleanup);
+
+  it('should query using indexed and unindexed filters', async () => {
+    await seed(logger, 12);
+
+    const byLoan = await storage.query({ loanId: 'LOAN-1' });
+    expect(byLoan.map((e) => e.rationale)).toEqual(['Entry 1', 'Entry 5', 'Entry 9']);
+
+    const mixed = await storage.query({ tool: 'finctl', command: 'income w2' });
+    expect(mixed.map((e) => e.rationale)).toEqual(['Entry 0', 'Entry 6']);
+
+    const paged = await storage.query({ tool: 'decctl', offset: 1, limit: 2 });
+    expect(paged.map((e) => e.rationale)).toEqual(['Entry 3', 'Entry 5']);
+
+    expect(await storage.count()).toBe(12);
+    expect(await storage.count({ loanId: 'LOAN-0' })).toBe(3);
+    expect(await storage.count({ operator: 'system', limit: 5 })).toBe(5);
+  });
+
+  it('should stop streaming once the limit is reached', async () => {
+    await seed(logger, 5);
+    fs.appendFileSync(TEST_FILE, 'not json\n');
+
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const entries = await storage.query({ limit: 2 });
+    expect(entries).toHaveLength(2);
+    expect(errorSpy).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should keep the sidecar index in step with appends', async () => {
+    const entries = await seed(logger, 3);
+
+    const indexed = fs
+      .readFileSync(INDEX_FILE, 'utf-8')
+      .trim()
+      .split('\n')
+      .map((l) => JSON.parse(l).auditId);
+    expect(indexed).toEqual(entries.map((e) => e.auditId));
+
+    const found = await storage.getById(entries[1].auditId);
+    expect(found?.rationale).toBe('Entry 1');
+    expect(await storage.getById('missing')).toBeNull();
+  });
+
+  it('should pick up entries appended by another writer', async () => {
+    await seed(logger, 2);
+    expect(await storage.count()).toBe(2);
+
+    const other = new AuditLogger(new FileStorage({ filePath: TEST_FILE, useIndex: false }));
+    const entry = await other.log({
+      tool: 'mortctl',
+      command: 'ltv',
+      toolVersion: '0.1.0',
+      inputs: {},
+      outputs: {},
+      rationale: 'Unindexed append',
+      loanId: 'LOAN-9',
+    });
+
+    const found = await storage.query({ loanId: 'LOAN-9' });
+    expect(found.map((e) => e.auditId)).toEqual([entry.auditId]);
+    expect(await storage.getById(entry.auditId)).not.toBeNull();
+  });
+
+  it('should rebuild a stale index', async () => {
+    await seed(logger, 4);
+    fs.writeFileSync(INDEX_FILE, '{"auditId":"bogus","offset":0,"length":10,"timestamp":"","tool":"x"}\n');
+
+    const fresh = new FileStorage({ filePath: TEST_FILE });
+    expect(await fresh.count({ tool: 'finctl' })).toBe(2);
+    expect(await fresh.rebuildIndex()).toBe(4);
+  });
+
+  it('should read the last entry from the tail of the file', async () => {
+    const entries = await seed(logger, 3);
+    expect((await storage.getLastEntry())?.auditId).toBe(entries[2].auditId);
+
+    const empty = new FileStorage({ filePath: TEST_FILE + '.empty', createIfMissing: false });
+    expect(await empty.getLastEntry()).toBeNull();
+  });
+
+  it('should report corrupt lines as integrity failures', async () => {
+    await seed(logger, 2);
+    fs.appendFileSync(TEST_FILE, '{"auditId": "trunc\nnull\n');
+
+    const result = await storage.verifyIntegrity();
+    expect(result.valid).toBe(false);
+    expect(result.entriesChecked).toBe(4);
+    expect(result.validEntries).toBe(2);
+    expect(result.invalidEntries).toBe(2);
+    expect(result.failures.map((f) => [f.line, f.reason.replace(/:.*/, '')])).toEqual([
+      [3, 'Line 3 is not valid JSON'],
+      [4, 'Line 4 is not an audit entry'],
+    ]);
+  });
+
+  it('should warn about timestamps that go backwards', async () => {
+    const entries = await seed(logger, 3);
+    const lines = fs.readFileSync(TEST_FILE, 'utf-8').trim().split('\n').map((l) => JSON.parse(l));
+    // Rewrite the last entry with an earlier timestamp and a consistent hash
+    const { entryHash, ...rest } = lines[2];
+    rest.timestamp = '2020-01-01T00:00:00.000Z';
+    lines[2] = { ...rest, entryHash: computeEntryHash(rest) };
+    fs.writeFileSync(TEST_FILE, lines.map((l) => JSON.stringify(l)).join('\n') + '\n');
+
+    const result = await new FileStorage({ filePath: TEST_FILE, useIndex: false }).verifyIntegrity();
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      {
+        auditId: entries[2].auditId,
+        timestamp: '2020-01-01T00:00:00.000Z',
+        reason: `Timestamp goes backwards (previous entry ${entries[1].auditId} is at ${entries[1].timestamp})`,
+      },
+    ]);
+  });
+});
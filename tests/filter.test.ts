@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/lib/storage/file';
+import { AuditLogger } from '../src/lib/logger';
+import { compileFilter, parseFilter, parseSort, sortEntries } from '../src/lib/filter';
+import { AuditEntry } from '../src/types';
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    auditId: 'a',
+    timestamp: '2026-01-15T00:00:00.000Z',
+    tool: 'decctl',
+    command: 'decide',
+    toolVersion: '1.0.0',
+    inputs: {},
+    outputs: {},
+    rationale: '',
+    warnings: [],
+    compliance: { regulations: [], riskFlags: [], humanReviewRequired: false },
+    operator: 'test',
+    ...overrides,
+  };
+}
+
+const declined = entry({
+  auditId: 'declined',
+  inputs: { dti: 0.45, borrowers: [{ name: 'A', income: 52000 }] },
+  outputs: { decision: 'declined' },
+  rationale: 'DTI exceeds program maximum',
+  compliance: { regulations: ['ECOA', 'TRID'], riskFlags: ['HIGH_DTI'], humanReviewRequired: true },
+  loanId: 'LOAN-0042',
+});
+const approved = entry({
+  auditId: 'approved',
+  inputs: { dti: 0.31 },
+  outputs: { decision: 'approved' },
+  compliance: { regulations: ['ECOA'], riskFlags: [], humanReviewRequired: false },
+});
+
+describe('filter expressions', () => {
+  const matching = (expression: string) => [declined, approved].filter(compileFilter(expression)).map((e) => e.auditId);
+
+  it('should combine comparisons with AND, OR, NOT and parentheses', () => {
+    expect(
+      matching('tool = decctl AND outputs.decision = declined AND inputs.dti > 0.43 AND regulations contains TRID')
+    ).toEqual(['declined']);
+    expect(matching('inputs.dti <= 0.31 || outputs.decision == "declined"')).toEqual(['declined', 'approved']);
+    expect(matching('NOT (riskFlags contains HIGH_DTI OR humanReviewRequired = true)')).toEqual(['approved']);
+    expect(matching('!loanId exists and outputs.decision != declined')).toEqual(['approved']);
+  });
+
+  it('should support in, matches and JSON paths into nested values', () => {
+    expect(matching('outputs.decision in (approved, countered)')).toEqual(['approved']);
+    expect(matching('rationale matches /program max/i')).toEqual(['declined']);
+    expect(matching("rationale ~ '^DTI'")).toEqual(['declined']);
+    expect(matching('$.inputs.borrowers[0].income >= 50000')).toEqual(['declined']);
+    expect(matching('inputs.borrowers.0.name = A')).toEqual(['declined']);
+    expect(matching('loanId = LOAN-0042 and timestamp >= 2026-01-01')).toEqual(['declined']);
+    expect(matching('inputs.missing > 1')).toEqual([]);
+  });
+
+  it('should point at the problem in parse errors', () => {
+    expect(() => parseFilter('outputs.decision = ')).toThrow('Expected a value after "=" at position 20\n  outputs.decision = \n                     ^');
+    expect(() => parseFilter('outptus.decision = declined')).toThrow('Unknown field "outptus"');
+    expect(() => parseFilter('tool decctl')).toThrow('Expected an operator (=, !=, >, >=, <, <=, contains, in, matches, exists), found "decctl" at position 6');
+    expect(() => parseFilter('(tool = decctl')).toThrow('Unclosed "(" - expected ")" at position 15');
+    expect(() => parseFilter('tool = a b')).toThrow('Unexpected "b" - expected AND, OR or the end of the expression at position 10');
+    expect(() => parseFilter('tool in decctl')).toThrow('Expected a list after "in"');
+    expect(() => parseFilter('rationale matches /(/')).toThrow('Invalid regular expression');
+    expect(() => parseFilter("tool = 'decctl")).toThrow('Unterminated string starting at position 8');
+    expect(() => parseFilter('  ')).toThrow('Empty filter expression');
+  });
+
+  it('should sort by several keys with missing values last', () => {
+    const unscored = entry({ auditId: 'unscored' });
+    const keys = parseSort('-inputs.dti,timestamp');
+    expect(keys.map((k) => [k.field, k.descending])).toEqual([['inputs.dti', true], ['timestamp', false]]);
+    expect(sortEntries([approved, unscored, declined], keys).map((e) => e.auditId)).toEqual([
+      'declined',
+      'approved',
+      'unscored',
+    ]);
+    expect(sortEntries([declined, approved], parseSort('auditId:asc')).map((e) => e.auditId)).toEqual(['approved', 'declined']);
+    expect(() => parseSort('-nope')).toThrow('Unknown field "nope"');
+  });
+
+  it('should filter queries on file storage before paginating', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-filter-'));
+    try {
+      const storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+      const logger = new AuditLogger(storage);
+      for (const dti of [0.5, 0.2, 0.44, 0.6]) {
+        await logger.log({ tool: 'decctl', command: 'decide', toolVersion: '1.0.0', inputs: { dti }, outputs: {}, rationale: '', loanId: 'LOAN-1' });
+      }
+      expect(await storage.count({ loanId: 'LOAN-1', where: 'inputs.dti > 0.43' })).toBe(3);
+      const page = await storage.query({ loanId: 'LOAN-1', where: 'inputs.dti > 0.43', offset: 1, limit: 1 });
+      expect(page.map((e) => e.inputs.dti)).toEqual([0.44]);
+      await expect(storage.query({ where: 'inputs.dti >' })).rejects.toThrow('Expected a value after ">"');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,26 @@
+// Appends entries to a shared audit log from a separate process
+require('./register-ts');
+const { AuditLogger } = require('../../src/lib/logger');
+const { FileStorage } = require('../../src/lib/storage/file');
+
+async function main() {
+  const [filePath, writerId, count] = process.argv.slice(2);
+  const storage = new FileStorage({ filePath, lockTimeoutMs: 30000 });
+  const logger = new AuditLogger(storage, { defaultOperator: writerId });
+
+  for (let i = 0; i < parseInt(count); i++) {
+    await logger.log({
+      tool: writerId,
+      command: 'concurrent',
+      toolVersion: '0.1.0',
+      inputs: { i },
+      outputs: {},
+      rationale: `Entry ${i} from ${writerId}`,
+    });
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/lib/storage/file';
+import { SegmentedFileStorage } from '../src/lib/storage/segmented';
+import { applyRetention } from '../src/lib/retention';
+import { AuditLogger, computeEntryHash } from '../src/lib/logger';
+import { generateKeyPair, loadSigner } from '../src/lib/keys';
+import { HashBridgeOutputs, logHashBridge, verifyHashBridges } from '../src/lib/hash-bridge';
+import { AuditEntry } from '../src/types';
+
+describe('hash migration', () => {
+  let dir: string;
+  let file: string;
+  let storage: FileStorage;
+
+  const log = (logger: AuditLogger, i: number) =>
+    logger.log({ tool: 'finctl', command: 'calc', toolVersion: '1.0.0', inputs: { i, b: 1, a: 2 }, outputs: {}, rationale: '' });
+
+  // Rewrite the log as an older release would have written it: legacy hashes, no version marker
+  const writeLegacyLog = (entries: AuditEntry[]) => {
+    let previousHash: string | undefined;
+    const lines = entries.map(({ entryHash, hashVersion, hashAlgorithm, ...rest }) => {
+      const legacy = { ...rest, previousHash };
+      previousHash = computeEntryHash(legacy);
+      return JSON.stringify({ ...legacy, entryHash: previousHash });
+    });
+    fs.writeFileSync(file, lines.join('\n') + '\n');
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-hash-bridge-'));
+    file = path.join(dir, 'audit.jsonl');
+    storage = new FileStorage({ filePath: file, useIndex: false });
+    const logger = new AuditLogger(storage);
+    await log(logger, 0);
+    await log(logger, 1);
+    writeLegacyLog(await storage.query({}));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should verify logs mixing legacy and canonical entries', async () => {
+    const logger = new AuditLogger(storage, { hashAlgorithm: 'sha3-512' });
+    const entry = await log(logger, 2);
+    expect(entry).toMatchObject({ hashVersion: 2, hashAlgorithm: 'sha3-512' });
+    expect(entry.entryHash).toHaveLength(128);
+
+    const result = await storage.verifyIntegrity();
+    expect(result).toMatchObject({ valid: true, entriesChecked: 3, warnings: [] });
+
+    // Reordering keys inside inputs keeps a canonical entry valid
+    const lines = fs.readFileSync(file, 'utf-8').trim().split('\n');
+    const reordered = JSON.parse(lines[2]);
+    reordered.inputs = { a: 2, b: 1, i: 2 };
+    lines[2] = JSON.stringify(reordered);
+    fs.writeFileSync(file, lines.join('\n') + '\n');
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+  });
+
+  it('should re-seal the log with a signed bridge that detects later edits', async () => {
+    const key = generateKeyPair('auditctl', dir);
+    const logger = new AuditLogger(storage, { signer: loadSigner(key.keyId, dir), hashAlgorithm: 'sha512' });
+
+    const bridge = await logHashBridge(logger);
+    expect(bridge.signature).toBeDefined();
+    expect(bridge.outputs as unknown as HashBridgeOutputs).toMatchObject({
+      sealedEntries: 2,
+      legacyEntries: 2,
+      hashVersion: 2,
+      hashAlgorithm: 'sha512',
+    });
+    expect(verifyHashBridges(await storage.query({}))).toEqual([]);
+    await expect(logHashBridge(logger)).rejects.toThrow('Nothing to migrate: every entry is sealed with hash version 2 and sha512');
+
+    // Re-chaining an edited legacy entry fools the legacy hashes but not the bridge
+    const entries = await storage.query({});
+    writeLegacyLog([{ ...entries[0], rationale: 'edited' }, entries[1]]);
+    fs.appendFileSync(file, entries.slice(2).map((e) => JSON.stringify(e)).join('\n') + '\n');
+    const failures = verifyHashBridges(await storage.query({}));
+    expect(failures.map((f) => f.reason)).toEqual(['Hash bridge seal digest mismatch - entries before it have been altered']);
+  });
+
+  it('should seal the log under the storage lock while other writers append', async () => {
+    const key = generateKeyPair('auditctl', dir);
+    const signed = new AuditLogger(storage, { signer: loadSigner(key.keyId, dir), hashAlgorithm: 'sha512' });
+    const writer = new AuditLogger(storage);
+
+    await Promise.all([log(writer, 2), logHashBridge(signed), log(writer, 3), log(writer, 4)]);
+    expect(verifyHashBridges(await storage.query({}))).toEqual([]);
+  });
+
+  it('should keep bridges verifiable after retention purges segments before them', async () => {
+    const segmented = new SegmentedFileStorage({ directory: path.join(dir, 'segments'), maxBytes: 1, createIfMissing: true });
+    const key = generateKeyPair('auditctl', dir);
+    const signed = new AuditLogger(segmented, { signer: loadSigner(key.keyId, dir), hashAlgorithm: 'sha512' });
+    const expiring = (i: number) =>
+      signed.log({ tool: 'finctl', command: 'calc', toolVersion: '1.0.0', inputs: { i }, outputs: {}, rationale: '', compliance: { regulations: ['ECOA'] } });
+
+    await expiring(0);
+    await log(new AuditLogger(segmented), 1);
+    await expiring(2);
+    const bridge = await logHashBridge(new AuditLogger(segmented, { signer: loadSigner(key.keyId, dir), hashAlgorithm: 'sha3-256' }));
+    expect((bridge.outputs as unknown as HashBridgeOutputs).segments).toHaveLength(3);
+
+    const policy = { version: '1', rules: [{ regulation: 'ECOA', retain: '25 months' }] };
+    const later = new Date(Date.now() + 4 * 365 * 24 * 3600 * 1000);
+    expect((await applyRetention(signed, segmented, policy, { asOf: later })).purgeEntry).not.toBeNull();
+    const entries = await segmented.query({});
+    expect(entries.some((e) => e.inputs.i === 0)).toBe(false);
+    expect(verifyHashBridges(entries)).toEqual([]);
+
+    // The retained segment before the bridge is still sealed by it
+    const retained = entries.find((e) => e.inputs.i === 1)!;
+    const tampered = entries.map((e) => (e === retained ? { ...e, rationale: 'edited' } : e));
+    expect(verifyHashBridges(tampered).map((f) => f.reason)).toEqual([
+      'Hash bridge seal digest mismatch - entries before it have been altered',
+    ]);
+  });
+
+  it('should warn about legacy entries written after canonical ones', async () => {
+    const head = await log(new AuditLogger(storage), 2);
+    // An older release appending to the log
+    const { entryHash, hashVersion, hashAlgorithm, ...rest } = head;
+    const legacy = { ...rest, auditId: 'legacy-writer', previousHash: entryHash };
+    fs.appendFileSync(file, JSON.stringify({ ...legacy, entryHash: computeEntryHash(legacy) }) + '\n');
+
+    const result = await storage.verifyIntegrity();
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        auditId: 'legacy-writer',
+        reason: 'Legacy entry hash after hash version 2 entries - written by an older tool?',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { buildHMDALAR, formatHMDALAR, mapDenialReason } from '../src/lib/hmda';
+import { AuditEntry } from '../src/types';
+
+function makeEntry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    auditId: 'audit-1',
+    timestamp: '2026-03-15T12:00:00.000Z',
+    tool: 'decctl',
+    command: 'decide',
+    toolVersion: '0.1.0',
+    inputs: {},
+    outputs: {},
+    rationale: 'Test',
+    warnings: [],
+    compliance: {
+      regulations: ['ECOA'],
+      riskFlags: [],
+      humanReviewRequired: false,
+    },
+    operator: 'test',
+    ...overrides,
+  };
+}
+
+describe('mapDenialReason', () => {
+  it('should map common reasons to HMDA codes', () => {
+    expect(mapDenialReason('DTI exceeds 43%')).toBe(1);
+    expect(mapDenialReason('Insufficient credit history')).toBe(3);
+    expect(mapDenialReason('Appraisal below purchase price')).toBe(4);
+    expect(mapDenialReason('Unspecified reason')).toBe(9);
+  });
+});
+
+describe('buildHMDALAR', () => {
+  it('should build records from the latest decision per loan', () => {
+    const result = buildHMDALAR([
+      makeEntry({
+        auditId: 'a1',
+        loanId: 'LOAN-1',
+        outputs: { decision: 'referred', loanAmount: 250000 },
+      }),
+      makeEntry({
+        auditId: 'a2',
+        loanId: 'LOAN-1',
+        outputs: {
+          decision: 'declined',
+          loanAmount: 250000,
+          actionDate: '2026-03-20',
+          adverseActionReasons: ['DTI exceeds 43%', 'Too many inquiries'],
+        },
+      }),
+    ]);
+
+    expect(result.missing).toEqual([]);
+    expect(result.records).toHaveLength(1);
+    expect(result.records[0]).toMatchObject({
+      uli: 'LOAN-1',
+      loanAmount: 250000,
+      actionTaken: 3,
+      actionTakenDate: '20260320',
+      denialReasons: [1, 9],
+      denialReasonOther: 'Too many inquiries',
+      sourceAuditId: 'a2',
+    });
+  });
+
+  it('should list loans missing required fields', () => {
+    const result = buildHMDALAR([
+      makeEntry({ loanId: 'LOAN-2', outputs: { decision: 'approved' } }),
+      makeEntry({ loanId: 'LOAN-3', outputs: { monthlyIncome: 8000 } }),
+      makeEntry({ outputs: { decision: 'approved', loanAmount: 1 } }),
+    ]);
+
+    expect(result.records).toHaveLength(0);
+    expect(result.missing).toEqual([
+      { loanId: 'LOAN-2', missing: ['loanAmount'] },
+      { loanId: 'LOAN-3', missing: ['decision'] },
+    ]);
+    expect(result.unassignedEntries).toBe(1);
+  });
+});
+
+describe('formatHMDALAR', () => {
+  it('should write pipe-delimited rows', () => {
+    const output = formatHMDALAR(
+      [
+        {
+          uli: 'LOAN-1',
+          loanAmount: 300000,
+          actionTaken: 1,
+          actionTakenDate: '20260315',
+          denialReasons: [10],
+        },
+      ],
+      'LEI123'
+    );
+
+    expect(output).toBe('2|LEI123|LOAN-1|300000|1|20260315|10||||');
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/lib/storage/file';
+import { createAuditServer } from '../src/lib/http-server';
+
+describe('createAuditServer', () => {
+  let dir: string;
+  let storage: FileStorage;
+  let server: http.Server;
+  let baseUrl: string;
+
+  const TOKEN = 'test-token';
+
+  const entry = {
+    tool: 'finctl',
+    command: 'income w2',
+    toolVersion: '0.1.0',
+    inputs: { base: 85000 },
+    outputs: { monthly: 7083 },
+    rationale: 'W-2 income verified',
+    loanId: 'LOAN-001',
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-http-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    server = createAuditServer({ storage, tokens: [TOKEN] });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function request(pathname: string, init: RequestInit = {}) {
+    return fetch(`${baseUrl}${pathname}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json', ...init.headers },
+    });
+  }
+
+  async function json(response: Response): Promise<any> {
+    return response.json();
+  }
+
+  function post(body: unknown) {
+    return request('/entries', { method: 'POST', body: JSON.stringify(body) });
+  }
+
+  it('should reject requests without a valid token', async () => {
+    const missing = await fetch(`${baseUrl}/entries`);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const wrong = await fetch(`${baseUrl}/entries`, { headers: { Authorization: 'Bearer nope' } });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should require at least one token', () => {
+    expect(() => createAuditServer({ storage, tokens: [] })).toThrow('token');
+  });
+
+  it('should log single and batched entries on one chain', async () => {
+    const single = await post(entry);
+    expect(single.status).toBe(201);
+    const logged = await json(single);
+    expect(logged.auditId).toBeDefined();
+
+    const batch = await post([
+      { ...entry, loanId: 'LOAN-002' },
+      { ...entry, loanId: 'LOAN-003' },
+    ]);
+    expect(batch.status).toBe(201);
+    const { entries } = await json(batch);
+    expect(entries).toHaveLength(2);
+    expect(entries[0].previousHash).toBe(logged.entryHash);
+    expect(entries[1].previousHash).toBe(entries[0].entryHash);
+
+    const verify = await json(await request('/verify'));
+    expect(verify.valid).toBe(true);
+    expect(verify.entriesChecked).toBe(3);
+  });
+
+  it('should reject an invalid batch without writing any of it', async () => {
+    const response = await post([entry, { tool: 'finctl' }]);
+    expect(response.status).toBe(400);
+    expect((await json(response)).error).toContain('Entry 1 missing required fields');
+    expect(await storage.count()).toBe(0);
+
+    const malformed = await request('/entries', { method: 'POST', body: '{not json' });
+    expect(malformed.status).toBe(400);
+  });
+
+  it('should query entries and fetch them by ID', async () => {
+    await post([entry, { ...entry, loanId: 'LOAN-002' }, { ...entry, loanId: 'LOAN-002' }]);
+
+    const byLoan = await json(await request('/entries?loanId=LOAN-002&limit=1'));
+    expect(byLoan).toHaveLength(1);
+    expect(byLoan[0].loanId).toBe('LOAN-002');
+
+    const badLimit = await request('/entries?limit=-1');
+    expect(badLimit.status).toBe(400);
+
+    const found = await request(`/entries/${byLoan[0].auditId}`);
+    expect((await json(found)).auditId).toBe(byLoan[0].auditId);
+
+    const missing = await request('/entries/does-not-exist');
+    expect(missing.status).toBe(404);
+
+    const malformed = await request('/entries/%E0%A4%A');
+    expect(malformed.status).toBe(400);
+  });
+
+  it('should export in compliance formats', async () => {
+    await post(entry);
+
+    const csv = await request('/export/csv');
+    expect(csv.status).toBe(200);
+    expect(csv.headers.get('content-type')).toBe('text/csv');
+    expect(await csv.text()).toContain('LOAN-001');
+
+    const unknown = await request('/export/xml');
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should encode export warnings that are not valid header text', async () => {
+    await post({ ...entry, loanId: 'LOAN-\u00e9\u2713\nX' });
+
+    const hmda = await request('/export/hmda');
+    expect(hmda.status).toBe(200);
+    const warnings = hmda.headers.get('x-export-warnings')!.split('; ').map(decodeURIComponent);
+    expect(warnings[0]).toMatch(/^Loan LOAN-\u00e9\u2713\nX missing required HMDA fields/);
+  });
+});
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '../src/lib/logger';
+import { FileStorage } from '../src/lib/storage/file';
+import {
+  TrustedKeyRegistry,
+  generateKeyPair,
+  listLocalKeys,
+  loadSigner,
+  revokeKey,
+  trustKey,
+  verifySignatures,
+} from '../src/lib/keys';
+
+describe('signed entries', () => {
+  let dir: string;
+  let storage: FileStorage;
+  let registry: TrustedKeyRegistry;
+
+  const entryOptions = {
+    tool: 'finctl',
+    command: 'income w2',
+    toolVersion: '0.1.0',
+    inputs: { base: 85000 },
+    outputs: { monthlyIncome: 7083.33 },
+    rationale: 'Signed entry',
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-keys-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    registry = { version: 1, keys: [] };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should generate keys into the local key store', () => {
+    const key = generateKeyPair('finctl', dir);
+
+    expect(key.keyId).toMatch(/^[0-9a-f]{16}$/);
+    expect(fs.statSync(key.privateKeyPath).mode & 0o777).toBe(0o600);
+    expect(listLocalKeys(dir)).toEqual([
+      expect.objectContaining({ keyId: key.keyId, owner: 'finctl' }),
+    ]);
+  });
+
+  it('should sign entries and verify them against trusted keys', async () => {
+    const key = generateKeyPair('finctl', dir);
+    trustKey(registry, key.publicKey, 'finctl');
+    const logger = new AuditLogger(storage, { signer: loadSigner(key.keyId, dir) });
+
+    const entry = await logger.log(entryOptions);
+
+    expect(entry.keyId).toBe(key.keyId);
+    expect(entry.signature).toBeDefined();
+    expect(verifySignatures([entry], registry)).toEqual([]);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+  });
+
+  it('should fail unsigned, unknown-key and revoked-key entries', async () => {
+    const trusted = generateKeyPair('finctl', dir);
+    const unknown = generateKeyPair('rogue', dir);
+    trustKey(registry, trusted.publicKey, 'finctl');
+
+    const unsigned = await new AuditLogger(storage).log(entryOptions);
+    const rogue = await new AuditLogger(storage, {
+      signer: loadSigner(unknown.keyId, dir),
+    }).log(entryOptions);
+    const signed = await new AuditLogger(storage, {
+      signer: loadSigner(trusted.keyId, dir),
+    }).log(entryOptions);
+
+    expect(verifySignatures([unsigned, rogue, signed], registry).map((f) => f.reason)).toEqual([
+      'Entry is not signed',
+      `Signed with unknown key ${unknown.keyId}`,
+    ]);
+
+    revokeKey(registry, trusted.keyId, 'Compromised');
+    expect(verifySignatures([signed], registry)[0].reason).toMatch(/revoked/);
+  });
+
+  it('should detect a signature that does not match the entry hash', async () => {
+    const key = generateKeyPair('finctl', dir);
+    trustKey(registry, key.publicKey, 'finctl');
+    const logger = new AuditLogger(storage, { signer: loadSigner(key.keyId, dir) });
+
+    const first = await logger.log(entryOptions);
+    const second = await logger.log(entryOptions);
+    const forged = { ...second, signature: first.signature };
+
+    expect(verifySignatures([forged], registry)[0].reason).toBe(
+      'Signature does not match entry hash'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { AuditEntry } from '../src/types';
+import {
+  buildLineage,
+  findLineageIssues,
+  lineageToDot,
+  lineageToMermaid,
+  lineageWarnings,
+} from '../src/lib/lineage';
+
+describe('lineage', () => {
+  function entry(auditId: string, timestamp: string, parentAuditId?: string): AuditEntry {
+    return {
+      auditId,
+      timestamp,
+      tool: 'finctl',
+      command: `step ${auditId}`,
+      toolVersion: '0.1.0',
+      inputs: {},
+      outputs: {},
+      rationale: '',
+      warnings: [],
+      compliance: { regulations: [], riskFlags: [], humanReviewRequired: false },
+      operator: 'system',
+      parentAuditId,
+    };
+  }
+
+  // root -> mid -> {leaf1, leaf2}; leaf1 -> grandleaf
+  const family = [
+    entry('root', '2026-01-01T00:00:00Z'),
+    entry('mid', '2026-01-01T01:00:00Z', 'root'),
+    entry('leaf1', '2026-01-01T02:00:00Z', 'mid'),
+    entry('leaf2', '2026-01-01T03:00:00Z', 'mid'),
+    entry('grandleaf', '2026-01-01T04:00:00Z', 'leaf1'),
+    entry('other', '2026-01-01T05:00:00Z'),
+  ];
+
+  it('should walk ancestors and descendants', () => {
+    const graph = buildLineage('mid', family);
+    expect(graph.ancestors.map((e) => e.auditId)).toEqual(['root']);
+    expect(graph.descendants.map((e) => e.auditId)).toEqual(['leaf1', 'leaf2', 'grandleaf']);
+    expect(graph.edges).toEqual([
+      { parent: 'root', child: 'mid' },
+      { parent: 'mid', child: 'leaf1' },
+      { parent: 'mid', child: 'leaf2' },
+      { parent: 'leaf1', child: 'grandleaf' },
+    ]);
+    expect(graph.issues).toEqual([]);
+
+    const shallow = buildLineage('grandleaf', family, { depth: 1 });
+    expect(shallow.ancestors.map((e) => e.auditId)).toEqual(['leaf1']);
+
+    expect(() => buildLineage('nope', family)).toThrow('Audit entry not found');
+  });
+
+  it('should detect missing parents, parents after children and cycles', () => {
+    const issues = findLineageIssues([
+      ...family,
+      entry('orphan', '2026-01-02T00:00:00Z', 'ghost'),
+      entry('early', '2026-01-01T00:30:00Z', 'other'),
+      entry('c1', '2026-01-03T00:00:00Z', 'c2'),
+      entry('c2', '2026-01-03T01:00:00Z', 'c1'),
+      entry('tail', '2026-01-03T02:00:00Z', 'c2'),
+    ]);
+
+    expect(issues.map((i) => [i.kind, i.auditId])).toEqual([
+      ['missing-parent', 'orphan'],
+      ['parent-after-child', 'early'],
+      ['parent-after-child', 'c1'],
+      ['cycle', 'c1'],
+    ]);
+    expect(issues[3].message).toBe('Parent cycle: c1 -> c2 -> c1');
+  });
+
+  it('should check long parent chains without rewalking them', () => {
+    const chain = Array.from({ length: 20000 }, (_, i) =>
+      entry(`e${i}`, new Date(Date.UTC(2026, 0, 1) + i * 1000).toISOString(), i > 0 ? `e${i - 1}` : undefined)
+    );
+    expect(findLineageIssues(chain)).toEqual([]);
+
+    chain[0] = entry('e0', chain[0].timestamp, 'e19999');
+    const cycles = findLineageIssues(chain).filter((i) => i.kind === 'cycle');
+    expect(cycles.map((i) => i.auditId)).toEqual(['e0']);
+  });
+
+  it('should terminate on cycles and report them on the graph', () => {
+    const entries = [entry('a', '2026-01-01T00:00:00Z', 'b'), entry('b', '2026-01-01T01:00:00Z', 'a')];
+    const graph = buildLineage('a', entries);
+    expect(graph.ancestors.map((e) => e.auditId)).toEqual(['b']);
+    expect(graph.descendants).toEqual([]);
+    expect(graph.issues.map((i) => i.kind)).toContain('cycle');
+
+    expect(lineageWarnings(entries)[0]).toMatchObject({ auditId: 'a', timestamp: '2026-01-01T00:00:00Z' });
+  });
+
+  it('should export DOT and Mermaid with missing parents marked', () => {
+    const graph = buildLineage('orphan', [...family, entry('orphan', '2026-01-02T00:00:00Z', 'ghost-parent')]);
+
+    const dot = lineageToDot(graph);
+    expect(dot).toMatch(/^digraph lineage \{/);
+    expect(dot).toContain('"ghost-parent" -> "orphan";');
+    expect(dot).toContain('style=dashed');
+
+    const mermaid = lineageToMermaid(graph);
+    expect(mermaid.split('\n')).toEqual([
+      'graph TD',
+      '  n0["finctl step orphan<br/>2026-01-02T00:00:00Z<br/>orphan"]',
+      '  n1["missing<br/>ghost-pa"]',
+      '  n1 --> n0',
+      '  style n0 stroke-width:3px',
+      '  style n1 stroke:#c00,stroke-dasharray:4',
+    ]);
+  });
+});
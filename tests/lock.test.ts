@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { AuditLogger } from '../src/lib/logger';
+import { FileStorage } from '../src/lib/storage/file';
+import { FileLock } from '../src/lib/storage/lock';
+
+const TEST_FILE = path.join(__dirname, 'test-lock-audit.jsonl');
+const LOCK_FILE = `${TEST_FILE}.lock`;
+const INDEX_FILE = `${TEST_FILE}.idx`;
+const WRITER = path.join(__dirname, 'fixtures', 'concurrent-writer.js');
+
+function cleanup() {
+  for (const file of [TEST_FILE, LOCK_FILE, INDEX_FILE]) {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  }
+}
+
+function runWriter(writerId: string, count: number): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [WRITER, TEST_FILE, writerId, String(count)], {
+      stdio: ['ignore', 'ignore', 'inherit'],
+    });
+    child.on('error', reject);
+    child.on('exit', (code) => resolve(code));
+  });
+}
+
+describe('FileLock', () => {
+  beforeEach(cleanup);
+  afterEach(cleanup);
+
+  it('should serialize holders within a process', async () => {
+    const lock1 = new FileLock({ lockPath: LOCK_FILE });
+    const lock2 = new FileLock({ lockPath: LOCK_FILE });
+    const order: string[] = [];
+
+    await Promise.all([
+      lock1.withLock(async () => {
+        order.push('1:start');
+        await new Promise((r) => setTimeout(r, 50));
+        order.push('1:end');
+      }),
+      lock2.withLock(async () => {
+        order.push('2:start');
+        order.push('2:end');
+      }),
+    ]);
+
+    expect(order).toEqual(['1:start', '1:end', '2:start', '2:end']);
+    expect(fs.existsSync(LOCK_FILE)).toBe(false);
+  });
+
+  it('should time out when the lock is held', async () => {
+    const holder = new FileLock({ lockPath: LOCK_FILE });
+    const waiter = new FileLock({ lockPath: LOCK_FILE, timeoutMs: 100 });
+
+    await holder.acquire();
+    await expect(waiter.acquire()).rejects.toThrow(/Timed out/);
+    await holder.release();
+  });
+
+  it('should recover a lock left by a dead process', async () => {
+    fs.writeFileSync(
+      LOCK_FILE,
+      JSON.stringify({
+        pid: 999999999,
+        hostname: require('os').hostname(),
+        acquiredAt: new Date().toISOString(),
+        token: 'dead',
+      })
+    );
+
+    const lock = new FileLock({ lockPath: LOCK_FILE, timeoutMs: 500 });
+    await lock.acquire();
+    await lock.release();
+    expect(fs.existsSync(LOCK_FILE)).toBe(false);
+  });
+
+  it('should not take a lock from a live holder that outlasts the stale age', async () => {
+    const holder = new FileLock({ lockPath: LOCK_FILE, staleMs: 50 });
+    const waiter = new FileLock({ lockPath: LOCK_FILE, staleMs: 50, timeoutMs: 200 });
+
+    await holder.acquire();
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(LOCK_FILE, past, past);
+    await expect(waiter.acquire()).rejects.toThrow(/Timed out/);
+    await holder.release();
+  });
+
+  it('should recover a lock older than the stale age', async () => {
+    fs.writeFileSync(LOCK_FILE, '');
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(LOCK_FILE, past, past);
+
+    const lock = new FileLock({ lockPath: LOCK_FILE, timeoutMs: 500, staleMs: 1000 });
+    await lock.acquire();
+    await lock.release();
+    expect(fs.existsSync(LOCK_FILE)).toBe(false);
+  });
+});
+
+describe('FileStorage concurrent appends', () => {
+  beforeEach(cleanup);
+  afterEach(cleanup);
+
+  it('should keep a valid chain with concurrent writers in one process', async () => {
+    const storage = new FileStorage({ filePath: TEST_FILE });
+    const logger = new AuditLogger(storage);
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        logger.log({
+          tool: 'test',
+          command: 'parallel',
+          toolVersion: '1.0.0',
+          inputs: { i },
+          outputs: {},
+          rationale: `Parallel ${i}`,
+        })
+      )
+    );
+
+    const result = await storage.verifyIntegrity();
+    expect(result.entriesChecked).toBe(10);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should keep a valid chain with concurrent writer processes', async () => {
+    const codes = await Promise.all([
+      runWriter('finctl', 10),
+      runWriter('mortctl', 10),
+      runWriter('decctl', 10),
+    ]);
+    expect(codes).toEqual([0, 0, 0]);
+
+    const storage = new FileStorage({ filePath: TEST_FILE });
+    const result = await storage.verifyIntegrity();
+    expect(result.entriesChecked).toBe(30);
+    expect(result.valid).toBe(true);
+  }, 60000);
+});
@@ -5,6 +5,7 @@ import { FileStorage } from '../src/lib/storage/file';
 import { AuditEntry } from '../src/types';
 
 const TEST_FILE = path.join(__dirname, 'test-audit.jsonl');
+const INDEX_FILE = `${TEST_FILE}.idx`;
 
 describe('AuditLogger', () => {
   let storage: FileStorage;
@@ -12,8 +13,10 @@ describe('AuditLogger', () => {
 
   beforeEach(() => {
     // Clean up test file
-    if (fs.existsSync(TEST_FILE)) {
-      fs.unlinkSync(TEST_FILE);
+    for (const file of [TEST_FILE, INDEX_FILE]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
     }
     storage = new FileStorage({ filePath: TEST_FILE });
     logger = new AuditLogger(storage, { defaultOperator: 'test-user' });
@@ -21,8 +24,10 @@ describe('AuditLogger', () => {
 
   afterEach(() => {
     // Clean up
-    if (fs.existsSync(TEST_FILE)) {
-      fs.unlinkSync(TEST_FILE);
+    for (const file of [TEST_FILE, INDEX_FILE]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
     }
   });
 
@@ -180,6 +185,14 @@ describe('sanitizeInputs', () => {
     expect(sanitized.apiKey).toBe('[REDACTED]');
     expect(sanitized.data).toBe('public');
   });
+
+  it('should preserve arrays', () => {
+    const input = { incomes: [85000, 12000], borrowers: [{ name: 'John', ssn: '123-45-6789' }] };
+    const sanitized = sanitizeInputs(input);
+
+    expect(sanitized.incomes).toEqual([85000, 12000]);
+    expect(sanitized.borrowers).toEqual([{ name: 'John', ssn: '[REDACTED]' }]);
+  });
 });
 
 describe('computeEntryHash', () => {
@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { FileStorage } from '../src/lib/storage/file';
+import { McpServer, MCP_TOOLS } from '../src/lib/mcp';
+
+describe('McpServer', () => {
+  let dir: string;
+  let server: McpServer;
+  let nextId = 1;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-mcp-'));
+    server = new McpServer(new FileStorage({ filePath: path.join(dir, 'audit.jsonl') }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function request(method: string, params?: Record<string, unknown>) {
+    return server.handle({ jsonrpc: '2.0', id: nextId++, method, params });
+  }
+
+  async function call(name: string, args: Record<string, unknown>) {
+    const response = await request('tools/call', { name, arguments: args });
+    return response!.result as { content: Array<{ text: string }>; isError?: boolean };
+  }
+
+  const entry = {
+    tool: 'finctl',
+    command: 'income w2',
+    toolVersion: '0.1.0',
+    inputs: { base: 85000 },
+    outputs: { monthly: 7083 },
+    rationale: 'W-2 income verified',
+    loanId: 'LOAN-001',
+  };
+
+  it('should initialize and list tools with generated schemas', async () => {
+    const init = await request('initialize', { protocolVersion: '2024-11-05' });
+    expect((init!.result as any).protocolVersion).toBe('2024-11-05');
+    expect((init!.result as any).serverInfo.name).toBe('auditctl');
+
+    const tools = (await request('tools/list'))!.result as { tools: typeof MCP_TOOLS };
+    expect(tools.tools.map((t) => t.name)).toEqual([
+      'log',
+      'log_decision',
+      'query',
+      'get_entry',
+      'verify',
+      'export',
+    ]);
+
+    const log = tools.tools.find((t) => t.name === 'log')!;
+    expect(log.inputSchema.required).toEqual([
+      'tool',
+      'command',
+      'toolVersion',
+      'inputs',
+      'outputs',
+      'rationale',
+    ]);
+    expect(Object.keys(log.inputSchema.properties!)).toContain('parentAuditId');
+  });
+
+  it('should log, query and fetch entries', async () => {
+    const logged = JSON.parse((await call('log', entry)).content[0].text);
+    const decision = JSON.parse(
+      (await call('log_decision', { ...entry, decision: 'declined', declineReasons: ['DTI too high'] }))
+        .content[0].text
+    );
+
+    expect(decision.outputs.adverseActionReasons).toEqual(['DTI too high']);
+    expect(JSON.parse((await call('query', { loanId: 'LOAN-001' })).content[0].text)).toHaveLength(2);
+    expect(JSON.parse((await call('get_entry', { auditId: logged.auditId })).content[0].text).rationale).toBe(
+      'W-2 income verified'
+    );
+    expect(JSON.parse((await call('verify', {})).content[0].text).valid).toBe(true);
+    expect((await call('export', { format: 'csv' })).content[0].text).toMatch(/^audit_id,/);
+  });
+
+  it('should report tool failures in the result', async () => {
+    const missing = await call('log', { tool: 'finctl' });
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].text).toMatch(/Missing required arguments: command/);
+
+    expect((await call('get_entry', { auditId: 'nope' })).isError).toBe(true);
+    expect((await request('tools/call', { name: 'delete', arguments: {} }))!.error!.code).toBe(-32602);
+  });
+
+  it('should expose loan timelines as resources', async () => {
+    await call('log', entry);
+    await call('log', { ...entry, loanId: 'LOAN-002' });
+
+    const list = (await request('resources/list'))!.result as { resources: Array<{ uri: string }> };
+    expect(list.resources.map((r) => r.uri)).toEqual([
+      'auditctl://loans/LOAN-001/timeline',
+      'auditctl://loans/LOAN-002/timeline',
+    ]);
+
+    const read = (await request('resources/read', { uri: 'auditctl://loans/LOAN-001/timeline' }))!
+      .result as { contents: Array<{ text: string }> };
+    const timeline = JSON.parse(read.contents[0].text);
+    expect(timeline.loanId).toBe('LOAN-001');
+    expect(timeline.entryCount).toBe(1);
+
+    expect((await request('resources/read', { uri: 'auditctl://other' }))!.error!.code).toBe(-32002);
+  });
+
+  it('should ignore notifications and reject unknown methods', async () => {
+    expect(await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+    expect((await request('sampling/createMessage'))!.error!.code).toBe(-32601);
+  });
+
+  it('should serve newline-delimited JSON-RPC over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', (chunk) => chunks.push(chunk.toString()));
+
+    const serving = server.serveStdio(input, output);
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }) + '\n');
+    input.write('not json\n');
+    input.write(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n');
+    input.end();
+    await serving;
+
+    const responses = chunks.join('').trim().split('\n').map((line) => JSON.parse(line));
+    expect(responses).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/lib/storage/file';
+import { AuditLogger } from '../src/lib/logger';
+import { createSigner, loadRegistry, trustKey } from '../src/lib/keys';
+import { buildVerificationReceipt, checkVerificationReceipt } from '../src/lib/receipt';
+
+describe('verification receipts', () => {
+  let dir: string;
+  let storage: FileStorage;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-receipt-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    const logger = new AuditLogger(storage);
+    for (let i = 0; i < 3; i++) {
+      await logger.log({ tool: 'finctl', command: 'calc', toolVersion: '1.0.0', inputs: { i }, outputs: {}, rationale: '' });
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should sign receipts and detect changes to them', async () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    const signer = createSigner(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString());
+    const registry = loadRegistry(path.join(dir, 'missing.json'));
+    trustKey(registry, publicKey.export({ type: 'spki', format: 'pem' }).toString(), 'examiner');
+
+    const entries = await storage.query({});
+    const receipt = buildVerificationReceipt(entries, await storage.verifyIntegrity(), {
+      log: './audit.jsonl',
+      checks: ['hash-chain'],
+      signer,
+    });
+    expect(receipt.head).toMatchObject({ entryCount: 3, headAuditId: entries[2].auditId });
+    expect(receipt.keyId).toBe(signer.keyId);
+    expect(checkVerificationReceipt(receipt, registry)).toBeNull();
+
+    // Round-trips through JSON
+    const stored = JSON.parse(JSON.stringify(receipt));
+    expect(checkVerificationReceipt(stored, registry)).toBeNull();
+
+    stored.result.valid = false;
+    expect(checkVerificationReceipt(stored, registry)).toBe('Receipt hash mismatch - receipt has been modified');
+
+    const unsigned = buildVerificationReceipt(entries, await storage.verifyIntegrity(), {
+      log: './audit.jsonl',
+      checks: ['hash-chain'],
+    });
+    expect(checkVerificationReceipt(unsigned)).toBeNull();
+    expect(checkVerificationReceipt(unsigned, registry)).toBe('Receipt is not signed');
+  });
+});
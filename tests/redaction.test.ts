@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger, computeEntryHash } from '../src/lib/logger';
+import { FileStorage } from '../src/lib/storage/file';
+import { Redactor, RedactionPolicy, loadRedactionPolicy } from '../src/lib/redaction';
+
+const policy: RedactionPolicy = {
+  version: 'test-2',
+  keys: [
+    { pattern: 'ssn', mode: 'last4' },
+    { pattern: '^notes$', mode: 'drop' },
+    { pattern: 'accountNumber', mode: 'hmac' },
+  ],
+  patterns: [
+    { name: 'ssn' },
+    { name: 'email', mode: 'hmac' },
+    { name: 'account', mode: 'last4' },
+    { name: 'phone', mode: 'drop' },
+  ],
+};
+
+describe('Redactor', () => {
+  const redactor = new Redactor(policy, { hmacKey: 'test-key' });
+
+  it('should apply each key mode', () => {
+    const redacted = redactor.redactRecord({
+      ssn: '123-45-6789',
+      notes: 'free text',
+      accountNumber: '000123456789',
+      income: 85000,
+    });
+
+    expect(redacted.ssn).toBe('***-**-6789');
+    expect('notes' in redacted).toBe(false);
+    expect(redacted.accountNumber).toBe(redactor.token('000123456789'));
+    expect(redacted.income).toBe(85000);
+  });
+
+  it('should find PII patterns in free text', () => {
+    const text = redactor.redactText(
+      'SSN 123-45-6789, email jane@example.com, account 9876543210, call 555-123-4567'
+    );
+
+    expect(text).not.toContain('123-45-6789');
+    expect(text).toContain('[REDACTED]');
+    expect(text).toContain(redactor.token('jane@example.com'));
+    expect(text).toContain('******3210');
+    expect(text).not.toContain('555-123-4567');
+  });
+
+  it('should produce stable tokens for the same key', () => {
+    const other = new Redactor(policy, { hmacKey: 'test-key' });
+    const rotated = new Redactor(policy, { hmacKey: 'another-key' });
+
+    expect(other.token('jane@example.com')).toBe(redactor.token('jane@example.com'));
+    expect(rotated.token('jane@example.com')).not.toBe(redactor.token('jane@example.com'));
+  });
+
+  it('should preserve arrays and recurse into them', () => {
+    const redacted = redactor.redactRecord({
+      contacts: ['jane@example.com', 'none'],
+      borrowers: [{ ssn: '123-45-6789' }],
+    });
+
+    expect(Array.isArray(redacted.contacts)).toBe(true);
+    expect(redacted.contacts).toEqual([redactor.token('jane@example.com'), 'none']);
+    expect(redacted.borrowers).toEqual([{ ssn: '***-**-6789' }]);
+  });
+
+  it('should require an HMAC key when tokenizing', () => {
+    expect(() => new Redactor({ ...policy, hmacKeyEnv: 'AUDITCTL_TEST_UNSET_KEY' })).toThrow(
+      /no key is set/
+    );
+  });
+
+  it('should reject unknown modes and patterns', () => {
+    expect(() => new Redactor({ ...policy, keys: [{ pattern: 'x', mode: 'blur' as any }] })).toThrow(
+      /Invalid redaction mode/
+    );
+    expect(() => new Redactor({ version: '1', keys: [], patterns: [{ name: 'passport' }] })).toThrow(
+      /needs a regex/
+    );
+  });
+
+  it('should load a policy file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-redaction-'));
+    const file = path.join(dir, 'redaction.json');
+    fs.writeFileSync(file, JSON.stringify(policy));
+
+    expect(loadRedactionPolicy(file).version).toBe('test-2');
+    fs.writeFileSync(file, JSON.stringify({ keys: [] }));
+    expect(() => loadRedactionPolicy(file)).toThrow(/Invalid redaction policy/);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('AuditLogger redaction', () => {
+  let dir: string;
+  let logger: AuditLogger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-redaction-'));
+    logger = new AuditLogger(new FileStorage({ filePath: path.join(dir, 'audit.jsonl') }), {
+      redactor: new Redactor(policy, { hmacKey: 'test-key' }),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should redact inputs, outputs, rationale and warnings and record the policy', async () => {
+    const entry = await logger.log({
+      tool: 'finctl',
+      command: 'income w2',
+      toolVersion: '0.1.0',
+      inputs: { ssn: '123-45-6789' },
+      outputs: { borrower: { email: 'jane@example.com' } },
+      rationale: 'Verified SSN 123-45-6789',
+      warnings: ['Mismatch for 123-45-6789'],
+    });
+
+    expect(entry.inputs.ssn).toBe('***-**-6789');
+    expect((entry.outputs.borrower as any).email).toMatch(/^tok_/);
+    expect(entry.rationale).toBe('Verified SSN [REDACTED]');
+    expect(entry.warnings).toEqual(['Mismatch for [REDACTED]']);
+    expect(entry.redactionPolicy).toBe('test-2');
+
+    // The policy version is covered by the entry hash
+    const { entryHash, ...rest } = entry;
+    expect(computeEntryHash({ ...rest, redactionPolicy: 'test-1' })).not.toBe(entryHash);
+    expect((await logger.verifyIntegrity()).valid).toBe(true);
+  });
+});
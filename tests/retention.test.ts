@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AuditLogger } from '../src/lib/logger';
+import { SegmentedFileStorage, PurgeOutputs } from '../src/lib/storage/segmented';
+import { RetentionPolicy, applyRetention, entryExpiry } from '../src/lib/retention';
+import { AuditEntry } from '../src/types';
+
+const policy: RetentionPolicy = {
+  version: '2026-1',
+  rules: [
+    { regulation: 'ECOA', retain: '25 months' },
+    { regulation: 'HMDA', retain: '3 years' },
+  ],
+};
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    auditId: 'a',
+    timestamp: '2024-01-15T00:00:00.000Z',
+    tool: 'finctl',
+    command: 'income w2',
+    toolVersion: '0.1.0',
+    inputs: {},
+    outputs: {},
+    rationale: '',
+    warnings: [],
+    compliance: { regulations: [], riskFlags: [], humanReviewRequired: false },
+    operator: 'test',
+    ...overrides,
+  };
+}
+
+describe('entryExpiry', () => {
+  it('should use the longest matching retention', () => {
+    const e = entry({ compliance: { regulations: ['ECOA', 'HMDA'], riskFlags: [], humanReviewRequired: false } });
+    expect(entryExpiry(e, policy)?.toISOString()).toBe('2027-01-15T00:00:00.000Z');
+  });
+
+  it('should fall back to the default retention or keep indefinitely', () => {
+    expect(entryExpiry(entry({}), policy)).toBeNull();
+    expect(entryExpiry(entry({}), { ...policy, defaultRetain: '90 days' })?.toISOString()).toBe(
+      '2024-04-14T00:00:00.000Z'
+    );
+  });
+});
+
+describe('applyRetention', () => {
+  let dir: string;
+  let storage: SegmentedFileStorage;
+  let logger: AuditLogger;
+  const later = new Date(Date.now() + 4 * 365 * 24 * 3600 * 1000);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-retention-'));
+    // Rotate after every entry, so segment boundaries do not depend on entry sizes
+    storage = new SegmentedFileStorage({ directory: dir, maxBytes: 1 });
+    logger = new AuditLogger(storage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function seed(count: number, from = 0) {
+    for (let i = from; i < from + count; i++) {
+      await logger.log({
+        tool: 'finctl',
+        command: 'income w2',
+        toolVersion: '0.1.0',
+        inputs: { i },
+        outputs: {},
+        rationale: `Entry ${i}`,
+        loanId: `LOAN-${i}`,
+        compliance: { regulations: ['ECOA'] },
+      });
+    }
+  }
+
+  it('should archive expired segments and keep the chain verifiable', async () => {
+    await seed(10);
+    const before = storage.listSegments();
+
+    const result = await applyRetention(logger, storage, policy, { asOf: later });
+    const outputs = result.purgeEntry!.outputs as unknown as PurgeOutputs;
+
+    // Every sealed segment expired; only the entry in the active segment remains
+    expect(outputs.segments).toHaveLength(before.length - 1);
+    expect(outputs.policyVersion).toBe('2026-1');
+    const remaining = (await storage.query({ tool: 'finctl' })).map((e) => e.rationale);
+    expect(remaining).toEqual(['Entry 9']);
+
+    const archived = zlib.gunzipSync(fs.readFileSync(path.join(dir, outputs.segments[0].archive)));
+    expect(archived.toString()).toContain('Entry 0');
+
+    const verification = await storage.verifyIntegrity();
+    expect(verification.valid).toBe(true);
+    expect((await storage.query({})).some((e) => e.rationale === 'Entry 0')).toBe(false);
+  });
+
+  it('should purge nothing before entries expire', async () => {
+    await seed(6);
+    const result = await applyRetention(logger, storage, policy, {});
+
+    expect(result.purgeEntry).toBeNull();
+    expect(result.segments.every((s) => !s.purge)).toBe(true);
+  });
+
+  it('should exclude segments holding loans under legal hold', async () => {
+    await seed(10);
+    const held = { ...policy, legalHolds: [{ loanId: 'LOAN-4', reason: 'Litigation' }] };
+
+    const result = await applyRetention(logger, storage, held, { asOf: later });
+    const kept = result.segments.find((s) => s.heldLoanIds.includes('LOAN-4'))!;
+
+    expect(kept.purge).toBe(false);
+    expect(kept.reason).toMatch(/Legal hold/);
+    expect((result.purgeEntry!.outputs as unknown as PurgeOutputs).heldLoanIds).toEqual(['LOAN-4']);
+    expect(await storage.query({ loanId: 'LOAN-4' })).toHaveLength(1);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+  });
+
+  it('should carry earlier purges forward so repeated purges stay verifiable', async () => {
+    await seed(6);
+    await applyRetention(logger, storage, policy, { asOf: later });
+    await seed(6, 6);
+
+    const result = await applyRetention(logger, storage, policy, { asOf: later });
+    const outputs = result.purgeEntry!.outputs as unknown as PurgeOutputs;
+
+    expect(outputs.previouslyPurged.length).toBeGreaterThan(0);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+  });
+
+  it('should keep numbering seals after a purge', async () => {
+    await seed(4);
+    await applyRetention(logger, storage, policy, { asOf: later });
+    await seed(2, 4);
+
+    const verification = await storage.verifyIntegrity();
+    expect(verification.failures).toEqual([]);
+    expect(verification.valid).toBe(true);
+  });
+
+  it('should not change anything on a dry run', async () => {
+    await seed(6);
+    const before = storage.listSegments().map((s) => s.fileName);
+
+    const result = await applyRetention(logger, storage, policy, { asOf: later, dryRun: true });
+
+    expect(result.segments.some((s) => s.purge)).toBe(true);
+    expect(result.purgeEntry).toBeNull();
+    expect(storage.listSegments().map((s) => s.fileName)).toEqual(before);
+  });
+});
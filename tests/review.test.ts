@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/lib/storage/file';
+import { AuditLogger } from '../src/lib/logger';
+import {
+  buildReviewQueue,
+  buildReviewSlaReport,
+  filterByReviewStatus,
+  logReview,
+} from '../src/lib/review';
+
+describe('human review workflow', () => {
+  let dir: string;
+  let storage: FileStorage;
+  let logger: AuditLogger;
+
+  const base = {
+    tool: 'mortctl',
+    command: 'decide',
+    toolVersion: '1.0.0',
+    inputs: {},
+    outputs: {},
+    rationale: 'Underwriting decision',
+  };
+
+  const hoursAfter = (timestamp: string, hours: number) =>
+    new Date(new Date(timestamp).getTime() + hours * 3600000);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-review-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+    logger = new AuditLogger(storage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append a linked review entry and remove it from the queue', async () => {
+    const declined = await logger.logDecision({ ...base, loanId: 'LOAN-1', decision: 'declined' });
+    const other = await logger.logDecision({ ...base, loanId: 'LOAN-2', decision: 'declined' });
+    await logger.logDecision({ ...base, loanId: 'LOAN-3', decision: 'approved' });
+
+    expect(buildReviewQueue(await storage.query({})).map((p) => p.entry.auditId).sort()).toEqual(
+      [declined.auditId, other.auditId].sort()
+    );
+
+    const review = await logReview(logger, declined, {
+      outcome: 'approved',
+      reviewer: 'jane.underwriter',
+      notes: 'Compensating factors documented',
+    });
+    expect(review.parentAuditId).toBe(declined.auditId);
+    expect(review.loanId).toBe('LOAN-1');
+    expect(review.operator).toBe('jane.underwriter');
+    expect(review.outputs).toEqual({ outcome: 'approved', notes: 'Compensating factors documented' });
+    expect(review.compliance.humanReviewRequired).toBe(false);
+    expect(review.compliance.regulations).toEqual(['ECOA', 'Reg B']);
+
+    const entries = await storage.query({});
+    expect(buildReviewQueue(entries).map((p) => p.entry.auditId)).toEqual([other.auditId]);
+    expect(filterByReviewStatus(entries, entries, 'completed').map((e) => e.auditId)).toEqual([declined.auditId]);
+    expect(filterByReviewStatus(entries, entries, 'pending').map((e) => e.auditId)).toEqual([other.auditId]);
+  });
+
+  it('should refuse duplicate reviews and entries that do not need review', async () => {
+    const declined = await logger.logDecision({ ...base, decision: 'declined' });
+    const approved = await logger.logDecision({ ...base, decision: 'approved' });
+    const first = await logReview(logger, declined, { outcome: 'rejected', reviewer: 'a' });
+
+    await expect(
+      logReview(logger, declined, { outcome: 'approved', reviewer: 'b' })
+    ).rejects.toThrow(`Entry ${declined.auditId} was already rejected by a (${first.auditId})`);
+    await expect(logReview(logger, approved, { outcome: 'approved', reviewer: 'b' })).rejects.toThrow(
+      'does not require human review'
+    );
+  });
+
+  it('should record only one of several concurrent reviews', async () => {
+    const declined = await logger.logDecision({ ...base, decision: 'declined' });
+    const results = await Promise.allSettled([
+      logReview(logger, declined, { outcome: 'approved', reviewer: 'a' }),
+      logReview(logger, declined, { outcome: 'rejected', reviewer: 'b' }),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect((await storage.query({})).filter((e) => e.parentAuditId === declined.auditId)).toHaveLength(1);
+  });
+
+  it('should report ages, overdue reviews and late completions against the SLA', async () => {
+    const reviewed = await logger.logDecision({ ...base, decision: 'declined' });
+    const pending = await logger.logDecision({ ...base, decision: 'declined' });
+    const entries = await storage.query({});
+    // A review logged 50 hours after its entry
+    entries.push({
+      ...entries[0],
+      auditId: 'review-1',
+      timestamp: hoursAfter(reviewed.timestamp, 50).toISOString(),
+      tool: 'auditctl',
+      command: 'review',
+      outputs: { outcome: 'approved' },
+      operator: 'jane',
+      parentAuditId: reviewed.auditId,
+      compliance: { ...entries[0].compliance, humanReviewRequired: false },
+    });
+
+    const now = hoursAfter(pending.timestamp, 72);
+    const [queued] = buildReviewQueue(entries, { now });
+    expect(queued.entry.auditId).toBe(pending.auditId);
+    expect(queued.ageHours).toBeCloseTo(72, 1);
+    expect(queued.overdue).toBe(true);
+    expect(buildReviewQueue(entries, { now, slaHours: 96 })[0].overdue).toBe(false);
+
+    const report = buildReviewSlaReport(entries, { now });
+    expect(report).toMatchObject({
+      slaHours: 48,
+      required: 2,
+      completed: 1,
+      pending: 1,
+      overdue: 1,
+      completedLate: 1,
+      medianHoursToReview: 50,
+    });
+    expect(report.lateReviews).toEqual([
+      {
+        auditId: reviewed.auditId,
+        reviewAuditId: 'review-1',
+        outcome: 'approved',
+        reviewer: 'jane',
+        hoursToReview: 50,
+        late: true,
+      },
+    ]);
+  });
+});
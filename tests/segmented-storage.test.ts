@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '../src/lib/logger';
+import {
+  SegmentedFileStorage,
+  SealOutputs,
+  isSealEntry,
+  periodLabel,
+} from '../src/lib/storage/segmented';
+
+describe('SegmentedFileStorage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-segments-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function seed(storage: SegmentedFileStorage, count: number) {
+    const logger = new AuditLogger(storage);
+    for (let i = 0; i < count; i++) {
+      await logger.log({
+        tool: 'finctl',
+        command: 'income w2',
+        toolVersion: '0.1.0',
+        inputs: { i },
+        outputs: {},
+        rationale: `Entry ${i}`,
+        loanId: `LOAN-${i % 2}`,
+      });
+    }
+  }
+
+  it('should rotate by size and chain across seals', async () => {
+    const storage = new SegmentedFileStorage({ directory: dir, maxBytes: 1000 });
+    await seed(storage, 8);
+
+    const segments = storage.listSegments();
+    expect(segments.length).toBeGreaterThan(2);
+    expect(segments[0].fileName).toBe('audit.0000.jsonl');
+
+    const entries = await storage.query({});
+    const seals = entries.filter(isSealEntry);
+    expect(seals).toHaveLength(segments.length - 1);
+    expect((seals[0].outputs as unknown as SealOutputs).segmentNumber).toBe(0);
+
+    // The first entry after a seal chains to it
+    const afterSeal = entries[entries.indexOf(seals[0]) + 1];
+    expect(afterSeal.previousHash).toBe(seals[0].entryHash);
+
+    const result = await storage.verifyIntegrity();
+    expect(result.valid).toBe(true);
+    expect(result.entriesChecked).toBe(8 + seals.length);
+  });
+
+  it('should query, count and look up across segments', async () => {
+    const storage = new SegmentedFileStorage({ directory: dir, maxBytes: 1000 });
+    await seed(storage, 8);
+
+    const loan = await storage.query({ loanId: 'LOAN-1' });
+    expect(loan.map((e) => e.rationale)).toEqual(['Entry 1', 'Entry 3', 'Entry 5', 'Entry 7']);
+
+    const paged = await storage.query({ loanId: 'LOAN-0', offset: 1, limit: 2 });
+    expect(paged.map((e) => e.rationale)).toEqual(['Entry 2', 'Entry 4']);
+
+    expect(await storage.count({ loanId: 'LOAN-0' })).toBe(4);
+    expect((await storage.getById(loan[0].auditId))?.rationale).toBe('Entry 1');
+  });
+
+  it('should rotate when the calendar period changes', async () => {
+    const storage = new SegmentedFileStorage({ directory: dir, period: 'month' });
+    await seed(storage, 2);
+
+    // Pretend the active segment belongs to an earlier month
+    const current = storage.listSegments()[0];
+    fs.renameSync(current.filePath, path.join(dir, 'audit-2000-01.jsonl'));
+    fs.renameSync(`${current.filePath}.idx`, path.join(dir, 'audit-2000-01.jsonl.idx'));
+    await seed(storage, 1);
+
+    expect(storage.listSegments().map((s) => s.fileName)).toEqual([
+      'audit-2000-01.jsonl',
+      `audit-${periodLabel(new Date(), 'month')}.jsonl`,
+    ]);
+    expect((await storage.verifyIntegrity()).valid).toBe(true);
+  });
+
+  it('should detect a missing segment', async () => {
+    const storage = new SegmentedFileStorage({ directory: dir, maxBytes: 1000 });
+    await seed(storage, 16);
+
+    const segments = storage.listSegments();
+    expect(segments.length).toBeGreaterThan(3);
+    fs.unlinkSync(segments[1].filePath);
+    const result = await new SegmentedFileStorage({ directory: dir }).verifyIntegrity();
+
+    expect(result.valid).toBe(false);
+    expect(result.failures.map((f) => f.reason).join('\n')).toMatch(/missing or reordered/);
+  });
+
+  it('should detect reordered segments', async () => {
+    const storage = new SegmentedFileStorage({ directory: dir, maxBytes: 1000 });
+    await seed(storage, 8);
+
+    const [first, second] = storage.listSegments();
+    const tmp = path.join(dir, 'swap.tmp');
+    fs.renameSync(first.filePath, tmp);
+    fs.renameSync(second.filePath, first.filePath);
+    fs.renameSync(tmp, second.filePath);
+
+    const result = await new SegmentedFileStorage({ directory: dir }).verifyIntegrity();
+    expect(result.valid).toBe(false);
+    expect(result.failures.some((f) => /seal is for segment 1/.test(f.reason))).toBe(true);
+  });
+});
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { AuditLogger } from '../src/lib/logger';
+import { SqliteStorage } from '../src/lib/storage/sqlite';
+import { FileStorage } from '../src/lib/storage/file';
+import { openStorage, parseStoreUri } from '../src/lib/storage/open';
+
+const TEST_DB = path.join(__dirname, 'test-audit.db');
+
+function cleanup() {
+  for (const suffix of ['', '-wal', '-shm']) {
+    if (fs.existsSync(TEST_DB + suffix)) {
+      fs.unlinkSync(TEST_DB + suffix);
+    }
+  }
+}
+
+describe('SqliteStorage', () => {
+  let storage: SqliteStorage;
+  let logger: AuditLogger;
+
+  beforeEach(() => {
+    cleanup();
+    storage = new SqliteStorage({ filePath: TEST_DB });
+    logger = new AuditLogger(storage, { defaultOperator: 'test-user' });
+  });
+
+  afterEach(() => {
+    storage.close();
+    cleanup();
+  });
+
+  async function seed() {
+    await logger.log({
+      tool: 'finctl',
+      command: 'income w2',
+      toolVersion: '0.1.0',
+      inputs: { base: 85000 },
+      outputs: { monthlyIncome: 7083.33 },
+      rationale: 'Income',
+      loanId: 'LOAN-1',
+      compliance: { regulations: ['ECOA'], riskFlags: [], humanReviewRequired: false },
+    });
+    await logger.logDecision({
+      tool: 'decctl',
+      command: 'decide',
+      toolVersion: '0.1.0',
+      inputs: {},
+      outputs: {},
+      rationale: 'DTI too high',
+      loanId: 'LOAN-1',
+      decision: 'declined',
+      compliance: { riskFlags: ['HIGH_DTI'] },
+    });
+    await logger.log({
+      tool: 'finctl',
+      command: 'dti',
+      toolVersion: '0.1.0',
+      inputs: {},
+      outputs: {},
+      rationale: 'Other loan',
+      loanId: 'LOAN-2',
+    });
+  }
+
+  it('should chain and verify entries', async () => {
+    await seed();
+
+    const result = await storage.verifyIntegrity();
+    expect(result.valid).toBe(true);
+    expect(result.entriesChecked).toBe(3);
+  });
+
+  it('should serialize concurrent writers', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) =>
+        logger.log({
+          tool: 'test',
+          command: 'parallel',
+          toolVersion: '1.0.0',
+          inputs: { i },
+          outputs: {},
+          rationale: `Parallel ${i}`,
+        })
+      )
+    );
+
+    const result = await storage.verifyIntegrity();
+    expect(result.entriesChecked).toBe(5);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should filter on every query option', async () => {
+    await seed();
+
+    expect(await storage.count()).toBe(3);
+    expect((await storage.query({ loanId: 'LOAN-1' })).map((e) => e.command)).toEqual([
+      'income w2',
+      'decide',
+    ]);
+    expect(await storage.count({ tool: 'finctl' })).toBe(2);
+    expect(await storage.count({ command: 'dti' })).toBe(1);
+    expect(await storage.count({ operator: 'test-user' })).toBe(3);
+    expect(await storage.count({ hasRiskFlags: true })).toBe(1);
+    expect(await storage.count({ humanReviewRequired: true })).toBe(1);
+    expect(await storage.count({ startDate: '2000-01-01', endDate: '2000-12-31' })).toBe(0);
+    expect((await storage.query({ limit: 1, offset: 1 }))[0].tool).toBe('decctl');
+    expect(await storage.count({ where: 'regulations contains ECOA OR outputs.monthlyIncome > 7000' })).toBe(2);
+    expect((await storage.query({ where: 'tool = finctl', limit: 1, offset: 1 }))[0].loanId).toBe('LOAN-2');
+  });
+
+  it('should store compliance arrays in normalized tables', async () => {
+    await seed();
+
+    const db = new Database(TEST_DB, { readonly: true });
+    const regulations = db
+      .prepare('SELECT value FROM entry_regulations ORDER BY entry_seq, rowid')
+      .all()
+      .map((r: any) => r.value);
+    db.close();
+
+    expect(regulations).toEqual(['ECOA', 'ECOA', 'Reg B']);
+  });
+
+  it('should reject updates and deletes', async () => {
+    await seed();
+
+    const db = new Database(TEST_DB);
+    expect(() => db.prepare("UPDATE entries SET tool = 'x'").run()).toThrow(/append-only/);
+    expect(() => db.prepare('DELETE FROM entries').run()).toThrow(/append-only/);
+    expect(() => db.prepare('DELETE FROM entry_risk_flags').run()).toThrow(/append-only/);
+    db.close();
+
+    expect(await storage.count()).toBe(3);
+  });
+
+  it('should look up entries by ID and return the last entry', async () => {
+    await seed();
+
+    const last = await storage.getLastEntry();
+    expect(last?.loanId).toBe('LOAN-2');
+    expect((await storage.getById(last!.auditId))?.rationale).toBe('Other loan');
+    expect(await storage.getById('missing')).toBeNull();
+  });
+});
+
+describe('openStorage', () => {
+  afterEach(cleanup);
+
+  it('should parse storage URIs', () => {
+    expect(parseStoreUri('sqlite:./audit.db')).toEqual({
+      scheme: 'sqlite',
+      path: './audit.db',
+      params: {},
+    });
+    expect(parseStoreUri('sqlite://audit.db').path).toBe('audit.db');
+    expect(parseStoreUri('./audit.jsonl').scheme).toBe('file');
+    expect(parseStoreUri('segments:./logs?period=month&maxBytes=1024')).toEqual({
+      scheme: 'segments',
+      path: './logs',
+      params: { period: 'month', maxBytes: '1024' },
+    });
+    expect(() => parseStoreUri('postgres://db')).toThrow(/Unsupported/);
+  });
+
+  it('should open the backend named by the URI', () => {
+    const sqlite = openStorage({ store: `sqlite:${TEST_DB}` });
+    expect(sqlite).toBeInstanceOf(SqliteStorage);
+    (sqlite as SqliteStorage).close();
+
+    const file = openStorage({ auditFile: 'unused.jsonl', createIfMissing: false });
+    expect(file).toBeInstanceOf(FileStorage);
+
+    expect(() => openStorage({ store: 'segments:./unused?maxBytes=10MB' })).toThrow(/Invalid maxBytes "10MB"/);
+    expect(() => openStorage({ store: 'segments:./unused?maxBytes=0' })).toThrow(/Invalid maxBytes/);
+  });
+});
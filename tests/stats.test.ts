@@ -0,0 +1,78 @@
+import { computeStats, formatStatsCsv, percentile } from '../src/lib/stats';
+import { AuditEntry } from '../src/types';
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    auditId: 'a',
+    timestamp: '2026-01-15T12:00:00.000Z',
+    tool: 'decctl',
+    command: 'decide',
+    toolVersion: '1.0.0',
+    inputs: {},
+    outputs: {},
+    rationale: '',
+    warnings: [],
+    compliance: { regulations: [], riskFlags: [], humanReviewRequired: false },
+    operator: 'test',
+    ...overrides,
+  };
+}
+
+const entries = [
+  entry({ outputs: { decision: 'declined' }, durationMs: 100, warnings: ['DTI above 43%'], compliance: { regulations: ['ECOA'], riskFlags: ['HIGH_DTI', 'LOW_FICO'], humanReviewRequired: true } }),
+  entry({ outputs: { decision: 'approved' }, durationMs: 20, timestamp: '2026-01-04T23:00:00.000Z' }),
+  entry({ outputs: { decision: 'declined' }, durationMs: 60, timestamp: '2026-02-02T08:00:00.000Z', compliance: { regulations: [], riskFlags: ['HIGH_DTI'], humanReviewRequired: true } }),
+  entry({ tool: 'finctl', command: 'income w2', timestamp: '2025-12-29T10:00:00.000Z' }),
+];
+
+describe('computeStats', () => {
+  it('should report counts, duration percentiles and rates', () => {
+    const { total, groups } = computeStats(entries, { percentiles: [50, 90] });
+    expect(groups).toEqual([]);
+    expect(total).toEqual({
+      key: {},
+      count: 4,
+      duration: { count: 3, min: 20, max: 100, mean: 60, percentiles: { p50: 60, p90: 92 } },
+      decisions: 3,
+      declined: 2,
+      declineRate: 0.6667,
+      withWarnings: 1,
+      warningRate: 0.25,
+    });
+    expect(percentile([1, 2, 3, 4], 25)).toBe(1.75);
+  });
+
+  it('should group by fields, counting multi-valued fields in each group', () => {
+    const byTool = computeStats(entries, { groupBy: ['tool'] }).groups;
+    expect(byTool.map((g) => [g.key.tool, g.count, g.declineRate])).toEqual([
+      ['decctl', 3, 0.6667],
+      ['finctl', 1, null],
+    ]);
+
+    const byFlag = computeStats(entries, { groupBy: ['riskFlag', 'decision'] }).groups;
+    expect(byFlag.map((g) => [g.key.riskFlag, g.key.decision, g.count])).toEqual([
+      ['HIGH_DTI', 'declined', 2],
+      ['(none)', '(none)', 1],
+      ['(none)', 'approved', 1],
+      ['LOW_FICO', 'declined', 1],
+    ]);
+    expect(() => computeStats(entries, { groupBy: ['nope'] })).toThrow('Unknown field "nope"');
+  });
+
+  it('should bucket by UTC day, ISO week and month in time order', () => {
+    const bucket = (field: string) => computeStats(entries, { groupBy: [field] }).groups.map((g) => [g.key[field], g.count]);
+    expect(bucket('month')).toEqual([['2025-12', 1], ['2026-01', 2], ['2026-02', 1]]);
+    expect(bucket('week')).toEqual([['2026-W01', 2], ['2026-W03', 1], ['2026-W06', 1]]);
+    expect(bucket('day')[0]).toEqual(['2025-12-29', 1]);
+  });
+
+  it('should format groups and the total as CSV', () => {
+    const csv = formatStatsCsv(computeStats(entries, { groupBy: ['tool'], percentiles: [50] })).trim().split('\n');
+    expect(csv).toEqual([
+      'tool,count,decisions,declined,decline_rate,with_warnings,warning_rate,duration_count,duration_min,duration_mean,duration_p50,duration_max',
+      'decctl,3,3,2,0.6667,1,0.3333,3,20,60,60,100',
+      'finctl,1,0,0,,0,0,0,,,,',
+      '(total),4,3,2,0.6667,1,0.25,3,20,60,60,100',
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { AuditEntry } from '../src/types';
+import { buildLoanTimeline, renderTimelineHtml } from '../src/lib/timeline';
+
+describe('buildLoanTimeline', () => {
+  function entry(auditId: string, timestamp: string, extra: Partial<AuditEntry> = {}): AuditEntry {
+    return {
+      auditId,
+      timestamp,
+      tool: 'mortctl',
+      command: 'underwrite',
+      toolVersion: '1.0.0',
+      inputs: {},
+      outputs: {},
+      rationale: `Step ${auditId}`,
+      warnings: [],
+      compliance: { regulations: [], riskFlags: [], humanReviewRequired: false },
+      operator: 'underwriter',
+      loanId: 'LOAN-1',
+      ...extra,
+    };
+  }
+
+  const entries = [
+    entry('c', '2026-03-01T12:00:00Z', { parentAuditId: 'a', outputs: { decision: 'countered' }, sessionId: 's1' }),
+    entry('a', '2026-03-01T10:00:00Z', { outputs: { decision: 'referred' }, sessionId: 's1' }),
+    entry('b', '2026-03-01T11:00:00Z', {
+      parentAuditId: 'a',
+      warnings: ['DTI above 43%'],
+      compliance: { regulations: [], riskFlags: ['high-dti'], humanReviewRequired: true },
+    }),
+    entry('d', '2026-03-02T09:00:00Z', { parentAuditId: 'c', outputs: { decision: 'countered' } }),
+    entry('e', '2026-03-09T09:00:00Z', { parentAuditId: 'missing', outputs: { decision: 'approved' }, sessionId: 's2' }),
+    entry('x', '2026-03-01T10:30:00Z', { loanId: 'LOAN-2' }),
+  ];
+
+  it('should order events and build parent trees', () => {
+    const timeline = buildLoanTimeline('LOAN-1', entries);
+
+    expect(timeline.events.map((e) => e.auditId)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(timeline.events.map((e) => e.depth)).toEqual([0, 1, 1, 2, 0]);
+    expect(timeline.trees).toEqual([
+      {
+        auditId: 'a',
+        children: [
+          { auditId: 'b', children: [] },
+          { auditId: 'c', children: [{ auditId: 'd', children: [] }] },
+        ],
+      },
+      { auditId: 'e', children: [] },
+    ]);
+    expect(timeline.firstActivity).toBe('2026-03-01T10:00:00Z');
+    expect(timeline.lastActivity).toBe('2026-03-09T09:00:00Z');
+  });
+
+  it('should group sessions and record decision transitions', () => {
+    const timeline = buildLoanTimeline('LOAN-1', entries);
+
+    expect(timeline.sessions).toEqual([
+      { sessionId: 's1', auditIds: ['a', 'c'], firstActivity: '2026-03-01T10:00:00Z', lastActivity: '2026-03-01T12:00:00Z' },
+      { sessionId: 's2', auditIds: ['e'], firstActivity: '2026-03-09T09:00:00Z', lastActivity: '2026-03-09T09:00:00Z' },
+    ]);
+    // A repeated decision is not a transition
+    expect(timeline.decisions.map((d) => [d.from, d.to])).toEqual([
+      [null, 'referred'],
+      ['referred', 'countered'],
+      ['countered', 'approved'],
+    ]);
+  });
+
+  it('should report gaps, warnings and risk flags', () => {
+    const timeline = buildLoanTimeline('LOAN-1', entries);
+    expect(timeline.gaps).toEqual([
+      { afterAuditId: 'd', beforeAuditId: 'e', from: '2026-03-02T09:00:00Z', to: '2026-03-09T09:00:00Z', hours: 168 },
+    ]);
+    expect(timeline.warningCount).toBe(1);
+    expect(timeline.riskFlags).toEqual(['high-dti']);
+    expect(timeline.humanReviewCount).toBe(1);
+
+    expect(buildLoanTimeline('LOAN-1', entries, { gapHours: 12 }).gaps.map((g) => g.beforeAuditId)).toEqual(['d', 'e']);
+  });
+
+  it('should keep entries in a parent cycle', () => {
+    const timeline = buildLoanTimeline('LOAN-1', [
+      entry('p', '2026-03-01T10:00:00Z', { parentAuditId: 'q' }),
+      entry('q', '2026-03-01T11:00:00Z', { parentAuditId: 'p' }),
+    ]);
+    expect(timeline.trees.map((t) => t.auditId)).toEqual(['p', 'q']);
+  });
+
+  it('should handle long parent chains', () => {
+    const start = Date.parse('2026-03-01T00:00:00Z');
+    const chain = Array.from({ length: 20000 }, (_, i) =>
+      entry(`n${i}`, new Date(start + i * 1000).toISOString(), i > 0 ? { parentAuditId: `n${i - 1}` } : {})
+    );
+    const timeline = buildLoanTimeline('LOAN-1', chain);
+
+    expect(timeline.trees).toHaveLength(1);
+    expect(timeline.events[19999].depth).toBe(19999);
+  });
+
+  it('should render self-contained HTML with escaped content', () => {
+    const html = renderTimelineHtml(
+      buildLoanTimeline('LOAN-1', [...entries, entry('f', '2026-03-10T09:00:00Z', { rationale: '<script>alert(1)</script>' })])
+    );
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('referred &rarr; countered &rarr; approved');
+    expect(html).toContain('No activity for 168 hours');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toMatch(/<script|<link|src=/);
+  });
+});
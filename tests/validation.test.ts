@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../src/lib/storage/file';
+import { AuditLogger } from '../src/lib/logger';
+import { validateSchema } from '../src/lib/schema';
+import {
+  SchemaRegistry,
+  loadSchemaRegistry,
+  checkLoggedEntries,
+  validateEntryOptions,
+  validateLoggedEntry,
+} from '../src/lib/validation';
+import { DataKeyRing, FieldEncryptor, generateMasterKey } from '../src/lib/encryption';
+
+describe('entry validation', () => {
+  let dir: string;
+  let storage: FileStorage;
+
+  const entry = {
+    tool: 'finctl',
+    command: 'income w2',
+    toolVersion: '0.1.0',
+    inputs: { base: 85000 },
+    outputs: { monthlyIncome: 7083 },
+    rationale: 'W-2 income verified',
+  };
+
+  const registry = new SchemaRegistry([
+    {
+      tool: 'finctl',
+      command: 'income w2',
+      inputs: { type: 'object', properties: { base: { type: 'number', minimum: 0 } } },
+      outputs: {
+        type: 'object',
+        required: ['monthlyIncome'],
+        properties: { monthlyIncome: { type: 'number' } },
+      },
+    },
+  ]);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-validation-'));
+    storage = new FileStorage({ filePath: path.join(dir, 'audit.jsonl') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report every problem with a path', () => {
+    expect(validateEntryOptions(entry)).toEqual([]);
+    expect(validateEntryOptions(null)).toEqual(['must be an object (got null)']);
+    expect(
+      validateEntryOptions({
+        ...entry,
+        tool: undefined,
+        rationale: 42,
+        compliance: { riskFlags: ['ok', 3], humanReviewRequired: 'yes' },
+        durationMs: -1,
+        extra: true,
+      })
+    ).toEqual([
+      'missing required fields: tool',
+      'rationale must be a string (got number)',
+      'compliance.riskFlags[1] must be a string (got number)',
+      'compliance.humanReviewRequired must be a boolean (got string)',
+      'durationMs must be at least 0',
+      'unknown field: extra',
+    ]);
+  });
+
+  it('should apply registered command schemas to inputs and outputs', () => {
+    expect(validateEntryOptions(entry, registry)).toEqual([]);
+    expect(validateEntryOptions({ ...entry, inputs: { base: -5 }, outputs: {} }, registry)).toEqual([
+      'inputs.base must be at least 0',
+      'outputs missing required fields: monthlyIncome',
+    ]);
+    // Commands without a schema only get the base checks
+    expect(validateEntryOptions({ ...entry, command: 'income 1099', outputs: {} }, registry)).toEqual([]);
+  });
+
+  it('should reject invalid entries before they reach storage', async () => {
+    const logger = new AuditLogger(storage, { schemas: registry });
+
+    await expect(logger.log({ ...entry, outputs: {} })).rejects.toThrow(
+      'Invalid audit entry: outputs missing required fields: monthlyIncome'
+    );
+    await expect(logger.log({ ...entry, compliance: 'none' } as any)).rejects.toThrow('compliance must be an object');
+    await expect(logger.logBatch([entry, { ...entry, tool: 1 } as any])).rejects.toThrow('tool must be a string');
+    expect(await storage.count()).toBe(0);
+
+    // Decision fields are folded into outputs rather than rejected
+    const decision = await logger.logDecision({ ...entry, decision: 'approved' });
+    expect(decision.outputs.decision).toBe('approved');
+  });
+
+  it('should check logged entries, skipping encrypted fields', async () => {
+    const encryptor = new FieldEncryptor({
+      masterKey: generateMasterKey(path.join(dir, 'master.key')),
+      dataKeys: new DataKeyRing(path.join(dir, 'keys.jsonl')),
+      fields: ['outputs.monthlyIncome'],
+    });
+    const logged = await new AuditLogger(storage, { encryptor }).log(entry);
+
+    expect(validateLoggedEntry(logged, registry)).toEqual([]);
+    expect(validateLoggedEntry({ ...logged, outputs: {} }, registry)).toEqual([
+      'outputs missing required fields: monthlyIncome',
+    ]);
+
+    const result = checkLoggedEntries([logged, { ...logged, auditId: 'bad', outputs: {} }], registry);
+    expect(result.valid).toBe(false);
+    expect(result.entriesWithCommandSchema).toBe(2);
+    expect(result.failures.map((f) => f.auditId)).toEqual(['bad']);
+  });
+
+  it('should load a registry file', () => {
+    const file = path.join(dir, 'audit-schemas.json');
+    fs.writeFileSync(file, JSON.stringify({ version: '1', commands: [{ tool: 'finctl', command: 'dti' }] }));
+    expect(loadSchemaRegistry(file).lookup('finctl', 'dti')).toBeDefined();
+
+    fs.writeFileSync(file, JSON.stringify({ commands: [{ tool: 'finctl' }] }));
+    expect(() => loadSchemaRegistry(file)).toThrow('needs a tool and command');
+    expect(() => loadSchemaRegistry(path.join(dir, 'missing.json'))).toThrow('not found');
+  });
+
+  it('should validate enums and date-times', () => {
+    const schema = { type: 'object' as const, properties: { at: { type: 'string' as const, format: 'date-time' }, mode: { enum: ['a', 'b'] } } };
+    expect(validateSchema({ at: 'nope', mode: 'c' }, schema)).toEqual([
+      'at must be an ISO-8601 date-time',
+      'mode must be one of "a", "b"',
+    ]);
+  });
+
+  it('should treat inherited names such as constructor as unknown fields', () => {
+    const schema = { type: 'object' as const, properties: { a: { type: 'string' as const } }, additionalProperties: false };
+    expect(validateSchema(JSON.parse('{"constructor": 1, "toString": "x"}'), schema)).toEqual([
+      'unknown field: constructor',
+      'unknown field: toString',
+    ]);
+  });
+});
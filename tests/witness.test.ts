@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { AddressInfo } from 'net';
+import { FileStorage } from '../src/lib/storage/file';
+import { SegmentedFileStorage } from '../src/lib/storage/segmented';
+import { applyRetention } from '../src/lib/retention';
+import { AuditLogger } from '../src/lib/logger';
+import { createAnchor } from '../src/lib/anchor';
+import { FileWitness, GitWitness, Rfc3161Witness, openWitness, verifyWitnessedAnchors } from '../src/lib/witness';
+
+describe('anchor witnesses', () => {
+  let dir: string;
+  let file: string;
+  let storage: FileStorage;
+  let logger: AuditLogger;
+
+  const log = (i: number) =>
+    logger.log({ tool: 'finctl', command: 'calc', toolVersion: '1.0.0', inputs: { i }, outputs: {}, rationale: '' });
+  const head = async () => createAnchor(await storage.query({}));
+  const truncate = (keep: number) => {
+    const lines = fs.readFileSync(file, 'utf-8').trim().split('\n').slice(0, keep);
+    fs.writeFileSync(file, lines.join('\n') + '\n');
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auditctl-witness-'));
+    file = path.join(dir, 'audit.jsonl');
+    storage = new FileStorage({ filePath: file, useIndex: false });
+    logger = new AuditLogger(storage);
+    await log(0);
+    await log(1);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should chain anchors in a witness file and detect edits to it', async () => {
+    const witnessFile = path.join(dir, 'witness', 'anchors.jsonl');
+    const witness = openWitness(`file:${witnessFile}`);
+    expect(witness).toBeInstanceOf(FileWitness);
+
+    expect(await witness.publish(await head())).toBe('record 1');
+    await log(2);
+    expect(await witness.publish(await head())).toBe('record 2');
+    expect(await verifyWitnessedAnchors(await storage.query({}), [witness])).toEqual({ anchorsChecked: 2, failures: [] });
+
+    // Deleting the last log entry contradicts the second anchor
+    truncate(2);
+    const { failures } = await verifyWitnessedAnchors(await storage.query({}), [witness]);
+    expect(failures.map((f) => f.reason)).toEqual([
+      `Witness file:${witnessFile} (record 2): Log has 2 entries but the anchor recorded 3 - entries deleted or truncated`,
+    ]);
+
+    // Editing the witness itself is reported
+    const records = fs.readFileSync(witnessFile, 'utf-8').trim().split('\n');
+    fs.writeFileSync(witnessFile, records[1] + '\n');
+    expect((await witness.records()).problems).toEqual(['record 1 has been altered or records were removed before it']);
+  });
+
+  it('should commit anchors to a git repository and detect rewritten history', async () => {
+    const repo = path.join(dir, 'repo');
+    fs.mkdirSync(repo);
+    const git = (...args: string[]) => execFileSync('git', ['-C', repo, ...args], { encoding: 'utf-8' });
+    git('init', '-q');
+    git('config', 'user.name', 'Audit Witness');
+    git('config', 'user.email', 'witness@example.com');
+    git('config', 'commit.gpgsign', 'false');
+
+    const witness = new GitWitness(repo);
+    expect(await witness.publish(await head())).toMatch(/^commit [0-9a-f]+$/);
+    await log(2);
+    await witness.publish(await head());
+    expect(git('log', '--format=%s')).toContain('auditctl anchor: entry 3 head');
+
+    const records = await witness.records();
+    expect(records.problems).toEqual([]);
+    expect(records.anchors.map((a) => a.anchor.entryCount)).toEqual([2, 3]);
+    expect(records.anchors[1].reference).toMatch(/^commit [0-9a-f]+ line 2$/);
+
+    // Dropping the first anchor in a new commit is a rewrite
+    const content = fs.readFileSync(path.join(repo, 'anchors.jsonl'), 'utf-8').split('\n');
+    fs.writeFileSync(path.join(repo, 'anchors.jsonl'), content.slice(1).join('\n'));
+    expect((await witness.records()).problems).toEqual(['anchors.jsonl has uncommitted changes']);
+    git('commit', '-qam', 'tidy');
+    expect((await witness.records()).problems[0]).toMatch(/^commit [0-9a-f]+ rewrote earlier anchors in anchors.jsonl$/);
+  });
+
+  it('should time-stamp anchors with an RFC 3161 authority and verify tokens offline', async () => {
+    const tsa = path.join(dir, 'tsa');
+    fs.mkdirSync(tsa);
+    const openssl = (...args: string[]) => execFileSync('openssl', args, { cwd: tsa, stdio: 'pipe' });
+    fs.writeFileSync(
+      path.join(tsa, 'tsa.cnf'),
+      [
+        '[ tsa ]',
+        'default_tsa = tsa_config',
+        '[ tsa_config ]',
+        'serial = ./serial',
+        'signer_digest = sha256',
+        'default_policy = 1.2.3.4.1',
+        'digests = sha256',
+        'ess_cert_id_alg = sha256',
+        '[ v3_tsa ]',
+        'extendedKeyUsage = critical,timeStamping',
+        '[ v3_ca ]',
+        'basicConstraints = critical,CA:true',
+        'keyUsage = critical,keyCertSign',
+      ].join('\n')
+    );
+    fs.writeFileSync(path.join(tsa, 'serial'), '01\n');
+    const ec = ['-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:P-256', '-nodes'];
+    openssl('req', '-x509', ...ec, '-keyout', 'ca.key', '-out', 'ca.pem', '-subj', '/CN=Test CA', '-days', '1', '-extensions', 'v3_ca', '-config', 'tsa.cnf');
+    openssl('req', ...ec, '-keyout', 'tsa.key', '-out', 'tsa.csr', '-subj', '/CN=Test TSA');
+    openssl('x509', '-req', '-in', 'tsa.csr', '-CA', 'ca.pem', '-CAkey', 'ca.key', '-CAcreateserial', '-out', 'tsa.pem', '-days', '1', '-extfile', 'tsa.cnf', '-extensions', 'v3_tsa');
+
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        fs.writeFileSync(path.join(tsa, 'request.tsq'), Buffer.concat(chunks));
+        openssl('ts', '-reply', '-queryfile', 'request.tsq', '-signer', 'tsa.pem', '-inkey', 'tsa.key', '-config', 'tsa.cnf', '-out', 'response.tsr');
+        res.writeHead(200, { 'Content-Type': 'application/timestamp-reply' }).end(fs.readFileSync(path.join(tsa, 'response.tsr')));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const tokens = path.join(dir, 'tokens');
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/tsr`;
+      const witness = openWitness(`rfc3161:${tokens}?tsa=${encodeURIComponent(url)}&ca=${path.join(tsa, 'ca.pem')}`);
+      expect(witness).toBeInstanceOf(Rfc3161Witness);
+
+      const reference = await witness.publish(await head());
+      expect(reference).toMatch(/^anchor-0000000002-[0-9a-f]{12}\.tsr$/);
+      expect(await verifyWitnessedAnchors(await storage.query({}), [witness])).toEqual({ anchorsChecked: 1, failures: [] });
+
+      // Editing the anchor breaks its token
+      const anchorFile = path.join(tokens, reference.replace('.tsr', '.json'));
+      fs.writeFileSync(anchorFile, fs.readFileSync(anchorFile, 'utf-8').replace('"entryCount": 2', '"entryCount": 1'));
+      const records = await witness.records();
+      expect(records.anchors).toEqual([]);
+      expect(records.problems[0]).toMatch(/does not verify: .*imprint mismatch/);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('should keep witnessed anchors valid across retention purges', async () => {
+    const segmented = new SegmentedFileStorage({ directory: path.join(dir, 'segments'), maxBytes: 1, createIfMissing: true });
+    const segmentedLogger = new AuditLogger(segmented);
+    const witness = openWitness(`file:${path.join(dir, 'anchors.jsonl')}`);
+    for (let i = 0; i < 4; i++) {
+      await segmentedLogger.log({
+        tool: 'finctl',
+        command: 'calc',
+        toolVersion: '1.0.0',
+        inputs: { i },
+        outputs: {},
+        rationale: '',
+        compliance: { regulations: ['ECOA'] },
+      });
+      await witness.publish(createAnchor(await segmented.query({})));
+    }
+
+    const policy = { version: '1', rules: [{ regulation: 'ECOA', retain: '25 months' }] };
+    const later = new Date(Date.now() + 4 * 365 * 24 * 3600 * 1000);
+    expect((await applyRetention(segmentedLogger, segmented, policy, { asOf: later })).purgeEntry).not.toBeNull();
+    expect(await verifyWitnessedAnchors(await segmented.query({}), [witness])).toEqual({ anchorsChecked: 4, failures: [] });
+  });
+
+  it('should reject unknown witness URIs', () => {
+    expect(() => openWitness('./anchors.jsonl')).toThrow('Invalid witness "./anchors.jsonl"');
+    expect(() => openWitness('s3:bucket/anchors')).toThrow('Unsupported witness "s3"');
+  });
+});